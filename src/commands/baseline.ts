@@ -0,0 +1,99 @@
+/**
+ * `quorumux baseline` — Pinned Baseline Run
+ *
+ * Pin the run new runs are compared against (quorumux.baseline.json in the
+ * working directory). No API calls.
+ * Usage:
+ *   quorumux baseline set <run-dir | run-id> [--config <path>]
+ *   quorumux baseline show
+ *   quorumux baseline clear
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as logger from '../utils/logger.js';
+import { loadJson } from '../utils/files.js';
+import { now } from '../utils/clock.js';
+import { normalizeScore } from '../utils/scoring.js';
+import { DEFAULT_CONFIG_PATH, loadConfig } from '../config/load.js';
+import { BASELINE_FILE, baselineRunDir, clearBaseline, loadBaseline, saveBaseline } from '../config/baseline.js';
+import type { Synthesis } from '../types.js';
+
+const USAGE = 'Usage: quorumux baseline set <run-dir | run-id> [--config <path>] | baseline show | baseline clear';
+
+/** Resolve a run argument: a directory path, or a run ID inside artifactsDir */
+async function resolveRunArg(run: string, configPath: string): Promise<string> {
+  if (fs.existsSync(run) && fs.statSync(run).isDirectory()) return path.resolve(run);
+  const config = await loadConfig(configPath);
+  return path.resolve(config.artifactsDir, run);
+}
+
+export async function runBaseline(args: string[]): Promise<void> {
+  const action = args[0];
+
+  if (action === 'set') {
+    let configPath = DEFAULT_CONFIG_PATH;
+    let run: string | undefined;
+    for (let i = 1; i < args.length; i++) {
+      if (args[i] === '--config') configPath = args[++i];
+      else run ??= args[i];
+    }
+    if (!run) {
+      logger.error(USAGE);
+      process.exit(1);
+    }
+
+    try {
+      const runDir = await resolveRunArg(run, configPath);
+      const synthesisPath = path.join(runDir, 'reports', 'synthesis.json');
+      if (!fs.existsSync(synthesisPath)) {
+        throw new Error(`No synthesis.json in ${path.join(runDir, 'reports')} — only synthesized runs can be a baseline`);
+      }
+      const runId = path.basename(runDir);
+      saveBaseline({ runId, runDir: path.relative(process.cwd(), runDir) || '.', pinnedAt: now().toISOString() });
+      logger.success(`Pinned ${runId} as the baseline in ${BASELINE_FILE}`);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (action === 'show') {
+    let baseline;
+    try {
+      baseline = loadBaseline();
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+    if (!baseline) {
+      logger.log(`  No baseline pinned — run \`quorumux baseline set <run>\``);
+      return;
+    }
+
+    const runDir = baselineRunDir(baseline);
+    const synthesis = loadJson<Synthesis>(path.join(runDir, 'reports', 'synthesis.json'));
+    logger.log(`  Baseline: ${baseline.runId}`);
+    logger.log(`  Run dir:  ${runDir}`);
+    logger.log(`  Pinned:   ${baseline.pinnedAt}`);
+    if (synthesis) {
+      logger.log(`  Score:    ${normalizeScore(synthesis.overallAssessment.uxScore)}/100 (${synthesis.overallAssessment.launchReadiness})`);
+    } else {
+      logger.warn(`synthesis.json not found in ${path.join(runDir, 'reports')} — the baseline run was moved or deleted`);
+    }
+    return;
+  }
+
+  if (action === 'clear') {
+    if (clearBaseline()) {
+      logger.success(`Removed ${BASELINE_FILE}`);
+    } else {
+      logger.log(`  No baseline pinned`);
+    }
+    return;
+  }
+
+  logger.error(USAGE);
+  process.exit(1);
+}
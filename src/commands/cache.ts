@@ -0,0 +1,64 @@
+/**
+ * `quorumux cache` — Response Cache Maintenance
+ *
+ * Inspect or prune the on-disk model response cache. No API calls.
+ * Usage:
+ *   quorumux cache stats
+ *   quorumux cache prune [--older-than <days>]
+ */
+
+import * as logger from '../utils/logger.js';
+import { cacheStats, pruneCache, getCacheDir } from '../models/cache.js';
+
+const USAGE = 'Usage: quorumux cache stats | quorumux cache prune [--older-than <days>]';
+
+export async function runCache(args: string[]): Promise<void> {
+  const action = args[0];
+
+  if (action === 'stats') {
+    const stats = cacheStats();
+    logger.box(['QuorumUX — Response Cache']);
+    console.log('');
+    logger.log(`  Directory: ${getCacheDir()}`);
+    logger.log(`  Entries:   ${stats.entries}`);
+    logger.log(`  Size:      ${formatBytes(stats.bytes)}`);
+    if (stats.oldest && stats.newest) {
+      logger.log(`  Oldest:    ${stats.oldest.toISOString()}`);
+      logger.log(`  Newest:    ${stats.newest.toISOString()}`);
+    }
+    console.log('');
+    return;
+  }
+
+  if (action === 'prune') {
+    let olderThanDays: number | undefined;
+    for (let i = 1; i < args.length; i++) {
+      if (args[i] === '--older-than') {
+        olderThanDays = parseFloat(args[++i]);
+        if (isNaN(olderThanDays) || olderThanDays < 0) {
+          logger.error('--older-than must be a non-negative number of days');
+          process.exit(1);
+        }
+      } else {
+        logger.error(`Unknown option: ${args[i]}. ${USAGE}`);
+        process.exit(1);
+      }
+    }
+
+    const { removed, bytes } = pruneCache(
+      olderThanDays !== undefined ? olderThanDays * 24 * 60 * 60 * 1000 : undefined
+    );
+    const scope = olderThanDays !== undefined ? ` older than ${olderThanDays} day(s)` : '';
+    logger.success(`Removed ${removed} cache entr${removed === 1 ? 'y' : 'ies'}${scope} (${formatBytes(bytes)})`);
+    return;
+  }
+
+  logger.error(USAGE);
+  process.exit(1);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${bytes}B`;
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { checkGateOverrides, defaultGate, evaluateGate, parseGateArgs } from './gate.js';
+import { DEFAULT_TAXONOMY } from '../config/taxonomy.js';
+import type { ConsensusIssue, Synthesis } from '../types.js';
+
+function consensus(id: string, title: string, severity: string, extra: Partial<ConsensusIssue> = {}): ConsensusIssue {
+  return {
+    id, title, severity, category: 'functional', description: '', recommendation: '', effort: 'low', temporalInsight: null,
+    evidence: { screenshotModels: ['a', 'b'], videoConfirmed: false, testRunConfirmed: false, affectedPersonas: [] },
+    ...extra,
+  };
+}
+
+function makeSynthesis(uxScore: number, consensusIssues: ConsensusIssue[], launchReadiness: Synthesis['overallAssessment']['launchReadiness'] = 'ready'): Synthesis {
+  return {
+    synthesisDate: '2026-02-22',
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 3, videoAnalyses: 1, testSummaries: 2 },
+    consensusIssues,
+    videoOnlyIssues: [],
+    modelUniqueIssues: [],
+    disagreements: [],
+    overallAssessment: { uxScore, launchReadiness, topStrengths: [], criticalPath: [], temporalInsightsSummary: '' },
+  };
+}
+
+const baseline = {
+  runId: 'run-01',
+  synthesis: makeSynthesis(80, [consensus('QUX-a', 'Checkout button hidden below fold', 'P2')]),
+};
+
+describe('evaluateGate', () => {
+  it('passes when nothing got worse', () => {
+    const result = evaluateGate({ runId: 'run-02', synthesis: baseline.synthesis }, baseline, defaultGate());
+
+    expect(result.passed).toBe(true);
+    expect(result.baselineId).toBe('run-01');
+    expect(result.rules.map((r) => [r.rule, r.status])).toEqual([
+      ['failOnNewSeverities', 'pass'],
+      ['maxScoreDrop', 'pass'],
+      ['failOnRegressions', 'pass'],
+      ['failOnReadiness', 'pass'],
+    ]);
+  });
+
+  it('fails each rule that is broken and says why', () => {
+    const current = {
+      runId: 'run-02',
+      synthesis: makeSynthesis(
+        70,
+        [
+          consensus('QUX-a', 'Checkout button hidden below fold', 'P1'),
+          consensus('QUX-b', 'Payment form rejects valid cards', 'P0'),
+        ],
+        'not-ready'
+      ),
+    };
+    const result = evaluateGate(current, baseline, { ...defaultGate(), minAdjustedScore: 75 });
+
+    expect(result.passed).toBe(false);
+    expect(result.rules).toEqual([
+      { rule: 'failOnNewSeverities', status: 'fail', detail: '1 new P0 issue: "Payment form rejects valid cards"' },
+      { rule: 'maxScoreDrop', status: 'fail', detail: 'Score 80 → 70 (-10, allowed drop 5)' },
+      { rule: 'failOnRegressions', status: 'fail', detail: '1 issue got more severe: "Checkout button hidden below fold" (P2 → P1)' },
+      { rule: 'minAdjustedScore', status: 'fail', detail: 'Score 70 (minimum 75)' },
+      { rule: 'failOnReadiness', status: 'fail', detail: 'Launch readiness: not-ready' },
+    ]);
+  });
+
+  it('ignores suppressed issues and skips baseline rules without a baseline', () => {
+    const suppressed = consensus('QUX-b', 'Payment form rejects valid cards', 'P0', {
+      status: 'suppressed',
+      suppression: { reason: 'Known', matchedBy: 'QUX-b' },
+    });
+    const current = { runId: 'run-02', synthesis: makeSynthesis(80, [baseline.synthesis.consensusIssues[0], suppressed]) };
+
+    expect(evaluateGate(current, baseline, defaultGate()).passed).toBe(true);
+
+    const alone = evaluateGate(current, null, defaultGate());
+    expect(alone.passed).toBe(true);
+    expect(alone.rules.filter((r) => r.status === 'skipped').map((r) => r.rule)).toEqual([
+      'failOnNewSeverities',
+      'maxScoreDrop',
+      'failOnRegressions',
+    ]);
+  });
+});
+
+describe('parseGateArgs', () => {
+  it('turns flags into rule overrides', () => {
+    const parsed = parseGateArgs([
+      '--fail-on-new', 'P0,P1', '--max-score-drop', '3', '--fail-on-regressions',
+      '--min-adjusted-score', '70', '--fail-on-readiness', 'not-ready', '--baseline', 'run-01',
+    ]);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.baselineDir).toBe('run-01');
+    expect(parsed.overrides).toEqual({
+      failOnNewSeverities: ['P0', 'P1'],
+      maxScoreDrop: 3,
+      failOnRegressions: true,
+      minAdjustedScore: 70,
+      failOnReadiness: ['not-ready'],
+    });
+  });
+
+  it('reports bad values', () => {
+    expect(parseGateArgs(['--max-score-drop', 'lots', '--fail-on-readiness', 'soon', '--strict']).errors).toEqual([
+      '--max-score-drop must be a non-negative number',
+      '--fail-on-readiness: unknown value soon',
+      'Unknown option: --strict',
+    ]);
+  });
+});
+
+describe('checkGateOverrides', () => {
+  it('accepts severities on the run\'s scale', () => {
+    expect(checkGateOverrides({ failOnNewSeverities: ['P0', 'P1'], maxScoreDrop: 5 }, DEFAULT_TAXONOMY)).toEqual([]);
+  });
+
+  it('rejects severities and values the config would reject, named by flag', () => {
+    const taxonomy = { ...DEFAULT_TAXONOMY, severities: [{ name: 'Blocker', description: 'Stops the flow', weight: 20 }] };
+
+    expect(checkGateOverrides({ failOnNewSeverities: ['P0'], maxScoreDrop: 120 }, taxonomy)).toEqual([
+      '--fail-on-new must be a comma-separated list of: Blocker',
+      '--max-score-drop must be a number from 0 to 100',
+    ]);
+  });
+});
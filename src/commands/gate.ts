@@ -0,0 +1,324 @@
+/**
+ * `quorumux gate` — CI Quality Gate
+ *
+ * Checks the latest run against a baseline run (by default the pinned
+ * baseline, or else the run before it) with the rules from `gate` in the
+ * config, overridden by flags. Prints each rule's outcome, writes
+ * gate-result.json to the run's reports dir and exits 1 when a rule fails
+ * (2 for bad flags or config, so CI can tell the two apart). No API calls.
+ * Usage: quorumux gate [--run-dir <dir>] [--baseline <dir>] [rule flags] [--json] [--config <path>]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as logger from '../utils/logger.js';
+import { listRunDirs, loadJson } from '../utils/files.js';
+import { now } from '../utils/clock.js';
+import { calculateAdjustedScore, normalizeScore, resolveScoring } from '../utils/scoring.js';
+import { DEFAULT_CONFIG_PATH, loadConfig } from '../config/load.js';
+import { baselineRunDir, loadBaseline } from '../config/baseline.js';
+import { DEFAULT_TAXONOMY, resolveTaxonomy, severityNames } from '../config/taxonomy.js';
+import { validateGate } from '../config/validate.js';
+import { compareSyntheses } from '../pipeline/compare.js';
+import type { GateConfig, MatchingConfig, QuorumUXConfig, ScoringConfig, Synthesis, Taxonomy } from '../types.js';
+
+const USAGE =
+  'Usage: quorumux gate [--run-dir <dir>] [--baseline <dir>] [--fail-on-new <severities>] [--max-score-drop <n>] ' +
+  '[--fail-on-regressions] [--min-adjusted-score <n>] [--fail-on-readiness <values>] [--json] [--config <path>]';
+
+export const GATE_RESULT_FILE = 'gate-result.json';
+
+/** Exit code when a rule fails */
+const EXIT_GATE_FAILED = 1;
+/** Exit code when the gate can't be evaluated: bad flags, config or runs */
+const EXIT_USAGE = 2;
+
+/** Rule flag for each gate field, for flag-level error messages */
+const RULE_FLAGS: Record<keyof GateConfig, string> = {
+  failOnNewSeverities: '--fail-on-new',
+  maxScoreDrop: '--max-score-drop',
+  failOnRegressions: '--fail-on-regressions',
+  minAdjustedScore: '--min-adjusted-score',
+  failOnReadiness: '--fail-on-readiness',
+};
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface GateRuleResult {
+  rule: keyof GateConfig;
+  status: 'pass' | 'fail' | 'skipped';
+  detail: string;
+}
+
+export interface GateResult {
+  passed: boolean;
+  runId: string;
+  baselineId: string | null;
+  evaluatedAt: string;
+  rules: GateRuleResult[];
+}
+
+// ─── Rules ──────────────────────────────────────────────────────────────────
+
+/**
+ * Rules used when the config has no `gate` block: no new issues at the
+ * most severe level, a score drop of at most 5, no severity regressions,
+ * and a launch readiness other than "not-ready".
+ */
+export function defaultGate(taxonomy: Taxonomy = DEFAULT_TAXONOMY): GateConfig {
+  return {
+    failOnNewSeverities: severityNames(taxonomy).slice(0, 1),
+    maxScoreDrop: 5,
+    failOnRegressions: true,
+    failOnReadiness: ['not-ready'],
+  };
+}
+
+/** Titles for a detail line, truncated after three */
+function listTitles(issues: Array<{ title: string }>): string {
+  const titles = issues.slice(0, 3).map((i) => `"${i.title}"`);
+  if (issues.length > 3) titles.push(`and ${issues.length - 3} more`);
+  return titles.join(', ');
+}
+
+/**
+ * Evaluate gate rules for `current` against `baseline`. Rules that need a
+ * baseline are skipped without one; suppressed issues never fail a rule.
+ */
+export function evaluateGate(
+  current: { runId: string; synthesis: Synthesis },
+  baseline: { runId: string; synthesis: Synthesis } | null,
+  rules: GateConfig,
+  scoring?: ScoringConfig,
+  matching?: MatchingConfig
+): GateResult {
+  const results: GateRuleResult[] = [];
+  const diff = baseline
+    ? compareSyntheses(baseline.synthesis, current.synthesis, baseline.runId, current.runId, { synonyms: matching?.synonyms })
+    : null;
+  const skipped = (rule: keyof GateConfig): GateRuleResult => ({ rule, status: 'skipped', detail: 'No baseline run to compare against' });
+
+  if (rules.failOnNewSeverities && rules.failOnNewSeverities.length > 0) {
+    const severities = rules.failOnNewSeverities;
+    const label = severities.join('/');
+    if (!diff) {
+      results.push(skipped('failOnNewSeverities'));
+    } else {
+      const found = diff.newIssues.filter((i) => severities.includes(i.severity));
+      results.push(found.length > 0
+        ? { rule: 'failOnNewSeverities', status: 'fail', detail: `${found.length} new ${label} issue${found.length > 1 ? 's' : ''}: ${listTitles(found)}` }
+        : { rule: 'failOnNewSeverities', status: 'pass', detail: `No new ${label} issues` });
+    }
+  }
+
+  if (rules.maxScoreDrop !== undefined) {
+    if (!diff) {
+      results.push(skipped('maxScoreDrop'));
+    } else {
+      const drop = -diff.scoreDelta;
+      const sign = diff.scoreDelta >= 0 ? '+' : '';
+      results.push({
+        rule: 'maxScoreDrop',
+        status: drop > rules.maxScoreDrop ? 'fail' : 'pass',
+        detail: `Score ${diff.baselineScore} → ${diff.currentScore} (${sign}${diff.scoreDelta}, allowed drop ${rules.maxScoreDrop})`,
+      });
+    }
+  }
+
+  if (rules.failOnRegressions) {
+    if (!diff) {
+      results.push(skipped('failOnRegressions'));
+    } else {
+      const regressions = diff.regressions;
+      results.push(regressions.length > 0
+        ? {
+            rule: 'failOnRegressions',
+            status: 'fail',
+            detail: `${regressions.length} issue${regressions.length > 1 ? 's' : ''} got more severe: ` +
+              regressions.slice(0, 3).map((r) => `"${r.title}" (${r.baselineSeverity} → ${r.currentSeverity})`).join(', '),
+          }
+        : { rule: 'failOnRegressions', status: 'pass', detail: 'No severity regressions' });
+    }
+  }
+
+  if (rules.minAdjustedScore !== undefined) {
+    const synthesis = current.synthesis;
+    const adjusted = calculateAdjustedScore(synthesis, resolveScoring(scoring, synthesis.taxonomy ?? DEFAULT_TAXONOMY));
+    const score = adjusted ?? normalizeScore(synthesis.overallAssessment.uxScore);
+    results.push({
+      rule: 'minAdjustedScore',
+      status: score < rules.minAdjustedScore ? 'fail' : 'pass',
+      detail: `${adjusted !== undefined ? 'Adjusted score' : 'Score'} ${score} (minimum ${rules.minAdjustedScore})`,
+    });
+  }
+
+  if (rules.failOnReadiness && rules.failOnReadiness.length > 0) {
+    const readiness = current.synthesis.overallAssessment.launchReadiness;
+    results.push({
+      rule: 'failOnReadiness',
+      status: rules.failOnReadiness.includes(readiness) ? 'fail' : 'pass',
+      detail: `Launch readiness: ${readiness}`,
+    });
+  }
+
+  return {
+    passed: results.every((r) => r.status !== 'fail'),
+    runId: current.runId,
+    baselineId: baseline?.runId ?? null,
+    evaluatedAt: now().toISOString(),
+    rules: results,
+  };
+}
+
+/**
+ * Parse rule flags into gate overrides. Returns errors for bad values.
+ */
+export function parseGateArgs(args: string[]): {
+  overrides: GateConfig;
+  runDir?: string;
+  baselineDir?: string;
+  configPath: string;
+  json: boolean;
+  errors: string[];
+} {
+  const overrides: GateConfig = {};
+  const errors: string[] = [];
+  let runDir: string | undefined;
+  let baselineDir: string | undefined;
+  let configPath = DEFAULT_CONFIG_PATH;
+  let json = false;
+
+  const number = (flag: string, value: string | undefined): number | undefined => {
+    const n = Number(value);
+    if (value === undefined || !Number.isFinite(n) || n < 0) {
+      errors.push(`${flag} must be a non-negative number`);
+      return undefined;
+    }
+    return n;
+  };
+  const list = (value: string | undefined) => (value ?? '').split(',').map((v) => v.trim()).filter(Boolean);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--run-dir') runDir = args[++i];
+    else if (arg === '--baseline') baselineDir = args[++i];
+    else if (arg === '--config') configPath = args[++i];
+    else if (arg === '--json') json = true;
+    else if (arg === '--fail-on-new') overrides.failOnNewSeverities = list(args[++i]);
+    else if (arg === '--max-score-drop') overrides.maxScoreDrop = number(arg, args[++i]);
+    else if (arg === '--fail-on-regressions') overrides.failOnRegressions = true;
+    else if (arg === '--min-adjusted-score') overrides.minAdjustedScore = number(arg, args[++i]);
+    else if (arg === '--fail-on-readiness') {
+      const values = list(args[++i]);
+      const unknown = values.filter((v) => !['ready', 'ready-with-caveats', 'not-ready'].includes(v));
+      if (unknown.length > 0) errors.push(`--fail-on-readiness: unknown value ${unknown.join(', ')}`);
+      overrides.failOnReadiness = values as GateConfig['failOnReadiness'];
+    } else errors.push(`Unknown option: ${arg}`);
+  }
+
+  return { overrides, runDir, baselineDir, configPath, json, errors };
+}
+
+/**
+ * Check flag overrides against the same rules as the config's `gate` block,
+ * with the run's severity scale. Returns the errors, named by flag.
+ */
+export function checkGateOverrides(overrides: GateConfig, taxonomy: Taxonomy): string[] {
+  const errors: string[] = [];
+  validateGate(overrides, severityNames(taxonomy), errors);
+  return errors.map((error) =>
+    error
+      .replace(/^"gate\.(\w+)"/, (match, field: keyof GateConfig) => RULE_FLAGS[field] ?? match)
+      .replace('must be an array of', 'must be a comma-separated list of')
+  );
+}
+
+// ─── CLI handler ────────────────────────────────────────────────────────────
+
+/**
+ * CLI handler: evaluate the gate, write gate-result.json, exit 1 on failure
+ * and 2 when it can't be evaluated
+ */
+export async function runGate(args: string[]): Promise<void> {
+  const { overrides, runDir, baselineDir, configPath, json, errors } = parseGateArgs(args);
+  if (errors.length > 0) {
+    logger.error(`${errors.join('; ')}\n  ${USAGE}`);
+    process.exit(EXIT_USAGE);
+  }
+
+  let config: QuorumUXConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(EXIT_USAGE);
+  }
+
+  const runs = listRunDirs(path.resolve(config.artifactsDir))
+    .filter((dir) => fs.existsSync(path.join(dir, 'reports', 'synthesis.json')));
+  const currentDir = runDir ? path.resolve(runDir) : runs.at(-1);
+  if (!currentDir) {
+    logger.error(`No runs with a synthesis.json in ${path.resolve(config.artifactsDir)}`);
+    process.exit(EXIT_USAGE);
+  }
+  let previousDir: string | undefined;
+  try {
+    const pinned = loadBaseline();
+    previousDir = baselineDir
+      ? path.resolve(baselineDir)
+      : pinned && baselineRunDir(pinned) !== currentDir
+        ? baselineRunDir(pinned)
+        : runs.filter((dir) => path.basename(dir) < path.basename(currentDir)).at(-1);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(EXIT_USAGE);
+  }
+
+  const load = (dir: string) => {
+    const synthesisPath = path.join(dir, 'reports', 'synthesis.json');
+    const synthesis = loadJson<Synthesis>(synthesisPath);
+    if (!synthesis) {
+      logger.error(`Synthesis not found: ${synthesisPath}`);
+      process.exit(EXIT_USAGE);
+    }
+    return { runId: path.basename(dir), synthesis };
+  };
+  const current = load(currentDir);
+  const baseline = previousDir ? load(previousDir) : null;
+
+  const taxonomy = current.synthesis.taxonomy ?? resolveTaxonomy(config.taxonomy);
+  const overrideErrors = checkGateOverrides(overrides, taxonomy);
+  if (overrideErrors.length > 0) {
+    logger.error(`${overrideErrors.join('; ')}\n  ${USAGE}`);
+    process.exit(EXIT_USAGE);
+  }
+  const rules = { ...(config.gate ?? defaultGate(taxonomy)), ...overrides };
+  const result = evaluateGate(current, baseline, rules, config.scoring, config.matching);
+
+  const reportsDir = path.join(currentDir, 'reports');
+  fs.writeFileSync(path.join(reportsDir, GATE_RESULT_FILE), JSON.stringify(result, null, 2) + '\n');
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    logger.box([
+      'QuorumUX — Quality Gate',
+      '',
+      `Run:      ${result.runId}`,
+      `Baseline: ${result.baselineId ?? '(none)'}`,
+    ]);
+    console.log('');
+    for (const r of result.rules) {
+      const mark = r.status === 'pass' ? '✓' : r.status === 'fail' ? '✗' : '–';
+      logger.log(`  ${mark} ${r.rule}: ${r.detail}`);
+    }
+    console.log('');
+  }
+
+  if (!result.passed) {
+    const failed = result.rules.filter((r) => r.status === 'fail').map((r) => r.rule);
+    logger.error(`Gate failed: ${failed.join(', ')}`);
+    process.exit(EXIT_GATE_FAILED);
+  }
+  if (!json) logger.success(`Gate passed (${path.join(path.relative(process.cwd(), reportsDir), GATE_RESULT_FILE)})`);
+}
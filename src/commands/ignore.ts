@@ -0,0 +1,113 @@
+/**
+ * `quorumux ignore` — Known Issue Suppression List
+ *
+ * Edit quorumux.ignore.json in the working directory. No API calls.
+ * Usage:
+ *   quorumux ignore list
+ *   quorumux ignore add <QUX-id> | --pattern <regex>  --reason <text> [--expires <YYYY-MM-DD>]
+ *   quorumux ignore remove <QUX-id | pattern>
+ */
+
+import * as path from 'path';
+import * as logger from '../utils/logger.js';
+import { today } from '../utils/clock.js';
+import { IGNORE_FILE, loadIgnoreFile, saveIgnoreFile, validateKnownIssue } from '../config/known-issues.js';
+import type { KnownIssue } from '../types.js';
+
+const USAGE =
+  'Usage: quorumux ignore list | ignore add <QUX-id> | --pattern <regex> --reason <text> [--expires <YYYY-MM-DD>] | ignore remove <QUX-id | pattern>';
+
+const APPLY_HINT = '  Existing runs pick this up on their next report: quorumux --start-stage 4';
+
+/**
+ * Parse `ignore add` arguments into a known-issue entry. Returns the
+ * validation errors instead when the entry is incomplete.
+ */
+export function parseIgnoreEntry(args: string[]): { entry?: KnownIssue; errors: string[] } {
+  const entry: Partial<KnownIssue> = {};
+  const errors: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--pattern') entry.pattern = args[++i];
+    else if (arg === '--reason') entry.reason = args[++i];
+    else if (arg === '--expires') entry.expires = args[++i];
+    else if (!arg.startsWith('--') && entry.id === undefined) entry.id = arg;
+    else errors.push(`Unknown option: ${arg}`);
+  }
+  if (entry.id !== undefined && entry.pattern !== undefined) {
+    errors.push('Give either an issue ID or --pattern, not both');
+  }
+
+  validateKnownIssue(entry, 'entry', errors);
+  return errors.length > 0 ? { errors } : { entry: entry as KnownIssue, errors };
+}
+
+export async function runIgnore(args: string[]): Promise<void> {
+  const action = args[0];
+  const filePath = path.resolve(IGNORE_FILE);
+
+  let file;
+  try {
+    file = loadIgnoreFile(filePath);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  if (action === 'list') {
+    if (file.knownIssues.length === 0) {
+      logger.log(`  No known issues in ${IGNORE_FILE}`);
+      return;
+    }
+    const date = today();
+    for (const entry of file.knownIssues) {
+      const expiry = entry.expires
+        ? entry.expires < date ? ` (expired ${entry.expires})` : ` (until ${entry.expires})`
+        : '';
+      logger.log(`  ${entry.id ?? `/${entry.pattern}/i`} — ${entry.reason}${expiry}`);
+    }
+    return;
+  }
+
+  if (action === 'add') {
+    const { entry, errors } = parseIgnoreEntry(args.slice(1));
+    if (!entry) {
+      logger.error(`${errors.join('; ')}\n  ${USAGE}`);
+      process.exit(1);
+    }
+
+    const key = entry.id ?? entry.pattern;
+    const existing = file.knownIssues.findIndex((e) => (e.id ?? e.pattern) === key);
+    if (existing >= 0) {
+      file.knownIssues[existing] = entry;
+    } else {
+      file.knownIssues.push(entry);
+    }
+    saveIgnoreFile(filePath, file);
+    logger.success(`${existing >= 0 ? 'Updated' : 'Added'} ${key} in ${IGNORE_FILE}`);
+    logger.log(APPLY_HINT);
+    return;
+  }
+
+  if (action === 'remove') {
+    const key = args[1];
+    if (!key) {
+      logger.error(USAGE);
+      process.exit(1);
+    }
+
+    const remaining = file.knownIssues.filter((e) => e.id !== key && e.pattern !== key);
+    if (remaining.length === file.knownIssues.length) {
+      logger.error(`No known issue with ID or pattern "${key}" in ${IGNORE_FILE}`);
+      process.exit(1);
+    }
+    saveIgnoreFile(filePath, { ...file, knownIssues: remaining });
+    logger.success(`Removed ${key} from ${IGNORE_FILE}`);
+    logger.log(APPLY_HINT);
+    return;
+  }
+
+  logger.error(USAGE);
+  process.exit(1);
+}
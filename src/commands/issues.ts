@@ -0,0 +1,139 @@
+/**
+ * `quorumux issues` — Cross-Run Issue History
+ *
+ * Reads {artifactsDir}/issues-db.json, which Stage 4 updates after every
+ * run. No API calls.
+ * Usage:
+ *   quorumux issues list [--status open|resolved|suppressed|all] [--json] [--config <path>]
+ *   quorumux issues show <QUX-id> [--json] [--config <path>]
+ */
+
+import * as path from 'path';
+import * as logger from '../utils/logger.js';
+import { today } from '../utils/clock.js';
+import { loadConfig, DEFAULT_CONFIG_PATH } from '../config/load.js';
+import { resolveTaxonomy, severityRank } from '../config/taxonomy.js';
+import { ISSUES_DB_FILE, loadIssueDatabase } from '../pipeline/issues-db.js';
+import type { IssueDatabase, IssueRecord, QuorumUXConfig } from '../types.js';
+
+const USAGE =
+  'Usage: quorumux issues list [--status open|resolved|suppressed|all] [--json] | issues show <QUX-id> [--json] [--config <path>]';
+
+const STATUSES = ['open', 'resolved', 'suppressed', 'all'];
+
+/** Whole days from one YYYY-MM-DD date to another */
+export function daysBetween(from: string, to: string): number {
+  return Math.max(0, Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000));
+}
+
+/**
+ * Human-readable history of one issue. Open issues are aged up to `date`.
+ */
+export function formatIssueHistory(record: IssueRecord, db: IssueDatabase, date: string): string[] {
+  const runDate = (runId: string) => db.runs.find((r) => r.runId === runId)?.date ?? '?';
+  const runsSince = db.runs.filter((r) => r.runId >= record.firstSeen).length;
+
+  let status: string;
+  if (record.status === 'resolved') {
+    status = `resolved in ${record.resolvedIn} (${runDate(record.resolvedIn!)})`;
+  } else {
+    const since = record.openSince ?? record.firstSeen;
+    const streak = db.runs.filter((r) => r.runId >= since).length;
+    const days = daysBetween(runDate(since), date);
+    status = `${record.status} for ${days} day${days === 1 ? '' : 's'} (since ${since}, ${streak} run${streak === 1 ? '' : 's'})`;
+  }
+
+  const lines = [
+    `${record.id} — ${record.title}`,
+    `  Type:         ${record.type}`,
+    `  Status:       ${status}`,
+    `  Severity:     ${record.severity}`,
+  ];
+  if (record.aliases) {
+    lines.push(`  Reworded as:  ${record.aliases.join(', ')}`);
+  }
+  if (record.severityHistory.length > 1) {
+    lines.push(`  History:      ${record.severityHistory.map((h) => `${h.severity} in ${h.runId}`).join(' → ')}`);
+  }
+  lines.push(
+    `  First seen:   ${record.firstSeen} (${runDate(record.firstSeen)})`,
+    `  Last seen:    ${record.lastSeen} (${runDate(record.lastSeen)})`,
+    `  Occurrences:  ${record.occurrences} of ${runsSince} run${runsSince === 1 ? '' : 's'} since first seen`
+  );
+  for (const event of record.reopened) {
+    lines.push(`  Reopened:     in ${event.runId} (${runDate(event.runId)}), after being resolved in ${event.resolvedIn}`);
+  }
+  return lines;
+}
+
+export async function runIssues(args: string[]): Promise<void> {
+  const action = args[0];
+  let configPath = DEFAULT_CONFIG_PATH;
+  let status = 'open';
+  let json = false;
+  const positional: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--config') configPath = args[++i];
+    else if (arg === '--status') status = args[++i];
+    else if (arg === '--json') json = true;
+    else if (arg.startsWith('--')) {
+      logger.error(`Unknown option: ${arg}\n  ${USAGE}`);
+      process.exit(1);
+    } else positional.push(arg);
+  }
+
+  if ((action !== 'list' && action !== 'show') || !STATUSES.includes(status)) {
+    logger.error(USAGE);
+    process.exit(1);
+  }
+
+  let db: IssueDatabase | null;
+  let config: QuorumUXConfig;
+  try {
+    config = await loadConfig(configPath);
+    db = loadIssueDatabase(path.resolve(config.artifactsDir));
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+  if (!db) {
+    logger.error(`No ${ISSUES_DB_FILE} in ${path.resolve(config.artifactsDir)} — it is written after each Stage 4`);
+    process.exit(1);
+  }
+
+  if (action === 'show') {
+    const id = positional[0];
+    const record = db.issues.find((r) => r.id === id || r.aliases?.includes(id));
+    if (!id || !record) {
+      logger.error(id ? `No issue ${id} in ${ISSUES_DB_FILE}` : USAGE);
+      process.exit(1);
+    }
+    if (json) {
+      console.log(JSON.stringify(record, null, 2));
+      return;
+    }
+    formatIssueHistory(record, db, today()).forEach((line) => logger.log(line));
+    return;
+  }
+
+  const taxonomy = resolveTaxonomy(config.taxonomy);
+  const records = db.issues
+    .filter((r) => status === 'all' || r.status === status)
+    .sort((a, b) => severityRank(taxonomy, a.severity) - severityRank(taxonomy, b.severity) || a.firstSeen.localeCompare(b.firstSeen));
+
+  if (json) {
+    console.log(JSON.stringify(records, null, 2));
+    return;
+  }
+  if (records.length === 0) {
+    logger.log(`  No ${status === 'all' ? '' : `${status} `}issues in ${ISSUES_DB_FILE} (${db.runs.length} runs)`);
+    return;
+  }
+  for (const r of records) {
+    const reopened = r.reopened.length > 0 ? `, reopened ${r.reopened.length}x` : '';
+    const state = r.status === 'resolved' ? `resolved in ${r.resolvedIn}` : `${r.status} since ${r.openSince ?? r.firstSeen}`;
+    logger.log(`  ${r.id}  [${r.severity}] ${r.title} — ${state}, seen in ${r.occurrences} run${r.occurrences === 1 ? '' : 's'}${reopened}`);
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { buildTrend, renderTrendHtml, sparkline } from './trend.js';
+import type { ModelUniqueIssue, Synthesis } from '../types.js';
+
+function issue(id: string, title: string, severity = 'P1', extra: Partial<ModelUniqueIssue> = {}): ModelUniqueIssue {
+  return { id, title, reportedBy: 'gpt', severity, description: '', recommendation: '', confidence: 'high', ...extra };
+}
+
+function makeSynthesis(date: string, uxScore: number, modelUniqueIssues: ModelUniqueIssue[]): Synthesis {
+  return {
+    synthesisDate: date,
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 3, videoAnalyses: 1, testSummaries: 2 },
+    consensusIssues: [],
+    videoOnlyIssues: [],
+    modelUniqueIssues,
+    disagreements: [],
+    overallAssessment: { uxScore, launchReadiness: 'ready-with-caveats', topStrengths: [], criticalPath: [], temporalInsightsSummary: '' },
+  };
+}
+
+const runs = [
+  {
+    runId: 'run-01',
+    synthesis: makeSynthesis('2026-01-01', 6, [
+      issue('QUX-a', 'Checkout button hidden below fold'),
+      issue('QUX-b', 'Search returns stale results', 'P2'),
+    ]),
+  },
+  {
+    runId: 'run-02',
+    synthesis: makeSynthesis('2026-01-08', 70, [
+      issue('QUX-a', 'Checkout button hidden below fold', 'P0'),
+      issue('QUX-c', 'Avatar upload fails silently'),
+    ]),
+  },
+  {
+    runId: 'run-03',
+    synthesis: makeSynthesis('2026-01-15', 82, [
+      issue('QUX-a', 'Checkout button hidden below fold', 'P0'),
+      issue('QUX-c', 'Avatar upload fails silently', 'P1', { status: 'suppressed', suppression: { reason: 'x', matchedBy: 'QUX-c' } }),
+      issue('QUX-d', 'Tooltip text truncated', 'P2'),
+    ]),
+  },
+];
+
+describe('buildTrend', () => {
+  it('normalizes scores and counts severities and churn per run, setting suppressed issues aside', () => {
+    const trend = buildTrend(runs);
+
+    expect(trend.runs.map((r) => r.score)).toEqual([60, 70, 82]);
+    expect(trend.runs[0].churn).toBeUndefined();
+    expect(trend.runs[1].churn).toEqual({ new: 1, resolved: 1, persisting: 1 });
+    expect(trend.runs[2].churn).toEqual({ new: 1, resolved: 0, persisting: 1 });
+    expect(trend.runs[2].severityCounts).toEqual({ P0: 1, P1: 0, P2: 1 });
+    expect(trend.runs[2].suppressed).toBe(1);
+    expect(trend.runs[1].suppressed).toBeUndefined();
+    expect(trend.severityLevels).toEqual(['P0', 'P1', 'P2']);
+  });
+
+  it('lists the longest-lived open issues of the latest run, skipping suppressed ones', () => {
+    expect(buildTrend(runs).longestOpen).toEqual([
+      { id: 'QUX-a', title: 'Checkout button hidden below fold', severity: 'P0', firstSeen: 'run-01', runs: 3 },
+      { id: 'QUX-d', title: 'Tooltip text truncated', severity: 'P2', firstSeen: 'run-03', runs: 1 },
+    ]);
+  });
+
+  it('keeps an issue\'s age when its ID changes between runs', () => {
+    const renamed = [
+      runs[0],
+      { runId: 'run-02', synthesis: makeSynthesis('2026-01-08', 70, [issue('QUX-z', 'Checkout button hidden below fold')]) },
+    ];
+    expect(buildTrend(renamed).longestOpen[0]).toMatchObject({ id: 'QUX-z', firstSeen: 'run-01', runs: 2 });
+  });
+});
+
+describe('sparkline', () => {
+  it('scales values between the lowest and highest', () => {
+    expect(sparkline([0, 50, 100])).toBe('▁▅█');
+    expect(sparkline([70, 70])).toBe('▄▄');
+  });
+});
+
+describe('renderTrendHtml', () => {
+  it('renders a standalone page with escaped titles', () => {
+    const html = renderTrendHtml(buildTrend(runs), 'Shop <Beta>');
+
+    expect(html).toContain('<title>Shop &lt;Beta&gt; — UX Trend</title>');
+    expect(html).toContain('<polyline class="score"');
+    expect(html).toContain('<td>run-03</td>');
+    expect(html).not.toMatch(/<(script|link)\b/);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * `quorumux trend` — Multi-Run Trend
+ *
+ * Scans every run-* directory in artifactsDir and shows the score over
+ * time, severity counts per run, issue churn between consecutive runs and
+ * the longest-lived open issues. Consecutive runs are diffed with
+ * compareSyntheses, so issues are matched exactly as `compare` matches
+ * them. No API calls.
+ * Usage: quorumux trend [--last <n>] [--json] [--html <path>] [--config <path>]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as logger from '../utils/logger.js';
+import { listRunDirs, loadJson } from '../utils/files.js';
+import { escapeHtml } from '../utils/html.js';
+import { calculateAdjustedScore, resolveScoring } from '../utils/scoring.js';
+import { DEFAULT_CONFIG_PATH, loadConfig } from '../config/load.js';
+import { DEFAULT_TAXONOMY, severityRank } from '../config/taxonomy.js';
+import { isSuppressed } from '../pipeline/suppress.js';
+import { compareSyntheses } from '../pipeline/compare.js';
+import type { MatchingConfig, QuorumUXConfig, ScoringConfig, Synthesis } from '../types.js';
+
+const USAGE = 'Usage: quorumux trend [--last <n>] [--json] [--html <path>] [--config <path>]';
+
+/** Default chart location, inside artifactsDir */
+export const TREND_HTML_FILE = 'trend.html';
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface TrendRun {
+  runId: string;
+  date: string;
+  score: number;
+  /** Adjusted score (undefined if the run has no test-infra issues) */
+  adjustedScore?: number;
+  launchReadiness: string;
+  /** Unsuppressed issues by severity */
+  severityCounts: Record<string, number>;
+  /** Suppressed issues in the run, left out of the counts and churn (absent if none) */
+  suppressed?: number;
+  /** Issue changes from the previous run (absent for the first run) */
+  churn?: {
+    new: number;
+    resolved: number;
+    persisting: number;
+  };
+}
+
+export interface LongLivedIssue {
+  id: string;
+  title: string;
+  severity: string;
+  firstSeen: string;
+  /** Consecutive runs, up to the latest, the issue has been reported in */
+  runs: number;
+}
+
+export interface TrendResult {
+  runs: TrendRun[];
+  severityLevels: string[];
+  /** Open issues of the latest run, oldest first */
+  longestOpen: LongLivedIssue[];
+}
+
+// ─── Trend computation ──────────────────────────────────────────────────────
+
+/**
+ * Build the trend for runs in chronological order. Issue lineage follows
+ * compare's matches (persisting issues and reworded variants), so an issue
+ * keeps its age when its ID or title changes between runs.
+ */
+export function buildTrend(
+  runs: Array<{ runId: string; synthesis: Synthesis }>,
+  scoring?: ScoringConfig,
+  matching?: MatchingConfig,
+  limit = 5
+): TrendResult {
+  const points: TrendRun[] = [];
+  // Issue ID in the current run → index of the run it was first seen in
+  let firstSeen = new Map<string, number>();
+  let severityLevels = DEFAULT_TAXONOMY.severities.map((s) => s.name);
+
+  runs.forEach(({ runId, synthesis }, index) => {
+    const previous = index > 0 ? runs[index - 1] : undefined;
+    const diff = compareSyntheses(previous?.synthesis ?? synthesis, synthesis, previous?.runId ?? runId, runId, {
+      synonyms: matching?.synonyms,
+    });
+    severityLevels = diff.severityLevels;
+
+    const lineage = new Map<string, number>();
+    if (previous) {
+      const { suppressed } = diff;
+      for (const p of [...diff.persistingIssues, ...suppressed.persistingIssues]) {
+        lineage.set(p.currentId, firstSeen.get(p.baselineId) ?? index);
+      }
+      for (const v of [...diff.persistingVariants, ...suppressed.persistingVariants]) {
+        lineage.set(v.issue.id, firstSeen.get(v.similarTo.id) ?? index);
+      }
+    }
+    for (const issue of [...synthesis.consensusIssues, ...synthesis.videoOnlyIssues, ...synthesis.modelUniqueIssues]) {
+      if (!lineage.has(issue.id)) lineage.set(issue.id, index);
+    }
+    firstSeen = lineage;
+
+    const taxonomy = synthesis.taxonomy ?? DEFAULT_TAXONOMY;
+    const adjustedScore = calculateAdjustedScore(synthesis, resolveScoring(scoring, taxonomy));
+    const suppressedCount = [...synthesis.consensusIssues, ...synthesis.videoOnlyIssues, ...synthesis.modelUniqueIssues]
+      .filter(isSuppressed).length;
+    points.push({
+      runId,
+      date: synthesis.synthesisDate,
+      score: diff.currentScore,
+      ...(adjustedScore !== undefined ? { adjustedScore } : {}),
+      launchReadiness: synthesis.overallAssessment.launchReadiness,
+      severityCounts: diff.severityDistribution.current,
+      ...(suppressedCount > 0 ? { suppressed: suppressedCount } : {}),
+      ...(previous
+        ? {
+            churn: {
+              new: diff.newIssues.length,
+              resolved: diff.resolvedIssues.length,
+              persisting: diff.persistingIssues.length + diff.persistingVariants.length,
+            },
+          }
+        : {}),
+    });
+  });
+
+  const latest = runs.at(-1);
+  const taxonomy = latest?.synthesis.taxonomy ?? DEFAULT_TAXONOMY;
+  const longestOpen = latest
+    ? [...latest.synthesis.consensusIssues, ...latest.synthesis.videoOnlyIssues, ...latest.synthesis.modelUniqueIssues]
+        .filter((issue) => !isSuppressed(issue))
+        .map((issue) => {
+          const first = firstSeen.get(issue.id) ?? runs.length - 1;
+          return { id: issue.id, title: issue.title, severity: issue.severity, firstSeen: runs[first].runId, runs: runs.length - first };
+        })
+        .sort((a, b) => b.runs - a.runs || severityRank(taxonomy, a.severity) - severityRank(taxonomy, b.severity))
+        .slice(0, limit)
+    : [];
+
+  return { runs: points, severityLevels, longestOpen };
+}
+
+/**
+ * One block character per value, scaled between the smallest and largest
+ * value (a flat series sits mid-height)
+ */
+export function sparkline(values: number[]): string {
+  const blocks = '▁▂▃▄▅▆▇█';
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return values
+    .map((v) => blocks[max === min ? 3 : Math.round(((v - min) / (max - min)) * (blocks.length - 1))])
+    .join('');
+}
+
+// ─── HTML chart ─────────────────────────────────────────────────────────────
+
+/** SVG line chart of score (solid) and adjusted score (dashed) on a 0-100 axis */
+function renderChart(runs: TrendRun[]): string {
+  const width = 720;
+  const height = 260;
+  const pad = { top: 20, right: 20, bottom: 40, left: 40 };
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+  const x = (i: number) => pad.left + (runs.length === 1 ? plotW / 2 : (i / (runs.length - 1)) * plotW);
+  const y = (score: number) => pad.top + plotH - (score / 100) * plotH;
+
+  const parts: string[] = [];
+  for (const tick of [0, 25, 50, 75, 100]) {
+    parts.push(`<line x1="${pad.left}" x2="${width - pad.right}" y1="${y(tick)}" y2="${y(tick)}" class="grid"/>`);
+    parts.push(`<text x="${pad.left - 8}" y="${y(tick) + 4}" class="axis" text-anchor="end">${tick}</text>`);
+  }
+  runs.forEach((run, i) => {
+    parts.push(`<text x="${x(i)}" y="${height - pad.bottom + 18}" class="axis" text-anchor="middle">${escapeHtml(run.date)}</text>`);
+  });
+
+  const line = (points: Array<[number, number]>, cls: string) =>
+    points.length > 1 ? `<polyline class="${cls}" points="${points.map(([px, py]) => `${px},${py}`).join(' ')}"/>` : '';
+  const adjusted = runs.flatMap((run, i): Array<[number, number]> => (run.adjustedScore !== undefined ? [[x(i), y(run.adjustedScore)]] : []));
+  parts.push(line(adjusted, 'adjusted'));
+  parts.push(line(runs.map((run, i) => [x(i), y(run.score)]), 'score'));
+  runs.forEach((run, i) => {
+    parts.push(`<circle cx="${x(i)}" cy="${y(run.score)}" r="4" class="score"><title>${escapeHtml(run.runId)}: ${run.score}/100</title></circle>`);
+  });
+
+  return `<svg viewBox="0 0 ${width} ${height}" role="img" aria-label="UX score by run">${parts.join('')}</svg>`;
+}
+
+/**
+ * Standalone HTML page (inline CSS and SVG, no external assets) with the
+ * score chart, a per-run table and the longest-lived open issues
+ */
+export function renderTrendHtml(trend: TrendResult, projectName: string): string {
+  const levels = trend.severityLevels;
+  const rows = trend.runs.map((run) => {
+    const cells = [
+      escapeHtml(run.runId),
+      escapeHtml(run.date),
+      `${run.score}`,
+      run.adjustedScore !== undefined ? `${run.adjustedScore}` : '—',
+      escapeHtml(run.launchReadiness),
+      ...levels.map((level) => `${run.severityCounts[level] ?? 0}`),
+      run.churn ? `+${run.churn.new} / −${run.churn.resolved} / =${run.churn.persisting}` : '—',
+    ];
+    return `<tr>${cells.map((c) => `<td>${c}</td>`).join('')}</tr>`;
+  });
+  const issues = trend.longestOpen.map(
+    (issue) =>
+      `<li><code>${escapeHtml(issue.id)}</code> [${escapeHtml(issue.severity)}] ${escapeHtml(issue.title)} — ` +
+      `${issue.runs} run${issue.runs === 1 ? '' : 's'} (since ${escapeHtml(issue.firstSeen)})</li>`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(projectName)} — UX Trend</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 60rem; color: #1f2328; }
+  svg { width: 100%; height: auto; }
+  .grid { stroke: #d0d7de; stroke-width: 1; }
+  .axis { font-size: 11px; fill: #57606a; }
+  polyline { fill: none; stroke-width: 2; }
+  polyline.score { stroke: #0969da; }
+  polyline.adjusted { stroke: #8250df; stroke-dasharray: 5 4; }
+  circle.score { fill: #0969da; }
+  .legend span { margin-right: 1.5rem; font-size: 0.9rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; }
+  th { background: #f6f8fa; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(projectName)} — UX Trend</h1>
+<p class="legend"><span style="color:#0969da">● UX score</span><span style="color:#8250df">- - Adjusted score</span></p>
+${renderChart(trend.runs)}
+<h2>Runs</h2>
+<table>
+<tr>${['Run', 'Date', 'Score', 'Adjusted', 'Readiness', ...levels.map(escapeHtml), 'New / Resolved / Persisting'].map((h) => `<th>${h}</th>`).join('')}</tr>
+${rows.join('\n')}
+</table>
+<h2>Longest-Lived Open Issues</h2>
+${issues.length > 0 ? `<ul>\n${issues.join('\n')}\n</ul>` : '<p>No open issues in the latest run.</p>'}
+</body>
+</html>
+`;
+}
+
+// ─── CLI handler ────────────────────────────────────────────────────────────
+
+/**
+ * CLI handler: scan runs, print the trend and write the HTML chart
+ */
+export async function runTrend(args: string[]): Promise<void> {
+  let configPath = DEFAULT_CONFIG_PATH;
+  let last: number | undefined;
+  let json = false;
+  let htmlPath: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--config') configPath = args[++i];
+    else if (arg === '--json') json = true;
+    else if (arg === '--html') htmlPath = args[++i];
+    else if (arg === '--last') {
+      last = Number(args[++i]);
+      if (!Number.isInteger(last) || last < 1) {
+        logger.error('--last must be a positive whole number');
+        process.exit(1);
+      }
+    } else {
+      logger.error(`Unknown option: ${arg}\n  ${USAGE}`);
+      process.exit(1);
+    }
+  }
+
+  let config: QuorumUXConfig;
+  try {
+    config = await loadConfig(configPath);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const artifactsDir = path.resolve(config.artifactsDir);
+  const runs = listRunDirs(artifactsDir)
+    .map((dir) => ({ runId: path.basename(dir), synthesis: loadJson<Synthesis>(path.join(dir, 'reports', 'synthesis.json')) }))
+    .filter((r): r is { runId: string; synthesis: Synthesis } => r.synthesis !== null)
+    .slice(last !== undefined ? -last : 0);
+
+  if (runs.length === 0) {
+    logger.error(`No runs with a synthesis.json in ${artifactsDir}`);
+    process.exit(1);
+  }
+
+  const trend = buildTrend(runs, config.scoring, config.matching);
+
+  // --json writes no files unless --html asks for the chart
+  const chartPath = path.resolve(htmlPath ?? path.join(artifactsDir, TREND_HTML_FILE));
+  if (!json || htmlPath !== undefined) {
+    fs.mkdirSync(path.dirname(chartPath), { recursive: true });
+    fs.writeFileSync(chartPath, renderTrendHtml(trend, config.name));
+  }
+
+  if (json) {
+    console.log(JSON.stringify(trend, null, 2));
+    return;
+  }
+
+  const first = trend.runs[0];
+  const latest = trend.runs[trend.runs.length - 1];
+  logger.box([
+    'QuorumUX — Trend',
+    '',
+    `Runs: ${trend.runs.length} (${first.runId} → ${latest.runId})`,
+  ]);
+
+  logger.stage('Score');
+  logger.log(`  Score:    ${sparkline(trend.runs.map((r) => r.score))}  ${first.score} → ${latest.score}`);
+  const adjusted = trend.runs.filter((r) => r.adjustedScore !== undefined);
+  if (adjusted.length > 0) {
+    logger.log(`  Adjusted: ${sparkline(adjusted.map((r) => r.adjustedScore!))}  ${adjusted[0].adjustedScore} → ${adjusted[adjusted.length - 1].adjustedScore}`);
+  }
+
+  logger.stage('Runs');
+  for (const run of trend.runs) {
+    const adj = run.adjustedScore !== undefined ? ` (adj ${run.adjustedScore})` : '';
+    const counts = trend.severityLevels.map((level) => `${level}:${run.severityCounts[level] ?? 0}`).join(' ')
+      + (run.suppressed ? ` (+${run.suppressed} suppressed)` : '');
+    const churn = run.churn ? `  +${run.churn.new} new, −${run.churn.resolved} resolved, ${run.churn.persisting} persisting` : '';
+    logger.log(`  ${run.runId}  ${run.score}/100${adj}  ${counts}${churn}`);
+  }
+
+  if (trend.longestOpen.length > 0) {
+    logger.stage('Longest-Lived Open Issues');
+    for (const issue of trend.longestOpen) {
+      logger.log(`  [${issue.severity}] ${issue.title} (${issue.id}) — ${issue.runs} run${issue.runs === 1 ? '' : 's'}, since ${issue.firstSeen}`);
+    }
+  }
+
+  console.log('');
+  logger.success(`Chart: ${chartPath}`);
+}
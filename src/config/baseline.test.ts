@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BASELINE_FILE, baselineRunDir, clearBaseline, loadBaseline, saveBaseline } from './baseline.js';
+
+describe('pinned baseline', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-baseline-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves, loads and clears the baseline relative to the project dir', () => {
+    expect(loadBaseline(dir)).toBeNull();
+
+    const baseline = { runId: 'run-01', runDir: 'artifacts/run-01', pinnedAt: '2026-01-01T00:00:00.000Z' };
+    saveBaseline(baseline, dir);
+    expect(loadBaseline(dir)).toEqual(baseline);
+    expect(baselineRunDir(baseline, dir)).toBe(path.join(dir, 'artifacts', 'run-01'));
+
+    expect(clearBaseline(dir)).toBe(true);
+    expect(clearBaseline(dir)).toBe(false);
+    expect(loadBaseline(dir)).toBeNull();
+  });
+
+  it('throws on a malformed baseline file', () => {
+    fs.writeFileSync(path.join(dir, BASELINE_FILE), '{"runId": 3}');
+    expect(() => loadBaseline(dir)).toThrow('"runId" and "runDir" must be strings');
+  });
+});
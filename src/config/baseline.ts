@@ -0,0 +1,62 @@
+/**
+ * QuorumUX — Pinned Baseline
+ *
+ * A "blessed" run the project compares new runs against, stored in
+ * quorumux.baseline.json in the working directory, like artifactsDir and
+ * quorumux.ignore.json. `quorumux baseline` edits it; Stage 4 reads it for
+ * the report's "Changes Since Baseline" section, and `compare` and `gate`
+ * use it when no baseline is given.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const BASELINE_FILE = 'quorumux.baseline.json';
+
+/** Shape of quorumux.baseline.json */
+export interface PinnedBaseline {
+  /** Run directory name, e.g. run-2026-02-22T09-00 */
+  runId: string;
+  /** Run directory, relative to the directory holding quorumux.baseline.json */
+  runDir: string;
+  /** When it was pinned (ISO timestamp) */
+  pinnedAt: string;
+}
+
+/**
+ * Load the pinned baseline from `dir`. Returns null when none is pinned;
+ * throws when the file exists but is malformed.
+ */
+export function loadBaseline(dir = process.cwd()): PinnedBaseline | null {
+  const filePath = path.join(dir, BASELINE_FILE);
+  if (!fs.existsSync(filePath)) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof data?.runId !== 'string' || typeof data?.runDir !== 'string') {
+    throw new Error(`Invalid ${BASELINE_FILE}: "runId" and "runDir" must be strings`);
+  }
+  return data as PinnedBaseline;
+}
+
+/** Absolute run directory of a pinned baseline */
+export function baselineRunDir(baseline: PinnedBaseline, dir = process.cwd()): string {
+  return path.resolve(dir, baseline.runDir);
+}
+
+/** Write quorumux.baseline.json into `dir` */
+export function saveBaseline(baseline: PinnedBaseline, dir = process.cwd()): void {
+  fs.writeFileSync(path.join(dir, BASELINE_FILE), JSON.stringify(baseline, null, 2) + '\n');
+}
+
+/** Remove quorumux.baseline.json; returns false when none was pinned */
+export function clearBaseline(dir = process.cwd()): boolean {
+  const filePath = path.join(dir, BASELINE_FILE);
+  if (!fs.existsSync(filePath)) return false;
+  fs.rmSync(filePath);
+  return true;
+}
@@ -3,6 +3,7 @@
  *
  * Handles global settings that persist across projects:
  * - API key storage (env var preferred, global config as fallback)
+ * - Direct provider API keys (env var or .env only)
  * - Default model configuration
  */
 
@@ -66,8 +67,29 @@ export function resolveApiKey(): string | undefined {
   return undefined;
 }
 
-/** Read OPENROUTER_API_KEY from a dotenv file (simple parser, no deps) */
-function readEnvFile(filename: string): string | undefined {
+/**
+ * Resolve an API key for a direct model provider (e.g. ANTHROPIC_API_KEY):
+ * 1. The named env var
+ * 2. .env / .env.local in project dir
+ *
+ * Direct provider keys are never read from or written to the global config.
+ */
+export function resolveProviderApiKey(envVar: string): string | undefined {
+  if (process.env[envVar]) {
+    return process.env[envVar];
+  }
+
+  const envKey = readEnvFile('.env.local', envVar) || readEnvFile('.env', envVar);
+  if (envKey) {
+    process.env[envVar] = envKey;
+    return envKey;
+  }
+
+  return undefined;
+}
+
+/** Read an API key variable from a dotenv file (simple parser, no deps) */
+function readEnvFile(filename: string, keyName = 'OPENROUTER_API_KEY'): string | undefined {
   const filePath = path.join(process.cwd(), filename);
   if (!fs.existsSync(filePath)) return undefined;
 
@@ -79,7 +101,7 @@ function readEnvFile(filename: string): string | undefined {
 
       const eqIndex = trimmed.indexOf('=');
       const key = trimmed.slice(0, eqIndex).trim();
-      if (key === 'OPENROUTER_API_KEY') {
+      if (key === keyName) {
         let value = trimmed.slice(eqIndex + 1).trim();
         // Strip surrounding quotes
         if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
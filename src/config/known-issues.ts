@@ -0,0 +1,87 @@
+/**
+ * QuorumUX — Known Issues
+ *
+ * Accepted ("won't fix") issues come from two places: `knownIssues` in
+ * quorumux.config.ts and quorumux.ignore.json in the working directory. The
+ * ignore file is the one `quorumux ignore` edits; config entries are for
+ * teams that prefer to keep everything in one file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { KnownIssue, QuorumUXConfig } from '../types.js';
+
+export const IGNORE_FILE = 'quorumux.ignore.json';
+
+/** Shape of quorumux.ignore.json */
+export interface IgnoreFile {
+  knownIssues: KnownIssue[];
+}
+
+/**
+ * Check one known-issue entry, pushing messages for `at` (e.g. "knownIssues[2]")
+ */
+export function validateKnownIssue(entry: any, at: string, errors: string[]): void {
+  if (entry === null || typeof entry !== 'object') {
+    errors.push(`"${at}" must be an object`);
+    return;
+  }
+  if (entry.id === undefined && entry.pattern === undefined) {
+    errors.push(`"${at}" needs an "id" or a "pattern"`);
+  }
+  if (entry.id !== undefined && (typeof entry.id !== 'string' || !entry.id.startsWith('QUX-'))) {
+    errors.push(`"${at}.id" must be a QUX- issue ID`);
+  }
+  if (entry.pattern !== undefined) {
+    try {
+      new RegExp(entry.pattern, 'i');
+    } catch {
+      errors.push(`"${at}.pattern" must be a valid regular expression`);
+    }
+  }
+  if (typeof entry.reason !== 'string' || entry.reason.trim() === '') {
+    errors.push(`"${at}.reason" must be a non-empty string`);
+  }
+  if (entry.expires !== undefined && (typeof entry.expires !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.expires))) {
+    errors.push(`"${at}.expires" must be a date (YYYY-MM-DD)`);
+  }
+}
+
+/**
+ * Load quorumux.ignore.json. Returns an empty list when the file doesn't
+ * exist; throws when it exists but is malformed.
+ */
+export function loadIgnoreFile(filePath: string): IgnoreFile {
+  if (!fs.existsSync(filePath)) return { knownIssues: [] };
+
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(data?.knownIssues)) {
+    errors.push('"knownIssues" must be an array');
+  } else {
+    data.knownIssues.forEach((entry: unknown, i: number) => validateKnownIssue(entry, `knownIssues[${i}]`, errors));
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${path.basename(filePath)}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return data as IgnoreFile;
+}
+
+/** Write quorumux.ignore.json */
+export function saveIgnoreFile(filePath: string, file: IgnoreFile): void {
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2) + '\n');
+}
+
+/**
+ * All known issues for a project: config entries first, then the ignore
+ * file in `dir` (default: the working directory).
+ */
+export function loadKnownIssues(config: QuorumUXConfig, dir = process.cwd()): KnownIssue[] {
+  return [...(config.knownIssues ?? []), ...loadIgnoreFile(path.join(dir, IGNORE_FILE)).knownIssues];
+}
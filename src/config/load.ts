@@ -0,0 +1,40 @@
+/**
+ * QuorumUX — Config Loading
+ *
+ * Imports quorumux.config.ts and validates it. Shared by the pipeline CLI
+ * and the subcommands that need the project's settings (e.g. artifactsDir).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { QuorumUXConfig } from '../types.js';
+import { validateConfig } from './validate.js';
+
+export const DEFAULT_CONFIG_PATH = './quorumux.config.ts';
+
+/**
+ * Load QuorumUXConfig via dynamic import
+ */
+export async function loadConfig(configPath: string = DEFAULT_CONFIG_PATH): Promise<QuorumUXConfig> {
+  const absolutePath = path.resolve(configPath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Config file not found: ${absolutePath}\n  Run 'quorumux init' to create one.`);
+  }
+
+  try {
+    const module = await import(`file://${absolutePath}`);
+    const config = module.default || module.config;
+
+    if (!config) {
+      throw new Error('Config file must export a default export or "config" named export');
+    }
+
+    validateConfig(config);
+    return config as QuorumUXConfig;
+  } catch (error) {
+    throw new Error(
+      `Failed to load config from ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
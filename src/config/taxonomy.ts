@@ -0,0 +1,89 @@
+/**
+ * QuorumUX — Issue Taxonomy
+ *
+ * The severity scale and category list issues are classified under. The
+ * default is P0/P1/P2 with the built-in UX categories; `taxonomy` in the
+ * config replaces either part (e.g. Sev1-Sev4, or a "Compliance"
+ * category). Stage 3 records the resolved taxonomy in synthesis.json so
+ * reports and comparisons read the scale a run was produced under.
+ */
+
+import type { SeverityLevel, Taxonomy, TaxonomyConfig } from '../types.js';
+
+export const DEFAULT_SEVERITIES: SeverityLevel[] = [
+  { name: 'P0', description: 'ship blocker', weight: 10 },
+  { name: 'P1', description: 'first week', weight: 5 },
+  { name: 'P2', description: 'polish', weight: 2 },
+];
+
+export const DEFAULT_CATEGORIES = ['visual', 'functional', 'copy', 'accessibility', 'performance', 'interaction', 'layout'];
+
+export const DEFAULT_TAXONOMY: Taxonomy = { severities: DEFAULT_SEVERITIES, categories: DEFAULT_CATEGORIES };
+
+/** Fill in the default severities and categories */
+export function resolveTaxonomy(config: TaxonomyConfig = {}): Taxonomy {
+  return {
+    severities: config.severities ?? DEFAULT_SEVERITIES,
+    categories: config.categories ?? DEFAULT_CATEGORIES,
+  };
+}
+
+/** Severity names, most severe first */
+export function severityNames(taxonomy: Taxonomy): string[] {
+  return taxonomy.severities.map((level) => level.name);
+}
+
+/**
+ * Position of a severity on the scale (0 = most severe). Unknown names
+ * rank after every known level.
+ */
+export function severityRank(taxonomy: Taxonomy, severity: string): number {
+  const rank = taxonomy.severities.findIndex((level) => level.name === severity);
+  return rank === -1 ? taxonomy.severities.length : rank;
+}
+
+/** Sort comparator: most severe first */
+export function bySeverity(taxonomy: Taxonomy): (a: { severity: string }, b: { severity: string }) => number {
+  return (a, b) => severityRank(taxonomy, a.severity) - severityRank(taxonomy, b.severity);
+}
+
+/**
+ * Validate the optional taxonomy block
+ */
+export function validateTaxonomy(taxonomy: any, errors: string[]): void {
+  if (taxonomy === null || typeof taxonomy !== 'object') {
+    errors.push('"taxonomy" must be an object');
+    return;
+  }
+
+  if (taxonomy.severities !== undefined) {
+    if (!Array.isArray(taxonomy.severities) || taxonomy.severities.length === 0) {
+      errors.push('"taxonomy.severities" must be a non-empty array');
+    } else {
+      const seen = new Set<string>();
+      taxonomy.severities.forEach((level: any, i: number) => {
+        const at = `taxonomy.severities[${i}]`;
+        if (typeof level?.name !== 'string' || !/^[A-Za-z0-9_-]+$/.test(level.name)) {
+          errors.push(`"${at}.name" must be a word (letters, digits, - or _)`);
+        } else if (seen.has(level.name)) {
+          errors.push(`"${at}.name" duplicates "${level.name}"`);
+        } else {
+          seen.add(level.name);
+        }
+        if (typeof level?.description !== 'string') {
+          errors.push(`"${at}.description" must be a string`);
+        }
+        if (typeof level?.weight !== 'number' || level.weight < 0) {
+          errors.push(`"${at}.weight" must be a non-negative number`);
+        }
+      });
+    }
+  }
+
+  if (taxonomy.categories !== undefined) {
+    const categories = taxonomy.categories;
+    if (!Array.isArray(categories) || categories.length === 0 || categories.some((c: unknown) => typeof c !== 'string' || c.trim() === '')) {
+      errors.push('"taxonomy.categories" must be a non-empty array of strings');
+    }
+  }
+}
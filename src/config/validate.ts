@@ -0,0 +1,257 @@
+/**
+ * QuorumUX — Config Validation
+ *
+ * Checks a loaded quorumux.config.ts before any stage runs. Used by the CLI
+ * and by the programmatic runPipeline.
+ */
+
+import { PROVIDERS } from '../models/registry.js';
+import { QUORUM_MODES } from '../pipeline/quorum.js';
+import { validateKnownIssue } from './known-issues.js';
+import { resolveTaxonomy, severityNames, validateTaxonomy } from './taxonomy.js';
+
+/**
+ * Validate config has all required fields. Throws with all errors at once.
+ */
+export function validateConfig(config: any): void {
+  const errors: string[] = [];
+
+  for (const field of ['name', 'description', 'domain', 'appUrl', 'userJourney', 'artifactsDir'] as const) {
+    if (typeof config[field] !== 'string' || config[field].trim() === '') {
+      errors.push(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  if (!config.models) {
+    errors.push('"models" is required');
+  } else {
+    if (!Array.isArray(config.models.screenshot) || config.models.screenshot.length === 0) {
+      errors.push('"models.screenshot" must be an array with at least 1 entry');
+    } else {
+      for (let i = 0; i < config.models.screenshot.length; i++) {
+        const m = config.models.screenshot[i];
+        if (!m?.id || !m?.name) {
+          errors.push(`"models.screenshot[${i}]" must have "id" and "name"`);
+        }
+        validateProvider(m, `models.screenshot[${i}]`, errors);
+      }
+    }
+
+    if (!config.models.video?.id || !config.models.video?.name) {
+      errors.push('"models.video" must have "id" and "name"');
+    }
+    validateProvider(config.models.video, 'models.video', errors);
+
+    if (!config.models.synthesis?.id || !config.models.synthesis?.name) {
+      errors.push('"models.synthesis" must have "id" and "name"');
+    }
+    validateProvider(config.models.synthesis, 'models.synthesis', errors);
+  }
+
+  if (config.concurrency !== undefined) {
+    for (const field of ['global', 'perModel'] as const) {
+      const value = config.concurrency?.[field];
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        errors.push(`"concurrency.${field}" must be a positive integer`);
+      }
+    }
+  }
+
+  if (config.maxCostUSD !== undefined && (typeof config.maxCostUSD !== 'number' || !(config.maxCostUSD > 0))) {
+    errors.push('"maxCostUSD" must be a positive number');
+  }
+
+  if (config.retry !== undefined) {
+    for (const field of ['maxRetries', 'baseDelayMs', 'maxDelayMs'] as const) {
+      const value = config.retry?.[field];
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        errors.push(`"retry.${field}" must be a non-negative number`);
+      }
+    }
+  }
+
+  if (config.synthesisMode !== undefined && !['auto', 'single', 'map-reduce'].includes(config.synthesisMode)) {
+    errors.push('"synthesisMode" must be one of: auto, single, map-reduce');
+  }
+
+  if (config.quorum !== undefined) {
+    validateQuorum(config.quorum, errors);
+  }
+
+  let severities = severityNames(resolveTaxonomy());
+  if (config.taxonomy !== undefined) {
+    const taxonomyErrors: string[] = [];
+    validateTaxonomy(config.taxonomy, taxonomyErrors);
+    errors.push(...taxonomyErrors);
+    if (taxonomyErrors.length === 0) severities = severityNames(resolveTaxonomy(config.taxonomy));
+  }
+
+  if (config.scoring !== undefined) {
+    validateScoring(config.scoring, severities, errors);
+  }
+
+  if (config.gate !== undefined) {
+    validateGate(config.gate, severities, errors);
+  }
+
+  if (config.matching !== undefined) {
+    validateMatching(config.matching, errors);
+  }
+
+  if (config.knownIssues !== undefined) {
+    if (!Array.isArray(config.knownIssues)) {
+      errors.push('"knownIssues" must be an array');
+    } else {
+      config.knownIssues.forEach((entry: unknown, i: number) => validateKnownIssue(entry, `knownIssues[${i}]`, errors));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid quorumux.config.ts:\n  - ${errors.join('\n  - ')}`);
+  }
+}
+
+/**
+ * Validate the optional provider and capability fields of a model spec
+ */
+function validateProvider(spec: any, field: string, errors: string[]): void {
+  if (spec?.contextWindow !== undefined && (!Number.isInteger(spec.contextWindow) || spec.contextWindow < 1)) {
+    errors.push(`"${field}.contextWindow" must be a positive integer`);
+  }
+
+  if (spec?.provider === undefined) return;
+
+  if (!Object.prototype.hasOwnProperty.call(PROVIDERS, spec.provider)) {
+    errors.push(`"${field}.provider" must be one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  } else if (spec.provider === 'openai-compatible' && !spec.baseUrl) {
+    errors.push(`"${field}.baseUrl" is required for provider "openai-compatible"`);
+  }
+}
+
+/**
+ * Validate the optional quorum policy block
+ */
+function validateQuorum(quorum: any, errors: string[]): void {
+  if (quorum === null || typeof quorum !== 'object') {
+    errors.push('"quorum" must be an object');
+    return;
+  }
+
+  if (quorum.mode !== undefined && !QUORUM_MODES.includes(quorum.mode)) {
+    errors.push(`"quorum.mode" must be one of: ${QUORUM_MODES.join(', ')}`);
+  }
+  if (quorum.minModels !== undefined && (!Number.isInteger(quorum.minModels) || quorum.minModels < 1)) {
+    errors.push('"quorum.minModels" must be a positive integer');
+  }
+  if (quorum.minModelsPerPersona !== undefined && (!Number.isInteger(quorum.minModelsPerPersona) || quorum.minModelsPerPersona < 0)) {
+    errors.push('"quorum.minModelsPerPersona" must be a non-negative integer');
+  }
+  if (quorum.videoCountsAsVote !== undefined && typeof quorum.videoCountsAsVote !== 'boolean') {
+    errors.push('"quorum.videoCountsAsVote" must be a boolean');
+  }
+  if (quorum.weights !== undefined) {
+    const entries = quorum.weights && typeof quorum.weights === 'object' ? Object.entries(quorum.weights) : null;
+    if (!entries || entries.some(([, w]) => typeof w !== 'number' || w < 0)) {
+      errors.push('"quorum.weights" must map model ids or names to non-negative numbers');
+    }
+  }
+  if (quorum.mode === 'weighted' && (typeof quorum.minWeight !== 'number' || !(quorum.minWeight > 0))) {
+    errors.push('"quorum.minWeight" must be a positive number when "quorum.mode" is "weighted"');
+  }
+}
+
+/**
+ * Validate the optional quality gate rules (also used for `quorumux gate` flags)
+ */
+export function validateGate(gate: any, severities: string[], errors: string[]): void {
+  if (gate === null || typeof gate !== 'object') {
+    errors.push('"gate" must be an object');
+    return;
+  }
+
+  const lists: Array<[string, string[]]> = [
+    ['failOnNewSeverities', severities],
+    ['failOnReadiness', ['ready', 'ready-with-caveats', 'not-ready']],
+  ];
+  for (const [field, allowed] of lists) {
+    const value = gate[field];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some((v) => !allowed.includes(v))) {
+      errors.push(`"gate.${field}" must be an array of: ${allowed.join(', ')}`);
+    }
+  }
+
+  for (const field of ['maxScoreDrop', 'minAdjustedScore']) {
+    const value = gate[field];
+    if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 100)) {
+      errors.push(`"gate.${field}" must be a number from 0 to 100`);
+    }
+  }
+
+  if (gate.failOnRegressions !== undefined && typeof gate.failOnRegressions !== 'boolean') {
+    errors.push('"gate.failOnRegressions" must be true or false');
+  }
+}
+
+/**
+ * Validate the optional cross-run matching settings
+ */
+function validateMatching(matching: any, errors: string[]): void {
+  if (matching === null || typeof matching !== 'object') {
+    errors.push('"matching" must be an object');
+    return;
+  }
+
+  const synonyms = matching.synonyms;
+  if (synonyms === undefined) return;
+  if (synonyms === null || typeof synonyms !== 'object' || Array.isArray(synonyms)) {
+    errors.push('"matching.synonyms" must be an object of word → replacement');
+    return;
+  }
+  for (const [word, replacement] of Object.entries(synonyms)) {
+    if (!/^[\p{L}\p{N}-]+$/u.test(word)) {
+      errors.push(`"matching.synonyms" key "${word}" must be a single word`);
+    }
+    if (typeof replacement !== 'string' || replacement.trim() === '') {
+      errors.push(`"matching.synonyms.${word}" must be a non-empty string`);
+    }
+  }
+}
+
+/**
+ * Validate the optional scoring weights block
+ */
+function validateScoring(scoring: any, severities: string[], errors: string[]): void {
+  if (scoring === null || typeof scoring !== 'object') {
+    errors.push('"scoring" must be an object');
+    return;
+  }
+
+  const maps: Array<[string, string[]]> = [
+    ['severityWeights', severities],
+    ['evidenceWeights', ['consensus', 'videoOnly', 'modelUnique']],
+    ['testResultWeights', ['fail', 'friction']],
+  ];
+  for (const [field, keys] of maps) {
+    const value = scoring[field];
+    if (value === undefined) continue;
+    if (value === null || typeof value !== 'object') {
+      errors.push(`"scoring.${field}" must be an object`);
+      continue;
+    }
+    for (const [key, weight] of Object.entries(value)) {
+      if (!keys.includes(key)) {
+        errors.push(`"scoring.${field}.${key}" is not a known key (expected ${keys.join(', ')})`);
+      } else if (typeof weight !== 'number' || weight < 0) {
+        errors.push(`"scoring.${field}.${key}" must be a non-negative number`);
+      }
+    }
+  }
+
+  for (const field of ['personaWeight', 'testInfraDiscount']) {
+    const value = scoring[field];
+    if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 1)) {
+      errors.push(`"scoring.${field}" must be a number from 0 to 1`);
+    }
+  }
+}
@@ -65,6 +65,46 @@ describe('parseArgs', () => {
     expect(parseArgs(['-v']).version).toBe(true);
   });
 
+  it('parses --no-cache and --refresh-cache', () => {
+    expect(parseArgs(['--no-cache']).noCache).toBe(true);
+    expect(parseArgs(['--refresh-cache']).refreshCache).toBe(true);
+  });
+
+  it('parses --record and --replay', () => {
+    expect(parseArgs(['--record']).record).toBe(true);
+    expect(parseArgs(['--replay', 'run/cassette.json']).replay).toBe('run/cassette.json');
+  });
+
+  it('parses --stages and --only', () => {
+    expect(parseArgs(['--stages', '2,4']).stages).toEqual(['2', '4']);
+    expect(parseArgs(['--only', '2b']).stages).toEqual(['2b']);
+  });
+
+  it('rejects --stages with --start-stage', () => {
+    expect(() => parseArgs(['--stages', '3', '--start-stage', '2'])).toThrow('cannot be combined with --start-stage');
+  });
+
+  it('rejects --skip-video when Stage 2b is selected', () => {
+    expect(() => parseArgs(['--only', '2b', '--skip-video'])).toThrow('--skip-video conflicts with selecting Stage 2b');
+  });
+
+  it('parses --resume', () => {
+    expect(parseArgs(['--resume']).resume).toBe(true);
+  });
+
+  it('parses --budget', () => {
+    expect(parseArgs(['--budget', '2.5']).budget).toBe(2.5);
+  });
+
+  it('rejects a non-positive --budget', () => {
+    expect(() => parseArgs(['--budget', '0'])).toThrow('--budget must be a positive amount in USD');
+    expect(() => parseArgs(['--budget', 'lots'])).toThrow('--budget must be a positive amount in USD');
+  });
+
+  it('rejects --record with --replay', () => {
+    expect(() => parseArgs(['--record', '--replay', 'c.json'])).toThrow('--record and --replay cannot be used together');
+  });
+
   it('throws on unknown option', () => {
     expect(() => parseArgs(['--bogus'])).toThrow('Unknown option: --bogus');
   });
@@ -164,6 +204,112 @@ describe('validateConfig', () => {
     }
   });
 
+  it('accepts a known provider', () => {
+    const config = validConfig();
+    (config.models.screenshot[0] as any).provider = 'anthropic';
+    expect(() => validateConfig(config)).not.toThrow();
+  });
+
+  it('rejects an unknown provider', () => {
+    const config = validConfig();
+    (config.models.video as any).provider = 'bogus';
+    expect(() => validateConfig(config)).toThrow('"models.video.provider" must be one of');
+  });
+
+  it('requires baseUrl for openai-compatible', () => {
+    const config = validConfig();
+    (config.models.synthesis as any).provider = 'openai-compatible';
+    expect(() => validateConfig(config)).toThrow('"models.synthesis.baseUrl" is required');
+  });
+
+  it('rejects a non-positive maxCostUSD', () => {
+    const config = { ...validConfig(), maxCostUSD: -1 };
+    expect(() => validateConfig(config)).toThrow('"maxCostUSD" must be a positive number');
+  });
+
+  it('rejects non-positive concurrency limits', () => {
+    const config = { ...validConfig(), concurrency: { global: 0 } };
+    expect(() => validateConfig(config)).toThrow('"concurrency.global" must be a positive integer');
+  });
+
+  it('rejects an unknown synthesisMode and a bad contextWindow', () => {
+    const base = validConfig();
+    const config = {
+      ...base,
+      synthesisMode: 'chunked',
+      models: { ...base.models, synthesis: { ...base.models.synthesis, contextWindow: 0 } },
+    };
+    expect(() => validateConfig(config)).toThrow('"models.synthesis.contextWindow" must be a positive integer');
+    expect(() => validateConfig(config)).toThrow('"synthesisMode" must be one of: auto, single, map-reduce');
+  });
+
+  it('rejects an unknown quorum mode', () => {
+    const config = { ...validConfig(), quorum: { mode: 'plurality' } };
+    expect(() => validateConfig(config)).toThrow('"quorum.mode" must be one of: min-models, majority, unanimous, weighted');
+  });
+
+  it('requires minWeight for a weighted quorum', () => {
+    const config = { ...validConfig(), quorum: { mode: 'weighted', weights: { claude: 2 } } };
+    expect(() => validateConfig(config)).toThrow('"quorum.minWeight" must be a positive number');
+  });
+
+  it('rejects unknown or negative scoring weights', () => {
+    const config = { ...validConfig(), scoring: { severityWeights: { P3: 1 }, personaWeight: 2 } };
+    expect(() => validateConfig(config)).toThrow('"scoring.severityWeights.P3" is not a known key (expected P0, P1, P2)');
+    expect(() => validateConfig(config)).toThrow('"scoring.personaWeight" must be a number from 0 to 1');
+  });
+
+  it('accepts a custom taxonomy and checks severity weights against it', () => {
+    const taxonomy = {
+      severities: [
+        { name: 'Sev1', description: 'outage', weight: 10 },
+        { name: 'Sev2', description: 'major', weight: 5 },
+      ],
+      categories: ['functional', 'Compliance'],
+    };
+    expect(() => validateConfig({ ...validConfig(), taxonomy, scoring: { severityWeights: { Sev1: 20 } } })).not.toThrow();
+    expect(() => validateConfig({ ...validConfig(), taxonomy, scoring: { severityWeights: { P0: 20 } } })).toThrow(
+      '"scoring.severityWeights.P0" is not a known key (expected Sev1, Sev2)'
+    );
+  });
+
+  it('rejects a malformed taxonomy', () => {
+    const config = {
+      ...validConfig(),
+      taxonomy: { severities: [{ name: 'Sev 1', description: 'x', weight: 1 }, { name: 'Sev2', weight: -1 }], categories: [] },
+    };
+    expect(() => validateConfig(config)).toThrow('"taxonomy.severities[0].name" must be a word (letters, digits, - or _)');
+    expect(() => validateConfig(config)).toThrow('"taxonomy.severities[1].description" must be a string');
+    expect(() => validateConfig(config)).toThrow('"taxonomy.severities[1].weight" must be a non-negative number');
+    expect(() => validateConfig(config)).toThrow('"taxonomy.categories" must be a non-empty array of strings');
+  });
+
+  it('checks gate rules against the severity scale', () => {
+    expect(() => validateConfig({ ...validConfig(), gate: { failOnNewSeverities: ['P0'], maxScoreDrop: 5 } })).not.toThrow();
+    const config = { ...validConfig(), gate: { failOnNewSeverities: ['Sev1'], minAdjustedScore: 170, failOnReadiness: ['blocked'] } };
+    expect(() => validateConfig(config)).toThrow('"gate.failOnNewSeverities" must be an array of: P0, P1, P2');
+    expect(() => validateConfig(config)).toThrow('"gate.minAdjustedScore" must be a number from 0 to 100');
+    expect(() => validateConfig(config)).toThrow('"gate.failOnReadiness" must be an array of: ready, ready-with-caveats, not-ready');
+  });
+
+  it('checks matching synonyms', () => {
+    expect(() => validateConfig({ ...validConfig(), matching: { synonyms: { paywall: 'upgrade prompt' } } })).not.toThrow();
+    const config = { ...validConfig(), matching: { synonyms: { 'sign up': 'register', cta: '' } } };
+    expect(() => validateConfig(config)).toThrow('"matching.synonyms" key "sign up" must be a single word');
+    expect(() => validateConfig(config)).toThrow('"matching.synonyms.cta" must be a non-empty string');
+  });
+
+  it('requires an id or pattern and a reason for known issues', () => {
+    const config = { ...validConfig(), knownIssues: [{ pattern: '(', reason: 'x' }, { reason: '' }] };
+    expect(() => validateConfig(config)).toThrow('"knownIssues[0].pattern" must be a valid regular expression');
+    expect(() => validateConfig(config)).toThrow('"knownIssues[1]" needs an "id" or a "pattern"');
+  });
+
+  it('rejects negative retry settings', () => {
+    const config = { ...validConfig(), retry: { maxRetries: -1 } };
+    expect(() => validateConfig(config)).toThrow('"retry.maxRetries" must be a non-negative number');
+  });
+
   it('tolerates extra fields', () => {
     const config = { ...validConfig(), extraField: 'hello', another: 42 };
     expect(() => validateConfig(config)).not.toThrow();
@@ -5,9 +5,16 @@
  * Subcommands:
  *   init        Interactive project setup wizard
  *   run [opts]  Run the analysis pipeline (default)
+ *   cache       Inspect or prune the response cache
+ *   ignore      Edit the known-issue suppression list
+ *   issues      Show issue history across runs
+ *   trend       Score and issue trend across all runs
+ *   gate        CI quality gate (exits 1 when a rule fails, 2 on bad flags or config)
+ *   baseline    Pin the run new runs are compared against
  *   --help      Show help
  *
- * Orchestrates the 4-stage UX analysis pipeline:
+ * Runs the 4-stage UX analysis pipeline (src/pipeline/run.ts, also exported
+ * as the programmatic runPipeline):
  * Stage 1: Extract frames and generate grids from videos
  * Stage 2: Analyze screenshots with multiple AI models
  * Stage 2b: Analyze videos for temporal insights (parallel with Stage 2)
@@ -18,7 +25,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'node:url';
-import { QuorumUXConfig, PipelineOptions } from './types.js';
+import { QuorumUXConfig, PipelineOptions, PipelineResult, PipelineStage } from './types.js';
 
 // Read package version once at module load
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -26,18 +33,44 @@ const PKG_VERSION: string = JSON.parse(
   fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')
 ).version;
 
-// Public type re-exports for consumers of the npm package
-export type { QuorumUXConfig, ModelConfig, ModelSpec, VideoConfig, PersonaArchetype } from './types.js';
-import * as logger from './utils/logger.js';
-import { CostTracker, getPricing } from './utils/costs.js';
-import { resolveApiKey } from './config/global.js';
+// Public API for consumers of the npm package
+export type {
+  QuorumUXConfig,
+  ModelConfig,
+  ModelSpec,
+  ModelProviderName,
+  VideoConfig,
+  KnownIssue,
+  GateConfig,
+  MatchingConfig,
+  TaxonomyConfig,
+  SeverityLevel,
+  IssueDatabase,
+  IssueRecord,
+  PersonaArchetype,
+  PipelineStage,
+  PipelineResult,
+  CostBreakdown,
+  StageCost,
+  ReportPaths,
+  PipelineEventMap,
+  StageStartEvent,
+  StageEndEvent,
+  CallCompleteEvent,
+  IssueFoundEvent,
+} from './types.js';
+export { runPipeline } from './pipeline/run.js';
+export type { RunPipelineOptions } from './pipeline/run.js';
+export { PipelineEvents } from './pipeline/events.js';
+export { validateConfig } from './config/validate.js';
 
-// Import stage implementations
-import { extractFrames } from './pipeline/extract-frames.js';
-import { analyzeScreenshots } from './pipeline/analyze.js';
-import { analyzeVideos } from './pipeline/analyze-video.js';
-import { synthesize } from './pipeline/synthesize.js';
-import { generateReport } from './pipeline/report.js';
+import * as logger from './utils/logger.js';
+import { CostTracker, getPricing, synthesisCallsLine } from './utils/costs.js';
+import { DEFAULT_CONFIG_PATH, loadConfig } from './config/load.js';
+import { runPipeline, resolveRunDir } from './pipeline/run.js';
+import { loadPipelineState, PIPELINE_STATE_FILE } from './pipeline/state.js';
+import { checkStageInputs, formatStages, parseStageList, resolveStages } from './pipeline/stages.js';
+import { planSynthesisCalls } from './pipeline/synthesize.js';
 
 /**
  * Main CLI entry point — detect subcommand then dispatch
@@ -65,15 +98,51 @@ async function main(): Promise<void> {
     return;
   }
 
+  if (subcommand === 'cache') {
+    const { runCache } = await import('./commands/cache.js');
+    await runCache(args.slice(1));
+    return;
+  }
+
+  if (subcommand === 'ignore') {
+    const { runIgnore } = await import('./commands/ignore.js');
+    await runIgnore(args.slice(1));
+    return;
+  }
+
+  if (subcommand === 'issues') {
+    const { runIssues } = await import('./commands/issues.js');
+    await runIssues(args.slice(1));
+    return;
+  }
+
+  if (subcommand === 'trend') {
+    const { runTrend } = await import('./commands/trend.js');
+    await runTrend(args.slice(1));
+    return;
+  }
+
+  if (subcommand === 'gate') {
+    const { runGate } = await import('./commands/gate.js');
+    await runGate(args.slice(1));
+    return;
+  }
+
+  if (subcommand === 'baseline') {
+    const { runBaseline } = await import('./commands/baseline.js');
+    await runBaseline(args.slice(1));
+    return;
+  }
+
   // "run" is explicit but optional — strip it so parseArgs sees only flags
   const runArgs = subcommand === 'run' ? args.slice(1) : args;
-  await runPipeline(runArgs);
+  await runCli(runArgs);
 }
 
 /**
- * Run the analysis pipeline (original behavior)
+ * Run the analysis pipeline from CLI flags
  */
-async function runPipeline(args: string[]): Promise<void> {
+async function runCli(args: string[]): Promise<void> {
   try {
     const options = parseArgs(args);
 
@@ -95,67 +164,24 @@ async function runPipeline(args: string[]): Promise<void> {
     const config = await loadConfig(options.config);
     logger.debug(`Loaded config from ${options.config}`);
 
-    // Resolve run directory
-    const runDir = resolveRunDir(options.runDir || '', config);
-    logger.log(`Run directory: ${runDir}`);
-
     // Dry run mode
     if (options.dryRun) {
+      const runDir = resolveRunDir(options.runDir || '', config);
+      logger.log(`Run directory: ${runDir}`);
       dryRun(config, runDir, options);
       return;
     }
 
-    // Validate API key using resolution chain
-    const apiKey = resolveApiKey();
-    if (!apiKey) {
-      logger.error(
-        'No OpenRouter API key found.\n' +
-          '  Set OPENROUTER_API_KEY env var, add it to .env, or run `quorumux init` to configure.'
-      );
-      process.exit(1);
-    }
-
-    const startStage = options.startStage || 1;
-    const tracker = new CostTracker();
-    const pipelineStart = Date.now();
-
-    logger.box([
-      `QuorumUX UX Analysis Pipeline`,
-      `Project: ${config.name}`,
-      `Run: ${path.basename(runDir)}`,
-      `Starting from stage ${startStage}`,
-    ]);
-
-    // Execute stages
-    if (startStage <= 1) {
-      tracker.stageStart('Stage 1');
-      await extractFrames(config, runDir);
-      tracker.stageEnd('Stage 1');
-    }
-
-    if (startStage <= 2) {
-      // Stage 2 and 2b run in parallel
-      const screenshotPromise = analyzeScreenshots(config, runDir, tracker);
-      const videoPromise = !options.skipVideo
-        ? analyzeVideos(config, runDir, tracker)
-        : Promise.resolve();
-
-      await Promise.all([screenshotPromise, videoPromise]);
-    }
+    const result = await runPipeline(config, options);
 
-    if (startStage <= 3) {
-      await synthesize(config, runDir, tracker);
+    if (result.status === 'stopped') {
+      printBudgetStop(config, result);
+      process.exit(1);
     }
 
-    if (startStage <= 4) {
-      tracker.stageStart('Stage 4');
-      await generateReport(config, runDir, options.outputDir);
-      tracker.stageEnd('Stage 4');
+    if (result.stages.length > 0) {
+      printSummary(config, result);
     }
-
-    // Print summary
-    const elapsed = ((Date.now() - pipelineStart) / 1000).toFixed(1);
-    printSummary(config, runDir, tracker, elapsed, options.outputDir);
   } catch (error) {
     logger.error(error instanceof Error ? error.message : String(error));
     process.exit(1);
@@ -173,7 +199,9 @@ function dryRun(config: QuorumUXConfig, runDir: string, options: PipelineOptions
     `Run: ${path.basename(runDir)}`,
   ]);
 
-  const startStage = options.startStage || 1;
+  const resumeState = options.resume ? loadPipelineState(runDir) : null;
+  const stages = resolveStages({ ...options, startStage: options.startStage || resumeState?.resumeStage || 1 });
+  const runs = (stage: PipelineStage) => stages.includes(stage);
 
   // Scan artifacts
   const gridsDir = path.join(runDir, 'grids');
@@ -239,21 +267,41 @@ function dryRun(config: QuorumUXConfig, runDir: string, options: PipelineOptions
   // Print artifact inventory
   logger.stage('Artifact Inventory');
   logger.log(`  Screenshots: ${screenshotCount} files across ${screenshotPersonas} personas`);
-  logger.log(`  Grids: ${gridCount} (${gridCount === 0 && startStage <= 1 ? 'will be generated in Stage 1' : 'ready'})`);
+  logger.log(`  Grids: ${gridCount} (${gridCount === 0 && runs('1') ? 'will be generated in Stage 1' : 'ready'})`);
   logger.log(`  Videos: ${videoCount} eligible (${videoTotalMB.toFixed(0)}MB total)${videoSkipped > 0 ? `, ${videoSkipped} over size limit` : ''}`);
   logger.log(`  Summaries: ${summaryCount} persona summaries`);
   logger.log(`  Executive summary: ${hasExecSummary ? 'yes' : 'no'}`);
   logger.log('');
 
-  if (hasScreenshotAnalyses) logger.log(`  Existing screenshot analyses: yes (will be overwritten if running Stage 2)`);
-  if (hasVideoAnalyses) logger.log(`  Existing video analyses: yes (will be overwritten if running Stage 2b)`);
-  if (hasSynthesis) logger.log(`  Existing synthesis: yes (will be overwritten if running Stage 3)`);
+  const fate = (stage: PipelineStage) =>
+    !runs(stage) ? 'kept' : options.resume && stage !== '3' ? `merged by Stage ${stage}` : `overwritten by Stage ${stage}`;
+  if (hasScreenshotAnalyses) logger.log(`  Existing screenshot analyses: yes (${fate('2')})`);
+  if (hasVideoAnalyses) logger.log(`  Existing video analyses: yes (${fate('2b')})`);
+  if (hasSynthesis) logger.log(`  Existing synthesis: yes (${fate('3')})`);
   if (hasScreenshotAnalyses || hasVideoAnalyses || hasSynthesis) logger.log('');
 
+  if (options.resume) {
+    logger.log(
+      resumeState
+        ? `  Resume: ${resumeState.completed.screenshots.length} screenshot and ` +
+            `${resumeState.completed.videos.length} video analyses are done and will be skipped (estimate below covers all units)`
+        : `  Resume: no ${PIPELINE_STATE_FILE} found — nothing to resume`
+    );
+    logger.log('');
+  }
+
   // Print pipeline plan
   logger.stage('Pipeline Plan');
+  logger.log(`  Stages: ${formatStages(stages)}`);
+  logger.log('');
 
-  if (startStage <= 1) {
+  const missingInputs = checkStageInputs(stages, runDir, !!options.stages);
+  for (const problem of missingInputs) {
+    logger.warn(problem);
+  }
+  if (missingInputs.length > 0) logger.log('');
+
+  if (runs('1')) {
     logger.log(`  Stage 1: Extract frames & generate grids`);
     logger.log(`    ${screenshotPersonas} personas → ${screenshotPersonas} grids`);
     logger.log(`    ${videoCount} videos → frame extraction at ${config.video?.frameRate ?? 1}fps`);
@@ -263,37 +311,70 @@ function dryRun(config: QuorumUXConfig, runDir: string, options: PipelineOptions
   // Use grid count for API call estimation; if no grids yet, use screenshot persona count
   const effectiveGridCount = gridCount > 0 ? gridCount : screenshotPersonas;
 
-  if (startStage <= 2) {
+  // Stage 3 makes one call per persona plus a merge when it synthesizes map-reduce
+  const synthesisPlan = planSynthesisCalls(
+    config,
+    screenshotPersonas,
+    CostTracker.estimateAnalysisTokens(effectiveGridCount * config.models.screenshot.length, videoCount)
+  );
+
+  let estimatedCost = 0;
+  if (runs('2') || runs('2b')) {
     // Print cost estimate
+    const include = { screenshot: runs('2'), synthesis: runs('3'), synthesisCalls: synthesisPlan.calls };
+    estimatedCost = CostTracker.estimateDryRunTotal(
+      config.models.screenshot,
+      config.models.video,
+      config.models.synthesis,
+      effectiveGridCount,
+      videoCount,
+      !runs('2b'),
+      include
+    );
     const estimateLines = CostTracker.estimateDryRun(
       config.models.screenshot,
       config.models.video,
       config.models.synthesis,
       effectiveGridCount,
       videoCount,
-      !!options.skipVideo
+      !runs('2b'),
+      include
     );
     for (const line of estimateLines) {
       logger.log(`  ${line}`);
     }
-  } else if (startStage >= 3) {
+  } else if (runs('3')) {
+    estimatedCost = CostTracker.estimateSynthesis(config.models.synthesis, synthesisPlan.calls);
     const sp = getPricingDisplay(config.models.synthesis.id);
     logger.log(`  Stage 3 — Synthesis`);
-    logger.log(`    1 API call`);
+    logger.log(`  ${synthesisCallsLine(synthesisPlan.calls)}`);
     logger.log(`    ${config.models.synthesis.name} (${config.models.synthesis.id}) — ${sp}`);
     logger.log(`    Input: ${hasScreenshotAnalyses ? 'existing' : 'missing'} screenshot analyses + ${hasVideoAnalyses ? 'existing' : 'missing'} video analyses`);
-    logger.log(`    Estimated cost: ~$1.20`);
+    logger.log(`    Estimated cost: ~$${estimatedCost.toFixed(4)}`);
   }
 
-  if (startStage <= 4) {
+  if (runs('4')) {
     logger.log('');
     logger.log(`  Stage 4: Report generation (no API calls)`);
-    logger.log(`    Output: ux-analysis-report.md + github-issues.md + ux-analysis-report.json`);
+    logger.log(`    Output: ux-analysis-report.md + .html + .json, github-issues.md`);
     if (options.outputDir) {
       logger.log(`    Output dir: ${options.outputDir}`);
     }
   }
 
+  const maxCostUSD = options.budget ?? config.maxCostUSD;
+  if (maxCostUSD !== undefined) {
+    logger.log('');
+    if (estimatedCost > maxCostUSD) {
+      logger.warn(
+        `Estimated cost ~$${estimatedCost.toFixed(4)} exceeds the $${maxCostUSD.toFixed(2)} budget — ` +
+          'the run will stop early with partial results'
+      );
+    } else {
+      logger.log(`  Budget: $${maxCostUSD.toFixed(2)} (estimate ~$${estimatedCost.toFixed(4)} fits)`);
+    }
+  }
+
   logger.log('');
   logger.log('  Run without --dry-run to execute.');
 }
@@ -303,7 +384,7 @@ function dryRun(config: QuorumUXConfig, runDir: string, options: PipelineOptions
  */
 export function parseArgs(args: string[]): PipelineOptions & { help?: boolean; version?: boolean } {
   const options: any = {
-    config: './quorumux.config.ts',
+    config: DEFAULT_CONFIG_PATH,
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -322,6 +403,8 @@ export function parseArgs(args: string[]): PipelineOptions & { help?: boolean; v
       if (isNaN(options.startStage) || options.startStage < 1 || options.startStage > 4) {
         throw new Error('--start-stage must be 1, 2, 3, or 4');
       }
+    } else if (arg === '--stages' || arg === '--only') {
+      options.stages = parseStageList(args[++i], arg);
     } else if (arg === '--skip-video') {
       options.skipVideo = true;
     } else if (arg === '--verbose') {
@@ -330,117 +413,42 @@ export function parseArgs(args: string[]): PipelineOptions & { help?: boolean; v
       options.dryRun = true;
     } else if (arg === '--output-dir') {
       options.outputDir = args[++i];
+    } else if (arg === '--no-cache') {
+      options.noCache = true;
+    } else if (arg === '--refresh-cache') {
+      options.refreshCache = true;
+    } else if (arg === '--record') {
+      options.record = true;
+    } else if (arg === '--resume') {
+      options.resume = true;
+    } else if (arg === '--budget') {
+      options.budget = parseFloat(args[++i]);
+      if (isNaN(options.budget) || options.budget <= 0) {
+        throw new Error('--budget must be a positive amount in USD');
+      }
+    } else if (arg === '--replay') {
+      options.replay = args[++i];
+      if (!options.replay) {
+        throw new Error('--replay requires a cassette path');
+      }
     } else {
       throw new Error(`Unknown option: ${arg}. Run 'quorumux --help' for usage.`);
     }
   }
 
-  return options;
-}
-
-/**
- * Load QuorumUXConfig via dynamic import
- */
-async function loadConfig(configPath: string): Promise<QuorumUXConfig> {
-  const absolutePath = path.resolve(configPath);
-
-  if (!fs.existsSync(absolutePath)) {
-    throw new Error(`Config file not found: ${absolutePath}\n  Run 'quorumux init' to create one.`);
-  }
-
-  try {
-    const module = await import(`file://${absolutePath}`);
-    const config = module.default || module.config;
-
-    if (!config) {
-      throw new Error('Config file must export a default export or "config" named export');
-    }
-
-    validateConfig(config);
-    return config as QuorumUXConfig;
-  } catch (error) {
-    throw new Error(
-      `Failed to load config from ${configPath}: ${error instanceof Error ? error.message : String(error)}`
-    );
-  }
-}
-
-/**
- * Validate config has all required fields. Throws with all errors at once.
- */
-export function validateConfig(config: any): void {
-  const errors: string[] = [];
-
-  for (const field of ['name', 'description', 'domain', 'appUrl', 'userJourney', 'artifactsDir'] as const) {
-    if (typeof config[field] !== 'string' || config[field].trim() === '') {
-      errors.push(`"${field}" must be a non-empty string`);
-    }
-  }
-
-  if (!config.models) {
-    errors.push('"models" is required');
-  } else {
-    if (!Array.isArray(config.models.screenshot) || config.models.screenshot.length === 0) {
-      errors.push('"models.screenshot" must be an array with at least 1 entry');
-    } else {
-      for (let i = 0; i < config.models.screenshot.length; i++) {
-        const m = config.models.screenshot[i];
-        if (!m?.id || !m?.name) {
-          errors.push(`"models.screenshot[${i}]" must have "id" and "name"`);
-        }
-      }
-    }
-
-    if (!config.models.video?.id || !config.models.video?.name) {
-      errors.push('"models.video" must have "id" and "name"');
-    }
-
-    if (!config.models.synthesis?.id || !config.models.synthesis?.name) {
-      errors.push('"models.synthesis" must have "id" and "name"');
-    }
-  }
-
-  if (errors.length > 0) {
-    throw new Error(`Invalid quorumux.config.ts:\n  - ${errors.join('\n  - ')}`);
+  if (options.stages && options.startStage) {
+    throw new Error('--stages/--only cannot be combined with --start-stage');
   }
-}
 
-/**
- * Resolve run directory: use provided, auto-detect from config artifactsDir, or cwd
- */
-function resolveRunDir(runDir: string, config: QuorumUXConfig): string {
-  if (runDir && fs.existsSync(runDir)) {
-    return path.resolve(runDir);
-  }
-
-  // Try config artifactsDir first
-  const artifactsDir = path.resolve(config.artifactsDir);
-  if (fs.existsSync(artifactsDir)) {
-    const runs = fs.readdirSync(artifactsDir)
-      .filter((name) => name.startsWith('run-') && fs.statSync(path.join(artifactsDir, name)).isDirectory())
-      .sort()
-      .reverse();
-
-    if (runs.length > 0) {
-      logger.log(`Auto-detected run directory: ${runs[0]}`);
-      return path.join(artifactsDir, runs[0]);
-    }
+  if (options.stages?.includes('2b') && options.skipVideo) {
+    throw new Error('--skip-video conflicts with selecting Stage 2b');
   }
 
-  // Fallback to cwd
-  const cwd = process.cwd();
-  const entries = fs.readdirSync(cwd);
-  const runDirs = entries
-    .filter((name) => name.startsWith('run-') && fs.statSync(path.join(cwd, name)).isDirectory())
-    .sort()
-    .reverse();
-
-  if (runDirs.length === 0) {
-    throw new Error('No run directory found. Use --run-dir or set artifactsDir in config.');
+  if (options.record && options.replay) {
+    throw new Error('--record and --replay cannot be used together');
   }
 
-  logger.log(`Auto-detected run directory: ${runDirs[0]}`);
-  return path.join(cwd, runDirs[0]);
+  return options;
 }
 
 function getPricingDisplay(modelId: string): string {
@@ -462,15 +470,28 @@ COMMANDS
   init                        Interactive project setup wizard
   run [options]               Run the analysis pipeline (default if no command given)
   status                      Show project config, API key, and latest run info
-  compare [--json] <baseline> <current>  Compare two runs side-by-side
+  compare [--json] [--explain] [<baseline>] <current>  Compare two runs (baseline defaults to the pinned one)
+  cache stats|prune           Show or prune the response cache (~/.quorumux/cache)
+  ignore list|add|remove      Edit accepted issues in quorumux.ignore.json
+  issues list|show <id>       Issue history across runs (from issues-db.json)
+  trend [--last N] [--json]   Score, severity and issue churn across runs (+ HTML chart)
+  gate [rule flags]           Fail CI (exit 1) when the latest run breaks a gate rule
+  baseline set|show|clear     Pin the run that new runs are compared against
 
 OPTIONS (for run)
   --config <path>      Path to quorumux.config.ts (default: ./quorumux.config.ts)
   --run-dir <path>     Specific run directory (auto-detects latest if omitted)
   --start-stage <n>    Stage to start from: 1, 2, 3, or 4 (default: 1)
+  --stages <list>      Run only these stages, e.g. 2,4 or 2b (alias: --only)
   --skip-video         Skip Stage 2b video analysis
   --dry-run            Show what would run without making API calls
   --output-dir <path>  Write reports to this directory instead of {runDir}/reports/
+  --no-cache           Bypass the response cache (no reads or writes)
+  --refresh-cache      Ignore cached responses and overwrite them with fresh ones
+  --record             Record all model requests/responses to {runDir}/cassette.json
+  --replay <cassette>  Answer model calls from a recorded cassette (offline, no API key)
+  --budget <usd>       Stop before spending more than this (overrides maxCostUSD)
+  --resume             Continue an interrupted run, skipping finished units
   --verbose            Verbose logging
   --help               Show this help message
   --version, -v        Print version and exit
@@ -478,6 +499,9 @@ OPTIONS (for run)
 ENVIRONMENT
   OPENROUTER_API_KEY  API key for OpenRouter (preferred).
                       Also reads from .env / .env.local or ~/.quorumux/config.json.
+  ANTHROPIC_API_KEY   API key for models with provider: 'anthropic'
+  OPENAI_API_KEY      API key for models with provider: 'openai'
+  GEMINI_API_KEY      API key for models with provider: 'gemini'
 
 GETTING STARTED
   # Set up a new project interactively
@@ -495,37 +519,69 @@ GETTING STARTED
   # Run without video analysis
   npx quorumux --skip-video
 
+  # Record a run, then reproduce Stages 2-4 offline
+  npx quorumux --start-stage 2 --record
+  npx quorumux --start-stage 2 --replay ./test-artifacts/run-01/cassette.json
+
   # Compare two runs
   npx quorumux compare ./test-artifacts/run-01 ./test-artifacts/run-02
+
+  # Pin a baseline; later reports get a "Changes Since Baseline" section
+  npx quorumux baseline set run-01
+
+  # Accept a known issue until a date
+  npx quorumux ignore add QUX-1a2b3c4d --reason "Planned redesign" --expires 2026-12-31
+
+  # How long has an issue been open, and did it come back?
+  npx quorumux issues show QUX-1a2b3c4d
+
+  # Score trend over the last 10 runs
+  npx quorumux trend --last 10
+
+  # Fail the build on new P0s or a score drop of more than 5
+  npx quorumux gate --fail-on-new P0 --max-score-drop 5
 `);
 }
 
 /**
- * Print summary box with cost and timing
+ * Print the completion box for a finished run
  */
-function printSummary(config: QuorumUXConfig, runDir: string, tracker: CostTracker, elapsed: string, outputDir?: string): void {
-  const reportsDir = outputDir || path.join(runDir, 'reports');
-  const uxReportPath = path.join(reportsDir, 'ux-analysis-report.md');
-  const githubIssuesPath = path.join(reportsDir, 'github-issues.md');
-  const jsonReportPath = path.join(reportsDir, 'ux-analysis-report.json');
-
+function printSummary(config: QuorumUXConfig, result: PipelineResult): void {
   const lines = [
     'QUORUM PIPELINE COMPLETE',
     '',
     `Project: ${config.name}`,
-    `Run: ${path.basename(runDir)}`,
-    `Elapsed: ${elapsed}s`,
-    '',
-    'Artifacts:',
-    `  ${uxReportPath}`,
-    `  ${githubIssuesPath}`,
-    `  ${jsonReportPath}`,
-    ...tracker.formatSummary(),
+    `Run: ${path.basename(result.runDir)}`,
+    `Elapsed: ${(result.elapsedMs / 1000).toFixed(1)}s`,
+    ...(result.reports
+      ? ['', 'Artifacts:', `  ${result.reports.markdown}`, `  ${result.reports.githubIssues}`, `  ${result.reports.json}`, `  ${result.reports.html}`]
+      : []),
+    ...CostTracker.formatBreakdown(result.cost),
   ];
 
   logger.box(lines);
 }
 
+/**
+ * Print the summary box for a run stopped by the budget cap
+ */
+function printBudgetStop(config: QuorumUXConfig, result: PipelineResult): void {
+  logger.box([
+    'QUORUM PIPELINE STOPPED — BUDGET REACHED',
+    '',
+    `Project: ${config.name}`,
+    `Run: ${path.basename(result.runDir)}`,
+    `Elapsed: ${(result.elapsedMs / 1000).toFixed(1)}s`,
+    '',
+    result.stopReason ?? '',
+    '',
+    'Partial results were kept. State:',
+    `  ${result.statePath}`,
+    'Raise --budget and re-run with --resume to continue where it stopped.',
+    ...CostTracker.formatBreakdown(result.cost),
+  ]);
+}
+
 // Only run CLI when executed directly (not when imported for types)
 // Resolve symlinks (npm bin creates them) so both sides compare real paths
 const isDirectRun = (() => {
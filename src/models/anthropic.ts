@@ -0,0 +1,122 @@
+/**
+ * Anthropic Messages API Adapter
+ *
+ * Translates OpenRouter-format chat requests to the Anthropic Messages API.
+ * System messages become the top-level `system` field and base64 image data
+ * URLs become `image` content blocks. Video input is not supported.
+ */
+
+import type { ModelSpec } from '../types.js';
+import {
+  ModelProvider,
+  ChatRequest,
+  ChatResponse,
+  ChatMessage,
+  parseDataUrl,
+  contentToText,
+  postJson,
+  requireSpecApiKey,
+} from './provider.js';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** Request content blocks QuorumUX sends */
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image';
+      source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string };
+    };
+
+/** The parts of a Messages API response QuorumUX reads */
+interface AnthropicResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Build an Anthropic Messages API request body from a chat request.
+ *
+ * @throws Error if a message contains non-image media (e.g. video)
+ */
+export function toAnthropicRequest(model: string, request: ChatRequest): Record<string, unknown> {
+  const system = request.messages
+    .filter((m) => m.role === 'system')
+    .map((m) => contentToText(m.content))
+    .join('\n\n');
+
+  const messages = request.messages
+    .filter((m) => m.role !== 'system')
+    .map((m) => ({ role: m.role, content: toAnthropicContent(m) }));
+
+  return {
+    model,
+    max_tokens: request.maxTokens || 4096,
+    ...(system ? { system } : {}),
+    messages,
+  };
+}
+
+function toAnthropicContent(message: ChatMessage): string | AnthropicContentBlock[] {
+  if (typeof message.content === 'string') return message.content;
+
+  return message.content.map((part): AnthropicContentBlock => {
+    if (part.type !== 'image_url') return part;
+
+    const url = part.image_url.url;
+    const parsed = parseDataUrl(url);
+    if (!parsed) {
+      return { type: 'image', source: { type: 'url', url } };
+    }
+    if (!parsed.mimeType.startsWith('image/')) {
+      throw new Error(`Anthropic does not accept ${parsed.mimeType} input`);
+    }
+    return {
+      type: 'image',
+      source: { type: 'base64', media_type: parsed.mimeType, data: parsed.data },
+    };
+  });
+}
+
+export const anthropicProvider: ModelProvider = {
+  name: 'anthropic',
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  requiresApiKey: true,
+
+  async chat(spec: ModelSpec, request: ChatRequest): Promise<ChatResponse> {
+    const apiKey = requireSpecApiKey(spec, anthropicProvider);
+    const baseUrl = (spec.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+    const data = (await postJson(
+      `${baseUrl}/messages`,
+      {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      toAnthropicRequest(spec.id, request),
+      'Anthropic',
+      apiKey
+    )) as AnthropicResponse;
+
+    if (!Array.isArray(data.content)) {
+      throw new Error('Invalid Anthropic response: missing content');
+    }
+
+    const content = data.content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text)
+      .join('');
+
+    return {
+      content,
+      usage: data.usage
+        ? {
+            prompt: data.usage.input_tokens,
+            completion: data.usage.output_tokens,
+            total: data.usage.input_tokens + data.usage.output_tokens,
+          }
+        : undefined,
+    };
+  },
+};
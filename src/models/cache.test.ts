@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { cacheKey, readCache, writeCache, cacheStats, pruneCache } from './cache.js';
+
+const spec = { id: 'anthropic/claude-sonnet-4.6', name: 'claude' };
+
+function imageRequest(base64: string) {
+  return {
+    messages: [
+      { role: 'system' as const, content: 'You are a UX analyst.' },
+      {
+        role: 'user' as const,
+        content: [
+          { type: 'text', text: 'Analyze' },
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${base64}` } },
+        ],
+      },
+    ],
+    maxTokens: 3000,
+  };
+}
+
+describe('cacheKey', () => {
+  it('is deterministic', () => {
+    expect(cacheKey(spec, imageRequest('AAAA'))).toBe(cacheKey(spec, imageRequest('AAAA')));
+  });
+
+  it('changes when image bytes change', () => {
+    expect(cacheKey(spec, imageRequest('AAAA'))).not.toBe(cacheKey(spec, imageRequest('BBBB')));
+  });
+
+  it('changes with model, provider, and parameters', () => {
+    const base = cacheKey(spec, imageRequest('AAAA'));
+    expect(cacheKey({ ...spec, id: 'openai/gpt-4o' }, imageRequest('AAAA'))).not.toBe(base);
+    expect(cacheKey({ ...spec, provider: 'anthropic' }, imageRequest('AAAA'))).not.toBe(base);
+    expect(cacheKey(spec, { ...imageRequest('AAAA'), maxTokens: 100 })).not.toBe(base);
+  });
+
+  it('ignores tracking-only fields', () => {
+    const base = cacheKey(spec, imageRequest('AAAA'));
+    expect(cacheKey(spec, { ...imageRequest('AAAA'), referer: 'https://x', title: 'T' })).toBe(base);
+  });
+});
+
+describe('cache storage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns null on miss', () => {
+    expect(readCache('deadbeef', dir)).toBeNull();
+  });
+
+  it('round-trips content and usage', () => {
+    const usage = { prompt: 10, completion: 5, total: 15 };
+    writeCache('abc123', spec, { content: 'hello', usage, retries: 2 }, dir);
+    expect(readCache('abc123', dir)).toEqual({ content: 'hello', usage });
+  });
+
+  it('reports stats', () => {
+    writeCache('aa11', spec, { content: 'one' }, dir);
+    writeCache('bb22', spec, { content: 'two' }, dir);
+    const stats = cacheStats(dir);
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBeGreaterThan(0);
+    expect(stats.oldest).toBeInstanceOf(Date);
+  });
+
+  it('prunes only entries older than the cutoff', () => {
+    writeCache('aa11', spec, { content: 'one' }, dir);
+    expect(pruneCache(60_000, dir).removed).toBe(0);
+    expect(pruneCache(60_000, dir, Date.now() + 120_000).removed).toBe(1);
+    expect(cacheStats(dir).entries).toBe(0);
+  });
+
+  it('prunes everything without a cutoff', () => {
+    writeCache('aa11', spec, { content: 'one' }, dir);
+    writeCache('bb22', spec, { content: 'two' }, dir);
+    expect(pruneCache(undefined, dir).removed).toBe(2);
+  });
+});
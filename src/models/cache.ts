@@ -0,0 +1,157 @@
+/**
+ * Content-Addressed Response Cache (~/.quorumux/cache)
+ *
+ * Caches model responses on disk, keyed by a SHA-256 of the provider, model ID,
+ * messages (including base64 image/video bytes), and request parameters.
+ * Re-running the pipeline on identical artifacts answers from the cache for $0.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'node:crypto';
+import type { ModelSpec } from '../types.js';
+import type { ChatRequest, ChatResponse } from './provider.js';
+
+/**
+ * - use: read hits and write misses (default)
+ * - refresh: skip reads, overwrite entries with fresh responses
+ * - off: bypass the cache entirely
+ */
+export type CacheMode = 'use' | 'refresh' | 'off';
+
+export const DEFAULT_CACHE_DIR = path.join(process.env.HOME || '~', '.quorumux', 'cache');
+
+interface CacheEntry {
+  createdAt: string;
+  modelId: string;
+  provider: string;
+  response: Pick<ChatResponse, 'content' | 'usage'>;
+}
+
+let cacheMode: CacheMode = 'use';
+let cacheDir = DEFAULT_CACHE_DIR;
+
+/** Set the cache mode and/or directory for subsequent model calls */
+export function configureCache(options: { mode?: CacheMode; dir?: string }): void {
+  if (options.mode) cacheMode = options.mode;
+  if (options.dir) cacheDir = options.dir;
+}
+
+export function getCacheMode(): CacheMode {
+  return cacheMode;
+}
+
+export function getCacheDir(): string {
+  return cacheDir;
+}
+
+/**
+ * Compute the cache key for a request. Tracking-only fields (referer, title)
+ * are excluded so they don't invalidate otherwise identical calls.
+ */
+export function cacheKey(spec: ModelSpec, request: ChatRequest): string {
+  const material = JSON.stringify({
+    provider: spec.provider ?? 'openrouter',
+    baseUrl: spec.baseUrl ?? null,
+    model: spec.id,
+    maxTokens: request.maxTokens ?? null,
+    messages: request.messages,
+  });
+  return createHash('sha256').update(material).digest('hex');
+}
+
+function entryPath(key: string, dir: string): string {
+  return path.join(dir, key.substring(0, 2), `${key}.json`);
+}
+
+/** Read a cached response, or null on miss or unreadable entry */
+export function readCache(key: string, dir = cacheDir): ChatResponse | null {
+  try {
+    const filePath = entryPath(key, dir);
+    if (!fs.existsSync(filePath)) return null;
+    const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheEntry;
+    if (typeof entry.response?.content !== 'string') return null;
+    return { content: entry.response.content, usage: entry.response.usage };
+  } catch {
+    return null;
+  }
+}
+
+/** Write a response to the cache. Failures are ignored — caching is best-effort. */
+export function writeCache(key: string, spec: ModelSpec, response: ChatResponse, dir = cacheDir): void {
+  const entry: CacheEntry = {
+    createdAt: new Date().toISOString(),
+    modelId: spec.id,
+    provider: spec.provider ?? 'openrouter',
+    response: { content: response.content, usage: response.usage },
+  };
+
+  try {
+    const filePath = entryPath(key, dir);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(entry));
+    fs.renameSync(tmpPath, filePath);
+  } catch {
+    // Ignore write errors (read-only home, full disk)
+  }
+}
+
+/** List cache entry files with their size and mtime */
+function listEntries(dir: string): Array<{ path: string; bytes: number; mtimeMs: number }> {
+  if (!fs.existsSync(dir)) return [];
+
+  const entries: Array<{ path: string; bytes: number; mtimeMs: number }> = [];
+  for (const shard of fs.readdirSync(dir)) {
+    const shardDir = path.join(dir, shard);
+    if (!fs.statSync(shardDir).isDirectory()) continue;
+    for (const file of fs.readdirSync(shardDir).filter((f) => f.endsWith('.json'))) {
+      const filePath = path.join(shardDir, file);
+      const stat = fs.statSync(filePath);
+      entries.push({ path: filePath, bytes: stat.size, mtimeMs: stat.mtimeMs });
+    }
+  }
+  return entries;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  oldest?: Date;
+  newest?: Date;
+}
+
+/** Summarize cache contents */
+export function cacheStats(dir = cacheDir): CacheStats {
+  const entries = listEntries(dir);
+  if (entries.length === 0) return { entries: 0, bytes: 0 };
+
+  // A loop rather than Math.min(...times), which overflows the call stack on large caches
+  let bytes = 0;
+  let oldest = Infinity;
+  let newest = -Infinity;
+  for (const entry of entries) {
+    bytes += entry.bytes;
+    oldest = Math.min(oldest, entry.mtimeMs);
+    newest = Math.max(newest, entry.mtimeMs);
+  }
+  return { entries: entries.length, bytes, oldest: new Date(oldest), newest: new Date(newest) };
+}
+
+/**
+ * Delete cache entries older than `olderThanMs` (all entries if undefined).
+ * Returns the number of entries and bytes removed.
+ */
+export function pruneCache(olderThanMs?: number, dir = cacheDir, now = Date.now()): { removed: number; bytes: number } {
+  let removed = 0;
+  let bytes = 0;
+
+  for (const entry of listEntries(dir)) {
+    if (olderThanMs !== undefined && now - entry.mtimeMs < olderThanMs) continue;
+    fs.rmSync(entry.path, { force: true });
+    removed++;
+    bytes += entry.bytes;
+  }
+
+  return { removed, bytes };
+}
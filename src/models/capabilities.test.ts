@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CAPABILITIES, getCapabilities } from './capabilities.js';
+
+describe('getCapabilities', () => {
+  it('matches model IDs by prefix', () => {
+    expect(getCapabilities({ id: 'anthropic/claude-opus-4.5' }).contextTokens).toBe(200_000);
+    expect(getCapabilities({ id: 'gemini-2.5-pro-preview' }).contextTokens).toBe(1_000_000);
+  });
+
+  it('prefers contextWindow on the model spec', () => {
+    expect(getCapabilities({ id: 'anthropic/claude-opus-4.5', contextWindow: 32_000 }).contextTokens).toBe(32_000);
+  });
+
+  it('falls back to the default for unknown models', () => {
+    expect(getCapabilities({ id: 'local/llama' })).toBe(DEFAULT_CAPABILITIES);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * QuorumUX — Model Capabilities
+ *
+ * Context window sizes used to decide whether a prompt fits in one call.
+ * Stage 3 switches to map-reduce synthesis when it doesn't.
+ */
+
+import type { ModelSpec } from '../types.js';
+
+export interface ModelCapabilities {
+  /** Total context window in tokens (prompt + completion) */
+  contextTokens: number;
+}
+
+/**
+ * Known context windows, keyed by model ID prefix (OpenRouter IDs and
+ * provider-native IDs).
+ */
+export const MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+  'anthropic/claude-sonnet-4':  { contextTokens: 200_000 },
+  'anthropic/claude-opus-4':    { contextTokens: 200_000 },
+  'claude-sonnet-4':            { contextTokens: 200_000 },
+  'claude-opus-4':              { contextTokens: 200_000 },
+  'google/gemini-2.0-flash':    { contextTokens: 1_000_000 },
+  'google/gemini-2.5-pro':      { contextTokens: 1_000_000 },
+  'gemini-2.0-flash':           { contextTokens: 1_000_000 },
+  'gemini-2.5-pro':             { contextTokens: 1_000_000 },
+  'openai/gpt-4o':              { contextTokens: 128_000 },
+  'gpt-4o':                     { contextTokens: 128_000 },
+};
+
+/** Unknown models are assumed to have a modest window */
+export const DEFAULT_CAPABILITIES: ModelCapabilities = { contextTokens: 128_000 };
+
+/**
+ * Capabilities for a model: `contextWindow` on the spec wins, then an exact
+ * or prefix match in MODEL_CAPABILITIES, then the default.
+ */
+export function getCapabilities(spec: Pick<ModelSpec, 'id' | 'contextWindow'>): ModelCapabilities {
+  if (spec.contextWindow) return { contextTokens: spec.contextWindow };
+  if (MODEL_CAPABILITIES[spec.id]) return MODEL_CAPABILITIES[spec.id];
+  for (const [key, capabilities] of Object.entries(MODEL_CAPABILITIES)) {
+    if (spec.id.startsWith(key)) return capabilities;
+  }
+  return DEFAULT_CAPABILITIES;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  startRecording,
+  startReplay,
+  stopCassette,
+  recordInteraction,
+  replayInteraction,
+  summarizeRequest,
+  getCassetteMode,
+  CassetteMissError,
+} from './cassette.js';
+
+const spec = { id: 'anthropic/claude-sonnet-4.6', name: 'claude' };
+
+function request(text: string) {
+  return {
+    messages: [
+      {
+        role: 'user' as const,
+        content: [
+          { type: 'text', text },
+          { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } },
+        ],
+      },
+    ],
+    maxTokens: 3000,
+  };
+}
+
+describe('cassettes', () => {
+  let dir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-cassette-'));
+    cassettePath = path.join(dir, 'cassette.json');
+  });
+
+  afterEach(() => {
+    stopCassette();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded response', () => {
+    const recordedAt = new Date('2026-03-01T12:00:00Z');
+    startRecording(cassettePath, recordedAt);
+    expect(getCassetteMode()).toBe('record');
+    recordInteraction(spec, request('Analyze'), { content: 'Looks good', usage: { prompt: 1, completion: 2, total: 3 } });
+    stopCassette();
+
+    expect(startReplay(cassettePath)).toEqual(recordedAt);
+    expect(getCassetteMode()).toBe('replay');
+    expect(replayInteraction(spec, request('Analyze'))).toEqual({
+      content: 'Looks good',
+      usage: { prompt: 1, completion: 2, total: 3 },
+    });
+  });
+
+  it('throws CassetteMissError for unseen requests', () => {
+    startRecording(cassettePath);
+    recordInteraction(spec, request('Analyze'), { content: 'x' });
+    stopCassette();
+
+    startReplay(cassettePath);
+    expect(() => replayInteraction(spec, request('Different prompt'))).toThrow(CassetteMissError);
+  });
+
+  it('rejects a missing cassette file', () => {
+    expect(() => startReplay(path.join(dir, 'nope.json'))).toThrow('Cassette not found');
+  });
+
+  it('stores a digest instead of data URL payloads', () => {
+    const summarized = summarizeRequest(request('Analyze'));
+    const url = (summarized.messages[0].content as any[])[1].image_url.url;
+    expect(url).toMatch(/^data:image\/jpeg;base64,sha256:[a-f0-9]{64}$/);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Record/Replay Cassettes
+ *
+ * Record mode saves every model request/response pair to a cassette file in
+ * the run directory. Replay mode answers from that file with no network or
+ * API key and fails loudly on any request it has not seen, so Stages 2–4
+ * reproduce exactly offline (e.g. in CI).
+ *
+ * Interactions are keyed by the same content hash as the response cache.
+ * Stored requests replace base64 data URL payloads with their SHA-256 to keep
+ * cassettes small; the key still covers the full bytes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'node:crypto';
+import type { ModelSpec } from '../types.js';
+import type { ChatRequest, ChatResponse } from './provider.js';
+import { cacheKey } from './cache.js';
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteInteraction {
+  key: string;
+  provider: string;
+  modelId: string;
+  request: ChatRequest;
+  response: Pick<ChatResponse, 'content' | 'usage'>;
+}
+
+export interface CassetteFile {
+  version: number;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Raised in replay mode for a request that is not in the cassette.
+ * Pipeline stages rethrow it instead of recording a per-call failure.
+ */
+export class CassetteMissError extends Error {
+  constructor(spec: ModelSpec, key: string, cassettePath: string) {
+    super(
+      `Cassette miss: no recorded response for ${spec.name} (${spec.id}), request ${key.substring(0, 12)}, in ${cassettePath}. ` +
+        'Inputs or prompts changed since recording — re-record with --record.'
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+let active: {
+  mode: 'record' | 'replay';
+  path: string;
+  data: CassetteFile;
+  index: Map<string, CassetteInteraction>;
+} | null = null;
+
+/** Current cassette mode, or undefined when no cassette is active */
+export function getCassetteMode(): 'record' | 'replay' | undefined {
+  return active?.mode;
+}
+
+/** Start recording to `cassettePath`, replacing any existing file */
+export function startRecording(cassettePath: string, recordedAt = new Date()): void {
+  active = {
+    mode: 'record',
+    path: cassettePath,
+    data: { version: CASSETTE_VERSION, recordedAt: recordedAt.toISOString(), interactions: [] },
+    index: new Map(),
+  };
+  saveCassette();
+}
+
+/**
+ * Load a cassette for replay. Returns its recording time so callers can pin
+ * the pipeline clock.
+ *
+ * @throws Error if the file is missing or not a cassette
+ */
+export function startReplay(cassettePath: string): Date {
+  if (!fs.existsSync(cassettePath)) {
+    throw new Error(`Cassette not found: ${cassettePath}`);
+  }
+
+  const data = JSON.parse(fs.readFileSync(cassettePath, 'utf-8')) as CassetteFile;
+  if (data.version !== CASSETTE_VERSION || !Array.isArray(data.interactions)) {
+    throw new Error(`Unsupported cassette format in ${cassettePath}`);
+  }
+
+  active = {
+    mode: 'replay',
+    path: cassettePath,
+    data,
+    index: new Map(data.interactions.map((i) => [i.key, i])),
+  };
+  return new Date(data.recordedAt);
+}
+
+/** Deactivate the cassette (used by tests and programmatic callers) */
+export function stopCassette(): void {
+  active = null;
+}
+
+/**
+ * Answer a request from the replay cassette.
+ *
+ * @throws CassetteMissError if the request was not recorded
+ */
+export function replayInteraction(spec: ModelSpec, request: ChatRequest): ChatResponse {
+  if (!active || active.mode !== 'replay') {
+    throw new Error('No cassette loaded for replay');
+  }
+
+  const key = cacheKey(spec, request);
+  const interaction = active.index.get(key);
+  if (!interaction) {
+    throw new CassetteMissError(spec, key, active.path);
+  }
+  return { content: interaction.response.content, usage: interaction.response.usage };
+}
+
+/** Append a request/response pair to the recording cassette and save it */
+export function recordInteraction(spec: ModelSpec, request: ChatRequest, response: ChatResponse): void {
+  if (!active || active.mode !== 'record') return;
+
+  const key = cacheKey(spec, request);
+  if (active.index.has(key)) return;
+
+  const interaction: CassetteInteraction = {
+    key,
+    provider: spec.provider ?? 'openrouter',
+    modelId: spec.id,
+    request: summarizeRequest(request),
+    response: { content: response.content, usage: response.usage },
+  };
+  active.index.set(key, interaction);
+  active.data.interactions.push(interaction);
+  saveCassette();
+}
+
+function saveCassette(): void {
+  if (!active) return;
+  fs.mkdirSync(path.dirname(active.path), { recursive: true });
+  fs.writeFileSync(active.path, JSON.stringify(active.data, null, 2) + '\n');
+}
+
+/**
+ * Copy a request with data URL payloads replaced by their SHA-256.
+ */
+export function summarizeRequest(request: ChatRequest): ChatRequest {
+  return {
+    ...request,
+    messages: request.messages.map((m) => ({
+      role: m.role,
+      content: Array.isArray(m.content)
+        ? m.content.map((part) => {
+            if (part.type !== 'image_url' || !part.image_url.url.startsWith('data:')) return part;
+            const [prefix, payload = ''] = part.image_url.url.split(',', 2);
+            const digest = createHash('sha256').update(payload).digest('hex');
+            return { ...part, image_url: { ...part.image_url, url: `${prefix},sha256:${digest}` } };
+          })
+        : m.content,
+    })),
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Google Gemini API Adapter
+ *
+ * Translates OpenRouter-format chat requests to the Gemini generateContent API.
+ * System messages become `systemInstruction` and base64 data URLs (images and
+ * video) become `inlineData` parts.
+ */
+
+import type { ModelSpec } from '../types.js';
+import {
+  ModelProvider,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  parseDataUrl,
+  contentToText,
+  postJson,
+  requireSpecApiKey,
+} from './provider.js';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Build a Gemini generateContent request body from a chat request.
+ */
+export function toGeminiRequest(request: ChatRequest): Record<string, unknown> {
+  const system = request.messages
+    .filter((m) => m.role === 'system')
+    .map((m) => contentToText(m.content))
+    .join('\n\n');
+
+  const contents = request.messages
+    .filter((m) => m.role !== 'system')
+    .map((m) => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: toGeminiParts(m.content),
+    }));
+
+  return {
+    ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+    contents,
+    generationConfig: {
+      maxOutputTokens: request.maxTokens || 4096,
+    },
+  };
+}
+
+/** The parts of a generateContent response QuorumUX reads */
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+function toGeminiParts(content: ChatMessage['content']): object[] {
+  if (typeof content === 'string') return [{ text: content }];
+
+  return content.map((part) => {
+    if (part.type === 'text') return { text: part.text };
+    const url = part.image_url.url;
+    const parsed = parseDataUrl(url);
+    return parsed
+      ? { inlineData: { mimeType: parsed.mimeType, data: parsed.data } }
+      : { fileData: { fileUri: url } };
+  });
+}
+
+export const geminiProvider: ModelProvider = {
+  name: 'gemini',
+  apiKeyEnv: 'GEMINI_API_KEY',
+  requiresApiKey: true,
+
+  async chat(spec: ModelSpec, request: ChatRequest): Promise<ChatResponse> {
+    const apiKey = requireSpecApiKey(spec, geminiProvider);
+    const baseUrl = (spec.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+    const data = (await postJson(
+      `${baseUrl}/models/${encodeURIComponent(spec.id)}:generateContent`,
+      { 'x-goog-api-key': apiKey },
+      toGeminiRequest(request),
+      'Gemini',
+      apiKey
+    )) as GeminiResponse;
+
+    const parts = data.candidates?.[0]?.content?.parts;
+    if (!Array.isArray(parts)) {
+      const reason = data.promptFeedback?.blockReason ?? data.candidates?.[0]?.finishReason;
+      throw new Error(`Invalid Gemini response: missing content${reason ? ` (${reason})` : ''}`);
+    }
+
+    const usage = data.usageMetadata;
+    return {
+      content: parts.map((p) => p.text ?? '').join(''),
+      usage: usage
+        ? {
+            prompt: usage.promptTokenCount ?? 0,
+            completion: usage.candidatesTokenCount ?? 0,
+            total: usage.totalTokenCount ?? 0,
+          }
+        : undefined,
+    };
+  },
+};
@@ -0,0 +1,90 @@
+/**
+ * OpenAI Chat Completions Adapter
+ *
+ * Serves both the OpenAI API and OpenAI-compatible servers (vLLM, Ollama,
+ * LM Studio). Messages are already in OpenAI format, so no translation is needed.
+ */
+
+import type { ModelSpec } from '../types.js';
+import {
+  ModelProvider,
+  ChatRequest,
+  ChatResponse,
+  postJson,
+  resolveSpecApiKey,
+  requireSpecApiKey,
+} from './provider.js';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/** The parts of a Chat Completions response QuorumUX reads */
+interface ChatCompletionsResponse {
+  choices?: Array<{ message?: { content?: unknown } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+}
+
+async function callChatCompletions(
+  baseUrl: string,
+  apiKey: string | undefined,
+  spec: ModelSpec,
+  request: ChatRequest,
+  label: string
+): Promise<ChatResponse> {
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const data = (await postJson(
+    `${baseUrl.replace(/\/$/, '')}/chat/completions`,
+    headers,
+    {
+      model: spec.id,
+      messages: request.messages,
+      max_tokens: request.maxTokens || 4096,
+    },
+    label,
+    apiKey
+  )) as ChatCompletionsResponse;
+
+  const choice = data.choices?.[0];
+  if (!choice?.message || typeof choice.message.content !== 'string') {
+    throw new Error(`Invalid ${label} response: missing or invalid message content`);
+  }
+
+  return {
+    content: choice.message.content,
+    usage: data.usage
+      ? {
+          prompt: data.usage.prompt_tokens,
+          completion: data.usage.completion_tokens,
+          total: data.usage.total_tokens,
+        }
+      : undefined,
+  };
+}
+
+export const openAIProvider: ModelProvider = {
+  name: 'openai',
+  apiKeyEnv: 'OPENAI_API_KEY',
+  requiresApiKey: true,
+
+  async chat(spec: ModelSpec, request: ChatRequest): Promise<ChatResponse> {
+    const apiKey = requireSpecApiKey(spec, openAIProvider);
+    return callChatCompletions(spec.baseUrl || OPENAI_BASE_URL, apiKey, spec, request, 'OpenAI');
+  },
+};
+
+export const openAICompatibleProvider: ModelProvider = {
+  name: 'openai-compatible',
+  apiKeyEnv: 'OPENAI_COMPATIBLE_API_KEY',
+  requiresApiKey: false,
+
+  async chat(spec: ModelSpec, request: ChatRequest): Promise<ChatResponse> {
+    if (!spec.baseUrl) {
+      throw new Error(`Model "${spec.name}" uses provider "openai-compatible" but has no baseUrl`);
+    }
+    const apiKey = resolveSpecApiKey(spec, openAICompatibleProvider);
+    return callChatCompletions(spec.baseUrl, apiKey, spec, request, 'OpenAI-compatible');
+  },
+};
@@ -5,6 +5,8 @@
  * Handles request formatting, error handling, and response parsing.
  */
 
+import { ModelApiError, parseRetryAfter } from './retry.js';
+
 /**
  * Redact OpenRouter API keys from error text to prevent leaking secrets in logs.
  */
@@ -33,6 +35,9 @@ export interface OpenRouterParams {
 
   /** Request title/label for tracking (optional) */
   title?: string;
+
+  /** API key (optional, defaults to OPENROUTER_API_KEY) */
+  apiKey?: string;
 }
 
 /**
@@ -53,13 +58,14 @@ export interface OpenRouterResponse {
 /**
  * Call OpenRouter chat completion API
  *
- * Reads OPENROUTER_API_KEY from environment variables.
+ * Reads OPENROUTER_API_KEY from environment variables unless `apiKey` is given.
  * Returns the parsed text content and token usage metrics.
  *
- * @throws Error if API key is not set, request fails, or response is invalid
+ * @throws ModelApiError if the request fails (retryable for 429, 5xx, and network errors)
+ * @throws Error if API key is not set or response is invalid
  */
 export async function callOpenRouter(params: OpenRouterParams): Promise<OpenRouterResponse> {
-  const apiKey = process.env.OPENROUTER_API_KEY;
+  const apiKey = params.apiKey || process.env.OPENROUTER_API_KEY;
 
   if (!apiKey) {
     throw new Error('OPENROUTER_API_KEY environment variable not set');
@@ -86,54 +92,57 @@ export async function callOpenRouter(params: OpenRouterParams): Promise<OpenRout
     headers['X-Title'] = params.title;
   }
 
+  let response: Response;
   try {
-    const response = await fetch(url, {
+    response = await fetch(url, {
       method: 'POST',
       headers,
       body: JSON.stringify(requestBody),
     });
+  } catch (error) {
+    throw new ModelApiError(`OpenRouter API call failed: ${error instanceof Error ? error.message : String(error)}`, {
+      retryable: true,
+    });
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      let errorMessage = `OpenRouter API error: ${response.status} ${response.statusText}`;
+  if (!response.ok) {
+    const errorText = await response.text();
+    let errorMessage = `OpenRouter API error: ${response.status} ${response.statusText}`;
 
-      try {
-        const errorJson = JSON.parse(errorText);
-        if (errorJson.error?.message) {
-          errorMessage += ` - ${redactApiKey(errorJson.error.message)}`;
-        }
-      } catch {
-        // Use generic error if JSON parsing fails
+    try {
+      const errorJson = JSON.parse(errorText);
+      if (errorJson.error?.message) {
+        errorMessage += ` - ${redactApiKey(errorJson.error.message)}`;
       }
-
-      throw new Error(errorMessage);
+    } catch {
+      // Use generic error if JSON parsing fails
     }
 
-    const data = await response.json();
+    throw new ModelApiError(errorMessage, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
 
-    if (!data.choices || !data.choices[0]) {
-      throw new Error('Invalid OpenRouter response: missing choices');
-    }
+  const data = await response.json();
 
-    const choice = data.choices[0];
-    if (!choice.message || typeof choice.message.content !== 'string') {
-      throw new Error('Invalid OpenRouter response: missing or invalid message content');
-    }
+  if (!data.choices || !data.choices[0]) {
+    throw new Error('Invalid OpenRouter response: missing choices');
+  }
 
-    return {
-      content: choice.message.content,
-      usage: data.usage
-        ? {
-            prompt: data.usage.prompt_tokens,
-            completion: data.usage.completion_tokens,
-            total: data.usage.total_tokens,
-          }
-        : undefined,
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error(`OpenRouter API call failed: ${String(error)}`);
+  const choice = data.choices[0];
+  if (!choice.message || typeof choice.message.content !== 'string') {
+    throw new Error('Invalid OpenRouter response: missing or invalid message content');
   }
+
+  return {
+    content: choice.message.content,
+    usage: data.usage
+      ? {
+          prompt: data.usage.prompt_tokens,
+          completion: data.usage.completion_tokens,
+          total: data.usage.total_tokens,
+        }
+      : undefined,
+  };
 }
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseDataUrl, contentToText } from './provider.js';
+import { toAnthropicRequest } from './anthropic.js';
+import { toGeminiRequest } from './gemini.js';
+import { getProvider } from './registry.js';
+
+const messages = [
+  { role: 'system' as const, content: 'You are a UX analyst.' },
+  {
+    role: 'user' as const,
+    content: [
+      { type: 'text', text: 'Analyze this grid.' },
+      { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } },
+    ],
+  },
+];
+
+describe('parseDataUrl', () => {
+  it('splits MIME type and payload', () => {
+    expect(parseDataUrl('data:image/jpeg;base64,AAAA')).toEqual({ mimeType: 'image/jpeg', data: 'AAAA' });
+  });
+
+  it('returns null for http URLs', () => {
+    expect(parseDataUrl('https://example.com/a.png')).toBeNull();
+  });
+});
+
+describe('contentToText', () => {
+  it('passes strings through', () => {
+    expect(contentToText('hello')).toBe('hello');
+  });
+
+  it('joins text parts and drops images', () => {
+    expect(contentToText(messages[1].content)).toBe('Analyze this grid.');
+  });
+});
+
+describe('toAnthropicRequest', () => {
+  it('moves system messages to the top-level system field', () => {
+    const body = toAnthropicRequest('claude-sonnet-4-6', { messages, maxTokens: 3000 }) as any;
+    expect(body.system).toBe('You are a UX analyst.');
+    expect(body.max_tokens).toBe(3000);
+    expect(body.messages).toHaveLength(1);
+    expect(body.messages[0].role).toBe('user');
+  });
+
+  it('converts image data URLs to base64 image blocks', () => {
+    const body = toAnthropicRequest('claude-sonnet-4-6', { messages }) as any;
+    expect(body.messages[0].content[1]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/jpeg', data: 'AAAA' },
+    });
+  });
+
+  it('rejects video input', () => {
+    const video = [{
+      role: 'user' as const,
+      content: [{ type: 'image_url', image_url: { url: 'data:video/webm;base64,AAAA' } }],
+    }];
+    expect(() => toAnthropicRequest('claude-sonnet-4-6', { messages: video })).toThrow('video/webm');
+  });
+});
+
+describe('toGeminiRequest', () => {
+  it('maps system prompt and inline data parts', () => {
+    const body = toGeminiRequest({ messages, maxTokens: 4000 }) as any;
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'You are a UX analyst.' }] });
+    expect(body.contents).toEqual([
+      {
+        role: 'user',
+        parts: [
+          { text: 'Analyze this grid.' },
+          { inlineData: { mimeType: 'image/jpeg', data: 'AAAA' } },
+        ],
+      },
+    ]);
+    expect(body.generationConfig.maxOutputTokens).toBe(4000);
+  });
+
+  it('maps assistant role to model', () => {
+    const body = toGeminiRequest({ messages: [{ role: 'assistant', content: 'hi' }] }) as any;
+    expect(body.contents[0].role).toBe('model');
+  });
+});
+
+describe('getProvider', () => {
+  it('defaults to OpenRouter', () => {
+    expect(getProvider({ id: 'anthropic/claude-sonnet-4.6', name: 'claude' }).name).toBe('openrouter');
+  });
+
+  it('resolves the named provider', () => {
+    expect(getProvider({ id: 'gpt-4o', name: 'gpt', provider: 'openai' }).name).toBe('openai');
+    expect(getProvider({ id: 'llava', name: 'local', provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1' }).name)
+      .toBe('openai-compatible');
+  });
+
+  it('throws on unknown provider', () => {
+    expect(() => getProvider({ id: 'x', name: 'x', provider: 'bogus' as any })).toThrow('Unknown model provider "bogus"');
+  });
+});
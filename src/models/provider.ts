@@ -0,0 +1,188 @@
+/**
+ * Model Provider Interface
+ *
+ * Every pipeline stage builds its messages in the OpenAI/OpenRouter chat format
+ * (string content, or `text` + `image_url` parts with base64 data URLs).
+ * Each provider backend translates that format to its native API and returns
+ * the text content plus token usage.
+ */
+
+import type { ModelSpec, ModelProviderName } from '../types.js';
+import { resolveProviderApiKey } from '../config/global.js';
+import { redactApiKey } from './openrouter.js';
+import { ModelApiError, parseRetryAfter } from './retry.js';
+
+/**
+ * One part of multi-part message content: text, or an image/video as a URL
+ * (base64 data URL or http/https)
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * A single chat message in OpenAI/OpenRouter format
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string | ContentPart[];
+}
+
+/**
+ * Provider-independent chat request. The model ID comes from the ModelSpec.
+ */
+export interface ChatRequest {
+  /** Message history for the conversation */
+  messages: ChatMessage[];
+
+  /** Maximum tokens in response (optional) */
+  maxTokens?: number;
+
+  /** Referer header for tracking (optional, OpenRouter only) */
+  referer?: string;
+
+  /** Request title/label for tracking (optional, OpenRouter only) */
+  title?: string;
+}
+
+/**
+ * Provider-independent chat response
+ */
+export interface ChatResponse {
+  /** The content of the model's response */
+  content: string;
+
+  /** Token usage information (optional) */
+  usage?: {
+    prompt: number;
+    completion: number;
+    total: number;
+  };
+
+  /** Retries needed before this response (set by callModel) */
+  retries?: number;
+
+  /** Total ms spent waiting between retries (set by callModel) */
+  retryWaitMs?: number;
+
+  /** True when served from the response cache (set by callModel) */
+  cached?: boolean;
+}
+
+/**
+ * A model API backend
+ */
+export interface ModelProvider {
+  /** Provider name as used in ModelSpec.provider */
+  name: ModelProviderName;
+
+  /** Environment variable read for the API key (overridable per spec via `apiKeyEnv`) */
+  apiKeyEnv: string;
+
+  /** Whether calls fail without an API key (false for local OpenAI-compatible servers) */
+  requiresApiKey: boolean;
+
+  /** Send a chat request for the given model */
+  chat(spec: ModelSpec, request: ChatRequest): Promise<ChatResponse>;
+}
+
+/**
+ * Resolve the API key for a spec, honoring its `apiKeyEnv` override.
+ */
+export function resolveSpecApiKey(spec: ModelSpec, provider: ModelProvider): string | undefined {
+  return resolveProviderApiKey(spec.apiKeyEnv ?? provider.apiKeyEnv);
+}
+
+/**
+ * Resolve the API key for a spec or throw a descriptive error.
+ */
+export function requireSpecApiKey(spec: ModelSpec, provider: ModelProvider): string {
+  const key = resolveSpecApiKey(spec, provider);
+  if (!key) {
+    throw new Error(`${spec.apiKeyEnv ?? provider.apiKeyEnv} environment variable not set`);
+  }
+  return key;
+}
+
+/**
+ * Split a `data:<mime>;base64,<data>` URL into its MIME type and payload.
+ * Returns null for regular (http/https) URLs.
+ */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) return null;
+  return { mimeType: match[1], data: match[2] };
+}
+
+/**
+ * Flatten message content to plain text (used for system prompts).
+ */
+export function contentToText(content: ChatMessage['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .flatMap((part) => (part.type === 'text' ? [part.text] : []))
+    .join('\n');
+}
+
+/**
+ * POST a JSON body and return the parsed JSON response, unchecked — each
+ * provider narrows it to the shape its API documents.
+ *
+ * Non-2xx responses throw with the provider label, status, and the API's
+ * error message (with any API key redacted).
+ *
+ * @throws ModelApiError if the request fails or returns a non-2xx status
+ */
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  label: string,
+  apiKey?: string
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new ModelApiError(`${label} API call failed: ${error instanceof Error ? error.message : String(error)}`, {
+      retryable: true,
+    });
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    let errorMessage = `${label} API error: ${response.status} ${response.statusText}`;
+
+    try {
+      const errorJson = JSON.parse(errorText);
+      const detail = errorJson.error?.message ?? errorJson[0]?.error?.message;
+      if (detail) {
+        errorMessage += ` - ${redactSecret(redactApiKey(detail), apiKey)}`;
+      }
+    } catch {
+      // Use generic error if JSON parsing fails
+    }
+
+    throw new ModelApiError(errorMessage, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+
+  return response.json();
+}
+
+/**
+ * Replace every occurrence of a known secret in text.
+ */
+function redactSecret(text: string, secret?: string): string {
+  if (!secret) return text;
+  return text.split(secret).join('***');
+}
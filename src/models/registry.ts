@@ -0,0 +1,158 @@
+/**
+ * Model Provider Registry
+ *
+ * Resolves the backend for each ModelSpec and dispatches chat calls with
+ * cassette record/replay, response caching, and retries.
+ * Specs without a `provider` field use OpenRouter, matching the original behavior.
+ */
+
+import type { ModelSpec, ModelProviderName, QuorumUXConfig, RetryConfig } from '../types.js';
+import { resolveApiKey } from '../config/global.js';
+import { callOpenRouter } from './openrouter.js';
+import { ModelProvider, ChatRequest, ChatResponse, resolveSpecApiKey } from './provider.js';
+import { anthropicProvider } from './anthropic.js';
+import { geminiProvider } from './gemini.js';
+import { openAIProvider, openAICompatibleProvider } from './openai.js';
+import { withRetry } from './retry.js';
+import { cacheKey, getCacheMode, readCache, writeCache } from './cache.js';
+import { getCassetteMode, replayInteraction, recordInteraction } from './cassette.js';
+import type { Budget } from '../utils/budget.js';
+import * as logger from '../utils/logger.js';
+
+export const openRouterProvider: ModelProvider = {
+  name: 'openrouter',
+  apiKeyEnv: 'OPENROUTER_API_KEY',
+  requiresApiKey: true,
+
+  async chat(spec: ModelSpec, request: ChatRequest): Promise<ChatResponse> {
+    return callOpenRouter({
+      model: spec.id,
+      messages: request.messages,
+      maxTokens: request.maxTokens,
+      referer: request.referer,
+      title: request.title,
+      apiKey: spec.apiKeyEnv ? resolveSpecApiKey(spec, openRouterProvider) : undefined,
+    });
+  },
+};
+
+export const PROVIDERS: Record<ModelProviderName, ModelProvider> = {
+  openrouter: openRouterProvider,
+  anthropic: anthropicProvider,
+  openai: openAIProvider,
+  gemini: geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+};
+
+let budget: Budget | null = null;
+
+/** Enforce a budget on subsequent billed calls, or pass null to remove it */
+export function setBudget(value: Budget | null): void {
+  budget = value;
+}
+
+/**
+ * Get the provider backend for a model spec (default: OpenRouter).
+ *
+ * @throws Error if the spec names an unknown provider
+ */
+export function getProvider(spec: ModelSpec): ModelProvider {
+  const name = spec.provider ?? 'openrouter';
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown model provider "${name}" for model "${spec.name}"`);
+  }
+  return provider;
+}
+
+/**
+ * Send a chat request to the model described by `spec` via its provider,
+ * answering from the response cache when possible and retrying transient
+ * failures per `retry`.
+ *
+ * In replay mode the cassette answers instead (no network; misses throw
+ * CassetteMissError). In record mode every response is also saved to the cassette.
+ * With a budget set, billed calls that would exceed it throw BudgetExceededError.
+ *
+ * The response carries `cached`, `retries` and `retryWaitMs`. Replayed
+ * responses count as cached ($0). On failure, the thrown ModelApiError
+ * carries the retry fields.
+ */
+export async function callModel(spec: ModelSpec, request: ChatRequest, retry?: RetryConfig): Promise<ChatResponse> {
+  const cassetteMode = getCassetteMode();
+  if (cassetteMode === 'replay') {
+    return { ...replayInteraction(spec, request), cached: true, retries: 0, retryWaitMs: 0 };
+  }
+
+  const response = await dispatch(spec, request, retry);
+  if (cassetteMode === 'record') recordInteraction(spec, request, response);
+  return response;
+}
+
+/**
+ * Call the provider through the response cache and retry policy
+ */
+async function dispatch(spec: ModelSpec, request: ChatRequest, retry?: RetryConfig): Promise<ChatResponse> {
+  const provider = getProvider(spec);
+
+  const mode = getCacheMode();
+  const key = mode !== 'off' ? cacheKey(spec, request) : undefined;
+  if (key && mode === 'use') {
+    const hit = readCache(key);
+    if (hit) {
+      logger.debug(`Cache hit for ${spec.name} (${key.substring(0, 12)})`);
+      return { ...hit, cached: true, retries: 0, retryWaitMs: 0 };
+    }
+  }
+
+  // Cache hits are free, so the budget only guards calls that reach the provider
+  const reserved = budget?.reserve(spec, request) ?? 0;
+  let usage: ChatResponse['usage'];
+  try {
+    const { result, retries, retryWaitMs } = await withRetry(
+      () => provider.chat(spec, request),
+      retry,
+      (err, attempt, delayMs, maxRetries) => {
+        logger.warn(`${spec.name}: ${err.message} — retry ${attempt}/${maxRetries} in ${(delayMs / 1000).toFixed(1)}s`);
+      }
+    );
+    usage = result.usage;
+
+    if (key) writeCache(key, spec, result);
+    return { ...result, cached: false, retries, retryWaitMs };
+  } finally {
+    budget?.settle(reserved, spec.id, usage);
+  }
+}
+
+/**
+ * All model specs referenced by a config (screenshot, video, synthesis).
+ */
+export function getAllModelSpecs(config: QuorumUXConfig): ModelSpec[] {
+  return [...config.models.screenshot, config.models.video, config.models.synthesis];
+}
+
+/**
+ * Find providers whose required API key cannot be resolved.
+ * Returns one entry per distinct provider + env var pair.
+ */
+export function findMissingApiKeys(specs: ModelSpec[]): Array<{ provider: ModelProviderName; envVar: string }> {
+  const missing = new Map<string, { provider: ModelProviderName; envVar: string }>();
+
+  for (const spec of specs) {
+    const provider = getProvider(spec);
+    if (!provider.requiresApiKey) continue;
+
+    const envVar = spec.apiKeyEnv ?? provider.apiKeyEnv;
+    // OpenRouter's default key also resolves from ~/.quorumux/config.json
+    const key = provider.name === 'openrouter' && !spec.apiKeyEnv
+      ? resolveApiKey()
+      : resolveSpecApiKey(spec, provider);
+
+    if (!key) {
+      missing.set(`${provider.name}:${envVar}`, { provider: provider.name, envVar });
+    }
+  }
+
+  return [...missing.values()];
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { ModelApiError, isRetryableStatus, parseRetryAfter, computeRetryDelay, withRetry } from './retry.js';
+
+describe('isRetryableStatus', () => {
+  it('retries rate limits and server errors', () => {
+    for (const status of [408, 429, 500, 502, 503, 529]) {
+      expect(isRetryableStatus(status)).toBe(true);
+    }
+  });
+
+  it('does not retry auth or invalid-model errors', () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      expect(isRetryableStatus(status)).toBe(false);
+    }
+  });
+});
+
+describe('ModelApiError', () => {
+  it('derives retryable from status', () => {
+    expect(new ModelApiError('x', { status: 429 }).retryable).toBe(true);
+    expect(new ModelApiError('x', { status: 401 }).retryable).toBe(false);
+  });
+
+  it('allows explicit retryable for network errors', () => {
+    expect(new ModelApiError('x', { retryable: true }).retryable).toBe(true);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('parses HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', now)).toBe(10_000);
+  });
+
+  it('returns undefined for missing or invalid headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('grows exponentially with jitter in [exp/2, exp]', () => {
+    const config = { baseDelayMs: 1000, maxDelayMs: 60_000 };
+    expect(computeRetryDelay(0, config, undefined, () => 0)).toBe(500);
+    expect(computeRetryDelay(0, config, undefined, () => 1)).toBe(1000);
+    expect(computeRetryDelay(2, config, undefined, () => 1)).toBe(4000);
+  });
+
+  it('caps at maxDelayMs', () => {
+    expect(computeRetryDelay(10, { baseDelayMs: 1000, maxDelayMs: 5000 }, undefined, () => 1)).toBe(5000);
+  });
+
+  it('prefers Retry-After, capped at maxDelayMs', () => {
+    expect(computeRetryDelay(0, { maxDelayMs: 60_000 }, 7000)).toBe(7000);
+    expect(computeRetryDelay(0, { maxDelayMs: 5000 }, 7000)).toBe(5000);
+  });
+});
+
+describe('withRetry', () => {
+  const fast = { baseDelayMs: 0, maxDelayMs: 0 };
+
+  it('returns zero retries when the first attempt succeeds', async () => {
+    const out = await withRetry(async () => 'ok', fast);
+    expect(out).toEqual({ result: 'ok', retries: 0, retryWaitMs: 0 });
+  });
+
+  it('retries retryable errors until success', async () => {
+    let calls = 0;
+    const out = await withRetry(async () => {
+      if (++calls < 3) throw new ModelApiError('busy', { status: 503 });
+      return 'ok';
+    }, fast);
+    expect(out.result).toBe('ok');
+    expect(out.retries).toBe(2);
+  });
+
+  it('fails immediately on fatal errors', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => {
+      calls++;
+      throw new ModelApiError('unauthorized', { status: 401 });
+    }, fast)).rejects.toMatchObject({ retries: 0 });
+    expect(calls).toBe(1);
+  });
+
+  it('gives up after maxRetries and records stats on the error', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => {
+      calls++;
+      throw new ModelApiError('rate limited', { status: 429 });
+    }, { ...fast, maxRetries: 2 })).rejects.toMatchObject({ retries: 2, retryWaitMs: 0 });
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry non-API errors', async () => {
+    let calls = 0;
+    await expect(withRetry(async () => {
+      calls++;
+      throw new Error('Invalid response');
+    }, fast)).rejects.toThrow('Invalid response');
+    expect(calls).toBe(1);
+  });
+});
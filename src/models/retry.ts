@@ -0,0 +1,135 @@
+/**
+ * Model Call Retry Policy
+ *
+ * Retries transient failures (429, 5xx, network errors) with exponential
+ * backoff and jitter, honoring Retry-After. Fatal errors (auth, invalid
+ * model, bad request) fail immediately.
+ */
+
+import type { RetryConfig } from '../types.js';
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+/** HTTP statuses worth retrying: timeouts, rate limits, and server errors */
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429]);
+
+/**
+ * Error raised by provider backends for failed API calls.
+ * Carries the HTTP status, whether a retry may succeed, and retry stats.
+ */
+export class ModelApiError extends Error {
+  /** HTTP status code (undefined for network errors) */
+  readonly status?: number;
+
+  /** Whether the call may succeed if retried */
+  readonly retryable: boolean;
+
+  /** Server-requested delay from the Retry-After header */
+  readonly retryAfterMs?: number;
+
+  /** Number of retries made before giving up */
+  retries = 0;
+
+  /** Total time spent waiting between attempts */
+  retryWaitMs = 0;
+
+  constructor(
+    message: string,
+    options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ModelApiError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? (options.status !== undefined && isRetryableStatus(options.status));
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Whether an HTTP status indicates a transient failure.
+ * 400/401/403/404 and other 4xx responses (auth, invalid model) are fatal.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status) || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ * Returns undefined if the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential backoff with
+ * equal jitter, or the server's Retry-After when given. Capped at maxDelayMs.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  config: RetryConfig = {},
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  const baseDelay = config.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelay = config.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, maxDelay);
+  }
+
+  const exponential = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Run `fn`, retrying retryable ModelApiErrors per the retry config.
+ *
+ * Resolves with the result plus retry stats. On final failure, rethrows the
+ * last error with `retries` and `retryWaitMs` set when it is a ModelApiError.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  config: RetryConfig = {},
+  onRetry?: (error: ModelApiError, attempt: number, delayMs: number, maxRetries: number) => void
+): Promise<{ result: T; retries: number; retryWaitMs: number }> {
+  const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let retries = 0;
+  let retryWaitMs = 0;
+
+  for (;;) {
+    try {
+      const result = await fn();
+      return { result, retries, retryWaitMs };
+    } catch (err) {
+      if (!(err instanceof ModelApiError)) throw err;
+
+      if (!err.retryable || retries >= maxRetries) {
+        err.retries = retries;
+        err.retryWaitMs = retryWaitMs;
+        throw err;
+      }
+
+      const delay = computeRetryDelay(retries, config, err.retryAfterMs);
+      retries++;
+      onRetry?.(err, retries, delay, maxRetries);
+      await sleep(delay);
+      retryWaitMs += delay;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
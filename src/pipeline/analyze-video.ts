@@ -1,24 +1,36 @@
 /**
  * QuorumUX Pipeline Stage 2b: Video Analysis
  *
- * Sends .webm videos to config.models.video via OpenRouter for temporal UX analysis.
- * Runs in parallel with Stage 2 screenshot analysis.
+ * Sends .webm videos to config.models.video via its provider for temporal UX analysis.
+ * Runs in parallel with Stage 2 screenshot analysis, sharing its scheduler.
+ * Like Stage 2, results are saved as each video finishes and `resume` skips
+ * videos that already have a successful analysis.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { QuorumUXConfig, VideoAnalysis } from '../types.js';
-import { callOpenRouter } from '../models/openrouter.js';
+import { callModel } from '../models/registry.js';
+import { ModelApiError } from '../models/retry.js';
+import { CassetteMissError } from '../models/cassette.js';
 import * as logger from '../utils/logger.js';
 import { ensureDir, loadJson } from '../utils/files.js';
 import { CostTracker } from '../utils/costs.js';
 import { getArchetypeById } from '../personas/index.js';
+import { today } from '../utils/clock.js';
+import { Scheduler } from '../utils/scheduler.js';
+import { BudgetExceededError, settleWithinBudget } from '../utils/budget.js';
+import { updatePipelineState, videoUnitKey } from './state.js';
+import { PipelineEvents, emitCallComplete } from './events.js';
+import type { AnalysisStageOptions } from './analyze.js';
 
 export async function analyzeVideos(
   config: QuorumUXConfig,
   runDir: string,
-  tracker?: CostTracker
+  tracker?: CostTracker,
+  options: AnalysisStageOptions = {}
 ): Promise<void> {
+  const { scheduler = new Scheduler(config.concurrency), resume = false, events } = options;
   logger.stage('Stage 2b: Video Analysis');
   tracker?.stageStart('Stage 2b');
 
@@ -38,11 +50,11 @@ export async function analyzeVideos(
   const maxSizeMB = config.video?.maxSizeMB ?? 20;
   const videoInventory: Array<{ personaId: string; file: string; path: string; sizeMB: number }> = [];
 
-  for (const personaId of fs.readdirSync(videosDir)) {
+  for (const personaId of fs.readdirSync(videosDir).sort()) {
     const personaVideosDir = path.join(videosDir, personaId);
     if (!fs.statSync(personaVideosDir).isDirectory()) continue;
 
-    for (const file of fs.readdirSync(personaVideosDir).filter((f) => f.endsWith('.webm'))) {
+    for (const file of fs.readdirSync(personaVideosDir).filter((f) => f.endsWith('.webm')).sort()) {
       const videoPath = path.join(personaVideosDir, file);
       const sizeMB = fs.statSync(videoPath).size / (1024 * 1024);
       if (sizeMB <= maxSizeMB) {
@@ -59,51 +71,54 @@ export async function analyzeVideos(
     return;
   }
 
-  const analyses: VideoAnalysis[] = [];
-  const personaAnalysesMap = new Map<string, VideoAnalysis[]>();
+  // Resume: keep successful analyses from the previous attempt and only call the rest
+  const outputPath = path.join(reportsDir, 'all-video-analyses-raw.json');
+  const previous = resume ? loadJson<VideoAnalysis[]>(outputPath) || [] : [];
+  const finished = new Map(
+    previous.filter((a) => !a.error).map((a) => [videoUnitKey(a.persona, a.videoPath), a] as const)
+  );
 
-  for (let i = 0; i < videoInventory.length; i++) {
-    const { personaId, file, path: videoPath, sizeMB } = videoInventory[i];
-    logger.progress(i + 1, videoInventory.length, `${personaId} — ${file} (${sizeMB.toFixed(1)}MB)`);
-
-    // Load persona summary for context
-    const summaryPath = path.join(summariesDir, `${personaId}-summary.json`);
-    const personaSummary = loadJson<any>(summaryPath);
-
-    try {
-      const response = await analyzeVideoWithModel(videoPath, config, personaSummary, personaId);
-
-      tracker?.record('Stage 2b', config.models.video.id, response.usage);
-
-      const videoAnalysis: VideoAnalysis = {
-        persona: personaId,
-        model: config.models.video.name,
-        modelId: config.models.video.id,
-        analysisType: 'video',
-        videoPath: file,
-        videoSizeMB: sizeMB,
-        analysis: response.content,
-      };
-
-      analyses.push(videoAnalysis);
-      if (!personaAnalysesMap.has(personaId)) personaAnalysesMap.set(personaId, []);
-      personaAnalysesMap.get(personaId)!.push(videoAnalysis);
-
-      logger.success(`${personaId} — ${file} complete`);
-    } catch (err) {
-      logger.error(`${personaId} — ${file}: ${err}`);
-
-      analyses.push({
-        persona: personaId,
-        model: config.models.video.name,
-        modelId: config.models.video.id,
-        analysisType: 'video',
-        videoPath: file,
-        videoSizeMB: sizeMB,
-        analysis: '',
-        error: String(err),
-      });
+  // One slot per video in inventory order; filled as calls complete
+  const slots: Array<VideoAnalysis | undefined> = [];
+  const saveProgress = () => {
+    fs.writeFileSync(outputPath, JSON.stringify(slots.filter((a) => a !== undefined), null, 2));
+    updatePipelineState(runDir);
+  };
+
+  const pending = videoInventory.filter(({ personaId, file }) => !finished.has(videoUnitKey(personaId, file)));
+  if (resume && finished.size > 0) {
+    logger.log(`  Resuming: ${videoInventory.length - pending.length} videos already analyzed, ${pending.length} to run`);
+  }
+  let started = 0;
+
+  // Queue every unfinished video; the scheduler bounds concurrency
+  const promises: Array<Promise<VideoAnalysis>> = [];
+  for (const video of videoInventory) {
+    const done = finished.get(videoUnitKey(video.personaId, video.file));
+    if (done) {
+      slots.push(done);
+      continue;
     }
+
+    const slot = slots.push(undefined) - 1;
+    promises.push(scheduler.run(config.models.video, async () => {
+      logger.progress(++started, pending.length, `${video.personaId} — ${video.file} (${video.sizeMB.toFixed(1)}MB)`);
+
+      const analysis = await analyzeVideoUnit(video, config, summariesDir, tracker, events);
+      slots[slot] = analysis;
+      saveProgress();
+      return analysis;
+    }));
+  }
+
+  const { budgetError } = await settleWithinBudget(promises);
+  const analyses = slots.filter((a): a is VideoAnalysis => a !== undefined);
+
+  // Group successful analyses by persona for the per-persona markdown files
+  const personaAnalysesMap = new Map<string, VideoAnalysis[]>();
+  for (const analysis of analyses.filter((a) => !a.error)) {
+    if (!personaAnalysesMap.has(analysis.persona)) personaAnalysesMap.set(analysis.persona, []);
+    personaAnalysesMap.get(analysis.persona)!.push(analysis);
   }
 
   // Write individual persona video analysis files
@@ -114,15 +129,74 @@ export async function analyzeVideos(
   }
 
   // Write raw results
-  const outputPath = path.join(reportsDir, 'all-video-analyses-raw.json');
   fs.writeFileSync(outputPath, JSON.stringify(analyses, null, 2));
 
+  if (budgetError) {
+    tracker?.stageEnd('Stage 2b');
+    logger.warn(`Budget reached — ${analyses.length}/${slots.length} video analyses written to ${path.basename(outputPath)}`);
+    throw budgetError;
+  }
+
   tracker?.stageEnd('Stage 2b');
   logger.success(`Video analysis complete. ${analyses.length} analyses written to ${path.basename(outputPath)}`);
 }
 
 /**
- * Send a video file to the model for analysis via OpenRouter
+ * Analyze one video, turning call failures into an error entry.
+ * Cassette misses and budget stops propagate.
+ */
+async function analyzeVideoUnit(
+  video: { personaId: string; file: string; path: string; sizeMB: number },
+  config: QuorumUXConfig,
+  summariesDir: string,
+  tracker?: CostTracker,
+  events?: PipelineEvents
+): Promise<VideoAnalysis> {
+  const { personaId, file, sizeMB } = video;
+
+  // Load persona summary for context
+  const summaryPath = path.join(summariesDir, `${personaId}-summary.json`);
+  const personaSummary = loadJson<any>(summaryPath);
+
+  try {
+    const response = await analyzeVideoWithModel(video.path, config, personaSummary, personaId);
+
+    tracker?.record('Stage 2b', config.models.video.id, response.usage, response.cached);
+    emitCallComplete(events, '2b', config.models.video, { response }, { persona: personaId, videoPath: file });
+    logger.success(`${personaId} — ${file} complete${response.cached ? ' (cached)' : ''}`);
+
+    return {
+      persona: personaId,
+      model: config.models.video.name,
+      modelId: config.models.video.id,
+      analysisType: 'video',
+      videoPath: file,
+      videoSizeMB: sizeMB,
+      analysis: response.content,
+      retries: response.retries,
+      retryWaitMs: response.retryWaitMs,
+    };
+  } catch (err) {
+    if (err instanceof CassetteMissError || err instanceof BudgetExceededError) throw err;
+    logger.error(`${personaId} — ${file}: ${err}`);
+    emitCallComplete(events, '2b', config.models.video, { error: err }, { persona: personaId, videoPath: file });
+
+    return {
+      persona: personaId,
+      model: config.models.video.name,
+      modelId: config.models.video.id,
+      analysisType: 'video',
+      videoPath: file,
+      videoSizeMB: sizeMB,
+      analysis: '',
+      error: String(err),
+      ...(err instanceof ModelApiError ? { retries: err.retries, retryWaitMs: err.retryWaitMs } : {}),
+    };
+  }
+}
+
+/**
+ * Send a video file to the model for analysis via its provider
  */
 async function analyzeVideoWithModel(
   videoPath: string,
@@ -140,8 +214,7 @@ async function analyzeVideoWithModel(
     : '';
   const userMessage = buildVideoUserMessage(config, path.basename(videoPath), summaryContext);
 
-  return callOpenRouter({
-    model: config.models.video.id,
+  return callModel(config.models.video, {
     messages: [
       {
         role: 'system',
@@ -166,7 +239,7 @@ async function analyzeVideoWithModel(
     maxTokens: config.models.video.maxTokens || 4000,
     referer: config.appUrl,
     title: 'QuorumUX UX Analysis',
-  });
+  }, config.retry);
 }
 
 /**
@@ -280,7 +353,7 @@ function formatVideoAnalysesForMarkdown(
     `# Video Analysis Report — ${personaId}`,
     ``,
     `**Project:** ${config.name}`,
-    `**Date:** ${new Date().toISOString().split('T')[0]}`,
+    `**Date:** ${today()}`,
     ``,
     `## Summary`,
     ``,
@@ -1,24 +1,50 @@
 /**
  * QuorumUX Pipeline Stage 2: Screenshot Analysis
  *
- * Sends screenshot grids to all models in config.models.screenshot via OpenRouter.
- * Models run in parallel per persona, matching the reference implementation.
+ * Sends screenshot grids to all models in config.models.screenshot via their providers.
+ * Every persona × model call is queued on the shared scheduler; results are
+ * written in persona-then-model order regardless of completion order.
+ * all-analyses-raw.json is rewritten as each call finishes, so a crash or
+ * budget stop keeps completed analyses; with `resume`, only failed or
+ * missing persona × model units are called again. Models answer in the
+ * JSON schema from findings.ts; validated findings are stored as `structured`.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { QuorumUXConfig, PersonaSummary, ScreenshotAnalysis } from '../types.js';
-import { callOpenRouter, OpenRouterResponse } from '../models/openrouter.js';
+import { QuorumUXConfig, ModelSpec, PersonaSummary, ScreenshotAnalysis } from '../types.js';
+import { callModel } from '../models/registry.js';
+import { ChatResponse } from '../models/provider.js';
+import { ModelApiError } from '../models/retry.js';
+import { CassetteMissError } from '../models/cassette.js';
 import * as logger from '../utils/logger.js';
 import { ensureDir, loadJson } from '../utils/files.js';
 import { CostTracker } from '../utils/costs.js';
 import { getArchetypeById } from '../personas/index.js';
+import { Scheduler } from '../utils/scheduler.js';
+import { BudgetExceededError, settleWithinBudget } from '../utils/budget.js';
+import { screenshotUnitKey, updatePipelineState } from './state.js';
+import { PipelineEvents, emitCallComplete } from './events.js';
+import { parseStructuredAnalysis } from './findings.js';
+import { resolveTaxonomy } from '../config/taxonomy.js';
+
+/** Options shared by the Stage 2 and 2b runners */
+export interface AnalysisStageOptions {
+  /** Shared call scheduler (default: a new one from config.concurrency) */
+  scheduler?: Scheduler;
+  /** Skip units that already have a successful result on disk */
+  resume?: boolean;
+  /** Receives a `call:complete` event per model call */
+  events?: PipelineEvents;
+}
 
 export async function analyzeScreenshots(
   config: QuorumUXConfig,
   runDir: string,
-  tracker?: CostTracker
+  tracker?: CostTracker,
+  options: AnalysisStageOptions = {}
 ): Promise<void> {
+  const { scheduler = new Scheduler(config.concurrency), resume = false, events } = options;
   logger.stage('Stage 2: Screenshot Analysis');
   tracker?.stageStart('Stage 2');
 
@@ -34,7 +60,7 @@ export async function analyzeScreenshots(
     return;
   }
 
-  const gridFiles = fs.readdirSync(gridsDir).filter((f) => f.endsWith('-grid.jpg'));
+  const gridFiles = fs.readdirSync(gridsDir).filter((f) => f.endsWith('-grid.jpg')).sort();
 
   if (gridFiles.length === 0) {
     logger.warn('No screenshot grids found in grids/ directory');
@@ -42,9 +68,27 @@ export async function analyzeScreenshots(
     return;
   }
 
-  const analyses: ScreenshotAnalysis[] = [];
-  const totalCalls = gridFiles.length * config.models.screenshot.length;
-  let completed = 0;
+  // Resume: keep successful analyses from the previous attempt and only call the rest
+  const outputPath = path.join(reportsDir, 'all-analyses-raw.json');
+  const previous = resume ? loadJson<ScreenshotAnalysis[]>(outputPath) || [] : [];
+  const finished = new Map(
+    previous.filter((a) => !a.error).map((a) => [screenshotUnitKey(a.persona, a.modelId), a] as const)
+  );
+
+  // One slot per persona × model in output order; filled as calls complete
+  const slots: Array<ScreenshotAnalysis | undefined> = [];
+  const saveProgress = () => {
+    fs.writeFileSync(outputPath, JSON.stringify(slots.filter((a) => a !== undefined), null, 2));
+    updatePipelineState(runDir);
+  };
+
+  const totalCalls = gridFiles.length * config.models.screenshot.length - finished.size;
+  if (resume && finished.size > 0) {
+    logger.log(`  Resuming: ${finished.size} analyses already complete, ${totalCalls} to run`);
+  }
+  let started = 0;
+
+  const promises: Array<Promise<ScreenshotAnalysis>> = [];
 
   for (const gridFile of gridFiles) {
     const personaId = gridFile.replace('-grid.jpg', '');
@@ -54,75 +98,111 @@ export async function analyzeScreenshots(
     const summaryPath = path.join(summariesDir, `${personaId}-summary.json`);
     const personaSummary = loadJson<PersonaSummary>(summaryPath);
 
-    // Run all models in parallel for this persona
-    const modelPromises = config.models.screenshot.map(async (modelSpec) => {
-      const callNum = ++completed;
-      logger.progress(callNum, totalCalls, `${personaId} — ${modelSpec.name}...`);
-
-      try {
-        const response = await analyzeGridWithModel(
-          gridPath,
-          modelSpec.id,
-          modelSpec.name,
-          config,
-          personaSummary,
-          modelSpec.maxTokens
-        );
-
-        tracker?.record('Stage 2', modelSpec.id, response.usage);
-        logger.success(`${personaId} — ${modelSpec.name} complete`);
-
-        return {
-          persona: personaId,
-          model: modelSpec.name,
-          modelId: modelSpec.id,
-          analysis: response.content,
-          tokens: response.usage,
-        } as ScreenshotAnalysis;
-      } catch (err) {
-        logger.error(`${personaId} — ${modelSpec.name}: ${err}`);
-
-        return {
-          persona: personaId,
-          model: modelSpec.name,
-          modelId: modelSpec.id,
-          analysis: '',
-          error: String(err),
-        } as ScreenshotAnalysis;
+    // Queue every unfinished model for this persona; the scheduler bounds concurrency
+    for (const modelSpec of config.models.screenshot) {
+      const done = finished.get(screenshotUnitKey(personaId, modelSpec.id));
+      if (done) {
+        slots.push(done);
+        continue;
       }
-    });
 
-    const results = await Promise.all(modelPromises);
-    analyses.push(...results);
+      const slot = slots.push(undefined) - 1;
+      promises.push(scheduler.run(modelSpec, async () => {
+        const callNum = ++started;
+        logger.progress(callNum, totalCalls, `${personaId} — ${modelSpec.name}...`);
+
+        const analysis = await analyzeUnit(gridPath, modelSpec, config, personaId, personaSummary, tracker, events);
+        slots[slot] = analysis;
+        saveProgress();
+        return analysis;
+      }));
+    }
   }
 
+  const { budgetError } = await settleWithinBudget(promises);
+  const analyses = slots.filter((a): a is ScreenshotAnalysis => a !== undefined);
+
   // Write results
-  const outputPath = path.join(reportsDir, 'all-analyses-raw.json');
   fs.writeFileSync(outputPath, JSON.stringify(analyses, null, 2));
 
+  if (budgetError) {
+    tracker?.stageEnd('Stage 2');
+    logger.warn(`Budget reached — ${analyses.length}/${slots.length} screenshot analyses written to ${path.basename(outputPath)}`);
+    throw budgetError;
+  }
+
   tracker?.stageEnd('Stage 2');
   logger.success(`Screenshot analysis complete. ${analyses.length} analyses written to ${path.basename(outputPath)}`);
 }
 
 /**
- * Send a screenshot grid to a model for analysis via OpenRouter
+ * Analyze one persona grid with one model, turning call failures into an
+ * error entry. Cassette misses and budget stops propagate.
  */
-async function analyzeGridWithModel(
+async function analyzeUnit(
   gridPath: string,
-  modelId: string,
-  modelName: string,
+  modelSpec: ModelSpec,
   config: QuorumUXConfig,
+  personaId: string,
   personaSummary: PersonaSummary | null,
-  maxTokens?: number
-): Promise<OpenRouterResponse> {
+  tracker?: CostTracker,
+  events?: PipelineEvents
+): Promise<ScreenshotAnalysis> {
+  try {
+    const response = await analyzeGridWithModel(gridPath, modelSpec, config, personaSummary);
+
+    tracker?.record('Stage 2', modelSpec.id, response.usage, response.cached);
+    emitCallComplete(events, '2', modelSpec, { response }, { persona: personaId });
+    logger.success(`${personaId} — ${modelSpec.name} complete${response.cached ? ' (cached)' : ''}`);
+
+    // Keep the raw text either way; synthesis falls back to it when the JSON is unusable
+    const { structured, error: structuredError } = parseStructuredAnalysis(response.content, resolveTaxonomy(config.taxonomy).categories);
+    if (structuredError) {
+      logger.warn(`${personaId} — ${modelSpec.name}: unstructured response (${structuredError})`);
+    }
+
+    return {
+      persona: personaId,
+      model: modelSpec.name,
+      modelId: modelSpec.id,
+      analysis: response.content,
+      ...(structured ? { structured } : { structuredError }),
+      tokens: response.usage,
+      retries: response.retries,
+      retryWaitMs: response.retryWaitMs,
+    };
+  } catch (err) {
+    if (err instanceof CassetteMissError || err instanceof BudgetExceededError) throw err;
+    logger.error(`${personaId} — ${modelSpec.name}: ${err}`);
+    emitCallComplete(events, '2', modelSpec, { error: err }, { persona: personaId });
+
+    return {
+      persona: personaId,
+      model: modelSpec.name,
+      modelId: modelSpec.id,
+      analysis: '',
+      error: String(err),
+      ...(err instanceof ModelApiError ? { retries: err.retries, retryWaitMs: err.retryWaitMs } : {}),
+    };
+  }
+}
+
+/**
+ * Send a screenshot grid to a model for analysis via its provider
+ */
+async function analyzeGridWithModel(
+  gridPath: string,
+  modelSpec: ModelSpec,
+  config: QuorumUXConfig,
+  personaSummary: PersonaSummary | null
+): Promise<ChatResponse> {
   const imageBuffer = fs.readFileSync(gridPath);
   const imageBase64 = imageBuffer.toString('base64');
 
   const systemPrompt = buildScreenshotSystemPrompt(config, personaSummary);
   const userMessage = buildScreenshotUserMessage(config, personaSummary);
 
-  return callOpenRouter({
-    model: modelId,
+  return callModel(modelSpec, {
     messages: [
       {
         role: 'system',
@@ -144,10 +224,10 @@ async function analyzeGridWithModel(
         ],
       },
     ],
-    maxTokens: maxTokens || 3000,
+    maxTokens: modelSpec.maxTokens || 3000,
     referer: config.appUrl,
     title: 'QuorumUX UX Analysis',
-  });
+  }, config.retry);
 }
 
 /**
@@ -211,18 +291,31 @@ function buildScreenshotUserMessage(config: QuorumUXConfig, personaSummary: Pers
   }
 
   parts.push(
-    `For each issue found, provide:`,
-    `1. **Severity**: CRITICAL (blocks user), HIGH (significant friction), MEDIUM (noticeable issue), LOW (polish)`,
-    `2. **Category**: Layout, Navigation, Content, Interaction, Visual, Accessibility, Performance`,
-    `3. **Description**: What the issue is`,
-    `4. **Location**: Where in the flow / which screen`,
-    `5. **Recommendation**: How to fix it`,
+    `The grid shows the persona's screenshots in order, 3 tiles per row. Number tiles from 1, left-to-right then top-to-bottom.`,
+    ``,
+    `Respond with ONLY a JSON object (no prose) matching this schema:`,
+    '```json',
+    `{`,
+    `  "findings": [`,
+    `    {`,
+    `      "severity": "CRITICAL | HIGH | MEDIUM | LOW",`,
+    `      "category": "${resolveTaxonomy(config.taxonomy).categories.join(' | ')}",`,
+    `      "location": "Where in the flow / which screen",`,
+    `      "tileIndex": 3,`,
+    `      "description": "What the issue is",`,
+    `      "recommendation": "How to fix it"`,
+    `    }`,
+    `  ],`,
+    `  "uxScore": 7,`,
+    `  "frictionPoints": ["Top 3 most impactful issues"],`,
+    `  "strengths": ["Top 3 things that work well"],`,
+    `  "wouldReturn": { "verdict": "yes | no | maybe", "reasoning": "Why" }`,
+    `}`,
+    '```',
     ``,
-    `Also provide:`,
-    `- **Overall UX Score**: 1-10 (10 = excellent)`,
-    `- **Top 3 Friction Points**: Most impactful issues`,
-    `- **Top 3 Strengths**: What works well`,
-    `- **Would this persona return?**: Yes/No/Maybe with reasoning`
+    `- **severity**: CRITICAL (blocks user), HIGH (significant friction), MEDIUM (noticeable issue), LOW (polish)`,
+    `- **tileIndex**: the tile the issue is visible in, or null if it spans several tiles`,
+    `- **uxScore**: overall UX score, 1-10 (10 = excellent)`
   );
 
   return parts.join('\n');
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ScreenshotAnalysis, Synthesis, VideoAnalysis } from '../types.js';
+import { normalizeQuote, quoteAppearsIn, screenshotForTile, verifyCitations } from './citations.js';
+
+function synthesis(overrides: Partial<Synthesis> = {}): Synthesis {
+  return {
+    synthesisDate: '2026-01-01',
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 2, videoAnalyses: 1, testSummaries: 0 },
+    consensusIssues: [],
+    videoOnlyIssues: [],
+    modelUniqueIssues: [],
+    disagreements: [],
+    overallAssessment: { uxScore: 70, launchReadiness: 'ready', topStrengths: [], criticalPath: [], temporalInsightsSummary: '' },
+    ...overrides,
+  };
+}
+
+const screenshots: ScreenshotAnalysis[] = [
+  {
+    persona: 'p1',
+    model: 'Claude Sonnet',
+    modelId: 'anthropic/claude-sonnet-4',
+    analysis: 'The **Submit** button is hidden\n  below the fold on mobile.',
+  },
+  {
+    persona: 'p1',
+    model: 'GPT-4o',
+    modelId: 'openai/gpt-4o',
+    analysis: '{}',
+    structured: {
+      findings: [
+        {
+          severity: 'HIGH',
+          category: 'Layout',
+          location: 'footer',
+          tileIndex: 2,
+          description: 'Footer links overlap the cookie banner',
+          recommendation: 'Raise the banner',
+        },
+      ],
+      uxScore: 6,
+      frictionPoints: [],
+      strengths: [],
+      wouldReturn: { verdict: 'maybe', reasoning: '' },
+    },
+  },
+];
+
+const videos: VideoAnalysis[] = [
+  {
+    persona: 'p1',
+    model: 'Gemini Pro',
+    modelId: 'google/gemini-pro',
+    analysisType: 'video',
+    videoPath: 'flow.webm',
+    videoSizeMB: 1,
+    analysis: 'At 00:42 the user hesitates over the pricing toggle.',
+  },
+];
+
+describe('normalizeQuote', () => {
+  it('ignores case, markdown emphasis, quote marks and whitespace', () => {
+    expect(normalizeQuote('  The **“Submit”** button…  ')).toBe('the submit button');
+  });
+});
+
+describe('quoteAppearsIn', () => {
+  it('matches across line breaks and markdown', () => {
+    expect(quoteAppearsIn('Submit button is hidden below the fold', screenshots[0].analysis)).toBe(true);
+    expect(quoteAppearsIn('button is invisible', screenshots[0].analysis)).toBe(false);
+    expect(quoteAppearsIn('   ', screenshots[0].analysis)).toBe(false);
+  });
+});
+
+describe('citations with screenshots', () => {
+  let runDir: string;
+
+  beforeEach(() => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-citations-'));
+    const dir = path.join(runDir, 'screenshots', 'p1');
+    fs.mkdirSync(dir, { recursive: true });
+    for (const file of ['grid-02.png', 'grid-01.png', 'notes.txt']) fs.writeFileSync(path.join(dir, file), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(runDir, { recursive: true, force: true });
+  });
+
+  it('maps 1-based tiles to sorted grid screenshots', () => {
+    expect(screenshotForTile(runDir, 'p1', 1)).toBe('screenshots/p1/grid-01.png');
+    expect(screenshotForTile(runDir, 'p1', 3)).toBeUndefined();
+    expect(screenshotForTile(runDir, 'p2', 1)).toBeUndefined();
+  });
+
+  it('verifies quotes against the cited analysis and resolves screenshots', () => {
+    const checked = verifyCitations(
+      synthesis({
+        modelUniqueIssues: [
+          {
+            title: '[Footer] Links overlap banner',
+            reportedBy: 'gpt',
+            severity: 'P2',
+            description: '',
+            recommendation: '',
+            confidence: 'medium',
+            citations: [
+              { persona: 'p1', model: 'gpt', quote: 'Footer links overlap the cookie banner' },
+              { persona: 'p1', model: 'claude', quote: 'Submit button is hidden', tile: 1 },
+              { persona: 'p1', model: 'claude', quote: 'Footer links overlap the cookie banner' },
+            ],
+          },
+        ],
+        videoOnlyIssues: [
+          {
+            title: '[Pricing] Toggle causes hesitation',
+            severity: 'P2',
+            description: '',
+            timestamp: '00:42',
+            persona: 'p1',
+            recommendation: '',
+            citations: [{ persona: 'p1', model: 'video', quote: 'hesitates over the pricing toggle', timestamp: '00:42' }],
+          },
+        ],
+      }),
+      screenshots,
+      videos,
+      runDir
+    );
+
+    expect(checked.modelUniqueIssues[0].citations).toEqual([
+      { persona: 'p1', model: 'gpt', quote: 'Footer links overlap the cookie banner', tile: 2, screenshot: 'screenshots/p1/grid-02.png', verified: true },
+      { persona: 'p1', model: 'claude', quote: 'Submit button is hidden', tile: 1, screenshot: 'screenshots/p1/grid-01.png', verified: true },
+      { persona: 'p1', model: 'claude', quote: 'Footer links overlap the cookie banner', verified: false },
+    ]);
+    expect(checked.videoOnlyIssues[0].citations?.[0].verified).toBe(true);
+    expect(checked.citationCheck).toEqual({ total: 4, verified: 3 });
+  });
+
+  it('resolves no screenshot for a persona that was not analysed', () => {
+    fs.mkdirSync(path.join(runDir, 'outside'));
+    fs.writeFileSync(path.join(runDir, 'outside', 'secret.png'), '');
+    const checked = verifyCitations(
+      synthesis({
+        modelUniqueIssues: [
+          {
+            title: '[Footer] Links overlap banner',
+            reportedBy: 'gpt',
+            severity: 'P2',
+            description: '',
+            recommendation: '',
+            confidence: 'medium',
+            citations: [{ persona: '../outside', model: 'gpt', quote: 'Footer links overlap the cookie banner', tile: 1 }],
+          },
+        ],
+      }),
+      screenshots,
+      videos,
+      runDir
+    );
+
+    expect(checked.modelUniqueIssues[0].citations).toEqual([
+      { persona: '../outside', model: 'gpt', quote: 'Footer links overlap the cookie banner', tile: 1, verified: false },
+    ]);
+  });
+
+  it('leaves a synthesis without citations unchanged', () => {
+    const plain = synthesis();
+    expect(verifyCitations(plain, screenshots, videos, runDir)).toEqual(plain);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * QuorumUX — Evidence Citations
+ *
+ * Each issue in synthesis.json cites the analyses it came from: persona,
+ * model, a short verbatim quote, and a grid tile or video timestamp. This
+ * module checks every quote against the raw Stage 2/2b analyses and maps
+ * grid tiles back to the screenshot files, so the report can link them.
+ */
+
+import * as path from 'path';
+import type { IssueCitation, ScreenshotAnalysis, Synthesis, VideoAnalysis } from '../types.js';
+import { claimMatchesModel } from './consensus.js';
+import { listGridScreenshots } from './extract-frames.js';
+
+/**
+ * Normalize text for quote matching: lowercase, no markdown emphasis or
+ * quote marks, single spaces.
+ */
+export function normalizeQuote(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[*_`]/g, '')
+    .replace(/[“”"‘’']/g, '')
+    .replace(/\\n/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[\s.,;:…-]+|[\s.,;:…-]+$/g, '');
+}
+
+/** Whether `quote` appears in `text`, ignoring case, markdown and whitespace */
+export function quoteAppearsIn(quote: string, text: string): boolean {
+  const q = normalizeQuote(quote);
+  return q.length > 0 && normalizeQuote(text).includes(q);
+}
+
+/**
+ * Screenshot file for a 1-based grid tile, relative to the run directory
+ */
+export function screenshotForTile(runDir: string, persona: string, tile: number): string | undefined {
+  const files = listGridScreenshots(path.join(runDir, 'screenshots', persona));
+  const file = files[tile - 1];
+  return file ? path.posix.join('screenshots', persona, file) : undefined;
+}
+
+/**
+ * Check one citation: find the cited analysis, confirm the quote is in it,
+ * and resolve the screenshot for its tile (taken from a structured finding
+ * containing the quote when the citation gives none). Only verified
+ * citations get a screenshot: the persona comes from the model, and only
+ * one matching an analysed persona is safe to turn into a path.
+ */
+function checkCitation(
+  citation: IssueCitation,
+  screenshotAnalyses: ScreenshotAnalysis[],
+  videoAnalyses: VideoAnalysis[],
+  runDir: string
+): IssueCitation {
+  const { screenshot: _screenshot, verified: _verified, ...cited } = citation;
+  const ofPersona = <T extends ScreenshotAnalysis | VideoAnalysis>(analyses: T[]) =>
+    analyses.filter((a) => !a.error && a.persona === citation.persona);
+
+  let tile = citation.tile ?? null;
+  let verified = false;
+
+  for (const analysis of ofPersona(screenshotAnalyses)) {
+    if (!claimMatchesModel(citation.model, analysis.model, analysis.modelId)) continue;
+
+    const finding = analysis.structured?.findings.find(
+      (f) => quoteAppearsIn(citation.quote, f.description) || quoteAppearsIn(citation.quote, f.recommendation)
+    );
+    if (finding || quoteAppearsIn(citation.quote, analysis.analysis)) {
+      verified = true;
+      tile ??= finding?.tileIndex ?? null;
+      break;
+    }
+  }
+
+  if (!verified) {
+    verified = ofPersona(videoAnalyses).some(
+      (a) =>
+        (citation.model.toLowerCase() === 'video' || claimMatchesModel(citation.model, a.model, a.modelId)) &&
+        quoteAppearsIn(citation.quote, a.analysis)
+    );
+  }
+
+  const screenshot = verified && tile !== null && Number.isInteger(tile) && tile >= 1
+    ? screenshotForTile(runDir, citation.persona, tile)
+    : undefined;
+
+  return {
+    ...cited,
+    ...(tile !== null ? { tile } : {}),
+    ...(screenshot ? { screenshot } : {}),
+    verified,
+  };
+}
+
+/**
+ * Verify the citations of every issue against the raw analyses. Citations
+ * are kept either way; `verified` says whether the quote was found.
+ */
+export function verifyCitations(
+  synthesis: Synthesis,
+  screenshotAnalyses: ScreenshotAnalysis[],
+  videoAnalyses: VideoAnalysis[],
+  runDir: string
+): Synthesis {
+  let total = 0;
+  let verified = 0;
+  const check = <T extends { citations?: IssueCitation[] }>(issue: T): T => {
+    if (!issue.citations?.length) return issue;
+    const citations = issue.citations.map((c) => checkCitation(c, screenshotAnalyses, videoAnalyses, runDir));
+    total += citations.length;
+    verified += citations.filter((c) => c.verified).length;
+    return { ...issue, citations };
+  };
+
+  const checked: Synthesis = {
+    ...synthesis,
+    consensusIssues: synthesis.consensusIssues.map(check),
+    videoOnlyIssues: synthesis.videoOnlyIssues.map(check),
+    modelUniqueIssues: synthesis.modelUniqueIssues.map(check),
+  };
+  return total > 0 ? { ...checked, citationCheck: { total, verified } } : checked;
+}
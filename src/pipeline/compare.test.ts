@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { compareSyntheses, jaccardSimilarity, matchIssues, normalizeTitle, generateScoreContext, type CompareOptions } from './compare.js';
+import {
+  compareSyntheses, comparePersonas, componentTags, issueSimilarity, jaccardSimilarity, matchIssues, normalizeTitle,
+  resolveSynonyms, generateScoreContext, type CompareOptions,
+} from './compare.js';
 import type { Synthesis } from '../types.js';
 import type { CompareIssue, CompareResult } from './compare.js';
 
@@ -120,6 +123,53 @@ describe('matchIssues', () => {
   });
 });
 
+// ─── issueSimilarity ────────────────────────────────────────────────────────
+
+describe('issueSimilarity', () => {
+  const issue = (title: string, extra: Partial<CompareIssue> = {}): CompareIssue => ({
+    id: 'ISSUE-001', title, severity: 'P1', type: 'consensus', category: 'functional', ...extra,
+  });
+
+  it('scores bare titles by their Jaccard similarity', () => {
+    const a = issue('Login button broken on mobile');
+    const b = issue('Login button not working');
+    const similarity = issueSimilarity(a, b);
+
+    expect(similarity.score).toBe(jaccardSimilarity(a.title, b.title));
+    expect(similarity.description).toBeUndefined();
+    expect(similarity.tags).toBeUndefined();
+    expect(similarity.personas).toBeUndefined();
+  });
+
+  it('weighs in descriptions, component tags and personas', () => {
+    const description = 'The pay button stays disabled after the card number is entered, so checkout cannot finish.';
+    const a = issue('[Checkout] Pay button disabled', { description, personas: ['mobile-shopper'] });
+    const b = issue('[Checkout Form] Cannot complete purchase', { description, personas: ['mobile-shopper', 'power-user'] });
+    const similarity = issueSimilarity(a, b);
+
+    expect(similarity.title).toBe(0);
+    expect(similarity.description).toBeCloseTo(1);
+    expect(similarity.tags).toBe(0.5);
+    expect(similarity.personas).toBe(0.5);
+    expect(similarity.score).toBeCloseTo((0.3 + 0.05 + 0.05) / 1.0);
+  });
+
+  it('leaves severity tags out of component tags', () => {
+    expect(componentTags({ title: '[P0] [Coach Panel] Focus lost', severity: 'P0' })).toEqual(['coach', 'panel']);
+    expect(componentTags({ title: '[Sev1] Focus lost', severity: 'Sev1' })).toEqual([]);
+  });
+});
+
+// ─── Project synonyms ───────────────────────────────────────────────────────
+
+describe('resolveSynonyms', () => {
+  it('layers project synonyms over the built-ins', () => {
+    const synonyms = resolveSynonyms({ Paywall: 'upgrade prompt', latency: 'lag' });
+    expect(normalizeTitle('Paywall latency on launch', synonyms)).toBe('upgrade prompt lag on launch');
+    expect(normalizeTitle('Navigation stuck', synonyms)).toBe('nav block');
+  });
+});
+
 // ─── compareSyntheses ───────────────────────────────────────────────────────
 
 describe('compareSyntheses', () => {
@@ -241,6 +291,26 @@ describe('compareSyntheses', () => {
     expect(result.severityDistribution.current).toEqual({ P0: 0, P1: 0, P2: 1 });
   });
 
+  it('orders severities by the run\'s taxonomy', () => {
+    const taxonomy = {
+      severities: ['Sev1', 'Sev2', 'Sev3', 'Sev4'].map((name, i) => ({ name, description: name, weight: 8 - i * 2 })),
+      categories: ['functional', 'Compliance'],
+    };
+    const issue = (id: string, severity: string) => ({
+      id, title: 'Consent banner hides checkout button', severity, category: 'Compliance', description: '', recommendation: '',
+      effort: 'low' as const, temporalInsight: null,
+      evidence: { screenshotModels: [], videoConfirmed: false, testRunConfirmed: false, affectedPersonas: [] },
+    });
+    const baseline = makeSynthesis({ taxonomy, consensusIssues: [issue('QUX-a1', 'Sev3')] });
+    const current = makeSynthesis({ taxonomy, consensusIssues: [issue('QUX-a1', 'Sev1')] });
+
+    const result = compareSyntheses(baseline, current, 'run-01', 'run-02');
+
+    expect(result.severityLevels).toEqual(['Sev1', 'Sev2', 'Sev3', 'Sev4']);
+    expect(result.regressions).toHaveLength(1);
+    expect(result.severityDistribution.current).toEqual({ Sev1: 1, Sev2: 0, Sev3: 0, Sev4: 0 });
+  });
+
   it('handles both runs with zero issues', () => {
     const baseline = makeSynthesis();
     const current = makeSynthesis();
@@ -693,6 +763,87 @@ describe('compareSyntheses', () => {
   });
 });
 
+// ─── Description-aware matching and --explain ───────────────────────────────
+
+describe('compareSyntheses matching signals', () => {
+  function consensus(id: string, title: string, description: string, category = 'functional'): Synthesis['consensusIssues'][number] {
+    return {
+      id, title, severity: 'P1', category, description, recommendation: '', effort: 'medium', temporalInsight: null,
+      evidence: { screenshotModels: [], videoConfirmed: false, testRunConfirmed: false, affectedPersonas: ['first-timer'] },
+    };
+  }
+  const unrelated = consensus('QUX-x1', 'Footer links have low contrast', 'Grey footer links on a white background are hard to read.', 'visual');
+
+  it('matches a reworded title when the description is the same', () => {
+    const description = 'After choosing a plan, the upgrade dialog cannot be closed and hides the account settings.';
+    const baseline = makeSynthesis({ consensusIssues: [consensus('QUX-r1', 'Upgrade dialog traps the user', description), unrelated] });
+    const current = makeSynthesis({ consensusIssues: [consensus('QUX-r2', 'Plan modal cannot be dismissed', description), unrelated] });
+
+    const result = compareSyntheses(baseline, current, 'run-01', 'run-02');
+
+    expect(result.resolvedIssues).toEqual([]);
+    expect(result.newIssues).toEqual([]);
+    expect(result.persistingIssues.find((p) => p.currentId === 'QUX-r2')).toMatchObject({ baselineId: 'QUX-r1', matchMethod: 'fuzzy' });
+  });
+
+  it('applies project synonyms', () => {
+    const baseline = makeSynthesis({ consensusIssues: [consensus('QUX-s1', 'Paywall hides pricing', '')] });
+    const current = makeSynthesis({ consensusIssues: [consensus('QUX-s2', 'Upgrade hides pricing', '', 'visual')] });
+
+    expect(compareSyntheses(baseline, current, 'run-01', 'run-02').persistingIssues).toEqual([]);
+    expect(compareSyntheses(baseline, current, 'run-01', 'run-02', { synonyms: { paywall: 'upgrade' } }).persistingIssues)
+      .toHaveLength(1);
+  });
+
+  it('sets suppressed issues aside instead of counting them as new, resolved or persisting', () => {
+    const known = { status: 'suppressed' as const, suppression: { reason: 'Known', matchedBy: 'QUX-k1' } };
+    const baseline = makeSynthesis({
+      consensusIssues: [
+        { ...consensus('QUX-k1', 'Search results load slowly', 'Results take six seconds to appear.'), severity: 'P2' },
+        { ...consensus('QUX-k2', 'Cart badge shows wrong count', 'The cart icon count lags behind.'), ...known },
+      ],
+    });
+    const current = makeSynthesis({
+      consensusIssues: [
+        { ...consensus('QUX-k1', 'Search results load slowly', 'Results take six seconds to appear.'), ...known },
+        { ...consensus('QUX-k3', 'Upgrade dialog traps the user', 'The plan dialog cannot be closed.'), severity: 'P0', ...known },
+      ],
+    });
+
+    const result = compareSyntheses(baseline, current, 'run-01', 'run-02');
+
+    expect(result.persistingIssues).toEqual([]);
+    expect(result.regressions).toEqual([]);
+    expect(result.newIssues).toEqual([]);
+    expect(result.resolvedIssues).toEqual([]);
+    expect(result.severityDistribution).toEqual({ baseline: { P0: 0, P1: 0, P2: 1 }, current: { P0: 0, P1: 0, P2: 0 } });
+    expect(result.suppressed.persistingIssues).toMatchObject([{ baselineId: 'QUX-k1', currentId: 'QUX-k1' }]);
+    expect(result.suppressed.newIssues.map((i) => i.id)).toEqual(['QUX-k3']);
+    expect(result.suppressed.resolvedIssues.map((i) => i.id)).toEqual(['QUX-k2']);
+  });
+
+  it('explains each match and each unmatched issue when asked', () => {
+    const baseline = makeSynthesis({
+      consensusIssues: [unrelated, consensus('QUX-e1', 'Search results load slowly', 'Results take six seconds to appear.')],
+    });
+    const current = makeSynthesis({
+      consensusIssues: [unrelated, consensus('QUX-e2', 'Cart badge shows wrong count', 'The cart icon count lags behind.')],
+    });
+
+    expect(compareSyntheses(baseline, current, 'run-01', 'run-02').matchExplanations).toBeUndefined();
+
+    const explanations = compareSyntheses(baseline, current, 'run-01', 'run-02', { explain: true }).matchExplanations!;
+    expect(explanations.map((e) => [e.outcome, e.baseline?.id, e.current?.id])).toEqual([
+      ['exact-id', 'QUX-x1', 'QUX-x1'],
+      ['resolved', 'QUX-e1', 'QUX-x1'],
+      ['new', 'QUX-x1', 'QUX-e2'],
+    ]);
+    expect(explanations[0].reason).toBe('Same stable ID');
+    expect(explanations[1].similarity?.sameSeverity).toBe(true);
+    expect(explanations[1].reason).toMatch(/^Closest current issue scored 0\.\d\d, below the variant threshold 0\.35$/);
+  });
+});
+
 // ─── normalizeTitle ────────────────────────────────────────────────────────
 
 describe('normalizeTitle', () => {
@@ -770,6 +921,35 @@ describe('normalizeTitle', () => {
   });
 });
 
+// ─── comparePersonas ────────────────────────────────────────────────────────
+
+describe('comparePersonas', () => {
+  function card(persona: string, score: number, issues = 0): NonNullable<Synthesis['personaScorecards']>[number] {
+    return {
+      persona,
+      score,
+      modelScores: [],
+      videoScore: null,
+      issues: Array.from({ length: issues }, (_, i) => ({ title: `Issue ${i}`, severity: 'P2' as const, type: 'consensus' as const })),
+    };
+  }
+
+  it('reports per-persona deltas, including personas in only one run', () => {
+    const baseline = makeSynthesis({ personaScorecards: [card('p1', 70, 3), card('p2', 80)] });
+    const current = makeSynthesis({ personaScorecards: [card('p1', 82, 1), card('p3', 90)] });
+
+    expect(comparePersonas(baseline, current)).toEqual([
+      { persona: 'p1', baselineScore: 70, currentScore: 82, delta: 12, baselineIssues: 3, currentIssues: 1 },
+      { persona: 'p2', baselineScore: 80, currentScore: null, delta: null, baselineIssues: 0, currentIssues: 0 },
+      { persona: 'p3', baselineScore: null, currentScore: 90, delta: null, baselineIssues: 0, currentIssues: 0 },
+    ]);
+  });
+
+  it('is empty when neither run has scorecards', () => {
+    expect(compareSyntheses(makeSynthesis(), makeSynthesis(), 'a', 'b').personaDeltas).toEqual([]);
+  });
+});
+
 // ─── generateScoreContext ──────────────────────────────────────────────────
 
 describe('generateScoreContext', () => {
@@ -786,7 +966,10 @@ describe('generateScoreContext', () => {
       persistingVariants: [],
       regressions: [],
       scoreContext: '',
+      severityLevels: ['P0', 'P1', 'P2'],
       severityDistribution: { baseline: { P0: 0, P1: 0, P2: 0 }, current: { P0: 0, P1: 0, P2: 0 } },
+      personaDeltas: [],
+      suppressed: { resolvedIssues: [], newIssues: [], persistingIssues: [], persistingVariants: [] },
       ...overrides,
     };
   }
@@ -0,0 +1,738 @@
+/**
+ * QuorumUX — Run Comparison
+ *
+ * Structured diff of two syntheses: score and severity deltas, persona
+ * deltas, and issue matching across runs by stable ID and then by
+ * similarity of titles, descriptions, component tags and personas. Shared
+ * by `compare`, `gate`, `trend`, the issue registry and the report's
+ * "Changes Since Baseline" section. Pure — no file access.
+ */
+
+import { normalizeScore, calculateAdjustedScore } from '../utils/scoring.js';
+import { DEFAULT_TAXONOMY, severityNames, severityRank } from '../config/taxonomy.js';
+import { isSuppressed } from './suppress.js';
+import type { Severity, Synthesis, Taxonomy } from '../types.js';
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface CompareIssue {
+  id: string;
+  title: string;
+  severity: Severity;
+  type: 'consensus' | 'video-only' | 'model-unique';
+  source?: 'app' | 'test-infra';
+  category?: string;
+  description?: string;
+  /** Personas the issue was seen with */
+  personas?: string[];
+  /** Known issue, suppressed by an ignore or baseline file */
+  suppressed?: boolean;
+}
+
+export interface PersistingIssue {
+  baselineId: string;
+  currentId: string;
+  title: string;
+  baselineSeverity: Severity;
+  currentSeverity: Severity;
+  severityChange: 'improved' | 'regressed' | 'unchanged';
+  matchMethod: 'exact-id' | 'fuzzy';
+  matchConfidence?: number;
+}
+
+export interface PersistingVariant {
+  issue: CompareIssue;
+  similarTo: CompareIssue;
+  similarityScore: number;
+}
+
+export interface PersonaDelta {
+  persona: string;
+  /** Persona sub-score per run; null when the persona wasn't in that run */
+  baselineScore: number | null;
+  currentScore: number | null;
+  delta: number | null;
+  baselineIssues: number;
+  currentIssues: number;
+}
+
+export interface CompareResult {
+  scoreDelta: number;
+  baselineScore: number;
+  currentScore: number;
+  adjustedDelta?: number;
+  baselineReadiness: string;
+  currentReadiness: string;
+  resolvedIssues: CompareIssue[];
+  newIssues: CompareIssue[];
+  persistingIssues: PersistingIssue[];
+  persistingVariants: PersistingVariant[];
+  regressions: PersistingIssue[];
+  scoreContext: string;
+  /** Severity scale of the current run (baseline's if the current has none), most severe first */
+  severityLevels: string[];
+  severityDistribution: {
+    baseline: Record<string, number>;
+    current: Record<string, number>;
+  };
+  /** Per-persona score changes (empty unless a run has persona scorecards) */
+  personaDeltas: PersonaDelta[];
+  /**
+   * Changes involving suppressed issues, kept out of the lists and counts
+   * above. Issues are still matched across runs, so suppressing a known
+   * issue doesn't make it look resolved.
+   */
+  suppressed: SuppressedChanges;
+  /** Set when compared with `explain` */
+  matchExplanations?: MatchExplanation[];
+}
+
+/**
+ * Suppressed issues by change, each on the side that decides its bucket:
+ * the current run's issue for new and persisting, the baseline's for resolved.
+ */
+export interface SuppressedChanges {
+  resolvedIssues: CompareIssue[];
+  newIssues: CompareIssue[];
+  persistingIssues: PersistingIssue[];
+  persistingVariants: PersistingVariant[];
+}
+
+/**
+ * How similar two issues are, per signal (0–1). A signal is undefined when
+ * either issue lacks it, and then it doesn't count towards `score`.
+ */
+export interface SimilarityBreakdown {
+  /** Weighted mean of the available signals; the match thresholds apply to this */
+  score: number;
+  /** Word overlap (Jaccard) of the normalized titles */
+  title: number;
+  /** TF-IDF cosine of the descriptions */
+  description?: number;
+  /** Word overlap of the bracketed component tags, e.g. "[Checkout]" */
+  tags?: number;
+  /** Overlap of the affected personas */
+  personas?: number;
+  sameCategory: boolean;
+  sameSeverity: boolean;
+}
+
+/** Why a pair of issues matched, or why an issue was left unmatched (`--explain`) */
+export interface MatchExplanation {
+  outcome: 'exact-id' | 'matched' | 'variant' | 'resolved' | 'new';
+  /** The baseline issue; for "new", the closest baseline issue, if any */
+  baseline?: { id: string; title: string };
+  /** The current issue; for "resolved", the closest current issue, if any */
+  current?: { id: string; title: string };
+  similarity?: SimilarityBreakdown;
+  reason: string;
+}
+
+export interface CompareOptions {
+  variantThreshold?: number;
+  /** Project synonyms (word → replacement), applied on top of the built-in ones */
+  synonyms?: Record<string, string>;
+  /** Record a MatchExplanation for every issue in `matchExplanations` */
+  explain?: boolean;
+}
+
+// ─── Matching utilities ─────────────────────────────────────────────────────
+
+/** A fuzzy match needs a combined similarity above this… */
+const MATCH_THRESHOLD = 0.6;
+/** …or above this when category and severity are the same */
+const RELAXED_MATCH_THRESHOLD = 0.4;
+const DEFAULT_VARIANT_THRESHOLD = 0.35;
+
+/** Weight of each similarity signal in the combined score */
+const SIGNAL_WEIGHTS = { title: 0.5, description: 0.3, tags: 0.1, personas: 0.1 };
+
+const FILLER_ADVERBS = new Set([
+  'consistently', 'permanently', 'completely', 'inappropriately', 'repeatedly',
+  'unexpectedly', 'excessively', 'extremely', 'significantly', 'severely',
+  'very', 'highly', 'particularly', 'notably', 'somewhat', 'slightly',
+  'relatively', 'quite',
+]);
+
+const SYNONYM_MAP: Record<string, string> = {
+  // Generic synonyms
+  latency: 'performance',
+  freeze: 'block',
+  frozen: 'block',
+  stuck: 'block',
+  inaccessible: 'not accessible',
+  navigation: 'nav',
+  obscures: 'overlaps',
+  exceeds: 'slow',
+  delay: 'slow',
+  insufficient: 'missing',
+  tracking: 'analytics',
+  // Domain-aware synonyms — common across UX analysis titles
+  stepper: 'indicator',
+  progress: 'step',
+};
+
+/**
+ * Built-in synonyms with the project's (`matching.synonyms`) layered on top
+ */
+export function resolveSynonyms(custom?: Record<string, string>): Record<string, string> {
+  const synonyms = { ...SYNONYM_MAP };
+  for (const [word, replacement] of Object.entries(custom ?? {})) {
+    synonyms[word.toLowerCase()] = replacement.toLowerCase();
+  }
+  return synonyms;
+}
+
+function applySynonym(word: string, synonyms: Record<string, string>): string {
+  return Object.hasOwn(synonyms, word) ? synonyms[word] : word;
+}
+
+/**
+ * Normalize an issue title for comparison: strip bracket tags,
+ * remove filler adverbs, normalize synonyms, collapse whitespace.
+ */
+export function normalizeTitle(title: string, synonyms: Record<string, string> = SYNONYM_MAP): string {
+  let t = title.replace(/\[[^\]]*\]/g, '');
+  t = t.replace(/^\s*P[012]\s*[:—-]?\s*/i, '');
+  t = t.toLowerCase();
+  const words = t.split(/\s+/).filter(Boolean);
+  const normalized = words
+    .filter((w) => !FILLER_ADVERBS.has(w))
+    .map((w) => applySynonym(w, synonyms));
+  return normalized.join(' ').trim();
+}
+
+/** Jaccard overlap of two sets; 1.0 when both are empty */
+function setOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1.0;
+  if (a.size === 0 || b.size === 0) return 0.0;
+  let intersection = 0;
+  for (const item of a) {
+    if (b.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * Jaccard word-overlap similarity on normalized, lowercased, whitespace-split tokens.
+ * Returns 0.0–1.0.
+ */
+export function jaccardSimilarity(a: string, b: string, synonyms: Record<string, string> = SYNONYM_MAP): number {
+  return setOverlap(
+    new Set(normalizeTitle(a, synonyms).split(/\s+/).filter(Boolean)),
+    new Set(normalizeTitle(b, synonyms).split(/\s+/).filter(Boolean))
+  );
+}
+
+/** Words of free text (descriptions), lowercased, minus filler adverbs, with synonyms applied */
+function textTokens(text: string, synonyms: Record<string, string>): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w && !FILLER_ADVERBS.has(w))
+    .flatMap((w) => applySynonym(w, synonyms).split(/\s+/));
+}
+
+/**
+ * Words of an issue's bracketed component tags ("[Checkout Form] …" →
+ * checkout, form), leaving out severity tags such as "[P0]"
+ */
+export function componentTags(issue: Pick<CompareIssue, 'title' | 'severity'>): string[] {
+  const tags = [...issue.title.matchAll(/\[([^\]]*)\]/g)]
+    .map((m) => m[1].trim().toLowerCase())
+    .filter((tag) => tag && tag !== issue.severity.toLowerCase() && !/^p\d$/.test(tag));
+  return [...new Set(tags.flatMap((tag) => tag.split(/[^\p{L}\p{N}]+/u).filter(Boolean)))];
+}
+
+/** What every pairwise similarity in one comparison shares */
+export interface SimilarityContext {
+  synonyms: Record<string, string>;
+  /** Inverse document frequency of each description word across both runs */
+  idf: Map<string, number>;
+}
+
+/**
+ * Similarity context for a set of issues (both runs'): resolved synonyms and
+ * description IDF weights, so words every issue uses count for little
+ */
+export function buildSimilarityContext(issues: CompareIssue[], synonyms?: Record<string, string>): SimilarityContext {
+  const resolved = resolveSynonyms(synonyms);
+  const documents = issues
+    .map((i) => new Set(textTokens(i.description ?? '', resolved)))
+    .filter((words) => words.size > 0);
+  const documentFrequency = new Map<string, number>();
+  for (const words of documents) {
+    for (const word of words) documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+  }
+  const idf = new Map(
+    [...documentFrequency].map(([word, n]) => [word, Math.log((1 + documents.length) / (1 + n)) + 1])
+  );
+  return { synonyms: resolved, idf };
+}
+
+/** Cosine similarity of two token lists as TF-IDF vectors */
+function tfidfCosine(a: string[], b: string[], idf: Map<string, number>): number {
+  const vector = (tokens: string[]) => {
+    const v = new Map<string, number>();
+    for (const t of tokens) v.set(t, (v.get(t) ?? 0) + (idf.get(t) ?? 1));
+    return v;
+  };
+  const norm = (v: Map<string, number>) => Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0));
+  const va = vector(a);
+  const vb = vector(b);
+  let dot = 0;
+  for (const [t, w] of va) dot += w * (vb.get(t) ?? 0);
+  const denominator = norm(va) * norm(vb);
+  return denominator === 0 ? 0 : Math.min(1, dot / denominator);
+}
+
+/**
+ * Similarity of two issues from their titles, descriptions, component tags
+ * and affected personas. Signals missing on either side are left out of the
+ * weighted score, so two bare titles score their plain Jaccard similarity.
+ */
+export function issueSimilarity(
+  a: CompareIssue,
+  b: CompareIssue,
+  context: SimilarityContext = buildSimilarityContext([a, b])
+): SimilarityBreakdown {
+  const signals: Partial<Record<keyof typeof SIGNAL_WEIGHTS, number>> = {
+    title: jaccardSimilarity(a.title, b.title, context.synonyms),
+  };
+
+  const descriptionA = textTokens(a.description ?? '', context.synonyms);
+  const descriptionB = textTokens(b.description ?? '', context.synonyms);
+  if (descriptionA.length > 0 && descriptionB.length > 0) {
+    signals.description = tfidfCosine(descriptionA, descriptionB, context.idf);
+  }
+
+  const tagsA = componentTags(a);
+  const tagsB = componentTags(b);
+  if (tagsA.length > 0 && tagsB.length > 0) {
+    signals.tags = setOverlap(new Set(tagsA), new Set(tagsB));
+  }
+
+  if (a.personas?.length && b.personas?.length) {
+    signals.personas = setOverlap(new Set(a.personas), new Set(b.personas));
+  }
+
+  let total = 0;
+  let weight = 0;
+  for (const [signal, value] of Object.entries(signals) as Array<[keyof typeof SIGNAL_WEIGHTS, number]>) {
+    total += value * SIGNAL_WEIGHTS[signal];
+    weight += SIGNAL_WEIGHTS[signal];
+  }
+
+  return {
+    score: total / weight,
+    title: signals.title!,
+    description: signals.description,
+    tags: signals.tags,
+    personas: signals.personas,
+    sameCategory: a.category !== undefined && a.category === b.category,
+    sameSeverity: a.severity === b.severity,
+  };
+}
+
+/** Whether a similarity is high enough for a fuzzy match */
+function isFuzzyMatch(similarity: SimilarityBreakdown): boolean {
+  return similarity.score > MATCH_THRESHOLD
+    || (similarity.sameCategory && similarity.sameSeverity && similarity.score > RELAXED_MATCH_THRESHOLD);
+}
+
+export interface IssueMatch {
+  baseline: CompareIssue;
+  current: CompareIssue;
+  method: 'exact-id' | 'fuzzy';
+  /** Combined similarity as 0–100 (fuzzy matches only) */
+  confidence?: number;
+  similarity?: SimilarityBreakdown;
+}
+
+/**
+ * Two-pass issue matching between baseline and current runs.
+ *
+ * Pass 1: Exact ID match for QUX- prefixed stable hashes.
+ * Pass 2: Fuzzy matching on issueSimilarity for the rest (legacy ordinal IDs or unmatched).
+ *   Threshold: score > 0.6 OR (same category + same severity + score > 0.4)
+ *   Greedy assignment sorted by descending score.
+ */
+export function matchIssues(
+  baselineIssues: CompareIssue[],
+  currentIssues: CompareIssue[],
+  context: SimilarityContext = buildSimilarityContext([...baselineIssues, ...currentIssues])
+): {
+  matched: IssueMatch[];
+  unmatchedBaseline: CompareIssue[];
+  unmatchedCurrent: CompareIssue[];
+} {
+  const matchedBaseline = new Set<number>();
+  const matchedCurrent = new Set<number>();
+  const matched: IssueMatch[] = [];
+
+  // Pass 1: Exact ID match (QUX- prefixed stable hashes)
+  for (let bi = 0; bi < baselineIssues.length; bi++) {
+    if (matchedBaseline.has(bi)) continue;
+    const bIssue = baselineIssues[bi];
+    if (!bIssue.id.startsWith('QUX-')) continue;
+
+    for (let ci = 0; ci < currentIssues.length; ci++) {
+      if (matchedCurrent.has(ci)) continue;
+      if (currentIssues[ci].id === bIssue.id) {
+        matched.push({ baseline: bIssue, current: currentIssues[ci], method: 'exact-id' });
+        matchedBaseline.add(bi);
+        matchedCurrent.add(ci);
+        break;
+      }
+    }
+  }
+
+  // Pass 2: Fuzzy matching for remaining
+  const candidates: Array<{ bi: number; ci: number; similarity: SimilarityBreakdown }> = [];
+  for (let bi = 0; bi < baselineIssues.length; bi++) {
+    if (matchedBaseline.has(bi)) continue;
+    for (let ci = 0; ci < currentIssues.length; ci++) {
+      if (matchedCurrent.has(ci)) continue;
+      const similarity = issueSimilarity(baselineIssues[bi], currentIssues[ci], context);
+      if (isFuzzyMatch(similarity)) {
+        candidates.push({ bi, ci, similarity });
+      }
+    }
+  }
+
+  // Greedy assignment sorted by descending score
+  candidates.sort((a, b) => b.similarity.score - a.similarity.score);
+  for (const { bi, ci, similarity } of candidates) {
+    if (matchedBaseline.has(bi) || matchedCurrent.has(ci)) continue;
+    matched.push({
+      baseline: baselineIssues[bi],
+      current: currentIssues[ci],
+      method: 'fuzzy',
+      confidence: Math.round(similarity.score * 100),
+      similarity,
+    });
+    matchedBaseline.add(bi);
+    matchedCurrent.add(ci);
+  }
+
+  const unmatchedBaseline = baselineIssues.filter((_, i) => !matchedBaseline.has(i));
+  const unmatchedCurrent = currentIssues.filter((_, i) => !matchedCurrent.has(i));
+
+  return { matched, unmatchedBaseline, unmatchedCurrent };
+}
+
+/**
+ * Explain every match, variant and unmatched issue of a comparison. An
+ * unmatched issue is explained by its closest issue in the other run.
+ */
+function explainMatches(
+  matched: IssueMatch[],
+  variants: PersistingVariant[],
+  resolvedIssues: CompareIssue[],
+  newIssues: CompareIssue[],
+  all: { baseline: CompareIssue[]; current: CompareIssue[] },
+  context: SimilarityContext,
+  variantThreshold: number
+): MatchExplanation[] {
+  const ref = (issue: CompareIssue) => ({ id: issue.id, title: issue.title });
+  const score = (n: number) => n.toFixed(2);
+  const explanations: MatchExplanation[] = [];
+
+  for (const m of matched) {
+    if (m.method === 'exact-id') {
+      explanations.push({ outcome: 'exact-id', baseline: ref(m.baseline), current: ref(m.current), reason: 'Same stable ID' });
+      continue;
+    }
+    const similarity = m.similarity ?? issueSimilarity(m.baseline, m.current, context);
+    explanations.push({
+      outcome: 'matched',
+      baseline: ref(m.baseline),
+      current: ref(m.current),
+      similarity,
+      reason: similarity.score > MATCH_THRESHOLD
+        ? `Score ${score(similarity.score)} is above the match threshold ${score(MATCH_THRESHOLD)}`
+        : `Score ${score(similarity.score)} is above ${score(RELAXED_MATCH_THRESHOLD)}, the match threshold for the same category and severity`,
+    });
+  }
+
+  for (const v of variants) {
+    const similarity = issueSimilarity(v.similarTo, v.issue, context);
+    explanations.push({
+      outcome: 'variant',
+      baseline: ref(v.similarTo),
+      current: ref(v.issue),
+      similarity,
+      reason: `Score ${score(similarity.score)} is below the match threshold but reaches the variant threshold ${score(variantThreshold)}`,
+    });
+  }
+
+  const unmatched = (issue: CompareIssue, others: CompareIssue[], outcome: 'resolved' | 'new'): MatchExplanation => {
+    const other = outcome === 'resolved' ? 'current' : 'baseline';
+    let closest: { issue: CompareIssue; similarity: SimilarityBreakdown } | undefined;
+    for (const candidate of others) {
+      const similarity = outcome === 'resolved'
+        ? issueSimilarity(issue, candidate, context)
+        : issueSimilarity(candidate, issue, context);
+      if (!closest || similarity.score > closest.similarity.score) closest = { issue: candidate, similarity };
+    }
+    const pair = outcome === 'resolved'
+      ? { baseline: ref(issue), current: closest && ref(closest.issue) }
+      : { baseline: closest && ref(closest.issue), current: ref(issue) };
+    if (!closest) {
+      return { outcome, ...pair, reason: `No ${other} issues to compare with` };
+    }
+    const s = closest.similarity.score;
+    return {
+      outcome,
+      ...pair,
+      similarity: closest.similarity,
+      reason: isFuzzyMatch(closest.similarity) || s >= variantThreshold
+        ? `Closest ${other} issue scored ${score(s)} but was paired with another issue`
+        : `Closest ${other} issue scored ${score(s)}, below the variant threshold ${score(variantThreshold)}`,
+    };
+  };
+
+  for (const issue of resolvedIssues) explanations.push(unmatched(issue, all.current, 'resolved'));
+  for (const issue of newIssues) explanations.push(unmatched(issue, all.baseline, 'new'));
+
+  return explanations;
+}
+
+// ─── Core comparison ────────────────────────────────────────────────────────
+
+/**
+ * Collect all issues from a synthesis into flat CompareIssue array,
+ * suppressed ones included and flagged
+ */
+function collectIssues(synthesis: Synthesis): CompareIssue[] {
+  const issues: CompareIssue[] = [];
+  const flag = (issue: { status?: string }) => (isSuppressed(issue) ? { suppressed: true } : {});
+  for (const i of synthesis.consensusIssues) {
+    issues.push({
+      id: i.id, title: i.title, severity: i.severity,
+      type: 'consensus', source: i.source ?? 'app', category: i.category,
+      description: i.description, personas: i.evidence.affectedPersonas, ...flag(i),
+    });
+  }
+  for (const i of synthesis.videoOnlyIssues) {
+    issues.push({
+      id: i.id, title: i.title, severity: i.severity,
+      type: 'video-only', source: i.source ?? 'app',
+      description: i.description, personas: [i.persona], ...flag(i),
+    });
+  }
+  for (const i of synthesis.modelUniqueIssues) {
+    issues.push({
+      id: i.id, title: i.title, severity: i.severity,
+      type: 'model-unique', source: i.source ?? 'app',
+      description: i.description, ...flag(i),
+    });
+  }
+  return issues;
+}
+
+/**
+ * Compare severity and return direction of change.
+ */
+function compareSeverity(
+  baseline: Severity,
+  current: Severity,
+  taxonomy: Taxonomy
+): 'improved' | 'regressed' | 'unchanged' {
+  const bOrd = severityRank(taxonomy, baseline);
+  const cOrd = severityRank(taxonomy, current);
+  if (cOrd > bOrd) return 'improved';  // P0→P1 = improved (higher ordinal = lower severity)
+  if (cOrd < bOrd) return 'regressed'; // P1→P0 = regressed
+  return 'unchanged';
+}
+
+/** Count unsuppressed issues by severity across all issue types */
+function countSeverities(issues: CompareIssue[], levels: string[]): Record<string, number> {
+  const counts: Record<string, number> = Object.fromEntries(levels.map((level) => [level, 0]));
+  for (const issue of issues) {
+    if (!issue.suppressed) counts[issue.severity] = (counts[issue.severity] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Per-persona sub-score changes between two runs' scorecards, sorted by persona
+ */
+export function comparePersonas(baseline: Synthesis, current: Synthesis): PersonaDelta[] {
+  const before = new Map((baseline.personaScorecards ?? []).map((c) => [c.persona, c]));
+  const after = new Map((current.personaScorecards ?? []).map((c) => [c.persona, c]));
+
+  return [...new Set([...before.keys(), ...after.keys()])].sort().map((persona) => {
+    const b = before.get(persona);
+    const c = after.get(persona);
+    return {
+      persona,
+      baselineScore: b?.score ?? null,
+      currentScore: c?.score ?? null,
+      delta: b && c ? c.score - b.score : null,
+      baselineIssues: b?.issues.length ?? 0,
+      currentIssues: c?.issues.length ?? 0,
+    };
+  });
+}
+
+/**
+ * Interpretive context line for the score delta.
+ */
+export function generateScoreContext(result: CompareResult): string {
+  const parts: string[] = [];
+
+  if (result.resolvedIssues.length === 0 && result.newIssues.length === 0
+    && result.persistingVariants.length === 0 && result.regressions.length === 0) {
+    return 'No meaningful changes between runs';
+  }
+
+  const top = result.severityLevels[0];
+  if (result.scoreDelta > 0) {
+    const resolvedTop = result.resolvedIssues.filter((i) => i.severity === top);
+    if (resolvedTop.length > 0) {
+      parts.push(`${resolvedTop.length} ${top} issue${resolvedTop.length > 1 ? 's' : ''} resolved`);
+    }
+  } else if (result.scoreDelta < 0) {
+    const newTop = result.newIssues.filter((i) => i.severity === top);
+    if (newTop.length > 0) {
+      parts.push(`${newTop.length} new ${top} issue${newTop.length > 1 ? 's' : ''} introduced`);
+    }
+    if (result.regressions.length > 0) {
+      parts.push(`${result.regressions.length} regression${result.regressions.length > 1 ? 's' : ''}`);
+    }
+  }
+
+  if (result.persistingVariants.length > 0) {
+    parts.push(`${result.persistingVariants.length} issue${result.persistingVariants.length > 1 ? 's' : ''} reworded but not resolved`);
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Pure function: compare two syntheses and return structured diff.
+ * Uses two-pass matching (exact ID + fuzzy similarity) and score normalization.
+ */
+export function compareSyntheses(
+  baseline: Synthesis,
+  current: Synthesis,
+  baselineId: string,
+  currentId: string,
+  options?: CompareOptions
+): CompareResult {
+  const baselineIssues = collectIssues(baseline);
+  const currentIssues = collectIssues(current);
+
+  const context = buildSimilarityContext([...baselineIssues, ...currentIssues], options?.synonyms);
+
+  const { matched, unmatchedBaseline, unmatchedCurrent } = matchIssues(baselineIssues, currentIssues, context);
+  const taxonomy = current.taxonomy ?? baseline.taxonomy ?? DEFAULT_TAXONOMY;
+  const severityLevels = severityNames(taxonomy);
+
+  // Build persisting issues + regressions from matches
+  const persistingIssues: PersistingIssue[] = [];
+  const regressions: PersistingIssue[] = [];
+  const suppressed: SuppressedChanges = { resolvedIssues: [], newIssues: [], persistingIssues: [], persistingVariants: [] };
+
+  for (const m of matched) {
+    const severityChange = compareSeverity(m.baseline.severity, m.current.severity, taxonomy);
+    const entry: PersistingIssue = {
+      baselineId: m.baseline.id,
+      currentId: m.current.id,
+      title: m.current.title,
+      baselineSeverity: m.baseline.severity,
+      currentSeverity: m.current.severity,
+      severityChange,
+      matchMethod: m.method,
+      matchConfidence: m.confidence,
+    };
+    if (m.current.suppressed) {
+      suppressed.persistingIssues.push(entry);
+      continue;
+    }
+    persistingIssues.push(entry);
+    if (severityChange === 'regressed') {
+      regressions.push(entry);
+    }
+  }
+
+  // Bidirectional variant detection: find unmatched pairs that are similar
+  // but below the primary match threshold
+  const persistingVariants: PersistingVariant[] = [];
+  const variantBaselineIdxs = new Set<number>();
+  const variantCurrentIdxs = new Set<number>();
+
+  const variantThreshold = options?.variantThreshold ?? DEFAULT_VARIANT_THRESHOLD;
+  const variantCandidates: Array<{ bi: number; ci: number; similarity: number }> = [];
+  for (let ci = 0; ci < unmatchedCurrent.length; ci++) {
+    for (let bi = 0; bi < unmatchedBaseline.length; bi++) {
+      const sim = issueSimilarity(unmatchedBaseline[bi], unmatchedCurrent[ci], context).score;
+      if (sim >= variantThreshold) {
+        variantCandidates.push({ bi, ci, similarity: sim });
+      }
+    }
+  }
+  variantCandidates.sort((a, b) => b.similarity - a.similarity);
+  for (const { bi, ci, similarity } of variantCandidates) {
+    if (variantBaselineIdxs.has(bi) || variantCurrentIdxs.has(ci)) continue;
+    const variant: PersistingVariant = {
+      issue: unmatchedCurrent[ci],
+      similarTo: unmatchedBaseline[bi],
+      similarityScore: Math.round(similarity * 100),
+    };
+    (variant.issue.suppressed ? suppressed.persistingVariants : persistingVariants).push(variant);
+    variantBaselineIdxs.add(bi);
+    variantCurrentIdxs.add(ci);
+  }
+
+  // Filter variants out of resolved/new lists, then set suppressed issues aside
+  const allResolved = unmatchedBaseline.filter((_, i) => !variantBaselineIdxs.has(i));
+  const allNew = unmatchedCurrent.filter((_, i) => !variantCurrentIdxs.has(i));
+  const resolvedIssues = allResolved.filter((i) => !i.suppressed);
+  const newIssues = allNew.filter((i) => !i.suppressed);
+  suppressed.resolvedIssues = allResolved.filter((i) => i.suppressed);
+  suppressed.newIssues = allNew.filter((i) => i.suppressed);
+
+  // Score normalization
+  const baselineScore = normalizeScore(baseline.overallAssessment.uxScore);
+  const currentScore = normalizeScore(current.overallAssessment.uxScore);
+
+  // Adjusted scores
+  const baselineAdj = calculateAdjustedScore(baseline);
+  const currentAdj = calculateAdjustedScore(current);
+  const adjustedDelta = (baselineAdj !== undefined && currentAdj !== undefined)
+    ? currentAdj - baselineAdj
+    : undefined;
+
+  const result: CompareResult = {
+    scoreDelta: currentScore - baselineScore,
+    baselineScore,
+    currentScore,
+    adjustedDelta,
+    baselineReadiness: baseline.overallAssessment.launchReadiness,
+    currentReadiness: current.overallAssessment.launchReadiness,
+    resolvedIssues,
+    newIssues,
+    persistingIssues,
+    persistingVariants,
+    regressions,
+    scoreContext: '',
+    severityLevels,
+    severityDistribution: {
+      baseline: countSeverities(baselineIssues, severityLevels),
+      current: countSeverities(currentIssues, severityLevels),
+    },
+    personaDeltas: comparePersonas(baseline, current),
+    suppressed,
+  };
+
+  result.scoreContext = generateScoreContext(result);
+  if (options?.explain) {
+    result.matchExplanations = explainMatches(
+      matched, [...persistingVariants, ...suppressed.persistingVariants], allResolved, allNew,
+      { baseline: baselineIssues, current: currentIssues }, context, variantThreshold
+    );
+  }
+  return result;
+}
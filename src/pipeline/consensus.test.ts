@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import type { ConsensusIssue, ScreenshotAnalysis, ScreenshotFinding, Synthesis, VideoAnalysis } from '../types.js';
+import { claimMatchesModel, clusterFindings, extractFindings, tokenize, verifyConsensus, verifyIssue } from './consensus.js';
+
+function finding(description: string, category = 'Navigation'): ScreenshotFinding {
+  return { severity: 'HIGH', category, location: '', tileIndex: null, description, recommendation: '' };
+}
+
+function structured(model: string, persona: string, findings: ScreenshotFinding[]): ScreenshotAnalysis {
+  return {
+    persona,
+    model,
+    modelId: `vendor/${model.toLowerCase().replace(/\s+/g, '-')}`,
+    analysis: '',
+    structured: { findings, uxScore: 6, frictionPoints: [], strengths: [], wouldReturn: { verdict: 'maybe', reasoning: '' } },
+  };
+}
+
+function video(persona: string, analysis: string): VideoAnalysis {
+  return { persona, model: 'Gemini Pro', modelId: 'google/gemini-pro', analysisType: 'video', videoPath: 'flow.webm', videoSizeMB: 1, analysis };
+}
+
+function consensus(title: string, description: string, screenshotModels: string[]): ConsensusIssue {
+  return {
+    id: 'C-1',
+    title,
+    severity: 'P1',
+    category: 'interaction',
+    description,
+    evidence: { screenshotModels, videoConfirmed: false, testRunConfirmed: false, affectedPersonas: ['p1'] },
+    temporalInsight: null,
+    recommendation: 'Fix it',
+    effort: 'low',
+  };
+}
+
+function synthesis(consensusIssues: ConsensusIssue[]): Synthesis {
+  return {
+    synthesisDate: '2026-01-01',
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 2, videoAnalyses: 0, testSummaries: 0 },
+    consensusIssues,
+    videoOnlyIssues: [],
+    modelUniqueIssues: [],
+    disagreements: [],
+    overallAssessment: { uxScore: 70, launchReadiness: 'ready', topStrengths: [], criticalPath: [], temporalInsightsSummary: '' },
+  };
+}
+
+const modalIssue = consensus(
+  '[Modal] Overlay blocks navigation after assessment',
+  'The results modal overlay stays open and blocks the navigation menu after finishing the assessment.',
+  ['claude', 'gpt']
+);
+
+describe('tokenize', () => {
+  it('drops bracket tags, stopwords and short words, and stems suffixes', () => {
+    expect([...tokenize('[Modal] The overlay is blocking navigation buttons')]).toEqual(['overlay', 'block', 'navigation', 'button']);
+  });
+});
+
+describe('claimMatchesModel', () => {
+  it('matches short claims against model names and ids', () => {
+    expect(claimMatchesModel('claude', 'Claude Sonnet', 'anthropic/claude-sonnet')).toBe(true);
+    expect(claimMatchesModel('gpt-4o', 'GPT-4o', 'openai/gpt-4o')).toBe(true);
+    expect(claimMatchesModel('gemini', 'Claude Sonnet', 'anthropic/claude-sonnet')).toBe(false);
+  });
+});
+
+describe('extractFindings', () => {
+  it('segments free-text analyses into list items and skips failures', () => {
+    const findings = extractFindings(
+      [
+        { persona: 'p1', model: 'A', modelId: 'a', analysis: '## Issues\n- The submit button overlaps footer links on mobile\n- Label text contrast too low against background' },
+        { persona: 'p1', model: 'B', modelId: 'b', analysis: '', error: 'HTTP 500' },
+      ],
+      [video('p1', '1. Spinner shows for eight seconds before dashboard loads')]
+    );
+
+    expect(findings.map((f) => [f.source, f.model])).toEqual([
+      ['screenshot', 'A'],
+      ['screenshot', 'A'],
+      ['video', 'Gemini Pro'],
+    ]);
+  });
+});
+
+describe('clusterFindings', () => {
+  it('groups similar findings from different models', () => {
+    const findings = extractFindings([
+      structured('Claude Sonnet', 'p1', [finding('Modal overlay blocks the navigation menu'), finding('Footer contrast too low on dark theme', 'Visual')]),
+      structured('GPT-4o', 'p1', [finding('Navigation menu blocked by modal overlay after assessment')]),
+    ]);
+
+    const clusters = clusterFindings(findings);
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].map((f) => f.model)).toEqual(['Claude Sonnet', 'GPT-4o']);
+  });
+});
+
+describe('verifyConsensus', () => {
+  it('marks issues backed by two models as verified', () => {
+    const issue = { ...modalIssue, evidence: { ...modalIssue.evidence, affectedPersonas: ['p1', 'p2'] } };
+    const result = verifyConsensus(synthesis([issue]), [
+      structured('Claude Sonnet', 'p1', [finding('Modal overlay blocks the navigation menu')]),
+      structured('GPT-4o', 'p2', [finding('Results modal overlay stays open over navigation')]),
+    ]);
+
+    expect(result.consensusIssues).toHaveLength(1);
+    expect(result.consensusIssues[0].verification).toEqual({
+      status: 'verified',
+      supportingModels: ['Claude Sonnet', 'GPT-4o'],
+      unsupportedClaims: [],
+      supportingPersonas: ['p1', 'p2'],
+      videoSupported: false,
+    });
+    expect(result.consensusCheck).toMatchObject({ verified: 1, partial: 0, demoted: 0 });
+  });
+
+  it('flags claimed models without a matching finding as partial', () => {
+    const issue = { ...modalIssue, evidence: { ...modalIssue.evidence, screenshotModels: ['claude', 'gpt', 'gemini'] } };
+    const result = verifyConsensus(synthesis([issue]), [
+      structured('Claude Sonnet', 'p1', [finding('Modal overlay blocks the navigation menu')]),
+      structured('GPT-4o', 'p1', [finding('Results modal overlay stays open over navigation')]),
+      structured('Gemini Flash', 'p1', [finding('Pricing table columns misaligned on tablet', 'Layout')]),
+    ]);
+
+    expect(result.consensusIssues[0].verification).toMatchObject({ status: 'partial', unsupportedClaims: ['gemini'] });
+  });
+
+  it('accepts one model confirmed by video', () => {
+    const result = verifyConsensus(
+      synthesis([modalIssue]),
+      [structured('Claude Sonnet', 'p1', [finding('Modal overlay blocks the navigation menu')])],
+      [video('p1', '- At 0:42 the modal overlay blocks navigation and the persona hesitates')]
+    );
+
+    expect(result.consensusIssues[0].verification).toMatchObject({ status: 'partial', videoSupported: true });
+  });
+
+  it('demotes issues only one model reported', () => {
+    const result = verifyConsensus(synthesis([modalIssue]), [
+      structured('Claude Sonnet', 'p1', [finding('Modal overlay blocks the navigation menu')]),
+      structured('GPT-4o', 'p1', [finding('Pricing table columns misaligned on tablet', 'Layout')]),
+    ]);
+
+    expect(result.consensusIssues).toHaveLength(0);
+    expect(result.modelUniqueIssues).toEqual([
+      expect.objectContaining({
+        title: modalIssue.title,
+        reportedBy: 'Claude Sonnet',
+        confidence: 'low',
+        demotedFrom: { claimedModels: ['claude', 'gpt'], supportingModels: ['Claude Sonnet'] },
+      }),
+    ]);
+    expect(result.consensusCheck?.demoted).toBe(1);
+  });
+
+  it('does not count findings chained into the cluster as support', () => {
+    const checkout = consensus(
+      '[Checkout] Button label unclear',
+      'The checkout button label is unclear about what happens next.',
+      ['claude']
+    );
+    const findings = extractFindings([
+      structured('Claude Sonnet', 'p1', [finding('Checkout button label unclear about next step', 'Interaction')]),
+      structured('GPT-4o', 'p1', [finding('Checkout button hidden below fold on mobile viewport', 'Interaction')]),
+      structured('Gemini Flash', 'p1', [finding('Mobile viewport menu overlaps footer links navigation', 'Interaction')]),
+    ]);
+    const clusters = clusterFindings(findings);
+    expect(clusters).toHaveLength(1);
+
+    const verification = verifyIssue(checkout, clusters);
+    expect(verification.supportingModels).toContain('Claude Sonnet');
+    expect(verification.supportingModels).not.toContain('Gemini Flash');
+  });
+
+  it('only counts findings from the issue\'s affected personas', () => {
+    const result = verifyConsensus(synthesis([modalIssue]), [
+      structured('Claude Sonnet', 'p1', [finding('Modal overlay blocks the navigation menu')]),
+      structured('GPT-4o', 'p2', [finding('Results modal overlay stays open over navigation')]),
+    ]);
+
+    expect(result.consensusIssues).toHaveLength(0);
+    expect(result.modelUniqueIssues[0].demotedFrom?.supportingModels).toEqual(['Claude Sonnet']);
+  });
+
+  it('leaves the synthesis alone without screenshot findings', () => {
+    const input = synthesis([modalIssue]);
+    expect(verifyConsensus(input, [])).toBe(input);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * QuorumUX — Consensus Check
+ *
+ * The synthesis model decides which issues are "consensus", but nothing
+ * guarantees the models it names actually reported them. This module
+ * clusters the raw Stage 2/2b findings locally by text similarity, persona
+ * and category, then checks each ConsensusIssue against the individual
+ * findings. Issues whose supporting models don't meet the quorum policy
+ * (quorum.ts) are demoted to ModelUniqueIssue.
+ */
+
+import type {
+  ConsensusIssue,
+  ConsensusVerification,
+  ModelUniqueIssue,
+  QuorumRecord,
+  ScreenshotAnalysis,
+  Synthesis,
+  VideoAnalysis,
+} from '../types.js';
+import { meetsQuorum, quorumVoters, resolveQuorum } from './quorum.js';
+
+/** A single finding pulled from a raw analysis */
+export interface RawFinding {
+  source: 'screenshot' | 'video';
+  persona: string;
+  model: string;
+  modelId: string;
+  /** Lowercased category, when the analysis was structured */
+  category?: string;
+  text: string;
+  tokens: Set<string>;
+}
+
+/** Minimum similarity for two findings to share a cluster */
+const CLUSTER_THRESHOLD = 0.4;
+
+/** Minimum similarity for a finding to support an issue */
+const SUPPORT_THRESHOLD = 0.25;
+
+/** Segments shorter than this (in tokens) are headings or noise, not findings */
+const MIN_SEGMENT_TOKENS = 4;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'has', 'had', 'her', 'was', 'one',
+  'our', 'out', 'his', 'how', 'its', 'may', 'who', 'did', 'get', 'use', 'this', 'that', 'with', 'from',
+  'they', 'them', 'then', 'than', 'there', 'their', 'what', 'when', 'where', 'which', 'while', 'will',
+  'would', 'could', 'should', 'into', 'onto', 'also', 'very', 'more', 'most', 'some', 'such', 'only',
+  'been', 'being', 'have', 'does', 'each', 'other', 'about', 'after', 'before', 'user', 'users', 'issue',
+  'screen', 'page', 'persona',
+]);
+
+/**
+ * Stage 2 findings and synthesis issues are both classified under the
+ * project taxonomy, so categories compare by name, ignoring case
+ */
+function normalizeCategory(category: string | undefined): string | undefined {
+  return category ? category.trim().toLowerCase() : undefined;
+}
+
+/** Crude suffix stripping so "overlaps"/"overlapping"/"overlapped" meet */
+function stem(word: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.length > suffix.length + 3 && word.endsWith(suffix)) return word.slice(0, -suffix.length);
+  }
+  return word;
+}
+
+/**
+ * Content tokens of a text: lowercased words of 3+ characters, minus
+ * stopwords and bracket tags, lightly stemmed.
+ */
+export function tokenize(text: string): Set<string> {
+  const words = text
+    .replace(/\[[^\]]*\]/g, ' ')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 3 && !STOPWORDS.has(w));
+  return new Set(words.map(stem));
+}
+
+/** Cosine similarity of two token sets (0.0–1.0) */
+export function textSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / Math.sqrt(a.size * b.size);
+}
+
+/**
+ * Split free text into finding-sized segments: list items and paragraphs.
+ */
+function segmentText(text: string): string[] {
+  const segments: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length > 0) segments.push(current.join(' '));
+    current = [];
+  };
+
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed === '' || /^#{1,6}\s/.test(trimmed) || /^[-=*_]{3,}$/.test(trimmed)) {
+      flush();
+    } else if (/^([-*•]|\d+[.)])\s+/.test(trimmed)) {
+      flush();
+      current.push(trimmed.replace(/^([-*•]|\d+[.)])\s+/, ''));
+    } else {
+      current.push(trimmed);
+    }
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * Collect findings from successful analyses. Structured screenshot findings
+ * are used as-is; free-text screenshot and video analyses are segmented.
+ */
+export function extractFindings(
+  screenshotAnalyses: ScreenshotAnalysis[],
+  videoAnalyses: VideoAnalysis[] = []
+): RawFinding[] {
+  const findings: RawFinding[] = [];
+  const add = (
+    source: RawFinding['source'],
+    analysis: ScreenshotAnalysis | VideoAnalysis,
+    text: string,
+    category?: string
+  ) => {
+    const tokens = tokenize(text);
+    if (tokens.size < MIN_SEGMENT_TOKENS) return;
+    findings.push({
+      source,
+      persona: analysis.persona,
+      model: analysis.model,
+      modelId: analysis.modelId,
+      category: normalizeCategory(category),
+      text,
+      tokens,
+    });
+  };
+
+  for (const analysis of screenshotAnalyses.filter((a) => !a.error)) {
+    if (analysis.structured) {
+      for (const f of analysis.structured.findings) {
+        add('screenshot', analysis, `${f.description} ${f.location}`, f.category);
+      }
+    } else {
+      for (const segment of segmentText(analysis.analysis)) add('screenshot', analysis, segment);
+    }
+  }
+
+  for (const analysis of videoAnalyses.filter((a) => !a.error)) {
+    for (const segment of segmentText(analysis.analysis)) add('video', analysis, segment);
+  }
+
+  return findings;
+}
+
+/** Similarity of two findings, nudged up for a shared category or persona */
+function findingSimilarity(a: RawFinding, b: RawFinding): number {
+  let score = textSimilarity(a.tokens, b.tokens);
+  if (a.category && a.category === b.category) score += 0.1;
+  if (a.persona === b.persona) score += 0.05;
+  return score;
+}
+
+/**
+ * Group findings into clusters of the same underlying issue (single-link,
+ * in input order, so the result is deterministic).
+ */
+export function clusterFindings(findings: RawFinding[]): RawFinding[][] {
+  const clusters: RawFinding[][] = [];
+
+  for (const finding of findings) {
+    const matching = clusters.filter((cluster) =>
+      cluster.some((member) => findingSimilarity(finding, member) >= CLUSTER_THRESHOLD)
+    );
+
+    if (matching.length === 0) {
+      clusters.push([finding]);
+      continue;
+    }
+
+    // The finding links every cluster it matches: merge them into the first
+    const [target, ...rest] = matching;
+    target.push(finding);
+    for (const cluster of rest) {
+      target.push(...cluster);
+      clusters.splice(clusters.indexOf(cluster), 1);
+    }
+  }
+
+  return clusters;
+}
+
+/** Lowercase alphanumerics only, for comparing model names */
+function squash(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Whether a model name claimed by the synthesis model ("claude", "gpt4o")
+ * refers to the analysis model `name` / `id`.
+ */
+export function claimMatchesModel(claim: string, name: string, id: string): boolean {
+  const c = squash(claim);
+  if (!c) return false;
+  const n = squash(name);
+  return n.includes(c) || squash(id).includes(c) || (n.length > 0 && c.includes(n));
+}
+
+function issueTokens(issue: ConsensusIssue): Set<string> {
+  return tokenize(`${issue.title} ${issue.description}`);
+}
+
+/**
+ * Check one consensus issue against the clusters. A finding counts as
+ * support only when it matches the issue itself and comes from one of the
+ * issue's affected personas (any persona when none are listed) — sharing a
+ * cluster is not enough, since single-link clusters can chain unrelated
+ * findings together.
+ */
+export function verifyIssue(issue: ConsensusIssue, clusters: RawFinding[][]): ConsensusVerification {
+  const tokens = issueTokens(issue);
+  const category = normalizeCategory(issue.category);
+  const personas = new Set(issue.evidence.affectedPersonas.map((p) => p.toLowerCase()));
+
+  const support = clusters.flat().filter((f) => {
+    if (personas.size > 0 && !personas.has(f.persona.toLowerCase())) return false;
+    const score = textSimilarity(tokens, f.tokens) + (category && f.category === category ? 0.05 : 0);
+    return score >= SUPPORT_THRESHOLD;
+  });
+
+  const screenshotSupport = support.filter((f) => f.source === 'screenshot');
+  const supportingModels = [...new Set(screenshotSupport.map((f) => f.model))].sort();
+  const unsupportedClaims = issue.evidence.screenshotModels.filter(
+    (claim) => !screenshotSupport.some((f) => claimMatchesModel(claim, f.model, f.modelId))
+  );
+
+  return {
+    status: unsupportedClaims.length === 0 ? 'verified' : 'partial',
+    supportingModels,
+    unsupportedClaims,
+    supportingPersonas: [...new Set(support.map((f) => f.persona))].sort(),
+    videoSupported: support.some((f) => f.source === 'video'),
+  };
+}
+
+function demote(issue: ConsensusIssue, verification: ConsensusVerification): ModelUniqueIssue {
+  return {
+    id: issue.id,
+    title: issue.title,
+    reportedBy: verification.supportingModels[0] ?? issue.evidence.screenshotModels[0] ?? 'unknown',
+    severity: issue.severity,
+    description: issue.description,
+    recommendation: issue.recommendation,
+    confidence: 'low',
+    ...(issue.source ? { source: issue.source } : {}),
+    ...(issue.citations ? { citations: issue.citations } : {}),
+    demotedFrom: {
+      claimedModels: issue.evidence.screenshotModels,
+      supportingModels: verification.supportingModels,
+    },
+  };
+}
+
+/**
+ * Verify every consensus issue against the raw analyses. Issues whose
+ * support meets the quorum get a `verification` record; the rest move to
+ * modelUniqueIssues. Returns the synthesis unchanged when there are no
+ * screenshot findings to check against.
+ */
+export function verifyConsensus(
+  synthesis: Synthesis,
+  screenshotAnalyses: ScreenshotAnalysis[],
+  videoAnalyses: VideoAnalysis[] = [],
+  quorum: QuorumRecord = resolveQuorum(undefined, quorumVoters(screenshotAnalyses), {
+    hasVideo: videoAnalyses.some((a) => !a.error),
+  })
+): Synthesis {
+  const findings = extractFindings(screenshotAnalyses, videoAnalyses);
+  if (!findings.some((f) => f.source === 'screenshot')) return synthesis;
+
+  const clusters = clusterFindings(findings);
+  const consensusIssues: ConsensusIssue[] = [];
+  const demoted: ModelUniqueIssue[] = [];
+
+  for (const issue of synthesis.consensusIssues) {
+    const verification = verifyIssue(issue, clusters);
+    if (meetsQuorum(quorum, verification.supportingModels, verification.videoSupported)) {
+      consensusIssues.push({ ...issue, verification });
+    } else {
+      demoted.push(demote(issue, verification));
+    }
+  }
+
+  return {
+    ...synthesis,
+    consensusIssues,
+    modelUniqueIssues: [...synthesis.modelUniqueIssues, ...demoted],
+    consensusCheck: {
+      findings: findings.length,
+      clusters: clusters.length,
+      verified: consensusIssues.filter((i) => i.verification?.status === 'verified').length,
+      partial: consensusIssues.filter((i) => i.verification?.status === 'partial').length,
+      demoted: demoted.length,
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * QuorumUX — Pipeline Events
+ *
+ * Typed event emitter for programmatic runs. Pass one to runPipeline to
+ * observe stages, model calls, and synthesized issues as they happen.
+ */
+
+import { EventEmitter } from 'node:events';
+import type { CallCompleteEvent, PipelineEventMap, PipelineStage } from '../types.js';
+import type { ChatResponse } from '../models/provider.js';
+import { ModelApiError } from '../models/retry.js';
+import { tokenCost } from '../utils/costs.js';
+
+export class PipelineEvents extends EventEmitter<PipelineEventMap> {}
+
+/**
+ * Emit `call:complete` for a finished model call (successful or failed)
+ */
+export function emitCallComplete(
+  events: PipelineEvents | undefined,
+  stage: PipelineStage,
+  model: { id: string; name: string },
+  outcome: { response?: ChatResponse; error?: unknown },
+  subject: Pick<CallCompleteEvent, 'persona' | 'videoPath'> = {}
+): void {
+  if (!events) return;
+
+  const { response, error } = outcome;
+  const usage = response?.usage;
+  events.emit('call:complete', {
+    stage,
+    model: model.name,
+    modelId: model.id,
+    ...subject,
+    cached: !!response?.cached,
+    usage,
+    costUSD: usage && !response?.cached ? tokenCost(model.id, usage.prompt, usage.completion) : 0,
+    retries: response?.retries ?? (error instanceof ModelApiError ? error.retries : undefined),
+    ...(error !== undefined ? { error: String(error) } : {}),
+  });
+}
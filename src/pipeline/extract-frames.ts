@@ -113,6 +113,14 @@ async function extractVideoFrames(
   logger.success('Video frame extraction complete');
 }
 
+/**
+ * Screenshots of one persona in grid tile order (tile 1 first, 3 per row)
+ */
+export function listGridScreenshots(personaScreenshotsDir: string): string[] {
+  if (!fs.existsSync(personaScreenshotsDir)) return [];
+  return fs.readdirSync(personaScreenshotsDir).filter((f) => f.endsWith('.png')).sort();
+}
+
 /**
  * Generate screenshot grids using ImageMagick montage
  */
@@ -131,7 +139,7 @@ async function generateScreenshotGrids(
       continue;
     }
 
-    const screenshots = fs.readdirSync(personaScreenshotsDir).filter((f) => f.endsWith('.png'));
+    const screenshots = listGridScreenshots(personaScreenshotsDir);
 
     if (screenshots.length === 0) {
       logger.debug(`No screenshots found for ${personaId}, skipping grid generation`);
@@ -139,9 +147,7 @@ async function generateScreenshotGrids(
     }
 
     const gridPath = path.join(gridsDir, `${personaId}-grid.jpg`);
-    const screenshotPaths = screenshots
-      .sort()
-      .map((f) => path.join(personaScreenshotsDir, f));
+    const screenshotPaths = screenshots.map((f) => path.join(personaScreenshotsDir, f));
 
     try {
       logger.debug(`Creating montage for ${personaId} (${screenshots.length} screenshots)`);
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import type { ScreenshotAnalysis } from '../types.js';
+import { countFindings, formatStructuredAnalysis, parseStructuredAnalysis } from './findings.js';
+
+const valid = {
+  findings: [
+    {
+      severity: 'high',
+      category: 'Interaction',
+      location: 'Checkout',
+      tileIndex: 4,
+      description: 'Back button is hidden',
+      recommendation: 'Show it',
+    },
+    {
+      severity: 'LOW',
+      category: 'Microcopy',
+      location: 'Footer',
+      tileIndex: null,
+      description: 'Inconsistent capitalisation',
+      recommendation: 'Use sentence case',
+    },
+  ],
+  uxScore: 7,
+  frictionPoints: ['Hidden back button'],
+  strengths: ['Fast load'],
+  wouldReturn: { verdict: 'Maybe', reasoning: 'Checkout is confusing' },
+};
+
+function analysis(overrides: Partial<ScreenshotAnalysis>): ScreenshotAnalysis {
+  return { persona: 'p1', model: 'A', modelId: 'a/model', analysis: '', ...overrides };
+}
+
+describe('parseStructuredAnalysis', () => {
+  it('parses a fenced JSON response and normalizes severity, category and verdict', () => {
+    const { structured, error } = parseStructuredAnalysis('Here you go:\n```json\n' + JSON.stringify(valid) + '\n```');
+
+    expect(error).toBeUndefined();
+    expect(structured?.findings[0]).toMatchObject({ severity: 'HIGH', category: 'interaction', tileIndex: 4 });
+    expect(structured?.findings[1]).toMatchObject({ category: 'Microcopy', tileIndex: null });
+    expect(structured?.wouldReturn.verdict).toBe('maybe');
+  });
+
+  it('takes category spellings from the project taxonomy', () => {
+    const { structured } = parseStructuredAnalysis(JSON.stringify(valid), ['Interaction', 'microcopy', 'Compliance']);
+    expect(structured?.findings.map((f) => f.category)).toEqual(['Interaction', 'microcopy']);
+  });
+
+  it('parses bare JSON surrounded by prose', () => {
+    const { structured } = parseStructuredAnalysis(`Analysis: ${JSON.stringify(valid)} Thanks!`);
+    expect(structured?.uxScore).toBe(7);
+  });
+
+  it('reports free-text responses', () => {
+    expect(parseStructuredAnalysis('1. **Severity**: HIGH').error).toBe('no JSON object in response');
+  });
+
+  it('reports schema violations', () => {
+    const invalid = {
+      ...valid,
+      uxScore: 12,
+      findings: [{ ...valid.findings[0], severity: 'URGENT', tileIndex: 0 }],
+    };
+    const { structured, error } = parseStructuredAnalysis(JSON.stringify(invalid));
+
+    expect(structured).toBeUndefined();
+    expect(error).toContain('uxScore must be a number from 1 to 10');
+    expect(error).toContain('findings[0].severity');
+    expect(error).toContain('findings[0].tileIndex');
+  });
+});
+
+describe('countFindings', () => {
+  it('counts structured findings by severity and category, skipping failures', () => {
+    const { structured } = parseStructuredAnalysis(JSON.stringify(valid));
+    const counts = countFindings([
+      analysis({ structured }),
+      analysis({ modelId: 'b/model', structured }),
+      analysis({ modelId: 'c/model', analysis: 'prose', structuredError: 'no JSON object in response' }),
+      analysis({ modelId: 'd/model', error: 'HTTP 500' }),
+    ]);
+
+    expect(counts).toEqual({
+      structuredAnalyses: 2,
+      unstructuredAnalyses: 1,
+      total: 4,
+      bySeverity: { CRITICAL: 0, HIGH: 2, MEDIUM: 0, LOW: 2 },
+      byCategory: { interaction: 2, Microcopy: 2 },
+    });
+  });
+});
+
+describe('formatStructuredAnalysis', () => {
+  it('renders one line per finding with its tile', () => {
+    const { structured } = parseStructuredAnalysis(JSON.stringify(valid));
+    const text = formatStructuredAnalysis(structured!);
+
+    expect(text).toContain('UX Score: 7/10');
+    expect(text).toContain('- [HIGH/interaction] (tile 4, Checkout) Back button is hidden → Show it');
+    expect(text).toContain('Would Return: maybe — Checkout is confusing');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * QuorumUX — Structured Screenshot Findings
+ *
+ * Stage 2 asks each screenshot model for a JSON object (findings, score,
+ * friction points, strengths, return verdict). This module validates that
+ * JSON into a StructuredScreenshotAnalysis and counts findings exactly, so
+ * synthesis and the report don't have to re-read prose.
+ */
+
+import type {
+  FindingSeverity,
+  ScreenshotAnalysis,
+  ScreenshotFinding,
+  StructuredScreenshotAnalysis,
+} from '../types.js';
+import { parseJsonObject } from '../utils/json.js';
+import { DEFAULT_CATEGORIES } from '../config/taxonomy.js';
+
+export const FINDING_SEVERITIES: readonly FindingSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+/**
+ * Validate one finding, returning it normalized or a list of problems
+ */
+function validateFinding(value: any, index: number, errors: string[], categories: string[]): ScreenshotFinding | null {
+  const at = `findings[${index}]`;
+  if (!value || typeof value !== 'object') {
+    errors.push(`${at} must be an object`);
+    return null;
+  }
+
+  const severity = typeof value.severity === 'string' ? value.severity.trim().toUpperCase() : undefined;
+  if (!FINDING_SEVERITIES.includes(severity as FindingSeverity)) {
+    errors.push(`${at}.severity must be one of ${FINDING_SEVERITIES.join(', ')}`);
+  }
+  if (typeof value.description !== 'string' || value.description.trim() === '') {
+    errors.push(`${at}.description must be a non-empty string`);
+  }
+  if (typeof value.category !== 'string' || value.category.trim() === '') {
+    errors.push(`${at}.category must be a non-empty string`);
+  }
+
+  const tileIndex = value.tileIndex ?? null;
+  if (tileIndex !== null && (!Number.isInteger(tileIndex) || tileIndex < 1)) {
+    errors.push(`${at}.tileIndex must be a positive integer or null`);
+  }
+
+  if (errors.length > 0) return null;
+
+  // Take the taxonomy's spelling of known categories so counts group cleanly
+  // and consensus checks can compare findings with synthesis issues
+  const category = value.category.trim();
+  const known = categories.find((c) => c.toLowerCase() === category.toLowerCase());
+
+  return {
+    severity: severity as FindingSeverity,
+    category: known ?? category,
+    location: typeof value.location === 'string' ? value.location.trim() : '',
+    tileIndex,
+    description: value.description.trim(),
+    recommendation: typeof value.recommendation === 'string' ? value.recommendation.trim() : '',
+  };
+}
+
+/**
+ * Parse and validate a screenshot model response against the Stage 2 schema.
+ * `categories` is the project taxonomy's category list. Returns the
+ * structured analysis, or an error describing the first problems.
+ */
+export function parseStructuredAnalysis(
+  raw: string,
+  categories: string[] = DEFAULT_CATEGORIES
+): { structured?: StructuredScreenshotAnalysis; error?: string } {
+  const { data, error } = parseJsonObject(raw);
+  if (error) return { error };
+
+  const errors: string[] = [];
+  if (!Array.isArray(data?.findings)) errors.push('findings must be an array');
+  if (typeof data?.uxScore !== 'number' || data.uxScore < 1 || data.uxScore > 10) {
+    errors.push('uxScore must be a number from 1 to 10');
+  }
+  if (!isStringArray(data?.frictionPoints)) errors.push('frictionPoints must be an array of strings');
+  if (!isStringArray(data?.strengths)) errors.push('strengths must be an array of strings');
+
+  const verdict = typeof data?.wouldReturn?.verdict === 'string' ? data.wouldReturn.verdict.trim().toLowerCase() : undefined;
+  if (!['yes', 'no', 'maybe'].includes(verdict ?? '')) {
+    errors.push('wouldReturn.verdict must be yes, no, or maybe');
+  }
+
+  const findings: ScreenshotFinding[] = [];
+  if (Array.isArray(data?.findings)) {
+    data.findings.forEach((f: unknown, i: number) => {
+      const findingErrors: string[] = [];
+      const finding = validateFinding(f, i, findingErrors, categories);
+      if (finding) findings.push(finding);
+      errors.push(...findingErrors);
+    });
+  }
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 3).join('; ');
+    return { error: errors.length > 3 ? `${shown} (+${errors.length - 3} more)` : shown };
+  }
+
+  return {
+    structured: {
+      findings,
+      uxScore: data.uxScore,
+      frictionPoints: data.frictionPoints,
+      strengths: data.strengths,
+      wouldReturn: {
+        verdict: verdict as StructuredScreenshotAnalysis['wouldReturn']['verdict'],
+        reasoning: typeof data.wouldReturn.reasoning === 'string' ? data.wouldReturn.reasoning : '',
+      },
+    },
+  };
+}
+
+export interface FindingCounts {
+  /** Successful analyses with validated structured findings */
+  structuredAnalyses: number;
+  /** Successful analyses that only have raw text */
+  unstructuredAnalyses: number;
+  total: number;
+  bySeverity: Record<FindingSeverity, number>;
+  byCategory: Record<string, number>;
+}
+
+/**
+ * Count structured findings across successful screenshot analyses
+ */
+export function countFindings(analyses: ScreenshotAnalysis[]): FindingCounts {
+  const counts: FindingCounts = {
+    structuredAnalyses: 0,
+    unstructuredAnalyses: 0,
+    total: 0,
+    bySeverity: { CRITICAL: 0, HIGH: 0, MEDIUM: 0, LOW: 0 },
+    byCategory: {},
+  };
+
+  for (const analysis of analyses.filter((a) => !a.error)) {
+    if (!analysis.structured) {
+      counts.unstructuredAnalyses++;
+      continue;
+    }
+    counts.structuredAnalyses++;
+    for (const finding of analysis.structured.findings) {
+      counts.total++;
+      counts.bySeverity[finding.severity]++;
+      counts.byCategory[finding.category] = (counts.byCategory[finding.category] ?? 0) + 1;
+    }
+  }
+
+  return counts;
+}
+
+/** "CRITICAL 1 · HIGH 3 · MEDIUM 2 · LOW 0" */
+export function formatSeverityCounts(counts: FindingCounts): string {
+  return FINDING_SEVERITIES.map((s) => `${s} ${counts.bySeverity[s]}`).join(' · ');
+}
+
+/**
+ * Render a structured analysis compactly for the synthesis prompt
+ */
+export function formatStructuredAnalysis(structured: StructuredScreenshotAnalysis): string {
+  const lines = [`UX Score: ${structured.uxScore}/10`, '', 'Findings:'];
+
+  if (structured.findings.length === 0) lines.push('- (none)');
+  for (const f of structured.findings) {
+    const where = [f.tileIndex !== null ? `tile ${f.tileIndex}` : null, f.location || null].filter(Boolean).join(', ');
+    lines.push(
+      `- [${f.severity}/${f.category}]${where ? ` (${where})` : ''} ${f.description}` +
+        (f.recommendation ? ` → ${f.recommendation}` : '')
+    );
+  }
+
+  lines.push('', `Top Friction Points: ${structured.frictionPoints.join('; ') || '(none)'}`);
+  lines.push(`Top Strengths: ${structured.strengths.join('; ') || '(none)'}`);
+  lines.push(`Would Return: ${structured.wouldReturn.verdict}${structured.wouldReturn.reasoning ? ` — ${structured.wouldReturn.reasoning}` : ''}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { IssueSighting, RegisteredRun, Synthesis } from '../types.js';
+import { buildIssueRecords, ISSUES_DB_FILE, loadIssueDatabase, registerRun, sightingsOf } from './issues-db.js';
+import { formatIssueHistory } from '../commands/issues.js';
+
+function run(runId: string, date: string, issues: Array<Partial<IssueSighting> & { id: string }>): RegisteredRun {
+  return {
+    runId,
+    date,
+    issues: issues.map((i) => ({ title: `Issue ${i.id}`, severity: 'P1', type: 'consensus' as const, ...i })),
+  };
+}
+
+function synthesis(modelUniqueIssues: Synthesis['modelUniqueIssues']): Synthesis {
+  return {
+    synthesisDate: '2026-03-01',
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 2, videoAnalyses: 0, testSummaries: 0 },
+    consensusIssues: [],
+    videoOnlyIssues: [],
+    modelUniqueIssues,
+    disagreements: [],
+    overallAssessment: { uxScore: 80, launchReadiness: 'ready', topStrengths: [], criticalPath: [], temporalInsightsSummary: '' },
+  };
+}
+
+describe('buildIssueRecords', () => {
+  it('tracks first/last seen, occurrences and severity changes', () => {
+    const [record] = buildIssueRecords([
+      run('run-01', '2026-01-01', [{ id: 'QUX-a', severity: 'P2' }]),
+      run('run-02', '2026-01-08', [{ id: 'QUX-a', severity: 'P2' }]),
+      run('run-03', '2026-01-15', [{ id: 'QUX-a', severity: 'P1', title: 'Renamed' }]),
+    ]);
+
+    expect(record).toMatchObject({
+      id: 'QUX-a',
+      title: 'Renamed',
+      severity: 'P1',
+      status: 'open',
+      firstSeen: 'run-01',
+      lastSeen: 'run-03',
+      occurrences: 3,
+      openSince: 'run-01',
+      reopened: [],
+    });
+    expect(record.severityHistory).toEqual([
+      { runId: 'run-01', severity: 'P2' },
+      { runId: 'run-03', severity: 'P1' },
+    ]);
+  });
+
+  it('resolves an issue in the first run without it and records a reopen', () => {
+    const runs = [
+      run('run-01', '2026-01-01', [{ id: 'QUX-a' }]),
+      run('run-02', '2026-01-08', []),
+      run('run-03', '2026-01-15', []),
+    ];
+    expect(buildIssueRecords(runs)[0]).toMatchObject({ status: 'resolved', resolvedIn: 'run-02', lastSeen: 'run-01' });
+
+    runs.push(run('run-04', '2026-01-22', [{ id: 'QUX-a' }]));
+    const [reopened] = buildIssueRecords(runs);
+    expect(reopened).toMatchObject({ status: 'open', openSince: 'run-04', occurrences: 2 });
+    expect(reopened.resolvedIn).toBeUndefined();
+    expect(reopened.reopened).toEqual([{ runId: 'run-04', resolvedIn: 'run-02' }]);
+  });
+
+  it('keeps suppressed issues as seen with a suppressed status', () => {
+    const [record] = buildIssueRecords([
+      run('run-01', '2026-01-01', [{ id: 'QUX-a' }]),
+      run('run-02', '2026-01-08', [{ id: 'QUX-a', suppressed: true }]),
+    ]);
+    expect(record).toMatchObject({ status: 'suppressed', occurrences: 2, openSince: 'run-01' });
+  });
+});
+
+describe('registerRun', () => {
+  const issue = { id: 'QUX-a', title: 'Chat widget covers content', reportedBy: 'gpt', severity: 'P2', description: '', recommendation: '', confidence: 'high' as const };
+
+  it('replaces a re-registered run instead of counting it twice', () => {
+    let db = registerRun(null, 'run-02', synthesis([issue]));
+    db = registerRun(db, 'run-01', synthesis([]));
+    db = registerRun(db, 'run-02', synthesis([{ ...issue, severity: 'P1' }]));
+
+    expect(db.runs.map((r) => r.runId)).toEqual(['run-01', 'run-02']);
+    expect(db.issues).toHaveLength(1);
+    expect(db.issues[0]).toMatchObject({ firstSeen: 'run-02', occurrences: 1, severity: 'P1' });
+  });
+
+  it('keeps a reworded issue\'s history when the previous synthesis is given', () => {
+    const first = synthesis([issue]);
+    const reworded = synthesis([{ ...issue, id: 'QUX-b', title: 'Chat widget covers the page content' }]);
+
+    let db = registerRun(null, 'run-01', first);
+    db = registerRun(db, 'run-02', reworded, first);
+    db = registerRun(db, 'run-03', reworded, reworded);
+
+    expect(db.runs[2].issues[0]).toMatchObject({ id: 'QUX-b', recordId: 'QUX-a' });
+    expect(db.issues).toHaveLength(1);
+    expect(db.issues[0]).toMatchObject({
+      id: 'QUX-a',
+      title: 'Chat widget covers the page content',
+      status: 'open',
+      occurrences: 3,
+      aliases: ['QUX-b'],
+    });
+  });
+
+  it('matches by exact ID only without the previous synthesis', () => {
+    let db = registerRun(null, 'run-01', synthesis([issue]));
+    db = registerRun(db, 'run-02', synthesis([{ ...issue, id: 'QUX-b', title: 'Chat widget covers the page content' }]));
+
+    expect(db.issues.map((r) => [r.id, r.status])).toEqual([['QUX-a', 'resolved'], ['QUX-b', 'open']]);
+  });
+
+  it('records issue types and suppression from the synthesis', () => {
+    expect(sightingsOf(synthesis([{ ...issue, status: 'suppressed', suppression: { reason: 'x', matchedBy: 'QUX-a' } }]))).toEqual([
+      { id: 'QUX-a', title: 'Chat widget covers content', severity: 'P2', type: 'model-unique', suppressed: true },
+    ]);
+  });
+});
+
+describe('loadIssueDatabase', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-issues-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns null without a registry and throws on a malformed one', () => {
+    expect(loadIssueDatabase(dir)).toBeNull();
+    fs.writeFileSync(path.join(dir, ISSUES_DB_FILE), '{"runs": 3}');
+    expect(() => loadIssueDatabase(dir)).toThrow('not an issue registry');
+  });
+});
+
+describe('formatIssueHistory', () => {
+  it('says how long an issue has been open and when it came back', () => {
+    const runs = [
+      run('run-01', '2026-01-01', [{ id: 'QUX-a', severity: 'P2' }]),
+      run('run-02', '2026-01-08', []),
+      run('run-03', '2026-01-15', [{ id: 'QUX-a', severity: 'P1' }]),
+    ];
+    const db = { version: 1, updatedAt: '', runs, issues: buildIssueRecords(runs) };
+
+    expect(formatIssueHistory(db.issues[0], db, '2026-01-25')).toEqual([
+      'QUX-a — Issue QUX-a',
+      '  Type:         consensus',
+      '  Status:       open for 10 days (since run-03, 1 run)',
+      '  Severity:     P1',
+      '  History:      P2 in run-01 → P1 in run-03',
+      '  First seen:   run-01 (2026-01-01)',
+      '  Last seen:    run-03 (2026-01-15)',
+      '  Occurrences:  2 of 3 runs since first seen',
+      '  Reopened:     in run-03 (2026-01-15), after being resolved in run-02',
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * QuorumUX — Cross-Run Issue Registry
+ *
+ * Keeps {artifactsDir}/issues-db.json: every run's issues by stable ID,
+ * and per issue when it was first and last seen, how often, its severity
+ * history, when it was resolved and whether it came back. Stage 4
+ * registers each run; `quorumux issues` reads it. A run's issues are
+ * matched to the previous run's the way `compare` matches them, so a
+ * reworded issue with a new ID keeps its history.
+ *
+ * The file stores the issue list of every registered run and derives the
+ * per-issue history from them, so rerunning Stage 4 on a run replaces its
+ * entry instead of counting it twice.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { IssueDatabase, IssueRecord, IssueSighting, MatchingConfig, QuorumUXConfig, RegisteredRun, Synthesis } from '../types.js';
+import { compareSyntheses, type CompareResult } from './compare.js';
+import { loadJson } from '../utils/files.js';
+import { now } from '../utils/clock.js';
+import * as logger from '../utils/logger.js';
+
+export const ISSUES_DB_FILE = 'issues-db.json';
+
+const ISSUES_DB_VERSION = 1;
+
+/** What registering a run changed */
+export interface RegistrationSummary {
+  newIssues: number;
+  resolved: number;
+  reopened: number;
+}
+
+/** The issues a synthesis reported, by stable ID */
+export function sightingsOf(synthesis: Synthesis): IssueSighting[] {
+  const sighting = (type: IssueSighting['type']) => (issue: { id?: string; title: string; severity: string; status?: string }) => ({
+    id: issue.id!,
+    title: issue.title,
+    severity: issue.severity,
+    type,
+    ...(issue.status === 'suppressed' ? { suppressed: true } : {}),
+  });
+  return [
+    ...synthesis.consensusIssues.map(sighting('consensus')),
+    ...synthesis.videoOnlyIssues.map(sighting('video-only')),
+    ...synthesis.modelUniqueIssues.map(sighting('model-unique')),
+  ].filter((s) => s.id);
+}
+
+/**
+ * Carry registry IDs forward from the previous run: every issue the
+ * comparison pairs with a previous one (persisting or a reworded variant,
+ * suppressed or not) is tracked under that issue's registry ID. An issue whose own ID is
+ * already reported in this run keeps its ID, so no record is seen twice.
+ */
+export function linkSightings(
+  sightings: IssueSighting[],
+  previous: RegisteredRun,
+  comparison: CompareResult
+): IssueSighting[] {
+  const { suppressed } = comparison;
+  const pairs = [
+    ...[...comparison.persistingIssues, ...suppressed.persistingIssues].map((p) => [p.baselineId, p.currentId]),
+    ...[...comparison.persistingVariants, ...suppressed.persistingVariants].map((v) => [v.similarTo.id, v.issue.id]),
+  ];
+  const ids = new Set(sightings.map((s) => s.id));
+  const recordIds = new Map<string, string>();
+  for (const [previousId, currentId] of pairs) {
+    const recordId = previous.issues.find((s) => s.id === previousId)?.recordId ?? previousId;
+    if (recordId !== currentId && !ids.has(recordId)) recordIds.set(currentId, recordId);
+  }
+
+  return sightings.map((s) => (recordIds.has(s.id) ? { ...s, recordId: recordIds.get(s.id) } : s));
+}
+
+/**
+ * Derive each issue's history from the registered runs, oldest first. An
+ * issue is resolved in the first run that doesn't report it, and reopened
+ * when a later run reports it again.
+ */
+export function buildIssueRecords(runs: RegisteredRun[]): IssueRecord[] {
+  const records = new Map<string, IssueRecord>();
+
+  for (const run of runs) {
+    const seen = new Set<string>();
+    for (const sighting of run.issues) {
+      const key = sighting.recordId ?? sighting.id;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const status = sighting.suppressed ? 'suppressed' : 'open';
+      const record = records.get(key);
+      if (!record) {
+        records.set(key, {
+          id: key,
+          title: sighting.title,
+          type: sighting.type,
+          severity: sighting.severity,
+          status,
+          firstSeen: run.runId,
+          lastSeen: run.runId,
+          occurrences: 1,
+          severityHistory: [{ runId: run.runId, severity: sighting.severity }],
+          openSince: run.runId,
+          reopened: [],
+        });
+        continue;
+      }
+
+      if (record.status === 'resolved') {
+        record.reopened.push({ runId: run.runId, resolvedIn: record.resolvedIn! });
+        record.openSince = run.runId;
+        delete record.resolvedIn;
+      }
+      if (sighting.severity !== record.severity) {
+        record.severityHistory.push({ runId: run.runId, severity: sighting.severity });
+      }
+      if (sighting.id !== record.id && !record.aliases?.includes(sighting.id)) {
+        record.aliases = [...(record.aliases ?? []), sighting.id];
+      }
+      Object.assign(record, {
+        title: sighting.title,
+        type: sighting.type,
+        severity: sighting.severity,
+        status,
+        lastSeen: run.runId,
+        occurrences: record.occurrences + 1,
+      });
+    }
+
+    for (const record of records.values()) {
+      if (!seen.has(record.id) && record.status !== 'resolved') {
+        record.status = 'resolved';
+        record.resolvedIn = run.runId;
+        delete record.openSince;
+      }
+    }
+  }
+
+  return [...records.values()];
+}
+
+/** The registered run just before `runId`, if any */
+export function previousRun(db: IssueDatabase | null, runId: string): RegisteredRun | undefined {
+  return (db?.runs ?? []).filter((r) => r.runId < runId).at(-1);
+}
+
+/**
+ * Add (or replace) a run's issues and rebuild the issue histories. Runs
+ * are kept in run ID order, which is chronological for run-* directories.
+ * With the previous run's synthesis (see previousRun), issues are linked to
+ * it as `compare` would match them; without it, only by exact ID.
+ */
+export function registerRun(
+  db: IssueDatabase | null,
+  runId: string,
+  synthesis: Synthesis,
+  previousSynthesis?: Synthesis,
+  matching?: MatchingConfig
+): IssueDatabase {
+  const previous = previousRun(db, runId);
+  const sightings = sightingsOf(synthesis);
+  const issues = previous && previousSynthesis
+    ? linkSightings(sightings, previous, compareSyntheses(previousSynthesis, synthesis, previous.runId, runId, { synonyms: matching?.synonyms }))
+    : sightings;
+
+  const run: RegisteredRun = { runId, date: synthesis.synthesisDate, issues };
+  const runs = [...(db?.runs ?? []).filter((r) => r.runId !== runId), run]
+    .sort((a, b) => a.runId.localeCompare(b.runId));
+
+  return {
+    version: ISSUES_DB_VERSION,
+    updatedAt: now().toISOString(),
+    runs,
+    issues: buildIssueRecords(runs),
+  };
+}
+
+/**
+ * Load issues-db.json from the artifacts dir. Returns null when it doesn't
+ * exist; throws when it exists but can't be read, so a bad file is never
+ * overwritten with a fresh history.
+ */
+export function loadIssueDatabase(artifactsDir: string): IssueDatabase | null {
+  const filePath = path.join(artifactsDir, ISSUES_DB_FILE);
+  if (!fs.existsSync(filePath)) return null;
+
+  const db = loadJson<IssueDatabase>(filePath);
+  if (!db || !Array.isArray(db.runs) || !Array.isArray(db.issues)) {
+    throw new Error(`Failed to read ${filePath}: not an issue registry (move it aside to start a new one)`);
+  }
+  return db;
+}
+
+/** Write issues-db.json into the artifacts dir */
+export function saveIssueDatabase(artifactsDir: string, db: IssueDatabase): void {
+  fs.mkdirSync(artifactsDir, { recursive: true });
+  fs.writeFileSync(path.join(artifactsDir, ISSUES_DB_FILE), JSON.stringify(db, null, 2) + '\n');
+}
+
+/**
+ * Register a finished run's synthesis in {artifactsDir}/issues-db.json
+ */
+export function updateIssueDatabase(config: QuorumUXConfig, runDir: string): RegistrationSummary | null {
+  const synthesis = loadJson<Synthesis>(path.join(runDir, 'reports', 'synthesis.json'));
+  if (!synthesis) return null;
+
+  const artifactsDir = path.resolve(config.artifactsDir);
+  const runId = path.basename(runDir);
+  const before = loadIssueDatabase(artifactsDir);
+  const previous = previousRun(before, runId);
+  const previousSynthesis = previous
+    ? loadJson<Synthesis>(path.join(artifactsDir, previous.runId, 'reports', 'synthesis.json')) ?? undefined
+    : undefined;
+  const db = registerRun(before, runId, synthesis, previousSynthesis, config.matching);
+  saveIssueDatabase(artifactsDir, db);
+
+  const summary: RegistrationSummary = {
+    newIssues: db.issues.filter((r) => r.firstSeen === runId).length,
+    resolved: db.issues.filter((r) => r.resolvedIn === runId).length,
+    reopened: db.issues.filter((r) => r.reopened.some((e) => e.runId === runId)).length,
+  };
+  logger.log(
+    `  Issue registry: ${summary.newIssues} new, ${summary.resolved} resolved, ${summary.reopened} reopened ` +
+      `(${db.issues.filter((r) => r.status === 'open').length} open across ${db.runs.length} runs)`
+  );
+  return summary;
+}
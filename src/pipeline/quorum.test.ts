@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import type { ScreenshotAnalysis, VideoAnalysis } from '../types.js';
+import { excludeThinPersonas, meetsQuorum, quorumVoters, resolveQuorum } from './quorum.js';
+
+const voters = [
+  { name: 'claude', id: 'anthropic/claude-sonnet' },
+  { name: 'gpt', id: 'openai/gpt-4o' },
+  { name: 'gemini', id: 'google/gemini-flash' },
+];
+
+function analysis(persona: string, model: string, error?: string): ScreenshotAnalysis {
+  return { persona, model, modelId: `vendor/${model}`, analysis: error ? '' : 'ok', ...(error ? { error } : {}) };
+}
+
+describe('resolveQuorum', () => {
+  it('defaults to 2+ models with video as a vote', () => {
+    const quorum = resolveQuorum(undefined, voters, { hasVideo: true });
+
+    expect(quorum).toMatchObject({ mode: 'min-models', required: 2, videoCountsAsVote: true, minModelsPerPersona: 1 });
+    expect(quorum.rule).toBe('2+ screenshot models flagged it (video confirmation counts as one vote)');
+    expect(meetsQuorum(quorum, ['claude'], true)).toBe(true);
+    expect(meetsQuorum(quorum, ['claude'], false)).toBe(false);
+  });
+
+  it('never reaches quorum on video alone', () => {
+    const quorum = resolveQuorum({ minModels: 1 }, voters, { hasVideo: true });
+    expect(meetsQuorum(quorum, [], true)).toBe(false);
+  });
+
+  it('counts a majority of voters including video', () => {
+    const quorum = resolveQuorum({ mode: 'majority' }, voters, { hasVideo: true });
+
+    expect(quorum.required).toBe(3);
+    expect(quorum.rule).toBe('a majority (3) of the voters [claude, gpt, gemini + video] flagged it');
+    expect(meetsQuorum(quorum, ['claude', 'gpt'], false)).toBe(false);
+    expect(meetsQuorum(quorum, ['claude', 'gpt'], true)).toBe(true);
+  });
+
+  it('requires every screenshot model when unanimous and video does not vote', () => {
+    const quorum = resolveQuorum({ mode: 'unanimous', videoCountsAsVote: false }, voters, { hasVideo: true });
+
+    expect(quorum.required).toBe(3);
+    expect(meetsQuorum(quorum, ['claude', 'gpt'], true)).toBe(false);
+    expect(meetsQuorum(quorum, ['claude', 'gpt', 'gemini'], false)).toBe(true);
+  });
+
+  it('sums trust weights looked up by model id or name', () => {
+    const quorum = resolveQuorum(
+      { mode: 'weighted', weights: { 'anthropic/claude-sonnet': 2, gemini: 0.5, video: 0.5 }, minWeight: 2.5 },
+      voters,
+      { hasVideo: true }
+    );
+
+    expect(quorum.weights).toEqual({ claude: 2, gpt: 1, gemini: 0.5, video: 0.5 });
+    expect(meetsQuorum(quorum, ['claude', 'gemini'], false)).toBe(true);
+    expect(meetsQuorum(quorum, ['gpt', 'gemini'], true)).toBe(false);
+    expect(meetsQuorum(quorum, ['claude'], true)).toBe(true);
+  });
+});
+
+describe('quorumVoters', () => {
+  it('lists each successful model once', () => {
+    expect(quorumVoters([analysis('p1', 'a'), analysis('p2', 'a'), analysis('p1', 'b', 'HTTP 500')])).toEqual([
+      { name: 'a', id: 'vendor/a' },
+    ]);
+  });
+});
+
+describe('excludeThinPersonas', () => {
+  it('drops personas with too few successful models, including their videos', () => {
+    const videos: VideoAnalysis[] = [
+      { persona: 'p2', model: 'v', modelId: 'vendor/v', analysisType: 'video', videoPath: 'a.webm', videoSizeMB: 1, analysis: 'ok' },
+      { persona: 'p3', model: 'v', modelId: 'vendor/v', analysisType: 'video', videoPath: 'b.webm', videoSizeMB: 1, analysis: 'ok' },
+    ];
+    const result = excludeThinPersonas(
+      [analysis('p1', 'a'), analysis('p1', 'b'), analysis('p2', 'a'), analysis('p2', 'b', 'HTTP 500')],
+      videos,
+      2
+    );
+
+    expect(result.excludedPersonas).toEqual(['p2']);
+    expect(result.screenshotAnalyses.map((a) => a.persona)).toEqual(['p1', 'p1']);
+    // p3 has no screenshot analyses at all, so its video is kept
+    expect(result.videoAnalyses.map((a) => a.persona)).toEqual(['p3']);
+  });
+});
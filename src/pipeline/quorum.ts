@@ -0,0 +1,130 @@
+/**
+ * QuorumUX — Quorum Policy
+ *
+ * Resolves the `quorum` config block into the rule Stage 3 classifies
+ * consensus by. The same record drives the synthesis prompt, the local
+ * consensus check, and what synthesis.json and the report say was applied.
+ */
+
+import type { QuorumConfig, QuorumMode, QuorumRecord, ScreenshotAnalysis, VideoAnalysis } from '../types.js';
+
+export const QUORUM_MODES: readonly QuorumMode[] = ['min-models', 'majority', 'unanimous', 'weighted'];
+
+export const DEFAULT_QUORUM = {
+  mode: 'min-models' as QuorumMode,
+  minModels: 2,
+  videoCountsAsVote: true,
+  minModelsPerPersona: 1,
+};
+
+/** Key of the video vote in `weights` */
+const VIDEO_VOTER = 'video';
+
+/**
+ * Drop personas with fewer than `minModels` successful screenshot analyses.
+ * Their video analyses are dropped too. Personas without any screenshot
+ * analyses (e.g. video-only runs) are kept.
+ */
+export function excludeThinPersonas(
+  screenshotAnalyses: ScreenshotAnalysis[],
+  videoAnalyses: VideoAnalysis[],
+  minModels: number
+): { screenshotAnalyses: ScreenshotAnalysis[]; videoAnalyses: VideoAnalysis[]; excludedPersonas: string[] } {
+  const attempted = [...new Set(screenshotAnalyses.map((a) => a.persona))];
+  const excludedPersonas = attempted.filter((persona) => {
+    const models = new Set(screenshotAnalyses.filter((a) => a.persona === persona && !a.error).map((a) => a.modelId));
+    return models.size < minModels;
+  }).sort();
+
+  const excluded = new Set(excludedPersonas);
+  return {
+    screenshotAnalyses: screenshotAnalyses.filter((a) => !excluded.has(a.persona)),
+    videoAnalyses: videoAnalyses.filter((a) => !excluded.has(a.persona)),
+    excludedPersonas,
+  };
+}
+
+function formatWeight(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function describeRule(record: Omit<QuorumRecord, 'rule'>, videoVoting: boolean): string {
+  const video = record.videoCountsAsVote ? ' (video confirmation counts as one vote)' : ' (video confirmation does not count as a vote)';
+  const voters = `${record.voters.join(', ') || 'no models'}${videoVoting ? ' + video' : ''}`;
+
+  switch (record.mode) {
+    case 'min-models':
+      return `${record.required}+ screenshot models flagged it${video}`;
+    case 'majority':
+      return `a majority (${record.required}) of the voters [${voters}] flagged it`;
+    case 'unanimous':
+      return `every voter [${voters}] flagged it`;
+    case 'weighted': {
+      const weights = Object.entries(record.weights ?? {}).map(([name, w]) => `${name} ${formatWeight(w)}`).join(', ');
+      return `the summed trust weight of the models that flagged it is at least ${formatWeight(record.required)} (weights: ${weights})`;
+    }
+  }
+}
+
+/** Distinct screenshot models with at least one successful analysis, in first-seen order */
+export function quorumVoters(screenshotAnalyses: ScreenshotAnalysis[]): Array<{ name: string; id: string }> {
+  const voters = new Map<string, { name: string; id: string }>();
+  for (const a of screenshotAnalyses.filter((a) => !a.error)) {
+    if (!voters.has(a.modelId)) voters.set(a.modelId, { name: a.model, id: a.modelId });
+  }
+  return [...voters.values()];
+}
+
+/**
+ * Fill in quorum defaults for this run's voters: the screenshot models with
+ * at least one successful analysis, plus video when it votes and is present.
+ */
+export function resolveQuorum(
+  config: QuorumConfig | undefined,
+  voters: Array<{ name: string; id: string }>,
+  options: { hasVideo?: boolean; excludedPersonas?: string[] } = {}
+): QuorumRecord {
+  const mode = config?.mode ?? DEFAULT_QUORUM.mode;
+  const videoCountsAsVote = config?.videoCountsAsVote ?? DEFAULT_QUORUM.videoCountsAsVote;
+  const videoVoting = videoCountsAsVote && !!options.hasVideo;
+  const electorate = voters.length + (videoVoting ? 1 : 0);
+
+  let weights: Record<string, number> | undefined;
+  if (mode === 'weighted') {
+    weights = {};
+    for (const voter of voters) weights[voter.name] = config?.weights?.[voter.id] ?? config?.weights?.[voter.name] ?? 1;
+    if (videoCountsAsVote) weights[VIDEO_VOTER] = config?.weights?.[VIDEO_VOTER] ?? 1;
+  }
+
+  const required =
+    mode === 'majority' ? Math.floor(electorate / 2) + 1
+      : mode === 'unanimous' ? Math.max(electorate, 1)
+        : mode === 'weighted' ? config?.minWeight ?? 1
+          : config?.minModels ?? DEFAULT_QUORUM.minModels;
+
+  const record: Omit<QuorumRecord, 'rule'> = {
+    mode,
+    required,
+    voters: voters.map((v) => v.name),
+    ...(weights ? { weights } : {}),
+    videoCountsAsVote,
+    minModelsPerPersona: config?.minModelsPerPersona ?? DEFAULT_QUORUM.minModelsPerPersona,
+    excludedPersonas: options.excludedPersonas ?? [],
+  };
+
+  return { ...record, rule: describeRule(record, videoVoting) };
+}
+
+/** Votes (or weight) for an issue flagged by `models`, optionally confirmed by video */
+export function countVotes(quorum: QuorumRecord, models: string[], videoConfirmed: boolean): number {
+  const video = quorum.videoCountsAsVote && videoConfirmed;
+  if (quorum.mode !== 'weighted') return models.length + (video ? 1 : 0);
+
+  const weightOf = (name: string) => quorum.weights?.[name] ?? 1;
+  return models.reduce((sum, m) => sum + weightOf(m), 0) + (video ? weightOf(VIDEO_VOTER) : 0);
+}
+
+/** Whether an issue flagged by `models` meets the quorum (video alone never does) */
+export function meetsQuorum(quorum: QuorumRecord, models: string[], videoConfirmed: boolean): boolean {
+  return models.length > 0 && countVotes(quorum, models, videoConfirmed) >= quorum.required;
+}
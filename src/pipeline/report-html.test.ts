@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MAX_EMBEDDED_IMAGE_BYTES, collectReportImages, renderHtmlReport, type ReportImages } from './report-html.js';
+import type { ReportJSON, ReportJSONIssue } from '../types.js';
+
+function issue(id: string, severity: string, extra: Partial<ReportJSONIssue> = {}): ReportJSONIssue {
+  return { type: 'consensus', id, title: `Issue ${id}`, severity, description: 'Something is off', recommendation: 'Fix it', ...extra };
+}
+
+function report(issues: ReportJSONIssue[]): ReportJSON {
+  return {
+    runId: 'run-01',
+    generatedAt: '2026-02-22T09:00:00.000Z',
+    projectName: 'Shop',
+    score: 72,
+    launchReadiness: 'ready-with-caveats',
+    issueCount: issues.length,
+    issues,
+    models: [],
+    personas: [],
+    topStrengths: ['Clear pricing'],
+    criticalPath: ['Fix checkout'],
+  };
+}
+
+describe('collectReportImages', () => {
+  let runDir: string;
+
+  beforeEach(() => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-html-'));
+    fs.mkdirSync(path.join(runDir, 'grids'));
+    fs.mkdirSync(path.join(runDir, 'screenshots', 'p1'), { recursive: true });
+    fs.writeFileSync(path.join(runDir, 'grids', 'p1-grid.jpg'), Buffer.from([0xff, 0xd8, 0xff]));
+    fs.writeFileSync(path.join(runDir, 'screenshots', 'p1', 'step01.png'), Buffer.from([0x89, 0x50]));
+    fs.writeFileSync(path.join(runDir, 'screenshots', 'p1', 'huge.png'), Buffer.alloc(MAX_EMBEDDED_IMAGE_BYTES + 1));
+  });
+
+  afterEach(() => {
+    fs.rmSync(runDir, { recursive: true, force: true });
+  });
+
+  it('embeds grids and cited screenshots once, links oversized ones and skips missing ones', () => {
+    const cite = (screenshot: string) => ({ persona: 'p1', model: 'claude', quote: 'q', tile: 1, screenshot });
+    const issues = [
+      issue('QUX-a', 'P0', { citations: [cite('screenshots/p1/step01.png'), cite('screenshots/p1/missing.png')] }),
+      issue('QUX-b', 'P1', { citations: [cite('screenshots/p1/step01.png'), cite('screenshots/p1/huge.png')] }),
+    ];
+
+    const images = collectReportImages(runDir, issues, '..');
+
+    expect(images.grids).toEqual([{ persona: 'p1', image: 'grids/p1-grid.jpg' }]);
+    expect(Object.keys(images.sources).sort()).toEqual(['grids/p1-grid.jpg', 'screenshots/p1/huge.png', 'screenshots/p1/step01.png']);
+    expect(images.sources['grids/p1-grid.jpg']).toBe('data:image/jpeg;base64,/9j/');
+    expect(images.sources['screenshots/p1/step01.png']).toMatch(/^data:image\/png;base64,/);
+    expect(images.sources['screenshots/p1/huge.png']).toBe('../screenshots/p1/huge.png');
+  });
+
+  it('never reads images from outside the run directory', () => {
+    const outside = path.join(path.dirname(runDir), `${path.basename(runDir)}-outside.png`);
+    fs.writeFileSync(outside, Buffer.from([0x89, 0x50]));
+    try {
+      const cite = { persona: 'p1', model: 'claude', quote: 'q', tile: 1, screenshot: `../${path.basename(outside)}` };
+      const images = collectReportImages(runDir, [issue('QUX-a', 'P0', { citations: [cite] })], '..');
+      expect(Object.keys(images.sources)).toEqual(['grids/p1-grid.jpg']);
+    } finally {
+      fs.rmSync(outside, { force: true });
+    }
+  });
+});
+
+describe('renderHtmlReport', () => {
+  const images: ReportImages = {
+    grids: [{ persona: 'p1', image: 'grids/p1-grid.jpg' }],
+    sources: { 'grids/p1-grid.jpg': 'data:image/jpeg;base64,AAAA', 'screenshots/p1/a.png': 'data:image/png;base64,</script>' },
+  };
+
+  it('renders filterable issue cards in severity order with expandable evidence', () => {
+    const html = renderHtmlReport(
+      report([
+        issue('QUX-low', 'P2', { source: 'test-infra', type: 'model-unique', reportedBy: 'gpt' }),
+        issue('QUX-top', 'P0', {
+          title: 'Pay <button> hidden',
+          evidence: { screenshotModels: ['claude', 'gemini'], videoConfirmed: true, testRunConfirmed: false, affectedPersonas: ['p1'] },
+          citations: [{ persona: 'p2', model: 'claude', quote: 'cannot pay', tile: 2, screenshot: 'screenshots/p1/a.png' }],
+        }),
+        issue('QUX-gone', 'P1', { status: 'suppressed', suppression: { reason: 'Known', matchedBy: 'QUX-gone' } }),
+      ]),
+      [],
+      ['P0', 'P1', 'P2'],
+      images
+    );
+
+    expect(html.indexOf('QUX-top')).toBeLessThan(html.indexOf('QUX-gone'));
+    expect(html.indexOf('QUX-gone')).toBeLessThan(html.indexOf('QUX-low'));
+    expect(html).toContain('Pay &lt;button&gt; hidden');
+    expect(html).toContain('data-personas="[&quot;p1&quot;,&quot;p2&quot;]"');
+    expect(html).toContain('data-source="test-infra"');
+    expect(html).toContain('data-suppressed="true"');
+    expect(html).toContain('<summary>Evidence (1 citation)</summary>');
+    expect(html).toContain('<img class="thumb" data-image="screenshots/p1/a.png"');
+    expect(html).toContain('<option value="model-unique">model-unique</option>');
+    expect(html).toContain('<b>2</b>P0: 1 · P1: 0 · P2: 1');
+  });
+
+  it('is self-contained and keeps image data from closing the script', () => {
+    const html = renderHtmlReport(report([]), [], ['P0', 'P1', 'P2'], images);
+
+    expect(html).not.toMatch(/(src|href)="(https?:)?\/\//);
+    expect(html).toContain('data:image/png;base64,\\u003c/script>');
+    expect(html.match(/<\/script>/g)).toHaveLength(2);
+    expect(html).toContain('<img class="thumb grid" data-image="grids/p1-grid.jpg" alt="p1 screenshot grid">');
+  });
+
+  it('shows each model\'s position in a disagreement', () => {
+    const html = renderHtmlReport(
+      report([]),
+      [{ topic: 'Is the pricing toggle clear?', positions: { claude: 'Yes', gemini: 'No, the labels swap' }, recommendation: 'Test it' }],
+      ['P0', 'P1', 'P2'],
+      images
+    );
+
+    expect(html).toContain('<h3>Is the pricing toggle clear?</h3>');
+    expect(html).toContain('<div class="position"><h4>gemini</h4><p>No, the labels swap</p></div>');
+  });
+});
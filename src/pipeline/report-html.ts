@@ -0,0 +1,327 @@
+/**
+ * QuorumUX — HTML Report
+ *
+ * Stage 4's ux-analysis-report.html: a single file with inline CSS, JS and
+ * images (screenshot grids and cited screenshots as data URIs), so it opens
+ * offline and can be attached to a release review as-is. Issues can be
+ * filtered by severity, persona, source and type, each issue's evidence
+ * expands in place, and model disagreements are shown side by side.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { escapeHtml } from '../utils/html.js';
+import type { Disagreement, ReportJSON, ReportJSONIssue } from '../types.js';
+
+export const HTML_REPORT_FILE = 'ux-analysis-report.html';
+
+/** Images larger than this are linked (relative to the report) instead of embedded */
+export const MAX_EMBEDDED_IMAGE_BYTES = 2 * 1024 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+/** Images for the report, keyed by path relative to the run directory */
+export interface ReportImages {
+  /** Screenshot grid per persona, in persona order */
+  grids: Array<{ persona: string; image: string }>;
+  /** Image key → data URI, or a path relative to the report for images too large to embed */
+  sources: Record<string, string>;
+}
+
+// ─── Images ─────────────────────────────────────────────────────────────────
+
+/**
+ * Load the run's screenshot grids and the screenshots cited by `issues`.
+ * `runLink` is the run directory relative to the report, used for images
+ * over MAX_EMBEDDED_IMAGE_BYTES. Missing files, and paths that would leave
+ * the run directory, are left out.
+ */
+export function collectReportImages(runDir: string, issues: ReportJSONIssue[], runLink: string): ReportImages {
+  const sources: Record<string, string> = {};
+  const add = (key: string): boolean => {
+    if (key in sources) return true;
+    const file = path.resolve(runDir, ...key.split('/'));
+    const relative = path.relative(path.resolve(runDir), file);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return false;
+    const type = IMAGE_TYPES[path.extname(file).toLowerCase()];
+    if (!type || !fs.existsSync(file)) return false;
+    sources[key] = fs.statSync(file).size > MAX_EMBEDDED_IMAGE_BYTES
+      ? path.posix.join(runLink, key)
+      : `data:${type};base64,${fs.readFileSync(file).toString('base64')}`;
+    return true;
+  };
+
+  const grids: ReportImages['grids'] = [];
+  const gridsDir = path.join(runDir, 'grids');
+  const gridFiles = fs.existsSync(gridsDir) ? fs.readdirSync(gridsDir).filter((f) => f.endsWith('-grid.jpg')).sort() : [];
+  for (const file of gridFiles) {
+    const image = path.posix.join('grids', file);
+    if (add(image)) grids.push({ persona: file.replace('-grid.jpg', ''), image });
+  }
+
+  for (const issue of issues) {
+    for (const citation of issue.citations ?? []) {
+      if (citation.screenshot) add(citation.screenshot);
+    }
+  }
+
+  return { grids, sources };
+}
+
+// ─── Rendering ──────────────────────────────────────────────────────────────
+
+/** Personas an issue concerns: affected personas, the video persona and cited personas */
+function personasOf(issue: ReportJSONIssue): string[] {
+  return [...new Set([
+    ...(issue.evidence?.affectedPersonas ?? []),
+    ...(issue.persona ? [issue.persona] : []),
+    ...(issue.citations ?? []).map((c) => c.persona),
+  ])].sort();
+}
+
+/** Rank of a severity for colouring: its position in the scale, capped at 3 */
+function severityClass(severity: string, severityLevels: string[]): string {
+  const rank = severityLevels.indexOf(severity);
+  return `sev-${rank === -1 ? 3 : Math.min(rank, 3)}`;
+}
+
+function renderOptions(label: string, filter: string, values: string[]): string {
+  const options = values.map((v) => `<option value="${escapeHtml(v)}">${escapeHtml(v)}</option>`).join('');
+  return `<label>${label} <select data-filter="${filter}"><option value="">All</option>${options}</select></label>`;
+}
+
+/** Expandable evidence for an issue; empty when there is nothing beyond the card */
+function renderEvidence(issue: ReportJSONIssue, images: ReportImages): string {
+  const items: string[] = [];
+
+  if (issue.verification) {
+    const v = issue.verification;
+    const sources = v.supportingModels.join(', ') + (v.videoSupported ? ' + video' : '');
+    items.push(v.status === 'verified'
+      ? `<p><strong>Verified consensus:</strong> raw findings from ${escapeHtml(sources)}</p>`
+      : `<p><strong>Partial consensus:</strong> raw findings from ${escapeHtml(sources)}; none from ${escapeHtml(v.unsupportedClaims.join(', '))}</p>`);
+  }
+  if (issue.evidence) {
+    const confirmed = [
+      issue.evidence.videoConfirmed ? 'video' : '',
+      issue.evidence.testRunConfirmed ? 'test run' : '',
+    ].filter(Boolean);
+    items.push(`<p><strong>Models:</strong> ${escapeHtml(issue.evidence.screenshotModels.join(', ') || '—')}` +
+      (confirmed.length > 0 ? ` · confirmed by ${confirmed.join(' and ')}` : '') + '</p>');
+  }
+  if (issue.demotedFrom) {
+    const support = issue.demotedFrom.supportingModels.join(', ') || 'no model';
+    items.push(`<p><strong>Demoted from consensus:</strong> claimed by ${escapeHtml(issue.demotedFrom.claimedModels.join(', ') || 'no model')}; ` +
+      `matching raw findings from ${escapeHtml(support)}</p>`);
+  }
+  if (issue.temporalInsight) items.push(`<p><strong>Temporal insight:</strong> ${escapeHtml(issue.temporalInsight)}</p>`);
+  if (issue.timestamp) items.push(`<p><strong>Video timestamp:</strong> ${escapeHtml(issue.timestamp)}</p>`);
+  if (issue.suppression) {
+    items.push(`<p><strong>Suppressed:</strong> ${escapeHtml(issue.suppression.reason)} (${escapeHtml(issue.suppression.matchedBy)})</p>`);
+  }
+
+  const citations = (issue.citations ?? []).map((c) => {
+    const where = [
+      c.tile ? `tile ${c.tile}` : '',
+      c.timestamp ? `at ${escapeHtml(c.timestamp)}` : '',
+    ].filter(Boolean);
+    const thumb = c.screenshot && images.sources[c.screenshot]
+      ? `<img class="thumb" data-image="${escapeHtml(c.screenshot)}" alt="${escapeHtml(path.posix.basename(c.screenshot))}">`
+      : '';
+    const unverified = c.verified === false ? ' <em>(quote not found in raw analysis)</em>' : '';
+    return `<li>${thumb}<span>${escapeHtml(c.persona)} — ${escapeHtml(c.model)}${where.length > 0 ? `, ${where.join(', ')}` : ''}: ` +
+      `“${escapeHtml(c.quote)}”${unverified}</span></li>`;
+  });
+  if (citations.length > 0) items.push(`<ul class="citations">${citations.join('')}</ul>`);
+
+  if (items.length === 0) return '';
+  const label = citations.length > 0 ? `Evidence (${citations.length} citation${citations.length === 1 ? '' : 's'})` : 'Evidence';
+  return `<details><summary>${label}</summary>${items.join('\n')}</details>`;
+}
+
+function renderIssue(issue: ReportJSONIssue, severityLevels: string[], images: ReportImages): string {
+  const personas = personasOf(issue);
+  const source = issue.source ?? 'app';
+  const suppressed = issue.status === 'suppressed';
+  const badges = [
+    `<span class="badge ${severityClass(issue.severity, severityLevels)}">${escapeHtml(issue.severity)}</span>`,
+    `<span class="badge">${issue.type}</span>`,
+    source === 'test-infra' ? '<span class="badge infra">test-infra</span>' : '',
+    suppressed ? '<span class="badge muted">suppressed</span>' : '',
+  ].filter(Boolean);
+  const meta = [
+    issue.category ? `Category: ${escapeHtml(issue.category)}` : '',
+    issue.effort ? `Effort: ${issue.effort}` : '',
+    issue.reportedBy ? `Reported by: ${escapeHtml(issue.reportedBy)}${issue.confidence ? ` (${issue.confidence} confidence)` : ''}` : '',
+    personas.length > 0 ? `Personas: ${escapeHtml(personas.join(', '))}` : '',
+  ].filter(Boolean);
+
+  return `<article class="issue" data-severity="${escapeHtml(issue.severity)}" data-type="${issue.type}" data-source="${source}" ` +
+    `data-personas="${escapeHtml(JSON.stringify(personas))}" data-suppressed="${suppressed}">
+<header>${badges.join(' ')} <code>${escapeHtml(issue.id)}</code></header>
+<h3>${escapeHtml(issue.title)}</h3>
+<p>${escapeHtml(issue.description)}</p>
+${issue.recommendation ? `<p><strong>Recommendation:</strong> ${escapeHtml(issue.recommendation)}</p>\n` : ''}${meta.length > 0 ? `<p class="meta">${meta.join(' · ')}</p>\n` : ''}${renderEvidence(issue, images)}
+</article>`;
+}
+
+function renderDisagreement(d: Disagreement): string {
+  const positions = Object.entries(d.positions).map(
+    ([model, position]) => `<div class="position"><h4>${escapeHtml(model)}</h4><p>${escapeHtml(position)}</p></div>`
+  );
+  return `<section class="disagreement">
+<h3>${escapeHtml(d.topic)}</h3>
+<div class="positions">${positions.join('')}</div>
+<p><strong>Recommendation:</strong> ${escapeHtml(d.recommendation)}</p>
+</section>`;
+}
+
+/**
+ * Render the standalone HTML report. Issues are ordered by `severityLevels`
+ * (unknown severities last); suppressed issues are hidden until the
+ * "Show suppressed" box is ticked.
+ */
+export function renderHtmlReport(
+  report: ReportJSON,
+  disagreements: Disagreement[],
+  severityLevels: string[],
+  images: ReportImages
+): string {
+  const rank = (severity: string) => {
+    const i = severityLevels.indexOf(severity);
+    return i === -1 ? severityLevels.length : i;
+  };
+  const issues = [...report.issues].sort((a, b) => rank(a.severity) - rank(b.severity));
+  const active = issues.filter((i) => i.status !== 'suppressed');
+
+  const present = (values: string[]) => [...new Set(values)];
+  const severities = present(issues.map((i) => i.severity)).sort((a, b) => rank(a) - rank(b));
+  const counts = severities.map((s) => `${escapeHtml(s)}: ${active.filter((i) => i.severity === s).length}`);
+  const title = `${report.projectName} — UX Analysis Report`;
+
+  const grids = images.grids.map(
+    (g) => `<figure><img class="thumb grid" data-image="${escapeHtml(g.image)}" alt="${escapeHtml(g.persona)} screenshot grid">` +
+      `<figcaption>${escapeHtml(g.persona)}</figcaption></figure>`
+  );
+  const list = (items: string[]) => `<ul>${items.map((i) => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+  // "<" escaped so image data can't close the script element
+  const imageData = JSON.stringify(images.sources).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 64rem; padding: 0 1rem; color: #1f2328; }
+  nav a { margin-right: 1rem; }
+  [hidden] { display: none !important; }
+  .summary { display: flex; flex-wrap: wrap; gap: 1rem; }
+  .stat { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.6rem 1rem; }
+  .stat b { display: block; font-size: 1.4rem; }
+  .grids { display: flex; flex-wrap: wrap; gap: 1rem; }
+  figure { margin: 0; text-align: center; font-size: 0.85rem; }
+  img.thumb { max-width: 160px; max-height: 120px; border: 1px solid #d0d7de; border-radius: 4px; cursor: zoom-in; }
+  img.grid { max-width: 240px; max-height: 180px; }
+  .filters { display: flex; flex-wrap: wrap; gap: 1rem; align-items: center; padding: 0.6rem 0; position: sticky; top: 0; background: #fff; }
+  .issue { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.8rem 1rem; margin: 0.8rem 0; }
+  .issue h3 { margin: 0.4rem 0; }
+  .issue[data-suppressed="true"] { opacity: 0.6; }
+  .badge { display: inline-block; border-radius: 1rem; padding: 0.05rem 0.55rem; font-size: 0.8rem; background: #eaeef2; }
+  .sev-0 { background: #ffebe9; color: #a40e26; }
+  .sev-1 { background: #fff1e5; color: #953800; }
+  .sev-2 { background: #fff8c5; color: #7d4e00; }
+  .sev-3 { background: #eaeef2; color: #57606a; }
+  .infra { background: #ddf4ff; color: #0969da; }
+  .muted { color: #57606a; }
+  .meta { color: #57606a; font-size: 0.9rem; }
+  details { margin-top: 0.5rem; }
+  summary { cursor: pointer; color: #0969da; }
+  .citations { list-style: none; padding: 0; }
+  .citations li { display: flex; gap: 0.8rem; align-items: flex-start; margin: 0.5rem 0; }
+  .positions { display: grid; grid-template-columns: repeat(auto-fit, minmax(14rem, 1fr)); gap: 0.8rem; }
+  .position { border: 1px solid #d0d7de; border-radius: 6px; padding: 0 0.8rem; }
+  #lightbox { position: fixed; inset: 0; background: rgba(0, 0, 0, 0.8); display: flex; align-items: center; justify-content: center; cursor: zoom-out; }
+  #lightbox img { max-width: 95vw; max-height: 95vh; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">Run ${escapeHtml(report.runId)} · generated ${escapeHtml(report.generatedAt)}</p>
+<nav><a href="#summary">Summary</a><a href="#screens">Screens</a><a href="#issues">Issues</a><a href="#disagreements">Disagreements</a></nav>
+
+<h2 id="summary">Summary</h2>
+<div class="summary">
+<div class="stat"><b>${report.score}/100</b>UX score</div>
+${report.adjustedScore !== undefined ? `<div class="stat"><b>${report.adjustedScore}/100</b>Adjusted score</div>\n` : ''}<div class="stat"><b>${escapeHtml(report.launchReadiness)}</b>Launch readiness</div>
+<div class="stat"><b>${active.length}</b>${counts.length > 0 ? counts.join(' · ') : 'Issues'}</div>
+</div>
+${report.topStrengths.length > 0 ? `<h3>Top Strengths</h3>${list(report.topStrengths)}\n` : ''}${report.criticalPath.length > 0 ? `<h3>Critical Path</h3>${list(report.criticalPath)}\n` : ''}
+<h2 id="screens">Screens</h2>
+${grids.length > 0 ? `<div class="grids">${grids.join('')}</div>` : '<p>No screenshot grids in this run.</p>'}
+
+<h2 id="issues">Issues</h2>
+<div class="filters">
+${renderOptions('Severity', 'severity', severities)}
+${renderOptions('Persona', 'persona', present(issues.flatMap(personasOf)).sort())}
+${renderOptions('Source', 'source', present(issues.map((i) => i.source ?? 'app')))}
+${renderOptions('Type', 'type', present(issues.map((i) => i.type)))}
+<label><input type="checkbox" id="show-suppressed"> Show suppressed</label>
+<span id="issue-count" class="muted"></span>
+</div>
+${issues.length > 0 ? issues.map((i) => renderIssue(i, severityLevels, images)).join('\n') : '<p>No issues found.</p>'}
+
+<h2 id="disagreements">Disagreements</h2>
+${disagreements.length > 0 ? disagreements.map(renderDisagreement).join('\n') : '<p>The models did not disagree on anything.</p>'}
+
+<div id="lightbox" hidden><img alt=""></div>
+<script type="application/json" id="report-images">${imageData}</script>
+<script>
+(() => {
+  const images = JSON.parse(document.getElementById('report-images').textContent);
+  for (const img of document.querySelectorAll('img[data-image]')) img.src = images[img.dataset.image];
+
+  const lightbox = document.getElementById('lightbox');
+  document.addEventListener('click', (event) => {
+    if (event.target.matches('img.thumb')) {
+      lightbox.querySelector('img').src = event.target.src;
+      lightbox.hidden = false;
+    } else if (lightbox.contains(event.target)) {
+      lightbox.hidden = true;
+    }
+  });
+  document.addEventListener('keydown', (event) => { if (event.key === 'Escape') lightbox.hidden = true; });
+
+  const issues = [...document.querySelectorAll('.issue')];
+  const filters = [...document.querySelectorAll('[data-filter]')];
+  const showSuppressed = document.getElementById('show-suppressed');
+  const count = document.getElementById('issue-count');
+  const apply = () => {
+    let shown = 0;
+    for (const issue of issues) {
+      const visible = (showSuppressed.checked || issue.dataset.suppressed !== 'true') && filters.every((f) => {
+        if (!f.value) return true;
+        return f.dataset.filter === 'persona'
+          ? JSON.parse(issue.dataset.personas).includes(f.value)
+          : issue.dataset[f.dataset.filter] === f.value;
+      });
+      issue.hidden = !visible;
+      if (visible) shown++;
+    }
+    count.textContent = shown + ' of ' + issues.length + ' issues shown';
+  };
+  for (const control of [...filters, showSuppressed]) control.addEventListener('change', apply);
+  apply();
+})();
+</script>
+</body>
+</html>
+`;
+}
@@ -1,22 +1,42 @@
 /**
  * Stage 4: Report Generation
  *
- * Reads synthesis.json and generates human-readable reports and GitHub issue templates.
+ * Reads synthesis.json and generates human-readable reports (Markdown and a
+ * standalone HTML page) and GitHub issue templates. Known issues are
+ * re-applied first, so `quorumux ignore` changes don't need a Stage 3 rerun.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import {
+  MatchingConfig,
   QuorumUXConfig,
   Synthesis,
   ConsensusIssue,
+  ConsensusVerification,
+  IssueCitation,
   VideoOnlyIssue,
   ModelUniqueIssue,
   Disagreement,
+  PersonaSummary,
   ReportJSON,
   ReportJSONIssue,
+  ScreenshotAnalysis,
+  Taxonomy,
+  VideoAnalysis,
 } from '../types.js';
-import { calculateAdjustedScore } from '../utils/scoring.js';
+import { calculateAdjustedScore, computeScore, resolveScoring } from '../utils/scoring.js';
+import { DEFAULT_TAXONOMY, severityNames } from '../config/taxonomy.js';
+import { loadJson } from '../utils/files.js';
+import { now, today } from '../utils/clock.js';
+import { countFindings, formatSeverityCounts } from './findings.js';
+import { applySuppressions, clearSuppressions, isSuppressed } from './suppress.js';
+import { buildPersonaScorecards } from './scorecards.js';
+import { loadKnownIssues } from '../config/known-issues.js';
+import { HTML_REPORT_FILE, collectReportImages, renderHtmlReport } from './report-html.js';
+import { baselineRunDir, loadBaseline } from '../config/baseline.js';
+import { compareSyntheses, type CompareResult } from './compare.js';
+import * as logger from '../utils/logger.js';
 
 /**
  * Generate UX analysis report and GitHub issue templates from synthesis data
@@ -30,7 +50,7 @@ export async function generateReport(config: QuorumUXConfig, runDir: string, out
   }
 
   const synthesisJson = fs.readFileSync(synthesisPath, 'utf-8');
-  const synthesis: Synthesis = JSON.parse(synthesisJson);
+  const stage3Synthesis: Synthesis = JSON.parse(synthesisJson);
 
   // Determine output directory
   const targetDir = outputDir || sourceReportsDir;
@@ -38,24 +58,146 @@ export async function generateReport(config: QuorumUXConfig, runDir: string, out
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
+  // Raw analyses are optional — used for the data reliability section and finding counts
+  const screenshotAnalyses = loadJson<ScreenshotAnalysis[]>(path.join(sourceReportsDir, 'all-analyses-raw.json')) || [];
+  const videoAnalyses = loadJson<VideoAnalysis[]>(path.join(sourceReportsDir, 'all-video-analyses-raw.json')) || [];
+  const rawAnalyses = [...screenshotAnalyses, ...videoAnalyses];
+
+  // The known-issue list may have changed since Stage 3 (`quorumux ignore`);
+  // synthesis.json is updated too so gate, trend and the issue registry agree
+  const synthesis = refreshSuppressions(config, stage3Synthesis, runDir, screenshotAnalyses, videoAnalyses);
+  if (synthesis !== stage3Synthesis) {
+    fs.writeFileSync(synthesisPath, JSON.stringify(synthesis, null, 2));
+  }
+
   // Generate human-readable report
-  const uxReport = generateUXReport(config, synthesis);
+  // Citation links are relative to the report files
+  const runLink = path.relative(targetDir, runDir).split(path.sep).join('/');
+
+  const runId = path.basename(runDir);
+  const sinceBaseline = compareWithBaseline(synthesis, runDir, config.matching);
+  const uxReport = generateUXReport(config, synthesis, rawAnalyses, runLink, sinceBaseline);
   fs.writeFileSync(path.join(targetDir, 'ux-analysis-report.md'), uxReport);
 
   // Generate GitHub issues markdown
-  const githubIssues = generateGitHubIssues(config, synthesis);
+  const githubIssues = generateGitHubIssues(config, synthesis, runLink);
   fs.writeFileSync(path.join(targetDir, 'github-issues.md'), githubIssues);
 
   // Generate JSON sidecar
-  const runId = path.basename(runDir);
-  const jsonReport = generateReportJSON(config, synthesis, runId);
+  const jsonReport = generateReportJSON(config, synthesis, runId, rawAnalyses);
   fs.writeFileSync(path.join(targetDir, 'ux-analysis-report.json'), JSON.stringify(jsonReport, null, 2) + '\n');
+
+  // Generate standalone HTML report (images embedded)
+  const images = collectReportImages(runDir, jsonReport.issues, runLink);
+  const severityLevels = severityNames(synthesis.taxonomy ?? DEFAULT_TAXONOMY);
+  const html = renderHtmlReport(jsonReport, synthesis.disagreements, severityLevels, images);
+  fs.writeFileSync(path.join(targetDir, HTML_REPORT_FILE), html);
+}
+
+/** Each issue's suppression (or null), for telling whether re-applying changed anything */
+function suppressionState(synthesis: Synthesis): string {
+  return JSON.stringify(
+    [...synthesis.consensusIssues, ...synthesis.videoOnlyIssues, ...synthesis.modelUniqueIssues].map((i) => i.suppression ?? null)
+  );
+}
+
+/**
+ * Re-apply the current known issues to a Stage 3 synthesis, recomputing the
+ * score and persona scorecards when the suppressed set changed. Returns the
+ * synthesis unchanged otherwise.
+ */
+function refreshSuppressions(
+  config: QuorumUXConfig,
+  synthesis: Synthesis,
+  runDir: string,
+  screenshotAnalyses: ScreenshotAnalysis[],
+  videoAnalyses: VideoAnalysis[]
+): Synthesis {
+  const suppressed = applySuppressions(clearSuppressions(synthesis), loadKnownIssues(config), today());
+  if (suppressionState(suppressed) === suppressionState(synthesis)) return synthesis;
+
+  const count = (s: Synthesis) =>
+    [...s.consensusIssues, ...s.videoOnlyIssues, ...s.modelUniqueIssues].filter(isSuppressed).length;
+  logger.log(`  Known issues changed since Stage 3 — ${count(synthesis)} → ${count(suppressed)} suppressed`);
+
+  // Syntheses that predate the computed score keep the model's number
+  if (!synthesis.scoreBreakdown) return suppressed;
+
+  const summariesDir = path.join(runDir, 'summaries');
+  const summaries = fs.existsSync(summariesDir)
+    ? fs.readdirSync(summariesDir)
+        .filter((f) => f.endsWith('-summary.json'))
+        .map((f) => loadJson<PersonaSummary>(path.join(summariesDir, f)))
+        .filter((s): s is PersonaSummary => s !== null)
+    : [];
+  const weights = resolveScoring(config.scoring, synthesis.taxonomy ?? DEFAULT_TAXONOMY);
+  const breakdown = computeScore(suppressed, summaries, synthesis.scoreBreakdown.personaCount, weights);
+  logger.log(`  UX score: ${synthesis.overallAssessment.uxScore} → ${breakdown.score}/100`);
+
+  const rescored: Synthesis = {
+    ...suppressed,
+    overallAssessment: { ...suppressed.overallAssessment, uxScore: breakdown.score },
+    scoreBreakdown: breakdown,
+  };
+  if (synthesis.personaScorecards) {
+    // Personas Stage 3 left out for too few models stay out
+    const excluded = new Set(synthesis.quorum?.excludedPersonas ?? []);
+    const included = <T extends { persona: string }>(analyses: T[]) => analyses.filter((a) => !excluded.has(a.persona));
+    rescored.personaScorecards = buildPersonaScorecards(
+      rescored,
+      included(screenshotAnalyses),
+      included(videoAnalyses),
+      summaries,
+      weights
+    );
+  }
+  return rescored;
+}
+
+/** A run's diff against the pinned baseline */
+interface BaselineDiff {
+  baselineId: string;
+  diff: CompareResult;
+}
+
+/**
+ * Diff the run against the pinned baseline (quorumux.baseline.json), if
+ * one is pinned and it isn't this run
+ */
+function compareWithBaseline(synthesis: Synthesis, runDir: string, matching?: MatchingConfig): BaselineDiff | undefined {
+  let baseline;
+  try {
+    baseline = loadBaseline();
+  } catch (error) {
+    logger.warn(`Baseline ignored: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+  if (!baseline) return undefined;
+
+  const baselineDir = baselineRunDir(baseline);
+  if (baselineDir === path.resolve(runDir)) return undefined;
+
+  const baselineSynthesis = loadJson<Synthesis>(path.join(baselineDir, 'reports', 'synthesis.json'));
+  if (!baselineSynthesis) {
+    logger.warn(`Baseline ${baseline.runId} has no synthesis.json — skipping "Changes Since Baseline"`);
+    return undefined;
+  }
+  return {
+    baselineId: baseline.runId,
+    diff: compareSyntheses(baselineSynthesis, synthesis, baseline.runId, path.basename(runDir), { synonyms: matching?.synonyms }),
+  };
 }
 
 /**
  * Generate full human-readable UX analysis report
  */
-function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string {
+function generateUXReport(
+  config: QuorumUXConfig,
+  synthesis: Synthesis,
+  rawAnalyses: Array<ScreenshotAnalysis | VideoAnalysis> = [],
+  runLink = '..',
+  sinceBaseline?: BaselineDiff
+): string {
   const lines: string[] = [];
 
   lines.push(`# UX Analysis Report: ${config.name}`);
@@ -72,7 +214,23 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
   lines.push(`- Screenshot Analyses: ${synthesis.sourceCounts.screenshotAnalyses}`);
   lines.push(`- Video Analyses: ${synthesis.sourceCounts.videoAnalyses}`);
   lines.push(`- Test Run Summaries: ${synthesis.sourceCounts.testSummaries}`);
+  if (synthesis.mapReduce) {
+    const { personas, reason, estimatedPromptTokens, promptLimitTokens } = synthesis.mapReduce;
+    const prompt = `~${estimatedPromptTokens.toLocaleString()} token prompt`;
+    const limit = `~${promptLimitTokens.toLocaleString()} limit`;
+    // Older runs don't record why; a prompt within the limit means it was configured
+    const configured = reason ? reason === 'configured' : estimatedPromptTokens <= promptLimitTokens;
+    lines.push(
+      `- Synthesis: map-reduce over ${personas.length} personas ` +
+        (configured ? `(set by synthesisMode; ${prompt}, ${limit})` : `(${prompt} exceeded the ${limit})`)
+    );
+  }
   lines.push('');
+  lines.push(...formatFindingCounts(rawAnalyses));
+  lines.push(...formatQuorum(synthesis));
+  lines.push(...formatConsensusCheck(synthesis));
+  lines.push(...formatCitationCheck(synthesis));
+  lines.push(...formatDataReliability(rawAnalyses));
 
   // Overall Assessment
   lines.push('## Overall Assessment');
@@ -81,14 +239,18 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
   const score100 = assessment.uxScore;
   const score10 = (score100 / 10).toFixed(1);
   let scoreLine = `**UX Score:** ${score100}/100 (${score10}/10)`;
-  const adjusted = calculateAdjustedScore(synthesis);
+  const adjusted = calculateAdjustedScore(synthesis, scoringWeights(config, synthesis));
   if (adjusted !== undefined && adjusted !== score100) {
     const adj10 = (adjusted / 10).toFixed(1);
     scoreLine += ` | Adjusted: ${adjusted}/100 (${adj10}/10)`;
   }
   lines.push(scoreLine);
+  if (assessment.analystScore !== undefined) {
+    lines.push(`**Analyst Score:** ${assessment.analystScore}/100 (the synthesis model's own assessment)`);
+  }
   lines.push(`**Launch Readiness:** ${assessment.launchReadiness.replace(/-/g, ' ').toUpperCase()}`);
   lines.push('');
+  lines.push(...formatScoreBreakdown(synthesis.scoreBreakdown));
 
   lines.push('### Top Strengths');
   assessment.topStrengths.forEach((strength) => {
@@ -108,33 +270,44 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
     lines.push('');
   }
 
-  // Partition issues into app vs test-infra
-  const appConsensus = synthesis.consensusIssues.filter((i) => (i.source ?? 'app') !== 'test-infra');
-  const appVideo = synthesis.videoOnlyIssues.filter((i) => (i.source ?? 'app') !== 'test-infra');
-  const appModelUnique = synthesis.modelUniqueIssues.filter((i) => (i.source ?? 'app') !== 'test-infra');
+  lines.push(...formatPersonaScorecards(synthesis.personaScorecards));
+  if (sinceBaseline) lines.push(...formatBaselineChanges(sinceBaseline.diff, sinceBaseline.baselineId));
+
+  // Partition open issues into app vs test-infra; suppressed issues get their own section
+  const consensusIssues = synthesis.consensusIssues.filter((i) => !isSuppressed(i));
+  const videoOnlyIssues = synthesis.videoOnlyIssues.filter((i) => !isSuppressed(i));
+  const modelUniqueIssues = synthesis.modelUniqueIssues.filter((i) => !isSuppressed(i));
+  const appConsensus = consensusIssues.filter((i) => (i.source ?? 'app') !== 'test-infra');
+  const appVideo = videoOnlyIssues.filter((i) => (i.source ?? 'app') !== 'test-infra');
+  const appModelUnique = modelUniqueIssues.filter((i) => (i.source ?? 'app') !== 'test-infra');
   const testInfraIssues = [
-    ...synthesis.consensusIssues.filter((i) => i.source === 'test-infra'),
-    ...synthesis.videoOnlyIssues.filter((i) => i.source === 'test-infra'),
-    ...synthesis.modelUniqueIssues.filter((i) => i.source === 'test-infra'),
+    ...consensusIssues.filter((i) => i.source === 'test-infra'),
+    ...videoOnlyIssues.filter((i) => i.source === 'test-infra'),
+    ...modelUniqueIssues.filter((i) => i.source === 'test-infra'),
   ];
 
   // Consensus Issues by Severity (app only)
   if (appConsensus.length > 0) {
     lines.push('## Consensus Issues');
     lines.push('');
-    lines.push('Issues identified and confirmed across multiple analysis sources.');
+    lines.push(
+      synthesis.quorum
+        ? `Issues that meet the quorum: ${synthesis.quorum.rule}.`
+        : 'Issues identified and confirmed across multiple analysis sources.'
+    );
     lines.push('');
 
-    const byServerity = groupBySeverity(appConsensus);
-
-    ['P0', 'P1', 'P2'].forEach((severity) => {
-      const issues = byServerity[severity] || [];
+    groupBySeverity(appConsensus, synthesis.taxonomy ?? DEFAULT_TAXONOMY).forEach(([severity, issues]) => {
       if (issues.length > 0) {
         lines.push(`### ${severity} Priority (${issues.length})`);
         lines.push('');
         issues.forEach((issue) => {
           lines.push(`#### ${issue.title}`);
           lines.push('');
+          if (issue.verification) {
+            lines.push(formatVerificationBadge(issue.verification));
+            lines.push('');
+          }
           lines.push(`**Category:** ${issue.category}`);
           lines.push(`**Severity:** ${issue.severity}`);
           lines.push(`**Effort:** ${issue.effort}`);
@@ -158,6 +331,8 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
             lines.push('');
           }
 
+          lines.push(...formatCitations(issue.citations, runLink));
+
           lines.push(`**Recommendation:** ${issue.recommendation}`);
           lines.push('');
         });
@@ -172,10 +347,7 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
     lines.push('Issues detected only in video analysis (temporal, motion, or interaction patterns).');
     lines.push('');
 
-    const byServerity = groupVideoIssuesBySeverity(appVideo);
-
-    ['P0', 'P1', 'P2'].forEach((severity) => {
-      const issues = byServerity[severity] || [];
+    groupBySeverity(appVideo, synthesis.taxonomy ?? DEFAULT_TAXONOMY).forEach(([severity, issues]) => {
       if (issues.length > 0) {
         lines.push(`### ${severity} Priority (${issues.length})`);
         lines.push('');
@@ -188,6 +360,7 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
           lines.push('');
           lines.push(issue.description);
           lines.push('');
+          lines.push(...formatCitations(issue.citations, runLink));
           lines.push(`**Recommendation:** ${issue.recommendation}`);
           lines.push('');
         });
@@ -210,9 +383,13 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
       lines.push(`**Reported By:** ${issue.reportedBy}`);
       lines.push(`**Severity:** ${issue.severity}`);
       lines.push(`**Confidence:** ${issue.confidence}`);
+      if (issue.demotedFrom) {
+        lines.push(formatDemotion(issue.demotedFrom));
+      }
       lines.push('');
       lines.push(issue.description);
       lines.push('');
+      lines.push(...formatCitations(issue.citations, runLink));
       lines.push(`**Recommendation:** ${issue.recommendation}`);
       lines.push('');
     });
@@ -225,7 +402,7 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
     lines.push(
       `These ${testInfraIssues.length} issue(s) appear to be test automation problems, not product issues.`
     );
-    lines.push('They are weighted at 0.25x in the adjusted score.');
+    lines.push(`They are weighted at ${scoringWeights(config, synthesis).testInfraDiscount}x in the adjusted score.`);
     lines.push('');
 
     for (const issue of testInfraIssues) {
@@ -237,6 +414,8 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
     lines.push('');
   }
 
+  lines.push(...formatSuppressedIssues(synthesis));
+
   // Disagreements
   if (synthesis.disagreements.length > 0) {
     lines.push('## Analyst Disagreements');
@@ -260,10 +439,280 @@ function generateUXReport(config: QuorumUXConfig, synthesis: Synthesis): string
   return lines.join('\n');
 }
 
+/**
+ * What changed since the pinned baseline run
+ */
+function formatBaselineChanges(diff: CompareResult, baselineId: string): string[] {
+  const lines = ['## Changes Since Baseline', ''];
+  const sign = (n: number) => (n >= 0 ? `+${n}` : `${n}`);
+  lines.push(`Compared with the pinned baseline **${baselineId}** (\`quorumux baseline show\`).`);
+  lines.push('');
+  lines.push('| | Baseline | This run | Change |');
+  lines.push('|---|---|---|---|');
+  lines.push(`| Score | ${diff.baselineScore} | ${diff.currentScore} | ${sign(diff.scoreDelta)} |`);
+  lines.push(`| Launch readiness | ${diff.baselineReadiness} | ${diff.currentReadiness} | |`);
+  for (const level of diff.severityLevels) {
+    const b = diff.severityDistribution.baseline[level] ?? 0;
+    const c = diff.severityDistribution.current[level] ?? 0;
+    lines.push(`| ${level} issues | ${b} | ${c} | ${sign(c - b)} |`);
+  }
+  lines.push('');
+  if (diff.adjustedDelta !== undefined) {
+    lines.push(`**Adjusted score change:** ${sign(diff.adjustedDelta)}`);
+    lines.push('');
+  }
+  if (diff.scoreContext) {
+    lines.push(`**Context:** ${diff.scoreContext}`);
+    lines.push('');
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`### ${title} (${items.length})`);
+    lines.push('');
+    lines.push(...items.map((item) => `- ${item}`));
+    lines.push('');
+  };
+  section('Resolved', diff.resolvedIssues.map((i) => `[${i.severity}] ${i.title} (\`${i.id}\`)`));
+  section('New', diff.newIssues.map((i) => `[${i.severity}] ${i.title} (\`${i.id}\`)`));
+  section('Regressed', diff.regressions.map((i) => `[${i.baselineSeverity} → ${i.currentSeverity}] ${i.title} (\`${i.currentId}\`)`));
+  section(
+    'Reworded but Not Resolved',
+    diff.persistingVariants.map((v) => `[${v.issue.severity}] ${v.issue.title} — was "${v.similarTo.title}"`)
+  );
+  lines.push(`${diff.persistingIssues.length} issue${diff.persistingIssues.length === 1 ? '' : 's'} persist${diff.persistingIssues.length === 1 ? 's' : ''} from the baseline.`);
+  lines.push('');
+  return lines;
+}
+
+/**
+ * The quorum policy the synthesis was classified under, if recorded
+ */
+function formatQuorum(synthesis: Synthesis): string[] {
+  const quorum = synthesis.quorum;
+  if (!quorum) return [];
+
+  const lines = ['**Quorum Policy:**', `- ${quorum.mode}: consensus when ${quorum.rule}`];
+  if (quorum.excludedPersonas.length > 0) {
+    lines.push(
+      `- Excluded (fewer than ${quorum.minModelsPerPersona} successful screenshot models): ${quorum.excludedPersonas.join(', ')}`
+    );
+  }
+  lines.push('');
+  return lines;
+}
+
+/**
+ * Summary of the local consensus check. Returns no lines when Stage 3 had
+ * no raw findings to check against.
+ */
+function formatConsensusCheck(synthesis: Synthesis): string[] {
+  const check = synthesis.consensusCheck;
+  if (!check) return [];
+  return [
+    '**Consensus Check:**',
+    `- ${check.verified} verified, ${check.partial} partial, ${check.demoted} demoted to model-unique ` +
+      `(${check.findings} raw findings in ${check.clusters} clusters)`,
+    '',
+  ];
+}
+
+/**
+ * Table of deductions behind the computed score. Returns no lines for
+ * syntheses scored by the model alone.
+ */
+function formatScoreBreakdown(breakdown: Synthesis['scoreBreakdown']): string[] {
+  if (!breakdown) return [];
+  const { pass, friction, fail } = breakdown.testResults;
+  const lines = [
+    '### Score Breakdown',
+    '',
+    `Computed from the issues below across ${breakdown.personaCount} persona(s)` +
+      (pass + friction + fail > 0 ? ` and ${pass + friction + fail} test steps (${pass} pass, ${friction} friction, ${fail} fail).` : '.'),
+    '',
+    '| Deduction | Count | Points |',
+    '|-----------|------:|-------:|',
+  ];
+  for (const component of breakdown.components) {
+    lines.push(`| ${component.label} | ${component.count} | -${component.points} |`);
+  }
+  lines.push(`| **Score** | | **${breakdown.score}** |`);
+  lines.push('');
+  return lines;
+}
+
+/**
+ * One scorecard per persona. Returns no lines for syntheses without them.
+ */
+function formatPersonaScorecards(scorecards: Synthesis['personaScorecards']): string[] {
+  if (!scorecards?.length) return [];
+  const lines = ['## Persona Scorecards', ''];
+
+  for (const card of scorecards) {
+    lines.push(`### ${card.persona} — ${card.score}/100`);
+    lines.push('');
+
+    if (card.modelScores.length > 0 || card.videoScore !== null) {
+      lines.push('| Source | Score |');
+      lines.push('|--------|------:|');
+      for (const { model, score } of card.modelScores) {
+        lines.push(`| ${model} | ${score === null ? 'n/a' : `${score}/10`} |`);
+      }
+      if (card.videoScore !== null) lines.push(`| Video (temporal) | ${card.videoScore}/10 |`);
+      lines.push('');
+    }
+
+    if (card.testResults) {
+      const { pass, friction, fail, totalSteps } = card.testResults;
+      lines.push(`- **Test Results:** ${pass} pass · ${friction} friction · ${fail} fail (${totalSteps} steps)`);
+    }
+    const flows = Object.entries(card.flowScores ?? {});
+    if (flows.length > 0) {
+      lines.push(`- **Flow Scores:** ${flows.map(([flow, score]) => `${flow} ${score}`).join(', ')}`);
+    }
+    if (card.topFrictionPoint) lines.push(`- **Top Friction:** ${card.topFrictionPoint}`);
+    if (card.retentionAssessment) lines.push(`- **Retention:** ${card.retentionAssessment}`);
+    lines.push(`- **Issues (${card.issues.length}):**${card.issues.length === 0 ? ' none' : ''}`);
+    for (const issue of card.issues) {
+      lines.push(`  - [${issue.severity}] ${issue.title}${issue.id ? ` (${issue.id})` : ''}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Collapsed list of suppressed issues with their reasons. Returns no lines
+ * when nothing was suppressed.
+ */
+function formatSuppressedIssues(synthesis: Synthesis): string[] {
+  const suppressed = [
+    ...synthesis.consensusIssues,
+    ...synthesis.videoOnlyIssues,
+    ...synthesis.modelUniqueIssues,
+  ].filter(isSuppressed);
+  if (suppressed.length === 0) return [];
+
+  const lines = [
+    '## Suppressed Issues',
+    '',
+    'Known issues accepted in `knownIssues` or quorumux.ignore.json. They are excluded from the score and the critical path.',
+    '',
+    '<details>',
+    `<summary>${suppressed.length} suppressed issue(s)</summary>`,
+    '',
+  ];
+  for (const issue of suppressed) {
+    const expiry = issue.suppression?.expires ? ` (until ${issue.suppression.expires})` : '';
+    lines.push(`- **[${issue.severity}] ${issue.title}** \`${issue.id}\` — ${issue.suppression?.reason ?? ''}${expiry}`);
+  }
+  if (synthesis.suppressedCriticalPath?.length) {
+    lines.push('');
+    lines.push('Removed from the critical path:');
+    for (const item of synthesis.suppressedCriticalPath) lines.push(`- ${item}`);
+  }
+  lines.push('', '</details>', '');
+  return lines;
+}
+
+/**
+ * Summary of the citation check, if any issue carried citations
+ */
+function formatCitationCheck(synthesis: Synthesis): string[] {
+  const check = synthesis.citationCheck;
+  if (!check) return [];
+  return ['**Citations:**', `- ${check.verified}/${check.total} quotes found in the raw analyses`, ''];
+}
+
+/**
+ * Evidence list for an issue: who said it, where, and the quote. Screenshot
+ * links are built from `runLink`, the run directory relative to the report.
+ * Returns no lines when the issue has no citations.
+ */
+function formatCitations(citations: IssueCitation[] | undefined, runLink: string): string[] {
+  if (!citations?.length) return [];
+  const lines = ['**Citations:**'];
+  for (const citation of citations) {
+    const where: string[] = [];
+    if (citation.tile) {
+      where.push(
+        citation.screenshot
+          ? `[tile ${citation.tile}: ${path.posix.basename(citation.screenshot)}](${path.posix.join(runLink, citation.screenshot)})`
+          : `tile ${citation.tile}`
+      );
+    }
+    if (citation.timestamp) where.push(`at ${citation.timestamp}`);
+    const unverified = citation.verified === false ? ' _(quote not found in raw analysis)_' : '';
+    lines.push(
+      `- ${citation.persona} — ${citation.model}${where.length > 0 ? `, ${where.join(', ')}` : ''}: "${citation.quote}"${unverified}`
+    );
+  }
+  lines.push('');
+  return lines;
+}
+
+function formatVerificationBadge(verification: ConsensusVerification): string {
+  const sources = verification.supportingModels.join(', ') + (verification.videoSupported ? ' + video' : '');
+  if (verification.status === 'verified') {
+    return `**[Verified consensus]** Raw findings from ${sources}`;
+  }
+  return `**[Partial consensus]** Raw findings from ${sources}; none from ${verification.unsupportedClaims.join(', ')}`;
+}
+
+function formatDemotion(demotedFrom: NonNullable<ModelUniqueIssue['demotedFrom']>): string {
+  const support = demotedFrom.supportingModels.length > 0 ? demotedFrom.supportingModels.join(', ') : 'no model';
+  return `**Demoted from consensus:** claimed by ${demotedFrom.claimedModels.join(', ') || 'no model'}; matching raw findings from ${support}`;
+}
+
+function screenshotAnalysesOf(analyses: Array<ScreenshotAnalysis | VideoAnalysis>): ScreenshotAnalysis[] {
+  return analyses.filter((a): a is ScreenshotAnalysis => !('analysisType' in a));
+}
+
+/**
+ * Exact screenshot finding counts from structured Stage 2 output.
+ * Returns no lines when no analysis produced structured findings.
+ */
+function formatFindingCounts(analyses: Array<ScreenshotAnalysis | VideoAnalysis>): string[] {
+  const counts = countFindings(screenshotAnalysesOf(analyses));
+  if (counts.structuredAnalyses === 0) return [];
+
+  const lines: string[] = [];
+  lines.push('**Screenshot Findings:**');
+  lines.push(`- ${counts.total} findings across ${counts.structuredAnalyses} structured analyses (${formatSeverityCounts(counts)})`);
+  if (counts.unstructuredAnalyses > 0) {
+    lines.push(`- ${counts.unstructuredAnalyses} analyses returned free text and are not counted`);
+  }
+  lines.push('');
+  return lines;
+}
+
+/**
+ * List analyses that failed or needed retries, so readers know which
+ * persona/model inputs were fragile. Returns no lines when all calls were clean.
+ */
+function formatDataReliability(analyses: Array<ScreenshotAnalysis | VideoAnalysis>): string[] {
+  const fragile = analyses.filter((a) => a.error || (a.retries ?? 0) > 0);
+  if (fragile.length === 0) return [];
+
+  const lines: string[] = [];
+  lines.push('**Data Reliability:**');
+  for (const a of fragile) {
+    const kind = 'analysisType' in a ? 'video' : 'screenshot';
+    const retries = a.retries ?? 0;
+    const waitStr = retries > 0
+      ? `${retries} retr${retries === 1 ? 'y' : 'ies'}, ${((a.retryWaitMs ?? 0) / 1000).toFixed(1)}s waiting`
+      : 'no retries';
+    const outcome = a.error ? 'FAILED' : 'recovered';
+    lines.push(`- ${a.persona} — ${a.model} (${kind}): ${outcome} after ${waitStr}`);
+  }
+  lines.push('');
+  return lines;
+}
+
 /**
  * Generate GitHub issue templates with gh commands
  */
-function generateGitHubIssues(config: QuorumUXConfig, synthesis: Synthesis): string {
+function generateGitHubIssues(config: QuorumUXConfig, synthesis: Synthesis, runLink = '..'): string {
   const lines: string[] = [];
 
   lines.push(`# GitHub Issues: ${config.name}`);
@@ -274,19 +723,26 @@ function generateGitHubIssues(config: QuorumUXConfig, synthesis: Synthesis): str
   lines.push('---');
   lines.push('');
 
+  // Suppressed issues are accepted; there is nothing to file
+  const consensusIssues = synthesis.consensusIssues.filter((i) => !isSuppressed(i));
+  const videoOnlyIssues = synthesis.videoOnlyIssues.filter((i) => !isSuppressed(i));
+  const modelUniqueIssues = synthesis.modelUniqueIssues.filter((i) => !isSuppressed(i));
+
   // Process consensus issues
-  if (synthesis.consensusIssues.length > 0) {
+  if (consensusIssues.length > 0) {
     lines.push('## Consensus Issues');
     lines.push('');
 
-    synthesis.consensusIssues.forEach((issue) => {
+    consensusIssues.forEach((issue) => {
       const title = `[${issue.severity}] ${issue.title}`;
       const body = formatIssueBody(
         issue.description,
         issue.category,
         issue.effort,
         issue.evidence,
-        issue.recommendation
+        issue.recommendation,
+        issue.verification,
+        formatCitations(issue.citations, runLink)
       );
       lines.push(createGhCommand(title, body));
       lines.push('');
@@ -294,16 +750,17 @@ function generateGitHubIssues(config: QuorumUXConfig, synthesis: Synthesis): str
   }
 
   // Process video-only issues
-  if (synthesis.videoOnlyIssues.length > 0) {
+  if (videoOnlyIssues.length > 0) {
     lines.push('## Video-Only Issues');
     lines.push('');
 
-    synthesis.videoOnlyIssues.forEach((issue) => {
+    videoOnlyIssues.forEach((issue) => {
       const title = `[${issue.severity}] ${issue.title} (Video)`;
       const body =
         `**Persona:** ${issue.persona}\n` +
         `**Timestamp:** ${issue.timestamp}\n\n` +
         `${issue.description}\n\n` +
+        formatCitations(issue.citations, runLink).map((line) => `${line}\n`).join('') +
         `**Recommendation:** ${issue.recommendation}`;
       lines.push(createGhCommand(title, body));
       lines.push('');
@@ -311,16 +768,19 @@ function generateGitHubIssues(config: QuorumUXConfig, synthesis: Synthesis): str
   }
 
   // Process model-unique issues
-  if (synthesis.modelUniqueIssues.length > 0) {
+  if (modelUniqueIssues.length > 0) {
     lines.push('## Model-Unique Issues');
     lines.push('');
 
-    synthesis.modelUniqueIssues.forEach((issue) => {
+    modelUniqueIssues.forEach((issue) => {
       const title = `[${issue.severity}] ${issue.title} (${issue.reportedBy})`;
       const body =
         `**Reported By:** ${issue.reportedBy}\n` +
-        `**Confidence:** ${issue.confidence}\n\n` +
+        `**Confidence:** ${issue.confidence}\n` +
+        (issue.demotedFrom ? `${formatDemotion(issue.demotedFrom)}\n` : '') +
+        `\n` +
         `${issue.description}\n\n` +
+        formatCitations(issue.citations, runLink).map((line) => `${line}\n`).join('') +
         `**Recommendation:** ${issue.recommendation}`;
       lines.push(createGhCommand(title, body));
       lines.push('');
@@ -338,10 +798,17 @@ function formatIssueBody(
   category: string,
   effort: string,
   evidence: ConsensusIssue['evidence'],
-  recommendation: string
+  recommendation: string,
+  verification?: ConsensusVerification,
+  citations: string[] = []
 ): string {
   const lines: string[] = [];
 
+  if (verification) {
+    lines.push(formatVerificationBadge(verification));
+    lines.push('');
+  }
+
   lines.push(`**Category:** ${category}`);
   lines.push(`**Effort:** ${effort}`);
   lines.push('');
@@ -362,6 +829,7 @@ function formatIssueBody(
   }
 
   lines.push('');
+  lines.push(...citations);
   lines.push(`**Recommendation:** ${recommendation}`);
 
   return lines.join('\n');
@@ -376,43 +844,34 @@ function createGhCommand(title: string, body: string): string {
 }
 
 /**
- * Helper: Group consensus issues by severity
+ * Helper: Group issues by severity, in taxonomy order. Severities outside
+ * the taxonomy (e.g. from a run under an older scale) come last.
  */
-function groupBySeverity(
-  issues: ConsensusIssue[]
-): Record<string, ConsensusIssue[]> {
-  const groups: Record<string, ConsensusIssue[]> = {
-    P0: [],
-    P1: [],
-    P2: [],
-  };
-  issues.forEach((issue) => {
-    groups[issue.severity].push(issue);
-  });
-  return groups;
+function groupBySeverity<T extends { severity: string }>(
+  issues: T[],
+  taxonomy: Taxonomy
+): [string, T[]][] {
+  const names = severityNames(taxonomy);
+  const extra = [...new Set(issues.map((i) => i.severity))].filter((s) => !names.includes(s));
+  return [...names, ...extra].map((severity) => [severity, issues.filter((i) => i.severity === severity)]);
 }
 
 /**
- * Helper: Group video issues by severity
+ * Helper: Scoring weights for a synthesis, under the taxonomy it was produced with
  */
-function groupVideoIssuesBySeverity(
-  issues: VideoOnlyIssue[]
-): Record<string, VideoOnlyIssue[]> {
-  const groups: Record<string, VideoOnlyIssue[]> = {
-    P0: [],
-    P1: [],
-    P2: [],
-  };
-  issues.forEach((issue) => {
-    groups[issue.severity].push(issue);
-  });
-  return groups;
+function scoringWeights(config: QuorumUXConfig, synthesis: Synthesis) {
+  return resolveScoring(config.scoring, synthesis.taxonomy ?? DEFAULT_TAXONOMY);
 }
 
 /**
  * Generate a flat JSON report for programmatic consumption
  */
-function generateReportJSON(config: QuorumUXConfig, synthesis: Synthesis, runId: string): ReportJSON {
+function generateReportJSON(
+  config: QuorumUXConfig,
+  synthesis: Synthesis,
+  runId: string,
+  rawAnalyses: Array<ScreenshotAnalysis | VideoAnalysis> = []
+): ReportJSON {
   const issues: ReportJSONIssue[] = [];
 
   for (const issue of synthesis.consensusIssues) {
@@ -427,7 +886,11 @@ function generateReportJSON(config: QuorumUXConfig, synthesis: Synthesis, runId:
       effort: issue.effort,
       evidence: issue.evidence,
       temporalInsight: issue.temporalInsight,
+      verification: issue.verification,
+      citations: issue.citations,
       source: issue.source,
+      status: issue.status,
+      suppression: issue.suppression,
       index: issue.index,
     });
   }
@@ -442,7 +905,10 @@ function generateReportJSON(config: QuorumUXConfig, synthesis: Synthesis, runId:
       recommendation: issue.recommendation,
       timestamp: issue.timestamp,
       persona: issue.persona,
+      citations: issue.citations,
       source: issue.source,
+      status: issue.status,
+      suppression: issue.suppression,
       index: issue.index,
     });
   }
@@ -457,7 +923,11 @@ function generateReportJSON(config: QuorumUXConfig, synthesis: Synthesis, runId:
       recommendation: issue.recommendation,
       reportedBy: issue.reportedBy,
       confidence: issue.confidence,
+      demotedFrom: issue.demotedFrom,
+      citations: issue.citations,
       source: issue.source,
+      status: issue.status,
+      suppression: issue.suppression,
       index: issue.index,
     });
   }
@@ -472,12 +942,19 @@ function generateReportJSON(config: QuorumUXConfig, synthesis: Synthesis, runId:
     for (const p of issue.evidence.affectedPersonas) personas.add(p);
   }
 
+  const counts = countFindings(screenshotAnalysesOf(rawAnalyses));
+
   return {
     runId,
-    generatedAt: new Date().toISOString(),
+    generatedAt: now().toISOString(),
     projectName: config.name,
     score: synthesis.overallAssessment.uxScore,
-    adjustedScore: calculateAdjustedScore(synthesis),
+    ...(synthesis.overallAssessment.analystScore !== undefined
+      ? { analystScore: synthesis.overallAssessment.analystScore }
+      : {}),
+    ...(synthesis.scoreBreakdown ? { scoreBreakdown: synthesis.scoreBreakdown } : {}),
+    ...(synthesis.personaScorecards ? { personaScorecards: synthesis.personaScorecards } : {}),
+    adjustedScore: calculateAdjustedScore(synthesis, scoringWeights(config, synthesis)),
     launchReadiness: synthesis.overallAssessment.launchReadiness,
     issueCount: issues.length,
     issues,
@@ -485,5 +962,19 @@ function generateReportJSON(config: QuorumUXConfig, synthesis: Synthesis, runId:
     personas: [...personas].sort(),
     topStrengths: synthesis.overallAssessment.topStrengths,
     criticalPath: synthesis.overallAssessment.criticalPath,
+    ...(synthesis.quorum ? { quorum: synthesis.quorum } : {}),
+    ...(synthesis.consensusCheck ? { consensusCheck: synthesis.consensusCheck } : {}),
+    ...(synthesis.citationCheck ? { citationCheck: synthesis.citationCheck } : {}),
+    ...(counts.structuredAnalyses > 0
+      ? {
+          screenshotFindings: {
+            total: counts.total,
+            bySeverity: counts.bySeverity,
+            byCategory: counts.byCategory,
+            structuredAnalyses: counts.structuredAnalyses,
+            unstructuredAnalyses: counts.unstructuredAnalyses,
+          },
+        }
+      : {}),
   };
 }
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runPipeline } from './run.js';
+import { PipelineEvents } from './events.js';
+import { loadPipelineState } from './state.js';
+import { loadIssueDatabase } from './issues-db.js';
+import type { ConsensusIssue, QuorumUXConfig, Synthesis } from '../types.js';
+import { computeScore } from '../utils/scoring.js';
+
+const baseConfig: QuorumUXConfig = {
+  name: 'Test Project',
+  description: 'A test',
+  domain: 'testing',
+  appUrl: 'https://example.com',
+  userJourney: 'Sign up and use',
+  artifactsDir: './artifacts',
+  models: {
+    screenshot: [{ id: 'model/a', name: 'A' }],
+    video: { id: 'model/v', name: 'V' },
+    synthesis: { id: 'model/s', name: 'S' },
+  },
+};
+
+const synthesis: Synthesis = {
+  synthesisDate: '2026-01-01',
+  projectName: 'Test Project',
+  sourceCounts: { screenshotAnalyses: 1, videoAnalyses: 0, testSummaries: 0 },
+  consensusIssues: [],
+  videoOnlyIssues: [],
+  modelUniqueIssues: [],
+  disagreements: [],
+  overallAssessment: {
+    uxScore: 7,
+    launchReadiness: 'ready',
+    topStrengths: [],
+    criticalPath: [],
+    temporalInsightsSummary: '',
+  },
+};
+
+describe('runPipeline', () => {
+  let artifactsDir: string;
+  let runDir: string;
+  let config: QuorumUXConfig;
+
+  beforeEach(() => {
+    artifactsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-run-'));
+    config = { ...baseConfig, artifactsDir };
+    runDir = path.join(artifactsDir, 'run-01');
+    fs.mkdirSync(path.join(runDir, 'reports'), { recursive: true });
+    fs.writeFileSync(path.join(runDir, 'reports', 'synthesis.json'), JSON.stringify(synthesis));
+  });
+
+  afterEach(() => {
+    fs.rmSync(artifactsDir, { recursive: true, force: true });
+  });
+
+  it('runs a selected stage and returns a typed result with events', async () => {
+    const events = new PipelineEvents();
+    const seen: string[] = [];
+    events.on('stage:start', ({ stage }) => seen.push(`start ${stage}`));
+    events.on('stage:end', ({ stage }) => seen.push(`end ${stage}`));
+
+    const result = await runPipeline(config, { runDir, stages: ['4'], events });
+
+    expect(seen).toEqual(['start 4', 'end 4']);
+    expect(result.status).toBe('complete');
+    expect(result.stages).toEqual(['4']);
+    expect(result.synthesis?.overallAssessment.uxScore).toBe(7);
+    expect(fs.existsSync(result.reports!.markdown)).toBe(true);
+    expect(fs.existsSync(result.reports!.json)).toBe(true);
+    expect(result.cost.totalUSD).toBe(0);
+    expect(loadPipelineState(runDir)?.status).toBe('complete');
+    expect(loadIssueDatabase(artifactsDir)?.runs.map((r) => r.runId)).toEqual(['run-01']);
+  });
+
+  it('re-applies known issues added since Stage 3 in Stage 4', async () => {
+    const issue: ConsensusIssue = {
+      id: 'QUX-11111111',
+      title: '[Footer] Links overlap cookie banner',
+      severity: 'P1',
+      category: 'layout',
+      description: '',
+      evidence: { screenshotModels: ['A'], videoConfirmed: false, testRunConfirmed: false, affectedPersonas: [] },
+      temporalInsight: null,
+      recommendation: '',
+      effort: 'low',
+    };
+    const open: Synthesis = { ...synthesis, consensusIssues: [issue] };
+    const breakdown = computeScore(open, [], 1);
+    fs.writeFileSync(
+      path.join(runDir, 'reports', 'synthesis.json'),
+      JSON.stringify({ ...open, overallAssessment: { ...open.overallAssessment, uxScore: breakdown.score }, scoreBreakdown: breakdown })
+    );
+
+    const result = await runPipeline(
+      { ...config, knownIssues: [{ id: 'QUX-11111111', reason: 'Legacy footer' }] },
+      { runDir, stages: ['4'] }
+    );
+
+    const saved: Synthesis = JSON.parse(fs.readFileSync(path.join(runDir, 'reports', 'synthesis.json'), 'utf-8'));
+    expect(saved.consensusIssues[0].status).toBe('suppressed');
+    expect(saved.overallAssessment.uxScore).toBe(100);
+    expect(result.synthesis?.overallAssessment.uxScore).toBe(100);
+  });
+
+  it('does nothing when resuming a completed run', async () => {
+    await runPipeline(config, { runDir, stages: ['4'] });
+    const result = await runPipeline(config, { runDir, resume: true });
+
+    expect(result.status).toBe('complete');
+    expect(result.stages).toEqual([]);
+    expect(result.reports).toBeUndefined();
+  });
+
+  it('rejects a stage whose inputs are missing', async () => {
+    await expect(runPipeline(config, { runDir, stages: ['3'] })).rejects.toThrow('Stage 3 needs');
+  });
+});
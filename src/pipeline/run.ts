@@ -0,0 +1,294 @@
+/**
+ * QuorumUX — Pipeline Runner
+ *
+ * Runs the selected stages for one run directory and returns a typed result.
+ * This is the programmatic entry point (exported as `runPipeline` from the
+ * package); the CLI parses flags into the same options and prints the result.
+ * Pass a PipelineEvents emitter to observe stages, model calls and issues.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PipelineOptions, PipelineResult, PipelineStage, QuorumUXConfig, Synthesis } from '../types.js';
+import * as logger from '../utils/logger.js';
+import { loadJson } from '../utils/files.js';
+import { CostTracker } from '../utils/costs.js';
+import { Budget, BudgetExceededError } from '../utils/budget.js';
+import { Scheduler } from '../utils/scheduler.js';
+import { setClock } from '../utils/clock.js';
+import { findMissingApiKeys, setBudget } from '../models/registry.js';
+import { configureCache } from '../models/cache.js';
+import { startRecording, startReplay, stopCassette } from '../models/cassette.js';
+import { validateConfig } from '../config/validate.js';
+import { loadPipelineState, updatePipelineState, PIPELINE_STATE_FILE } from './state.js';
+import { checkStageInputs, formatStages, resolveStages } from './stages.js';
+import { PipelineEvents } from './events.js';
+import { extractFrames } from './extract-frames.js';
+import { analyzeScreenshots } from './analyze.js';
+import { analyzeVideos } from './analyze-video.js';
+import { synthesize } from './synthesize.js';
+import { generateReport } from './report.js';
+import { HTML_REPORT_FILE } from './report-html.js';
+import { updateIssueDatabase } from './issues-db.js';
+
+export interface RunPipelineOptions extends Omit<PipelineOptions, 'config' | 'dryRun' | 'verbose'> {
+  /** Receives stage:start, call:complete, issue:found and stage:end events */
+  events?: PipelineEvents;
+}
+
+/**
+ * Run the pipeline for `config`.
+ *
+ * Resolves to a result with status "stopped" when the budget cap ends the run
+ * early (partial results and pipeline-state.json are kept). Throws on invalid
+ * config, missing API keys or stage inputs, and stage failures.
+ */
+export async function runPipeline(config: QuorumUXConfig, options: RunPipelineOptions = {}): Promise<PipelineResult> {
+  validateConfig(config);
+  const { events } = options;
+
+  configureCache({ mode: options.noCache ? 'off' : options.refreshCache ? 'refresh' : 'use' });
+
+  const runDir = resolveRunDir(options.runDir || '', config);
+  logger.log(`Run directory: ${runDir}`);
+
+  // Resume: start where the previous attempt stopped unless startStage says otherwise
+  let startStage = options.startStage || 1;
+  if (options.resume) {
+    const state = loadPipelineState(runDir);
+    if (!state) {
+      throw new Error(`No ${PIPELINE_STATE_FILE} in ${path.join(runDir, 'reports')} — nothing to resume.`);
+    }
+    if (state.status === 'complete' && !options.startStage && !options.stages) {
+      logger.success(`Run ${path.basename(runDir)} already completed — nothing to resume.`);
+      return buildResult(runDir, [], new CostTracker(), 0, 'complete');
+    }
+    startStage = options.startStage ?? state.resumeStage;
+    logger.log(
+      `Resuming${options.stages ? '' : ` from stage ${startStage}`} (${state.completed.screenshots.length} screenshot analyses, ` +
+        `${state.completed.videos.length} video analyses already done)`
+    );
+  }
+
+  // Select stages and make sure each one has its inputs before spending anything
+  const stages = resolveStages({ ...options, startStage });
+  const missingInputs = checkStageInputs(stages, runDir, !!options.stages);
+  if (missingInputs.length > 0) {
+    throw new Error(`Missing stage inputs:\n  - ${missingInputs.join('\n  - ')}`);
+  }
+  const runs = (stage: PipelineStage) => stages.includes(stage);
+
+  // Validate API keys for the providers the selected stages call (replay needs none)
+  const stageModels = [
+    ...(runs('2') ? config.models.screenshot : []),
+    ...(runs('2b') ? [config.models.video] : []),
+    ...(runs('3') ? [config.models.synthesis] : []),
+  ];
+  const missingKeys = options.replay ? [] : findMissingApiKeys(stageModels);
+  if (missingKeys.length > 0) {
+    throw new Error(
+      missingKeys
+        .map(({ provider, envVar }) =>
+          provider === 'openrouter' && envVar === 'OPENROUTER_API_KEY'
+            ? 'No OpenRouter API key found.\n  Set OPENROUTER_API_KEY env var, add it to .env, or run `quorumux init` to configure.'
+            : `No API key found for ${provider} models.\n  Set ${envVar} env var or add it to .env.`
+        )
+        .join('\n')
+    );
+  }
+
+  // Cassettes: replay needs no network or keys; record writes into the run directory
+  if (options.replay) {
+    const cassettePath = path.resolve(options.replay);
+    setClock(startReplay(cassettePath));
+    logger.log(`Replaying model responses from ${cassettePath}`);
+  } else if (options.record) {
+    const cassettePath = path.join(runDir, 'cassette.json');
+    startRecording(cassettePath);
+    logger.log(`Recording model responses to ${cassettePath}`);
+  }
+
+  const tracker = new CostTracker();
+  const pipelineStart = Date.now();
+
+  // Hard spend cap: billed calls are refused once their projection would exceed it
+  const maxCostUSD = options.budget ?? config.maxCostUSD;
+  const budget = maxCostUSD !== undefined ? new Budget(maxCostUSD) : undefined;
+  setBudget(budget ?? null);
+
+  logger.box([
+    `QuorumUX UX Analysis Pipeline`,
+    `Project: ${config.name}`,
+    `Run: ${path.basename(runDir)}`,
+    `Stages: ${formatStages(stages)}`,
+    ...(budget ? [`Budget: $${budget.maxCostUSD.toFixed(2)}`] : []),
+  ]);
+
+  // Stage events wrap each stage; the current stage is the resume point in pipeline-state.json
+  const inStage = async (stage: PipelineStage, work: () => Promise<void>): Promise<void> => {
+    const start = Date.now();
+    events?.emit('stage:start', { stage });
+    await work();
+    events?.emit('stage:end', { stage, elapsedMs: Date.now() - start });
+  };
+  const enterStage = (stage: number) => {
+    updatePipelineState(runDir, { status: 'running', resumeStage: stage, stopReason: undefined, budget: undefined });
+  };
+
+  try {
+    if (runs('1')) {
+      enterStage(1);
+      await inStage('1', async () => {
+        tracker.stageStart('Stage 1');
+        await extractFrames(config, runDir);
+        tracker.stageEnd('Stage 1');
+      });
+    }
+
+    if (runs('2') || runs('2b')) {
+      enterStage(2);
+      // Stage 2 and 2b run in parallel, sharing one concurrency budget
+      const stageOptions = { scheduler: new Scheduler(config.concurrency), resume: !!options.resume, events };
+      const screenshotPromise = runs('2')
+        ? inStage('2', () => analyzeScreenshots(config, runDir, tracker, stageOptions))
+        : Promise.resolve();
+      const videoPromise = runs('2b')
+        ? inStage('2b', () => analyzeVideos(config, runDir, tracker, stageOptions))
+        : Promise.resolve();
+
+      // Let both stages save their results before surfacing a failure
+      const outcomes = await Promise.allSettled([screenshotPromise, videoPromise]);
+      const failure = outcomes.find((o): o is PromiseRejectedResult => o.status === 'rejected');
+      if (failure) throw failure.reason;
+    }
+
+    if (runs('3')) {
+      enterStage(3);
+      await inStage('3', async () => {
+        await synthesize(config, runDir, tracker, events);
+        emitIssues(events, loadSynthesis(runDir));
+      });
+    }
+
+    if (runs('4')) {
+      enterStage(4);
+      await inStage('4', async () => {
+        tracker.stageStart('Stage 4');
+        await generateReport(config, runDir, options.outputDir);
+        try {
+          updateIssueDatabase(config, runDir);
+        } catch (error) {
+          // The reports are written; a bad registry file shouldn't fail the run
+          logger.warn(`Issue registry not updated: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        tracker.stageEnd('Stage 4');
+      });
+    }
+  } catch (error) {
+    const stopReason = error instanceof Error ? error.message : String(error);
+    if (!(error instanceof BudgetExceededError)) {
+      updatePipelineState(runDir, { status: 'stopped', stopReason });
+      throw error;
+    }
+
+    updatePipelineState(runDir, {
+      status: 'stopped',
+      stopReason,
+      budget: { maxCostUSD: error.maxCostUSD, spentUSD: tracker.totalCost() },
+    });
+    return buildResult(runDir, stages, tracker, Date.now() - pipelineStart, 'stopped', stopReason);
+  } finally {
+    // Module-level call settings must not leak into the next run in this process
+    setBudget(null);
+    if (options.replay || options.record) stopCassette();
+    if (options.replay) setClock(null);
+  }
+
+  updatePipelineState(runDir, { status: 'complete', resumeStage: 5 });
+  return buildResult(runDir, stages, tracker, Date.now() - pipelineStart, 'complete', undefined, options.outputDir);
+}
+
+function loadSynthesis(runDir: string): Synthesis | null {
+  return loadJson<Synthesis>(path.join(runDir, 'reports', 'synthesis.json'));
+}
+
+/**
+ * Emit `issue:found` for every issue in a synthesis
+ */
+function emitIssues(events: PipelineEvents | undefined, synthesis: Synthesis | null): void {
+  if (!events || !synthesis) return;
+  for (const issue of synthesis.consensusIssues ?? []) events.emit('issue:found', { kind: 'consensus', issue });
+  for (const issue of synthesis.videoOnlyIssues ?? []) events.emit('issue:found', { kind: 'video-only', issue });
+  for (const issue of synthesis.modelUniqueIssues ?? []) events.emit('issue:found', { kind: 'model-unique', issue });
+}
+
+function buildResult(
+  runDir: string,
+  stages: PipelineStage[],
+  tracker: CostTracker,
+  elapsedMs: number,
+  status: PipelineResult['status'],
+  stopReason?: string,
+  outputDir?: string
+): PipelineResult {
+  const reportsDir = outputDir || path.join(runDir, 'reports');
+
+  return {
+    status,
+    ...(stopReason ? { stopReason } : {}),
+    runDir,
+    stages,
+    synthesis: loadSynthesis(runDir),
+    ...(status === 'complete' && stages.includes('4')
+      ? {
+          reports: {
+            markdown: path.join(reportsDir, 'ux-analysis-report.md'),
+            githubIssues: path.join(reportsDir, 'github-issues.md'),
+            json: path.join(reportsDir, 'ux-analysis-report.json'),
+            html: path.join(reportsDir, HTML_REPORT_FILE),
+          },
+        }
+      : {}),
+    cost: tracker.breakdown(),
+    elapsedMs,
+    statePath: path.join(runDir, 'reports', PIPELINE_STATE_FILE),
+  };
+}
+
+/**
+ * Resolve run directory: use provided, auto-detect from config artifactsDir, or cwd
+ */
+export function resolveRunDir(runDir: string, config: QuorumUXConfig): string {
+  if (runDir && fs.existsSync(runDir)) {
+    return path.resolve(runDir);
+  }
+
+  // Try config artifactsDir first
+  const artifactsDir = path.resolve(config.artifactsDir);
+  if (fs.existsSync(artifactsDir)) {
+    const runs = fs.readdirSync(artifactsDir)
+      .filter((name) => name.startsWith('run-') && fs.statSync(path.join(artifactsDir, name)).isDirectory())
+      .sort()
+      .reverse();
+
+    if (runs.length > 0) {
+      logger.log(`Auto-detected run directory: ${runs[0]}`);
+      return path.join(artifactsDir, runs[0]);
+    }
+  }
+
+  // Fallback to cwd
+  const cwd = process.cwd();
+  const entries = fs.readdirSync(cwd);
+  const runDirs = entries
+    .filter((name) => name.startsWith('run-') && fs.statSync(path.join(cwd, name)).isDirectory())
+    .sort()
+    .reverse();
+
+  if (runDirs.length === 0) {
+    throw new Error('No run directory found. Use --run-dir or set artifactsDir in config.');
+  }
+
+  logger.log(`Auto-detected run directory: ${runDirs[0]}`);
+  return path.join(cwd, runDirs[0]);
+}
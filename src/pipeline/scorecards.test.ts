@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { PersonaSummary, ScreenshotAnalysis, Synthesis, VideoAnalysis } from '../types.js';
+import { buildPersonaScorecards, parseTemporalScore } from './scorecards.js';
+
+function synthesis(): Synthesis {
+  return {
+    synthesisDate: '2026-01-01',
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 3, videoAnalyses: 1, testSummaries: 1 },
+    consensusIssues: [
+      {
+        id: 'QUX-aaaaaaaa',
+        title: '[Modal] Overlay blocks navigation',
+        severity: 'P1',
+        category: 'interaction',
+        description: '',
+        evidence: { screenshotModels: ['claude', 'gpt'], videoConfirmed: false, testRunConfirmed: false, affectedPersonas: ['p1', 'p2'] },
+        temporalInsight: null,
+        recommendation: '',
+        effort: 'low',
+      },
+    ],
+    videoOnlyIssues: [
+      { id: 'QUX-bbbbbbbb', title: '[Pricing] Toggle stalls', severity: 'P0', description: '', timestamp: '00:42', persona: 'p1', recommendation: '' },
+    ],
+    modelUniqueIssues: [
+      {
+        id: 'QUX-cccccccc',
+        title: '[Footer] Low contrast',
+        reportedBy: 'gpt',
+        severity: 'P2',
+        description: '',
+        recommendation: '',
+        confidence: 'high',
+        citations: [{ persona: 'p2', model: 'gpt', quote: 'grey on grey' }],
+      },
+    ],
+    disagreements: [],
+    overallAssessment: { uxScore: 70, launchReadiness: 'ready', topStrengths: [], criticalPath: [], temporalInsightsSummary: '' },
+  };
+}
+
+const screenshots: ScreenshotAnalysis[] = [
+  {
+    persona: 'p1',
+    model: 'Claude',
+    modelId: 'anthropic/claude',
+    analysis: '{}',
+    structured: { findings: [], uxScore: 7, frictionPoints: [], strengths: [], wouldReturn: { verdict: 'yes', reasoning: '' } },
+  },
+  { persona: 'p1', model: 'GPT-4o', modelId: 'openai/gpt-4o', analysis: 'free text' },
+  { persona: 'p2', model: 'Claude', modelId: 'anthropic/claude', analysis: '', error: 'HTTP 500' },
+];
+
+const videos: VideoAnalysis[] = [
+  {
+    persona: 'p1',
+    model: 'Gemini',
+    modelId: 'google/gemini',
+    analysisType: 'video',
+    videoPath: 'flow.webm',
+    videoSizeMB: 1,
+    analysis: '## 7. Overall Temporal UX Score: 1-10\n\n**6/10** — hesitation at checkout',
+  },
+];
+
+const summaries: PersonaSummary[] = [
+  {
+    runId: 'r1',
+    persona: 'Speed Runner',
+    personaId: 'p2',
+    timestamp: '',
+    totalSteps: 10,
+    results: { pass: 8, friction: 1, fail: 1 },
+    issues: [],
+    flowScores: { onboarding: 7 },
+    retentionAssessment: 'Would return',
+    topFrictionPoint: 'Slow signup',
+    topDelight: 'Clean UI',
+  },
+];
+
+describe('parseTemporalScore', () => {
+  it('reads the score after the heading, skipping the 1-10 range', () => {
+    expect(parseTemporalScore(videos[0].analysis)).toBe(6);
+    expect(parseTemporalScore('### Overall Temporal UX Score\n7.5 / 10')).toBe(7.5);
+  });
+
+  it('returns null without a heading or an in-range number', () => {
+    expect(parseTemporalScore('Score: 8/10')).toBeNull();
+    expect(parseTemporalScore('Overall Temporal UX Score: 42')).toBeNull();
+  });
+});
+
+describe('buildPersonaScorecards', () => {
+  it('builds one scorecard per persona with its own scores, tests and issues', () => {
+    const [p1, p2] = buildPersonaScorecards(synthesis(), screenshots, videos, summaries);
+
+    expect(p1).toEqual({
+      persona: 'p1',
+      score: 88, // P0 video-only -7, P1 consensus -5, no test summary
+      modelScores: [
+        { model: 'Claude', score: 7 },
+        { model: 'GPT-4o', score: null },
+      ],
+      videoScore: 6,
+      issues: [
+        { id: 'QUX-bbbbbbbb', title: '[Pricing] Toggle stalls', severity: 'P0', type: 'video-only' },
+        { id: 'QUX-aaaaaaaa', title: '[Modal] Overlay blocks navigation', severity: 'P1', type: 'consensus' },
+      ],
+    });
+
+    expect(p2.modelScores).toEqual([]);
+    expect(p2.testResults).toEqual({ pass: 8, friction: 1, fail: 1, totalSteps: 10 });
+    expect(p2.topFrictionPoint).toBe('Slow signup');
+    expect(p2.issues.map((i) => i.id)).toEqual(['QUX-aaaaaaaa', 'QUX-cccccccc']);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * QuorumUX — Persona Scorecards
+ *
+ * Breaks the run down by persona: the Stage 2 score from each screenshot
+ * model, the temporal score from the video analysis, the persona's test
+ * summary, and the issues that name it. Each persona also gets its own
+ * computed sub-score, using the same formula as the global UX score.
+ */
+
+import type {
+  PersonaScorecard,
+  PersonaSummary,
+  ScreenshotAnalysis,
+  Synthesis,
+  VideoAnalysis,
+} from '../types.js';
+import { computeScore, DEFAULT_SCORING, type ScoringWeights } from '../utils/scoring.js';
+import { bySeverity, DEFAULT_TAXONOMY } from '../config/taxonomy.js';
+import { isSuppressed } from './suppress.js';
+
+/**
+ * Pull the 1-10 "Overall Temporal UX Score" out of a video analysis.
+ * Returns null when the heading or a number in range isn't found.
+ */
+export function parseTemporalScore(analysis: string): number | null {
+  const heading = analysis.match(/temporal ux score/i);
+  if (heading?.index === undefined) return null;
+
+  // The prompt's own "1-10" range often follows the heading
+  const after = analysis.slice(heading.index + heading[0].length, heading.index + 300).replace(/1\s*-\s*10/g, '');
+  const match = after.match(/\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const score = parseFloat(match[0]);
+  return score >= 1 && score <= 10 ? score : null;
+}
+
+/**
+ * The synthesis restricted to unsuppressed issues that name `persona`:
+ * consensus issues by affectedPersonas, video-only issues by persona,
+ * model-unique issues by their citations.
+ */
+function issuesForPersona(synthesis: Synthesis, persona: string): Synthesis {
+  const open = <T extends { status?: string }>(issues: T[]) => issues.filter((i) => !isSuppressed(i));
+  return {
+    ...synthesis,
+    consensusIssues: open(synthesis.consensusIssues).filter((i) => i.evidence.affectedPersonas.includes(persona)),
+    videoOnlyIssues: open(synthesis.videoOnlyIssues).filter((i) => i.persona === persona),
+    modelUniqueIssues: open(synthesis.modelUniqueIssues).filter((i) => i.citations?.some((c) => c.persona === persona)),
+  };
+}
+
+/**
+ * Build one scorecard per persona seen in the analyses or test summaries,
+ * sorted by persona.
+ */
+export function buildPersonaScorecards(
+  synthesis: Synthesis,
+  screenshotAnalyses: ScreenshotAnalysis[],
+  videoAnalyses: VideoAnalysis[],
+  summaries: PersonaSummary[],
+  weights: ScoringWeights = DEFAULT_SCORING
+): PersonaScorecard[] {
+  const taxonomy = synthesis.taxonomy ?? DEFAULT_TAXONOMY;
+  const personas = new Set([
+    ...[...screenshotAnalyses, ...videoAnalyses].filter((a) => !a.error).map((a) => a.persona),
+    ...summaries.map((s) => s.personaId),
+  ]);
+
+  return [...personas].sort().map((persona) => {
+    const summary = summaries.find((s) => s.personaId === persona);
+    const own = issuesForPersona(synthesis, persona);
+
+    const videoScores = videoAnalyses
+      .filter((a) => a.persona === persona && !a.error)
+      .map((a) => parseTemporalScore(a.analysis))
+      .filter((score): score is number => score !== null);
+
+    return {
+      persona,
+      score: computeScore(own, summary ? [summary] : [], 1, weights).score,
+      modelScores: screenshotAnalyses
+        .filter((a) => a.persona === persona && !a.error)
+        .map((a) => ({ model: a.model, score: a.structured?.uxScore ?? null })),
+      videoScore: videoScores.length > 0
+        ? Math.round((videoScores.reduce((sum, s) => sum + s, 0) / videoScores.length) * 10) / 10
+        : null,
+      ...(summary
+        ? {
+            testResults: { ...summary.results, totalSteps: summary.totalSteps },
+            flowScores: summary.flowScores,
+            topFrictionPoint: summary.topFrictionPoint,
+            retentionAssessment: summary.retentionAssessment,
+          }
+        : {}),
+      issues: [
+        ...own.consensusIssues.map((i) => ({ id: i.id, title: i.title, severity: i.severity, type: 'consensus' as const })),
+        ...own.videoOnlyIssues.map((i) => ({ id: i.id, title: i.title, severity: i.severity, type: 'video-only' as const })),
+        ...own.modelUniqueIssues.map((i) => ({ id: i.id, title: i.title, severity: i.severity, type: 'model-unique' as const })),
+      ].sort(bySeverity(taxonomy)),
+    };
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkStageInputs, parseStageList, resolveStages, stageNumber } from './stages.js';
+
+describe('parseStageList', () => {
+  it('parses a comma-separated list in execution order', () => {
+    expect(parseStageList('4,2', '--stages')).toEqual(['2', '4']);
+    expect(parseStageList('2B', '--only')).toEqual(['2b']);
+    expect(parseStageList('3, 3 ,4', '--stages')).toEqual(['3', '4']);
+  });
+
+  it('rejects unknown or missing stages', () => {
+    expect(() => parseStageList('5', '--stages')).toThrow('--stages: unknown stage "5"');
+    expect(() => parseStageList(undefined, '--only')).toThrow('--only requires a comma-separated list');
+  });
+});
+
+describe('resolveStages', () => {
+  it('runs everything by default', () => {
+    expect(resolveStages({})).toEqual(['1', '2', '2b', '3', '4']);
+  });
+
+  it('runs everything from --start-stage on', () => {
+    expect(resolveStages({ startStage: 2 })).toEqual(['2', '2b', '3', '4']);
+    expect(resolveStages({ startStage: 3, skipVideo: true })).toEqual(['3', '4']);
+  });
+
+  it('drops Stage 2b with skipVideo', () => {
+    expect(resolveStages({ startStage: 2, skipVideo: true })).toEqual(['2', '3', '4']);
+  });
+
+  it('prefers an explicit selection', () => {
+    expect(resolveStages({ stages: ['2b'], startStage: 1 })).toEqual(['2b']);
+  });
+});
+
+describe('stageNumber', () => {
+  it('maps 2b onto Stage 2', () => {
+    expect(stageNumber('2b')).toBe(2);
+    expect(stageNumber('4')).toBe(4);
+  });
+});
+
+describe('checkStageInputs', () => {
+  let runDir: string;
+
+  beforeEach(() => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-stages-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(runDir, { recursive: true, force: true });
+  });
+
+  it('reports missing inputs for a stage run on its own', () => {
+    expect(checkStageInputs(['4'], runDir, true)).toEqual(['Stage 4 needs reports/synthesis.json — run Stage 3 first']);
+    expect(checkStageInputs(['2b'], runDir, true)).toEqual(['Stage 2b needs .webm videos in videos/<persona>/']);
+  });
+
+  it('accepts inputs produced by an earlier selected stage', () => {
+    fs.mkdirSync(path.join(runDir, 'screenshots', 'p1'), { recursive: true });
+    fs.writeFileSync(path.join(runDir, 'screenshots', 'p1', '01.png'), '');
+    expect(checkStageInputs(['1', '2', '3', '4'], runDir, false)).toEqual([]);
+  });
+
+  it('accepts inputs already on disk', () => {
+    fs.mkdirSync(path.join(runDir, 'reports'));
+    fs.writeFileSync(path.join(runDir, 'reports', 'synthesis.json'), '{}');
+    expect(checkStageInputs(['4'], runDir, true)).toEqual([]);
+  });
+
+  it('treats videos as optional for an implicit selection', () => {
+    fs.mkdirSync(path.join(runDir, 'grids'));
+    fs.writeFileSync(path.join(runDir, 'grids', 'p1-grid.jpg'), '');
+    expect(checkStageInputs(['2', '2b', '3', '4'], runDir, false)).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * QuorumUX — Stage Selection
+ *
+ * Resolves which stages a run executes (--stages / --only, or everything
+ * from --start-stage on) and checks that each selected stage's inputs exist
+ * on disk or will be produced by an earlier selected stage.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PipelineStage } from '../types.js';
+
+/** All stages in execution order */
+export const PIPELINE_STAGES: readonly PipelineStage[] = ['1', '2', '2b', '3', '4'];
+
+/** Numeric stage used for --start-stage and resume points (2b runs with 2) */
+export function stageNumber(stage: PipelineStage): number {
+  return stage === '2b' ? 2 : Number(stage);
+}
+
+/**
+ * Parse a comma-separated stage list such as "2,4" or "2b".
+ * Returns the stages in execution order without duplicates.
+ *
+ * @throws Error on an empty list or unknown stage
+ */
+export function parseStageList(value: string | undefined, flag: string): PipelineStage[] {
+  const ids = (value ?? '').split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  if (ids.length === 0) {
+    throw new Error(`${flag} requires a comma-separated list of stages (1, 2, 2b, 3, 4)`);
+  }
+
+  for (const id of ids) {
+    if (!PIPELINE_STAGES.includes(id as PipelineStage)) {
+      throw new Error(`${flag}: unknown stage "${id}" (expected 1, 2, 2b, 3, or 4)`);
+    }
+  }
+  return PIPELINE_STAGES.filter((s) => ids.includes(s));
+}
+
+/**
+ * Stages to run: the explicit selection if given, otherwise every stage from
+ * `startStage` on (Stage 2b is dropped by `skipVideo`).
+ */
+export function resolveStages(options: { stages?: PipelineStage[]; startStage?: number; skipVideo?: boolean }): PipelineStage[] {
+  if (options.stages?.length) return PIPELINE_STAGES.filter((s) => options.stages!.includes(s));
+
+  const startStage = options.startStage || 1;
+  return PIPELINE_STAGES.filter((s) => stageNumber(s) >= startStage && !(s === '2b' && options.skipVideo));
+}
+
+/** Format a stage list for display, e.g. "2 → 2b → 4" */
+export function formatStages(stages: PipelineStage[]): string {
+  return stages.join(' → ');
+}
+
+function hasFiles(dir: string, predicate: (file: string) => boolean, recursive = false): boolean {
+  if (!fs.existsSync(dir)) return false;
+  for (const entry of fs.readdirSync(dir)) {
+    const entryPath = path.join(dir, entry);
+    if (recursive && fs.statSync(entryPath).isDirectory()) {
+      if (hasFiles(entryPath, predicate)) return true;
+    } else if (predicate(entry)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Check that every selected stage has its inputs, either on disk or from an
+ * earlier selected stage. Returns one message per missing input.
+ *
+ * Videos are optional for an implicit selection (Stage 2b skips itself when
+ * there are none); an explicitly selected Stage 2b requires them.
+ */
+export function checkStageInputs(stages: PipelineStage[], runDir: string, explicit: boolean): string[] {
+  const selected = new Set(stages);
+  const reportsDir = path.join(runDir, 'reports');
+  const problems: string[] = [];
+
+  const hasScreenshots = hasFiles(path.join(runDir, 'screenshots'), (f) => f.endsWith('.png'), true);
+  const hasVideos = hasFiles(path.join(runDir, 'videos'), (f) => f.endsWith('.webm'), true);
+
+  if (selected.has('1') && !hasScreenshots && !hasVideos) {
+    problems.push('Stage 1 needs screenshots/ or videos/ in the run directory');
+  }
+
+  if (selected.has('2') && !selected.has('1') && !hasFiles(path.join(runDir, 'grids'), (f) => f.endsWith('-grid.jpg'))) {
+    problems.push('Stage 2 needs screenshot grids in grids/ — run Stage 1 first');
+  }
+
+  if (selected.has('2b') && explicit && !hasVideos) {
+    problems.push('Stage 2b needs .webm videos in videos/<persona>/');
+  }
+
+  if (
+    selected.has('3') &&
+    !selected.has('2') &&
+    !selected.has('2b') &&
+    !fs.existsSync(path.join(reportsDir, 'all-analyses-raw.json')) &&
+    !fs.existsSync(path.join(reportsDir, 'all-video-analyses-raw.json'))
+  ) {
+    problems.push('Stage 3 needs reports/all-analyses-raw.json or reports/all-video-analyses-raw.json — run Stage 2 first');
+  }
+
+  if (selected.has('4') && !selected.has('3') && !fs.existsSync(path.join(reportsDir, 'synthesis.json'))) {
+    problems.push('Stage 4 needs reports/synthesis.json — run Stage 3 first');
+  }
+
+  return problems;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectCompletedUnits, loadPipelineState, updatePipelineState } from './state.js';
+
+describe('pipeline state', () => {
+  let runDir: string;
+  let reportsDir: string;
+
+  beforeEach(() => {
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), 'quorumux-state-'));
+    reportsDir = path.join(runDir, 'reports');
+    fs.mkdirSync(reportsDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(runDir, { recursive: true, force: true });
+  });
+
+  it('collects only successful units from the raw analyses', () => {
+    fs.writeFileSync(path.join(reportsDir, 'all-analyses-raw.json'), JSON.stringify([
+      { persona: 'p1', model: 'A', modelId: 'a/model', analysis: 'ok' },
+      { persona: 'p1', model: 'B', modelId: 'b/model', analysis: '', error: 'HTTP 500' },
+    ]));
+    fs.writeFileSync(path.join(reportsDir, 'all-video-analyses-raw.json'), JSON.stringify([
+      { persona: 'p1', model: 'V', modelId: 'v/model', analysisType: 'video', videoPath: 'flow.webm', videoSizeMB: 1, analysis: 'ok' },
+    ]));
+
+    expect(collectCompletedUnits(runDir)).toEqual({
+      screenshots: ['p1:a/model'],
+      videos: ['p1/flow.webm'],
+      synthesis: false,
+    });
+  });
+
+  it('returns null when no state was written', () => {
+    expect(loadPipelineState(runDir)).toBeNull();
+  });
+
+  it('merges updates into the saved state', () => {
+    updatePipelineState(runDir, { status: 'running', resumeStage: 2 });
+    fs.writeFileSync(path.join(reportsDir, 'synthesis.json'), '{}');
+    updatePipelineState(runDir, { status: 'stopped', stopReason: 'Budget reached' });
+
+    const state = loadPipelineState(runDir)!;
+    expect(state.version).toBe(1);
+    expect(state.status).toBe('stopped');
+    expect(state.resumeStage).toBe(2);
+    expect(state.stopReason).toBe('Budget reached');
+    expect(state.completed.synthesis).toBe(true);
+  });
+
+  it('clears the stop reason when a stage starts again', () => {
+    updatePipelineState(runDir, { status: 'stopped', resumeStage: 2, stopReason: 'crash' });
+    updatePipelineState(runDir, { status: 'running', resumeStage: 3, stopReason: undefined });
+
+    expect(loadPipelineState(runDir)!.stopReason).toBeUndefined();
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * QuorumUX — Pipeline State (reports/pipeline-state.json)
+ *
+ * Records where a run stopped and which persona × model analyses, videos,
+ * and synthesis already have results on disk, so an interrupted run (crash,
+ * Ctrl-C, or the budget cap) can be picked up with --resume without redoing
+ * paid work.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PipelineState, ScreenshotAnalysis, VideoAnalysis } from '../types.js';
+import { ensureDir, loadJson } from '../utils/files.js';
+import { now } from '../utils/clock.js';
+
+export const PIPELINE_STATE_VERSION = 1;
+
+export const PIPELINE_STATE_FILE = 'pipeline-state.json';
+
+/** Key for one Stage 2 unit of work */
+export function screenshotUnitKey(persona: string, modelId: string): string {
+  return `${persona}:${modelId}`;
+}
+
+/** Key for one Stage 2b unit of work */
+export function videoUnitKey(persona: string, videoPath: string): string {
+  return `${persona}/${videoPath}`;
+}
+
+/**
+ * Scan a run's reports/ for successful results
+ */
+export function collectCompletedUnits(runDir: string): PipelineState['completed'] {
+  const reportsDir = path.join(runDir, 'reports');
+  const screenshots = loadJson<ScreenshotAnalysis[]>(path.join(reportsDir, 'all-analyses-raw.json')) || [];
+  const videos = loadJson<VideoAnalysis[]>(path.join(reportsDir, 'all-video-analyses-raw.json')) || [];
+
+  return {
+    screenshots: screenshots.filter((a) => !a.error).map((a) => screenshotUnitKey(a.persona, a.modelId)),
+    videos: videos.filter((a) => !a.error).map((a) => videoUnitKey(a.persona, a.videoPath)),
+    synthesis: fs.existsSync(path.join(reportsDir, 'synthesis.json')),
+  };
+}
+
+/** Load a run's pipeline state, or null if none was written */
+export function loadPipelineState(runDir: string): PipelineState | null {
+  return loadJson<PipelineState>(path.join(runDir, 'reports', PIPELINE_STATE_FILE));
+}
+
+/**
+ * Merge `patch` into the run's pipeline state and save it, refreshing the
+ * completed units from disk. Stages call this after every finished unit so
+ * a crash loses at most the calls in flight.
+ */
+export function updatePipelineState(
+  runDir: string,
+  patch: Partial<Omit<PipelineState, 'version' | 'updatedAt' | 'completed'>> = {}
+): string {
+  const reportsDir = path.join(runDir, 'reports');
+  ensureDir(reportsDir);
+
+  const previous = loadPipelineState(runDir);
+  const state: PipelineState = {
+    version: PIPELINE_STATE_VERSION,
+    updatedAt: now().toISOString(),
+    status: previous?.status ?? 'running',
+    resumeStage: previous?.resumeStage ?? 1,
+    ...(previous?.stopReason ? { stopReason: previous.stopReason } : {}),
+    ...(previous?.budget ? { budget: previous.budget } : {}),
+    ...patch,
+    completed: collectCompletedUnits(runDir),
+  };
+
+  const statePath = path.join(reportsDir, PIPELINE_STATE_FILE);
+  fs.writeFileSync(statePath, JSON.stringify(state, null, 2));
+  return statePath;
+}
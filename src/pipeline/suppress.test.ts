@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import type { KnownIssue, Synthesis } from '../types.js';
+import { applySuppressions, clearSuppressions, isActive, matchKnownIssue } from './suppress.js';
+import { computeScore } from '../utils/scoring.js';
+
+function synthesis(): Synthesis {
+  return {
+    synthesisDate: '2026-01-01',
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 2, videoAnalyses: 0, testSummaries: 0 },
+    consensusIssues: [
+      {
+        id: 'QUX-11111111',
+        title: '[Footer] Links overlap cookie banner',
+        severity: 'P2',
+        category: 'layout',
+        description: '',
+        evidence: { screenshotModels: ['claude', 'gpt'], videoConfirmed: false, testRunConfirmed: false, affectedPersonas: [] },
+        temporalInsight: null,
+        recommendation: '',
+        effort: 'low',
+      },
+      {
+        id: 'QUX-22222222',
+        title: '[Checkout] Pay button disabled',
+        severity: 'P0',
+        category: 'interaction',
+        description: '',
+        evidence: { screenshotModels: ['claude', 'gpt'], videoConfirmed: false, testRunConfirmed: false, affectedPersonas: [] },
+        temporalInsight: null,
+        recommendation: '',
+        effort: 'low',
+      },
+    ],
+    videoOnlyIssues: [],
+    modelUniqueIssues: [
+      { id: 'QUX-33333333', title: '[Help] Chat widget covers content', reportedBy: 'gpt', severity: 'P2', description: '', recommendation: '', confidence: 'high' },
+    ],
+    disagreements: [],
+    overallAssessment: {
+      uxScore: 70,
+      launchReadiness: 'ready',
+      topStrengths: [],
+      criticalPath: ['Fix links overlap cookie banner in footer', 'Enable the pay button at checkout'],
+      temporalInsightsSummary: '',
+    },
+  };
+}
+
+describe('isActive', () => {
+  it('keeps entries through their expiry date', () => {
+    expect(isActive({ reason: 'x', expires: '2026-03-01' }, '2026-03-01')).toBe(true);
+    expect(isActive({ reason: 'x', expires: '2026-03-01' }, '2026-03-02')).toBe(false);
+    expect(isActive({ reason: 'x' }, '2099-01-01')).toBe(true);
+  });
+});
+
+describe('matchKnownIssue', () => {
+  const issue = { id: 'QUX-11111111', title: '[Footer] Links overlap cookie banner' };
+
+  it('matches by ID or case-insensitive title pattern', () => {
+    expect(matchKnownIssue(issue, [{ id: 'QUX-11111111', reason: 'Legacy' }], '2026-01-01')).toEqual({
+      reason: 'Legacy',
+      matchedBy: 'QUX-11111111',
+    });
+    expect(matchKnownIssue(issue, [{ pattern: 'COOKIE\\s+banner', reason: 'Vendor', expires: '2026-12-31' }], '2026-01-01')).toEqual({
+      reason: 'Vendor',
+      expires: '2026-12-31',
+      matchedBy: 'COOKIE\\s+banner',
+    });
+  });
+
+  it('ignores expired and non-matching entries', () => {
+    const entries: KnownIssue[] = [
+      { id: 'QUX-11111111', reason: 'Old', expires: '2025-12-31' },
+      { pattern: 'checkout', reason: 'Other' },
+    ];
+    expect(matchKnownIssue(issue, entries, '2026-01-01')).toBeUndefined();
+  });
+});
+
+describe('applySuppressions', () => {
+  const entries: KnownIssue[] = [
+    { id: 'QUX-11111111', reason: 'Legacy footer' },
+    { pattern: 'chat widget', reason: 'Third-party' },
+  ];
+
+  it('marks matching issues and drops the critical path items that name them', () => {
+    const result = applySuppressions(synthesis(), entries, '2026-01-01');
+
+    expect(result.consensusIssues[0]).toMatchObject({
+      status: 'suppressed',
+      suppression: { reason: 'Legacy footer', matchedBy: 'QUX-11111111' },
+    });
+    expect(result.consensusIssues[1].status).toBeUndefined();
+    expect(result.modelUniqueIssues[0].status).toBe('suppressed');
+    expect(result.overallAssessment.criticalPath).toEqual(['Enable the pay button at checkout']);
+    expect(result.suppressedCriticalPath).toEqual(['Fix links overlap cookie banner in footer']);
+  });
+
+  it('leaves suppressed issues out of the computed score', () => {
+    const open = computeScore(synthesis(), [], 1);
+    const suppressed = computeScore(applySuppressions(synthesis(), entries, '2026-01-01'), [], 1);
+
+    expect(open.score).toBe(87);
+    expect(suppressed.score).toBe(90);
+  });
+
+  it('returns the synthesis unchanged when nothing matches', () => {
+    const original = synthesis();
+    expect(applySuppressions(original, [{ pattern: 'nothing like this', reason: 'x' }], '2026-01-01')).toBe(original);
+  });
+});
+
+describe('clearSuppressions', () => {
+  it('undoes applySuppressions, restoring dropped critical path items', () => {
+    const cleared = clearSuppressions(applySuppressions(synthesis(), [{ id: 'QUX-11111111', reason: 'Legacy footer' }], '2026-01-01'));
+
+    expect(cleared.consensusIssues).toEqual(synthesis().consensusIssues);
+    expect(cleared.suppressedCriticalPath).toBeUndefined();
+    expect([...cleared.overallAssessment.criticalPath].sort()).toEqual([...synthesis().overallAssessment.criticalPath].sort());
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * QuorumUX — Issue Suppression
+ *
+ * Marks issues that match a known-issue entry as suppressed. Suppressed
+ * issues stay in synthesis.json (with their reason) but are left out of
+ * the score, the persona scorecards, the critical path and the issue
+ * sections of the report.
+ */
+
+import type { IssueSuppression, KnownIssue, Synthesis } from '../types.js';
+import { textSimilarity, tokenize } from './consensus.js';
+
+/** A critical path item this similar to a suppressed issue's title is dropped with it */
+const CRITICAL_PATH_SIMILARITY = 0.5;
+
+/** Whether a known-issue entry still applies on `today` (YYYY-MM-DD) */
+export function isActive(entry: KnownIssue, today: string): boolean {
+  return entry.expires === undefined || entry.expires >= today;
+}
+
+/**
+ * The first active entry matching an issue, by exact ID or title pattern
+ */
+export function matchKnownIssue(
+  issue: { id: string; title: string },
+  entries: KnownIssue[],
+  today: string
+): IssueSuppression | undefined {
+  for (const entry of entries) {
+    if (!isActive(entry, today)) continue;
+    const matchedBy = entry.id !== undefined && entry.id === issue.id
+      ? entry.id
+      : entry.pattern !== undefined && new RegExp(entry.pattern, 'i').test(issue.title)
+        ? entry.pattern
+        : undefined;
+    if (matchedBy !== undefined) {
+      return { reason: entry.reason, ...(entry.expires ? { expires: entry.expires } : {}), matchedBy };
+    }
+  }
+  return undefined;
+}
+
+/** Whether a critical path item refers to the issue titled `title` */
+function namesIssue(item: string, title: string): boolean {
+  const bare = title.replace(/\[[^\]]*\]/g, '').trim().toLowerCase();
+  if (bare && item.toLowerCase().includes(bare)) return true;
+  return textSimilarity(tokenize(item), tokenize(title)) >= CRITICAL_PATH_SIMILARITY;
+}
+
+/**
+ * Apply known issues to a synthesis (after IDs are stable). Returns the
+ * synthesis unchanged when no entry matches.
+ */
+export function applySuppressions(synthesis: Synthesis, entries: KnownIssue[], today: string): Synthesis {
+  if (entries.length === 0) return synthesis;
+
+  const suppressedTitles: string[] = [];
+  const mark = <T extends { id: string; title: string }>(issue: T): T => {
+    const suppression = matchKnownIssue(issue, entries, today);
+    if (!suppression) return issue;
+    suppressedTitles.push(issue.title);
+    return { ...issue, status: 'suppressed', suppression };
+  };
+
+  const marked: Synthesis = {
+    ...synthesis,
+    consensusIssues: synthesis.consensusIssues.map(mark),
+    videoOnlyIssues: synthesis.videoOnlyIssues.map(mark),
+    modelUniqueIssues: synthesis.modelUniqueIssues.map(mark),
+  };
+  if (suppressedTitles.length === 0) return synthesis;
+
+  const criticalPath: string[] = [];
+  const dropped: string[] = [];
+  for (const item of synthesis.overallAssessment.criticalPath) {
+    (suppressedTitles.some((title) => namesIssue(item, title)) ? dropped : criticalPath).push(item);
+  }
+
+  return {
+    ...marked,
+    overallAssessment: { ...marked.overallAssessment, criticalPath },
+    ...(dropped.length > 0 ? { suppressedCriticalPath: dropped } : {}),
+  };
+}
+
+/**
+ * Undo applySuppressions: unmark every issue and put the dropped critical
+ * path items back, so a changed known-issue list can be applied afresh.
+ */
+export function clearSuppressions(synthesis: Synthesis): Synthesis {
+  const unmark = <T extends { status?: 'suppressed'; suppression?: IssueSuppression }>(issue: T): T => {
+    if (!isSuppressed(issue)) return issue;
+    const { status: _status, suppression: _suppression, ...unmarked } = issue;
+    return unmarked as T;
+  };
+
+  const { suppressedCriticalPath, ...rest } = synthesis;
+  return {
+    ...rest,
+    consensusIssues: synthesis.consensusIssues.map(unmark),
+    videoOnlyIssues: synthesis.videoOnlyIssues.map(unmark),
+    modelUniqueIssues: synthesis.modelUniqueIssues.map(unmark),
+    overallAssessment: {
+      ...synthesis.overallAssessment,
+      criticalPath: [...synthesis.overallAssessment.criticalPath, ...(suppressedCriticalPath ?? [])],
+    },
+  };
+}
+
+/** Whether an issue is suppressed */
+export function isSuppressed(issue: { status?: string }): boolean {
+  return issue.status === 'suppressed';
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { validateSynthesis } from './synthesis-schema.js';
+
+function validSynthesis(): any {
+  return {
+    synthesisDate: '2026-01-01',
+    projectName: 'Test',
+    sourceCounts: { screenshotAnalyses: 2, videoAnalyses: 1, testSummaries: 1 },
+    consensusIssues: [
+      {
+        title: '[Modal] Overlay blocks navigation',
+        severity: 'P1',
+        category: 'interaction',
+        source: 'app',
+        description: 'The overlay stays open',
+        evidence: { screenshotModels: ['claude', 'gpt'], videoConfirmed: true, testRunConfirmed: false, affectedPersonas: ['p1'] },
+        recommendation: 'Close it',
+        effort: 'low',
+      },
+    ],
+    videoOnlyIssues: [
+      { title: 'Spinner stalls', severity: 'P2', description: 'Slow', timestamp: '00:42', persona: 'p1', recommendation: 'Cache' },
+    ],
+    modelUniqueIssues: [
+      { title: 'Low contrast', reportedBy: 'gpt', severity: 'P2', description: 'Grey on grey', recommendation: 'Darken', confidence: 'medium' },
+    ],
+    disagreements: [{ topic: 'Onboarding length', positions: { claude: 'too long', gpt: 'fine' }, recommendation: 'Test it' }],
+    overallAssessment: {
+      uxScore: 72,
+      launchReadiness: 'ready-with-caveats',
+      topStrengths: ['Fast'],
+      criticalPath: ['Fix modal'],
+      temporalInsightsSummary: 'Hesitation at checkout',
+    },
+  };
+}
+
+describe('validateSynthesis', () => {
+  it('accepts a valid synthesis and fills a missing temporalInsight with null', () => {
+    const { synthesis, errors } = validateSynthesis(validSynthesis());
+
+    expect(errors).toEqual([]);
+    expect(synthesis?.consensusIssues[0].temporalInsight).toBeNull();
+  });
+
+  it('reports wrong enum values and missing objects by field path', () => {
+    const data = validSynthesis();
+    data.consensusIssues[0].severity = 'High';
+    delete data.consensusIssues[0].evidence;
+    data.modelUniqueIssues[0].confidence = 'certain';
+
+    const { synthesis, errors } = validateSynthesis(data);
+
+    expect(synthesis).toBeUndefined();
+    expect(errors).toEqual([
+      'consensusIssues[0].severity must be one of "P0", "P1", "P2" (got "High")',
+      'consensusIssues[0].evidence must be an object',
+      'modelUniqueIssues[0].confidence must be one of "low", "medium", "high" (got "certain")',
+    ]);
+  });
+
+  it('reports missing arrays and out-of-range scores', () => {
+    const data = validSynthesis();
+    delete data.disagreements;
+    data.overallAssessment.uxScore = 150;
+    data.overallAssessment.topStrengths = ['ok', 3];
+
+    expect(validateSynthesis(data).errors).toEqual([
+      'disagreements must be an array',
+      'overallAssessment.uxScore must be a number from 0 to 100',
+      'overallAssessment.topStrengths[1] must be a string',
+    ]);
+  });
+
+  it('rejects an optional source with an unknown value', () => {
+    const data = validSynthesis();
+    data.videoOnlyIssues[0].source = 'infra';
+    expect(validateSynthesis(data).errors).toEqual([
+      'videoOnlyIssues[0].source must be one of "app", "test-infra" (got "infra")',
+    ]);
+  });
+
+  it('checks optional citations', () => {
+    const data = validSynthesis();
+    data.consensusIssues[0].citations = [
+      { persona: 'p1', model: 'claude', quote: 'Overlay stays open', tile: 3, timestamp: null },
+      { persona: 'p1', model: '', quote: 'x', tile: 0 },
+    ];
+
+    expect(validateSynthesis(data).errors).toEqual([
+      'consensusIssues[0].citations[1].model must be a non-empty string',
+      'consensusIssues[0].citations[1].tile must be a positive integer or null',
+    ]);
+  });
+
+  it('checks severities and categories against a custom taxonomy', () => {
+    const taxonomy = {
+      severities: [
+        { name: 'Sev1', description: 'outage', weight: 10 },
+        { name: 'Sev2', description: 'major', weight: 5 },
+      ],
+      categories: ['functional', 'Compliance'],
+    };
+    const data = validSynthesis();
+    data.consensusIssues[0].severity = 'Sev1';
+    data.consensusIssues[0].category = 'compliance';
+    data.videoOnlyIssues[0].severity = 'Sev2';
+    data.modelUniqueIssues[0].severity = 'Sev2';
+
+    const { synthesis, errors } = validateSynthesis(data, taxonomy);
+    expect(errors).toEqual([]);
+    expect(synthesis?.consensusIssues[0].category).toBe('Compliance');
+
+    data.consensusIssues[0].severity = 'P0';
+    data.consensusIssues[0].category = 'visual';
+    expect(validateSynthesis(data, taxonomy).errors).toEqual([
+      'consensusIssues[0].severity must be one of "Sev1", "Sev2" (got "P0")',
+      'consensusIssues[0].category must be one of "functional", "Compliance" (got "visual")',
+    ]);
+  });
+
+  it('rejects a non-object document', () => {
+    expect(validateSynthesis([]).errors).toEqual(['synthesis must be an object']);
+  });
+});
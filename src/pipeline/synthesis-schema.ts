@@ -0,0 +1,177 @@
+/**
+ * QuorumUX — Synthesis Schema Validation
+ *
+ * Checks the synthesis model's JSON against the Synthesis type before
+ * anything downstream touches it. Errors name the exact field path
+ * ("consensusIssues[2].severity") so they can be quoted back to the model
+ * in a repair request.
+ */
+
+import type { Synthesis, Taxonomy } from '../types.js';
+import { DEFAULT_TAXONOMY, severityNames } from '../config/taxonomy.js';
+
+const EFFORTS = ['low', 'medium', 'high'];
+const CONFIDENCES = ['low', 'medium', 'high'];
+const SOURCES = ['app', 'test-infra'];
+const LAUNCH_READINESS = ['ready', 'ready-with-caveats', 'not-ready'];
+
+/** Collects errors against field paths */
+class Checker {
+  readonly errors: string[] = [];
+
+  isObject(value: unknown, at: string): value is Record<string, any> {
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) return true;
+    this.errors.push(`${at} must be an object`);
+    return false;
+  }
+
+  isArray(value: unknown, at: string): value is unknown[] {
+    if (Array.isArray(value)) return true;
+    this.errors.push(`${at} must be an array`);
+    return false;
+  }
+
+  string(value: unknown, at: string, { nonEmpty = false } = {}): void {
+    if (typeof value !== 'string' || (nonEmpty && value.trim() === '')) {
+      this.errors.push(`${at} must be a ${nonEmpty ? 'non-empty ' : ''}string`);
+    }
+  }
+
+  nullableString(value: unknown, at: string): void {
+    if (value !== null && value !== undefined && typeof value !== 'string') {
+      this.errors.push(`${at} must be a string or null`);
+    }
+  }
+
+  boolean(value: unknown, at: string): void {
+    if (typeof value !== 'boolean') this.errors.push(`${at} must be true or false`);
+  }
+
+  number(value: unknown, at: string, min: number, max = Infinity): void {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      this.errors.push(`${at} must be a number${max === Infinity ? ` >= ${min}` : ` from ${min} to ${max}`}`);
+    }
+  }
+
+  oneOf(value: unknown, at: string, allowed: string[], { optional = false } = {}): void {
+    if (optional && value === undefined) return;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.errors.push(`${at} must be one of ${allowed.map((v) => `"${v}"`).join(', ')} (got ${JSON.stringify(value) ?? 'nothing'})`);
+    }
+  }
+
+  strings(value: unknown, at: string): void {
+    if (this.isArray(value, at)) {
+      value.forEach((v, i) => this.string(v, `${at}[${i}]`));
+    }
+  }
+
+  /** Check each element of an array field with `check` */
+  each(value: unknown, at: string, check: (item: Record<string, any>, at: string) => void): void {
+    if (!this.isArray(value, at)) return;
+    value.forEach((item, i) => {
+      if (this.isObject(item, `${at}[${i}]`)) check(item, `${at}[${i}]`);
+    });
+  }
+}
+
+/** Fields shared by all three issue kinds */
+function checkIssueBase(c: Checker, issue: Record<string, any>, at: string, severities: string[]): void {
+  c.string(issue.title, `${at}.title`, { nonEmpty: true });
+  c.oneOf(issue.severity, `${at}.severity`, severities);
+  c.string(issue.description, `${at}.description`);
+  c.string(issue.recommendation, `${at}.recommendation`);
+  c.oneOf(issue.source, `${at}.source`, SOURCES, { optional: true });
+  if (issue.citations !== undefined) {
+    c.each(issue.citations, `${at}.citations`, (citation, cat) => {
+      c.string(citation.persona, `${cat}.persona`, { nonEmpty: true });
+      c.string(citation.model, `${cat}.model`, { nonEmpty: true });
+      c.string(citation.quote, `${cat}.quote`, { nonEmpty: true });
+      if (citation.tile !== undefined && citation.tile !== null && !(Number.isInteger(citation.tile) && citation.tile >= 1)) {
+        c.errors.push(`${cat}.tile must be a positive integer or null`);
+      }
+      c.nullableString(citation.timestamp, `${cat}.timestamp`);
+    });
+  }
+}
+
+/** The taxonomy's spelling of a category, matched case-insensitively */
+function canonicalCategory(value: unknown, categories: string[]): string | undefined {
+  return typeof value === 'string' ? categories.find((c) => c.toLowerCase() === value.trim().toLowerCase()) : undefined;
+}
+
+/**
+ * Validate parsed synthesis JSON against the project's taxonomy. Returns
+ * the typed synthesis when there are no errors; missing `temporalInsight`
+ * values are filled with null and categories take the taxonomy's spelling.
+ */
+export function validateSynthesis(
+  data: unknown,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): { synthesis?: Synthesis; errors: string[] } {
+  const c = new Checker();
+  const severities = severityNames(taxonomy);
+  if (!c.isObject(data, 'synthesis')) return { errors: c.errors };
+
+  c.string(data.synthesisDate, 'synthesisDate');
+  c.string(data.projectName, 'projectName');
+
+  if (c.isObject(data.sourceCounts, 'sourceCounts')) {
+    for (const field of ['screenshotAnalyses', 'videoAnalyses', 'testSummaries']) {
+      c.number(data.sourceCounts[field], `sourceCounts.${field}`, 0);
+    }
+  }
+
+  c.each(data.consensusIssues, 'consensusIssues', (issue, at) => {
+    checkIssueBase(c, issue, at, severities);
+    if (!canonicalCategory(issue.category, taxonomy.categories)) {
+      c.oneOf(issue.category, `${at}.category`, taxonomy.categories);
+    }
+    c.oneOf(issue.effort, `${at}.effort`, EFFORTS);
+    c.nullableString(issue.temporalInsight, `${at}.temporalInsight`);
+    if (c.isObject(issue.evidence, `${at}.evidence`)) {
+      c.strings(issue.evidence.screenshotModels, `${at}.evidence.screenshotModels`);
+      c.boolean(issue.evidence.videoConfirmed, `${at}.evidence.videoConfirmed`);
+      c.boolean(issue.evidence.testRunConfirmed, `${at}.evidence.testRunConfirmed`);
+      c.strings(issue.evidence.affectedPersonas, `${at}.evidence.affectedPersonas`);
+    }
+  });
+
+  c.each(data.videoOnlyIssues, 'videoOnlyIssues', (issue, at) => {
+    checkIssueBase(c, issue, at, severities);
+    c.string(issue.timestamp, `${at}.timestamp`);
+    c.string(issue.persona, `${at}.persona`);
+  });
+
+  c.each(data.modelUniqueIssues, 'modelUniqueIssues', (issue, at) => {
+    checkIssueBase(c, issue, at, severities);
+    c.string(issue.reportedBy, `${at}.reportedBy`, { nonEmpty: true });
+    c.oneOf(issue.confidence, `${at}.confidence`, CONFIDENCES);
+  });
+
+  c.each(data.disagreements, 'disagreements', (d, at) => {
+    c.string(d.topic, `${at}.topic`);
+    c.string(d.recommendation, `${at}.recommendation`);
+    if (c.isObject(d.positions, `${at}.positions`)) {
+      for (const [name, position] of Object.entries(d.positions)) c.string(position, `${at}.positions.${name}`);
+    }
+  });
+
+  if (c.isObject(data.overallAssessment, 'overallAssessment')) {
+    const a = data.overallAssessment;
+    c.number(a.uxScore, 'overallAssessment.uxScore', 0, 100);
+    c.oneOf(a.launchReadiness, 'overallAssessment.launchReadiness', LAUNCH_READINESS);
+    c.strings(a.topStrengths, 'overallAssessment.topStrengths');
+    c.strings(a.criticalPath, 'overallAssessment.criticalPath');
+    c.string(a.temporalInsightsSummary, 'overallAssessment.temporalInsightsSummary');
+  }
+
+  if (c.errors.length > 0) return { errors: c.errors };
+
+  const synthesis = data as unknown as Synthesis;
+  for (const issue of synthesis.consensusIssues) {
+    issue.temporalInsight ??= null;
+    issue.category = canonicalCategory(issue.category, taxonomy.categories)!;
+  }
+  return { synthesis, errors: [] };
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
-import { generateStableId } from './synthesize.js';
+import type { QuorumUXConfig, ScreenshotAnalysis } from '../types.js';
+import { buildRepairMessage, generateStableId, parseSynthesisResponse, planSynthesis, planSynthesisCalls } from './synthesize.js';
+import { resolveQuorum } from './quorum.js';
 
 describe('generateStableId', () => {
   it('produces QUX- prefixed IDs', () => {
@@ -37,3 +39,94 @@ describe('generateStableId', () => {
     expect(a).toBe(b);
   });
 });
+
+describe('parseSynthesisResponse', () => {
+  it('explains a response without JSON', () => {
+    expect(parseSynthesisResponse('Sorry, I cannot help with that.').errors).toEqual([
+      'Response is not a JSON object: no JSON object in response',
+    ]);
+  });
+
+  it('returns schema errors for fenced JSON', () => {
+    const { synthesis, errors } = parseSynthesisResponse('```json\n{"synthesisDate": "2026-01-01"}\n```');
+    expect(synthesis).toBeUndefined();
+    expect(errors).toContain('projectName must be a string');
+  });
+});
+
+describe('buildRepairMessage', () => {
+  it('quotes each error', () => {
+    const message = buildRepairMessage(['consensusIssues[0].severity must be one of "P0", "P1", "P2" (got "High")']);
+    expect(message).toContain('- consensusIssues[0].severity must be one of "P0", "P1", "P2" (got "High")');
+    expect(message).toContain('Return the complete corrected JSON document only');
+  });
+
+  it('caps long error lists', () => {
+    const errors = Array.from({ length: 35 }, (_, i) => `error ${i}`);
+    const message = buildRepairMessage(errors);
+    expect(message).toContain('- error 29');
+    expect(message).not.toContain('- error 30');
+    expect(message).toContain('- ...and 5 more');
+  });
+});
+
+describe('planSynthesis', () => {
+  const config: QuorumUXConfig = {
+    name: 'Test',
+    description: 'A test',
+    domain: 'testing',
+    appUrl: 'https://example.com',
+    userJourney: 'Sign up',
+    artifactsDir: './artifacts',
+    models: {
+      screenshot: [{ id: 'model/a', name: 'A' }],
+      video: { id: 'model/v', name: 'V' },
+      synthesis: { id: 'model/s', name: 'S', maxTokens: 1000 },
+    },
+  };
+  const analysis = (persona: string): ScreenshotAnalysis => ({
+    persona,
+    model: 'A',
+    modelId: 'model/a',
+    analysis: 'The checkout button is hidden below the fold. '.repeat(200),
+  });
+  const inputs = {
+    screenshotAnalyses: [analysis('p1'), analysis('p2')],
+    videoAnalyses: [],
+    personaSummaries: [],
+    executiveSummary: '',
+  };
+  const quorum = resolveQuorum(undefined, [{ name: 'A', id: 'model/a' }]);
+
+  it('uses a single call when the prompt fits the context window', () => {
+    const plan = planSynthesis(config, inputs, quorum);
+    expect(plan.mode).toBe('single');
+    expect(plan.promptLimitTokens).toBe(Math.floor((128_000 - 1000) * 0.9));
+  });
+
+  it('switches to map-reduce when the prompt exceeds the context window', () => {
+    const small = { ...config, models: { ...config.models, synthesis: { ...config.models.synthesis, contextWindow: 5000 } } };
+    const plan = planSynthesis(small, inputs, quorum);
+    expect(plan.mode).toBe('map-reduce');
+    expect(plan.estimatedPromptTokens).toBeGreaterThan(plan.promptLimitTokens);
+  });
+
+  it('stays single with only one persona to split by', () => {
+    const small = { ...config, models: { ...config.models, synthesis: { ...config.models.synthesis, contextWindow: 5000 } } };
+    expect(planSynthesis(small, { ...inputs, screenshotAnalyses: [analysis('p1')] }, quorum).mode).toBe('single');
+  });
+
+  it('honours an explicit synthesisMode', () => {
+    const plan = planSynthesis({ ...config, synthesisMode: 'map-reduce' }, inputs, quorum);
+    expect(plan.mode).toBe('map-reduce');
+    expect(plan.forced).toBe(true);
+    expect(planSynthesis(config, inputs, quorum).forced).toBe(false);
+  });
+
+  it('counts a call per persona plus the merge for a dry run', () => {
+    const small = { ...config, models: { ...config.models, synthesis: { ...config.models.synthesis, contextWindow: 5000 } } };
+    expect(planSynthesisCalls(config, 3, 20_000)).toEqual({ mode: 'single', calls: 1 });
+    expect(planSynthesisCalls(small, 3, 20_000)).toEqual({ mode: 'map-reduce', calls: 4 });
+    expect(planSynthesisCalls({ ...config, synthesisMode: 'map-reduce' }, 3, 0)).toEqual({ mode: 'map-reduce', calls: 4 });
+  });
+});
@@ -3,16 +3,36 @@
  *
  * Cross-model synthesis integrating screenshot analyses, video analyses,
  * and test summaries into a coherent UX assessment via the synthesis model.
+ * The response is validated against the Synthesis schema (one repair
+ * round-trip on failure) and saved as synthesis-raw.txt; consensus claims
+ * are then checked against the raw findings (consensus.ts).
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { createHash } from 'node:crypto';
-import { QuorumUXConfig, Synthesis, ScreenshotAnalysis, VideoAnalysis, PersonaSummary } from '../types.js';
-import { callOpenRouter } from '../models/openrouter.js';
+import { QuorumUXConfig, QuorumRecord, Synthesis, ScreenshotAnalysis, VideoAnalysis, PersonaSummary, Taxonomy } from '../types.js';
+import { callModel } from '../models/registry.js';
+import { ChatMessage, ChatResponse } from '../models/provider.js';
+import { PipelineEvents, emitCallComplete } from './events.js';
+import { BudgetExceededError, estimatePromptTokens, settleWithinBudget } from '../utils/budget.js';
+import { Scheduler } from '../utils/scheduler.js';
+import { getCapabilities } from '../models/capabilities.js';
 import * as logger from '../utils/logger.js';
 import { loadJson, loadText } from '../utils/files.js';
+import { parseJsonObject } from '../utils/json.js';
 import { CostTracker } from '../utils/costs.js';
+import { today } from '../utils/clock.js';
+import { computeScore, normalizeScore, resolveScoring } from '../utils/scoring.js';
+import { DEFAULT_TAXONOMY, resolveTaxonomy } from '../config/taxonomy.js';
+import { verifyConsensus } from './consensus.js';
+import { verifyCitations } from './citations.js';
+import { buildPersonaScorecards } from './scorecards.js';
+import { applySuppressions, isActive, isSuppressed } from './suppress.js';
+import { loadKnownIssues } from '../config/known-issues.js';
+import { validateSynthesis } from './synthesis-schema.js';
+import { DEFAULT_QUORUM, excludeThinPersonas, quorumVoters, resolveQuorum } from './quorum.js';
+import { countFindings, formatSeverityCounts, formatStructuredAnalysis } from './findings.js';
 
 /**
  * Generate a stable content-based issue ID from title + discriminator.
@@ -44,7 +64,12 @@ function stabilizeIds(synthesis: Synthesis): Synthesis {
   return synthesis;
 }
 
-export async function synthesize(config: QuorumUXConfig, runDir: string, tracker?: CostTracker): Promise<void> {
+export async function synthesize(
+  config: QuorumUXConfig,
+  runDir: string,
+  tracker?: CostTracker,
+  events?: PipelineEvents
+): Promise<void> {
   logger.stage('Stage 3: Cross-Model Synthesis');
   tracker?.stageStart('Stage 3');
 
@@ -58,21 +83,37 @@ export async function synthesize(config: QuorumUXConfig, runDir: string, tracker
   logger.log('  Loading analysis results...');
 
   // Load screenshot analyses
-  const screenshotAnalyses = loadJson<ScreenshotAnalysis[]>(path.join(reportsDir, 'all-analyses-raw.json')) || [];
-  logger.debug(`Loaded ${screenshotAnalyses.length} screenshot analyses`);
+  const allScreenshotAnalyses = loadJson<ScreenshotAnalysis[]>(path.join(reportsDir, 'all-analyses-raw.json')) || [];
+  logger.debug(`Loaded ${allScreenshotAnalyses.length} screenshot analyses`);
 
-  if (screenshotAnalyses.length === 0) {
+  if (allScreenshotAnalyses.length === 0) {
     logger.warn('No screenshot analyses found (all-analyses-raw.json)');
   }
 
   // Load video analyses
-  const videoAnalyses = loadJson<VideoAnalysis[]>(path.join(reportsDir, 'all-video-analyses-raw.json')) || [];
-  if (videoAnalyses.length > 0) {
-    logger.debug(`Loaded ${videoAnalyses.length} video analyses`);
+  const allVideoAnalyses = loadJson<VideoAnalysis[]>(path.join(reportsDir, 'all-video-analyses-raw.json')) || [];
+  if (allVideoAnalyses.length > 0) {
+    logger.debug(`Loaded ${allVideoAnalyses.length} video analyses`);
   } else {
     logger.debug('No video analyses found (all-video-analyses-raw.json)');
   }
 
+  // Quorum policy: leave out personas too few models analysed, then fix the rule for the rest
+  const minModelsPerPersona = config.quorum?.minModelsPerPersona ?? DEFAULT_QUORUM.minModelsPerPersona;
+  const { screenshotAnalyses, videoAnalyses, excludedPersonas } = excludeThinPersonas(
+    allScreenshotAnalyses,
+    allVideoAnalyses,
+    minModelsPerPersona
+  );
+  if (excludedPersonas.length > 0) {
+    logger.warn(`Excluding ${excludedPersonas.join(', ')}: fewer than ${minModelsPerPersona} successful screenshot models`);
+  }
+  const quorum = resolveQuorum(config.quorum, quorumVoters(screenshotAnalyses), {
+    hasVideo: videoAnalyses.some((a) => !a.error),
+    excludedPersonas,
+  });
+  logger.debug(`Quorum: consensus when ${quorum.rule}`);
+
   // Load persona summaries
   let personaSummaries: PersonaSummary[] = [];
   if (fs.existsSync(summariesDir)) {
@@ -83,6 +124,13 @@ export async function synthesize(config: QuorumUXConfig, runDir: string, tracker
     logger.debug(`Loaded ${personaSummaries.length} persona summaries`);
   }
 
+  // Known issues are read up front so a broken quorumux.ignore.json fails before any API call
+  const knownIssues = loadKnownIssues(config);
+  const expired = knownIssues.filter((entry) => !isActive(entry, today()));
+  if (expired.length > 0) {
+    logger.warn(`${expired.length} known issue(s) expired and no longer suppress: ${expired.map((e) => e.id ?? e.pattern).join(', ')}`);
+  }
+
   // Load executive summary
   const executiveSummary = loadText(path.join(runDir, 'executive-summary.md')) || '';
   if (executiveSummary) {
@@ -91,16 +139,95 @@ export async function synthesize(config: QuorumUXConfig, runDir: string, tracker
 
   const successCount = screenshotAnalyses.filter((a) => !a.error).length;
   const videoCount = videoAnalyses.filter((a) => !a.error).length;
-  logger.log(`  Synthesizing ${successCount} screenshot + ${videoCount} video analyses via ${config.models.synthesis.name}...`);
+  const inputs: SynthesisInputs = { screenshotAnalyses, videoAnalyses, personaSummaries, executiveSummary };
+  const plan = planSynthesis(config, inputs, quorum);
+
+  // synthesis-raw.txt collects every response of this stage, valid or not
+  const context: SynthesisCallContext = { config, rawPath: path.join(reportsDir, 'synthesis-raw.txt'), tracker, events };
+  fs.writeFileSync(context.rawPath, '');
+
+  let merged: Synthesis;
+  if (plan.mode === 'map-reduce') {
+    logger.log(
+      plan.forced
+        ? `  synthesisMode is 'map-reduce' — synthesizing per persona, then merging`
+        : `  Prompt ~${plan.estimatedPromptTokens.toLocaleString()} tokens exceeds ${config.models.synthesis.name}'s ` +
+            `~${plan.promptLimitTokens.toLocaleString()} budget — synthesizing per persona, then merging`
+    );
+    merged = await synthesizeMapReduce(inputs, quorum, context);
+  } else {
+    logger.log(`  Synthesizing ${successCount} screenshot + ${videoCount} video analyses via ${config.models.synthesis.name}...`);
+    merged = await requestSynthesis(
+      context,
+      buildSynthesisSystemPrompt(config),
+      buildSynthesisUserMessage(inputs, config, quorum)
+    );
+  }
+
+  const verified = verifyCitations(
+    verifyConsensus(merged, screenshotAnalyses, videoAnalyses, quorum),
+    screenshotAnalyses,
+    videoAnalyses,
+    runDir
+  );
+  const stable = stabilizeIds({
+    ...verified,
+    quorum,
+    ...(plan.mode === 'map-reduce'
+      ? {
+          mapReduce: {
+            personas: synthesisPersonas(inputs),
+            reason: plan.forced ? 'configured' : 'prompt-size',
+            estimatedPromptTokens: plan.estimatedPromptTokens,
+            promptLimitTokens: plan.promptLimitTokens,
+          },
+        }
+      : {}),
+  });
 
-  const synthesis = await synthesizeWithModel(
+  // Accepted issues are marked before scoring so they don't count against it
+  const suppressed = applySuppressions(stable, knownIssues, today());
+  const suppressedCount = [...suppressed.consensusIssues, ...suppressed.videoOnlyIssues, ...suppressed.modelUniqueIssues]
+    .filter(isSuppressed).length;
+  if (suppressedCount > 0) {
+    logger.log(`  Suppressed ${suppressedCount} known issue(s)`);
+  }
+
+  // The headline score is computed; the synthesis model's number is kept as the analyst score
+  const taxonomy = resolveTaxonomy(config.taxonomy);
+  const weights = resolveScoring(config.scoring, taxonomy);
+  const breakdown = computeScore(suppressed, personaSummaries, synthesisPersonas(inputs).length, weights);
+  const synthesis: Synthesis = {
+    ...suppressed,
+    taxonomy,
+    overallAssessment: {
+      ...suppressed.overallAssessment,
+      uxScore: breakdown.score,
+      analystScore: normalizeScore(suppressed.overallAssessment.uxScore),
+    },
+    scoreBreakdown: breakdown,
+  };
+  synthesis.personaScorecards = buildPersonaScorecards(
+    synthesis,
     screenshotAnalyses,
     videoAnalyses,
     personaSummaries,
-    executiveSummary,
-    config,
-    tracker
+    weights
   );
+  logger.log(`  UX score: ${breakdown.score}/100 computed (analyst score ${synthesis.overallAssessment.analystScore}/100)`);
+
+  const check = synthesis.consensusCheck;
+  if (check) {
+    logger.log(
+      `  Consensus check: ${check.verified} verified, ${check.partial} partial, ${check.demoted} demoted ` +
+        `(${check.findings} raw findings in ${check.clusters} clusters)`
+    );
+  }
+  if (synthesis.citationCheck) {
+    const { total, verified: found } = synthesis.citationCheck;
+    logger.log(`  Citations: ${found}/${total} quotes found in the raw analyses`);
+    if (found < total) logger.warn(`${total - found} citation quote(s) not found in the raw analyses`);
+  }
 
   // Write synthesis results
   const outputPath = path.join(reportsDir, 'synthesis.json');
@@ -110,59 +237,258 @@ export async function synthesize(config: QuorumUXConfig, runDir: string, tracker
   logger.success(`Synthesis complete. Results written to ${path.basename(outputPath)}`);
 }
 
+/** Everything Stage 3 sends to the synthesis model */
+interface SynthesisInputs {
+  screenshotAnalyses: ScreenshotAnalysis[];
+  videoAnalyses: VideoAnalysis[];
+  personaSummaries: PersonaSummary[];
+  executiveSummary: string;
+}
+
+/** Shared settings for every synthesis call in a run */
+interface SynthesisCallContext {
+  config: QuorumUXConfig;
+  /** synthesis-raw.txt; each response is appended */
+  rawPath: string;
+  tracker?: CostTracker;
+  events?: PipelineEvents;
+}
+
+/** Share of the remaining context window the estimated prompt may use (estimates are rough) */
+const PROMPT_MARGIN = 0.9;
+
 /**
- * Send all analyses to the synthesis model for integration
+ * Choose single-call or map-reduce synthesis. In "auto" mode, map-reduce
+ * is used when the estimated single prompt exceeds the synthesis model's
+ * context window minus its output allowance.
  */
-async function synthesizeWithModel(
-  screenshotAnalyses: ScreenshotAnalysis[],
-  videoAnalyses: VideoAnalysis[],
-  personaSummaries: PersonaSummary[],
-  executiveSummary: string,
+export function planSynthesis(
   config: QuorumUXConfig,
-  tracker?: CostTracker
-): Promise<Synthesis> {
-  const systemPrompt = buildSynthesisSystemPrompt(config);
-  const userMessage = buildSynthesisUserMessage(
-    screenshotAnalyses,
-    videoAnalyses,
-    personaSummaries,
-    executiveSummary,
-    config
-  );
+  inputs: SynthesisInputs,
+  quorum: QuorumRecord
+): { mode: 'single' | 'map-reduce'; forced: boolean; estimatedPromptTokens: number; promptLimitTokens: number } {
+  const estimatedPromptTokens = estimateSynthesisPrompt(config, buildSynthesisUserMessage(inputs, config, quorum));
+  const promptLimitTokens = synthesisPromptLimit(config);
+  const mode = chooseSynthesisMode(config, estimatedPromptTokens, synthesisPersonas(inputs).length);
+  return { mode, forced: (config.synthesisMode ?? 'auto') !== 'auto', estimatedPromptTokens, promptLimitTokens };
+}
+
+/**
+ * Dry-run counterpart of planSynthesis, before the analyses exist: the
+ * Stage 3 mode and call count for `personas` personas whose analyses come
+ * to about `analysisTokens`. Map-reduce makes one call per persona plus
+ * the merge.
+ */
+export function planSynthesisCalls(
+  config: QuorumUXConfig,
+  personas: number,
+  analysisTokens: number
+): { mode: 'single' | 'map-reduce'; calls: number } {
+  const mode = chooseSynthesisMode(config, estimateSynthesisPrompt(config, '') + analysisTokens, personas);
+  return { mode, calls: mode === 'map-reduce' ? Math.max(personas, 1) + 1 : 1 };
+}
+
+/** The configured mode, or in "auto" map-reduce when the prompt won't fit and there is more than one persona */
+function chooseSynthesisMode(config: QuorumUXConfig, estimatedPromptTokens: number, personas: number): 'single' | 'map-reduce' {
+  const requested = config.synthesisMode ?? 'auto';
+  if (requested !== 'auto') return requested;
+  return estimatedPromptTokens > synthesisPromptLimit(config) && personas > 1 ? 'map-reduce' : 'single';
+}
+
+/** Prompt token budget: the synthesis model's context window minus its output allowance, with margin */
+function synthesisPromptLimit(config: QuorumUXConfig): number {
+  const model = config.models.synthesis;
+  const outputTokens = model.maxTokens || SYNTHESIS_MAX_TOKENS;
+  return Math.floor((getCapabilities(model).contextTokens - outputTokens) * PROMPT_MARGIN);
+}
 
-  const response = await callOpenRouter({
-    model: config.models.synthesis.id,
+/** Estimated prompt tokens of a synthesis call with this user message */
+function estimateSynthesisPrompt(config: QuorumUXConfig, userMessage: string): number {
+  return estimatePromptTokens({
     messages: [
-      {
-        role: 'system',
-        content: systemPrompt,
-      },
-      {
-        role: 'user',
-        content: userMessage,
-      },
+      { role: 'system', content: buildSynthesisSystemPrompt(config) },
+      { role: 'user', content: userMessage },
     ],
-    maxTokens: config.models.synthesis.maxTokens || 8000,
-    referer: config.appUrl,
-    title: 'QuorumUX UX Analysis',
   });
+}
 
-  tracker?.record('Stage 3', config.models.synthesis.id, response.usage);
+/** Personas with at least one successful screenshot or video analysis, sorted */
+function synthesisPersonas(inputs: SynthesisInputs): string[] {
+  return [
+    ...new Set([...inputs.screenshotAnalyses, ...inputs.videoAnalyses].filter((a) => !a.error).map((a) => a.persona)),
+  ].sort();
+}
 
-  const rawContent = response.content;
+/**
+ * Map: synthesize each persona on its own (queued on the shared scheduler).
+ * Reduce: merge the per-persona syntheses into one.
+ */
+async function synthesizeMapReduce(
+  inputs: SynthesisInputs,
+  quorum: QuorumRecord,
+  context: SynthesisCallContext
+): Promise<Synthesis> {
+  const { config } = context;
+  const personas = synthesisPersonas(inputs);
+  const scheduler = new Scheduler(config.concurrency);
+  const systemPrompt = buildSynthesisSystemPrompt(config);
+
+  let done = 0;
+  const { results, budgetError } = await settleWithinBudget(
+    personas.map((persona) =>
+      scheduler.run(config.models.synthesis, async () => {
+        const personaInputs: SynthesisInputs = {
+          screenshotAnalyses: inputs.screenshotAnalyses.filter((a) => a.persona === persona),
+          videoAnalyses: inputs.videoAnalyses.filter((a) => a.persona === persona),
+          personaSummaries: inputs.personaSummaries.filter((s) => s.personaId === persona),
+          executiveSummary: '',
+        };
+        const synthesis = await requestSynthesis(
+          context,
+          systemPrompt,
+          buildSynthesisUserMessage(personaInputs, config, quorum, persona),
+          `PERSONA ${persona}`
+        );
+        logger.progress(++done, personas.length, `${persona} synthesized`);
+        return { persona, synthesis };
+      })
+    )
+  );
+  if (budgetError) throw budgetError;
+
+  logger.log(`  Merging ${results.length} persona syntheses...`);
+  const order = new Map(personas.map((p, i) => [p, i]));
+  results.sort((a, b) => order.get(a.persona)! - order.get(b.persona)!);
+
+  // The merge prompt grows with the persona results; it is not split further, so only warn
+  const mergeMessage = buildMergeUserMessage(results, inputs, config, quorum);
+  const mergeTokens = estimateSynthesisPrompt(config, mergeMessage);
+  const limit = synthesisPromptLimit(config);
+  if (mergeTokens > limit) {
+    logger.warn(
+      `Merge prompt ~${mergeTokens.toLocaleString()} tokens exceeds ${config.models.synthesis.name}'s ` +
+        `~${limit.toLocaleString()} budget — the merge call may fail or be truncated`
+    );
+  }
 
-  // Extract JSON from response (may be wrapped in markdown code blocks)
-  const jsonMatch = rawContent.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, rawContent];
-  const jsonStr = (jsonMatch[1] || rawContent).trim();
+  return requestSynthesis(context, systemPrompt, mergeMessage, 'MERGE');
+}
+
+/**
+ * Ask the synthesis model for a Synthesis and validate it, with one repair
+ * round-trip. Responses are appended to synthesis-raw.txt under `label`.
+ *
+ * @throws Error if the repaired response still fails validation
+ */
+async function requestSynthesis(
+  context: SynthesisCallContext,
+  systemPrompt: string,
+  userMessage: string,
+  label?: string
+): Promise<Synthesis> {
+  const { rawPath } = context;
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: systemPrompt,
+    },
+    {
+      role: 'user',
+      content: userMessage,
+    },
+  ];
 
+  // Every response is kept for debugging, valid or not
+  const response = await callSynthesisModel(context, messages);
+  fs.appendFileSync(rawPath, `${label ? `\n===== ${label} =====\n\n` : ''}${response.content}\n`);
+
+  const taxonomy = resolveTaxonomy(context.config.taxonomy);
+  let { synthesis, errors } = parseSynthesisResponse(response.content, taxonomy);
+
+  // One repair round-trip: quote the exact errors back and ask for the corrected document
+  if (!synthesis) {
+    const what = label ? `Synthesis response (${label.toLowerCase()})` : 'Synthesis response';
+    logger.warn(`${what} failed validation (${errors.length} error${errors.length === 1 ? '' : 's'}) — requesting a repair`);
+    for (const error of errors) logger.debug(`  ${error}`);
+
+    const repair = await callSynthesisModel(context, [
+      ...messages,
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: buildRepairMessage(errors) },
+    ]);
+    fs.appendFileSync(rawPath, `${REPAIR_SEPARATOR}${repair.content}\n`);
+
+    ({ synthesis, errors } = parseSynthesisResponse(repair.content, taxonomy));
+    if (!synthesis) {
+      throw new Error(
+        `${what} failed validation after one repair attempt (raw responses in ${path.basename(rawPath)}):\n  - ` +
+          formatErrors(errors).join('\n  - ')
+      );
+    }
+    logger.success('Repaired synthesis response passed validation');
+  }
+
+  return synthesis;
+}
+
+/** Default output allowance for synthesis calls */
+const SYNTHESIS_MAX_TOKENS = 8000;
+
+/** Written between the original and repaired response in synthesis-raw.txt */
+const REPAIR_SEPARATOR = '\n===== REPAIR RESPONSE =====\n\n';
+
+/** Errors quoted back to the model (and thrown) are capped to keep the message short */
+const MAX_QUOTED_ERRORS = 30;
+
+function formatErrors(errors: string[]): string[] {
+  return errors.length > MAX_QUOTED_ERRORS
+    ? [...errors.slice(0, MAX_QUOTED_ERRORS), `...and ${errors.length - MAX_QUOTED_ERRORS} more`]
+    : errors;
+}
+
+/**
+ * Call the synthesis model, recording cost and emitting call:complete
+ */
+async function callSynthesisModel(context: SynthesisCallContext, messages: ChatMessage[]): Promise<ChatResponse> {
+  const { config, tracker, events } = context;
+  let response: ChatResponse;
   try {
-    const parsed = JSON.parse(jsonStr) as Synthesis;
-    return stabilizeIds(parsed);
-  } catch (parseError) {
-    logger.error(`Failed to parse synthesis response as JSON: ${parseError}`);
-    logger.debug(`Raw response (first 500 chars): ${rawContent.substring(0, 500)}`);
-    throw new Error('Synthesis response was not valid JSON');
+    response = await callModel(config.models.synthesis, {
+      messages,
+      maxTokens: config.models.synthesis.maxTokens || SYNTHESIS_MAX_TOKENS,
+      referer: config.appUrl,
+      title: 'QuorumUX UX Analysis',
+    }, config.retry);
+  } catch (err) {
+    if (!(err instanceof BudgetExceededError)) emitCallComplete(events, '3', config.models.synthesis, { error: err });
+    throw err;
   }
+
+  tracker?.record('Stage 3', config.models.synthesis.id, response.usage, response.cached);
+  emitCallComplete(events, '3', config.models.synthesis, { response });
+  return response;
+}
+
+/**
+ * Extract, parse and validate a synthesis response
+ */
+export function parseSynthesisResponse(raw: string, taxonomy: Taxonomy = DEFAULT_TAXONOMY): { synthesis?: Synthesis; errors: string[] } {
+  const { data, error } = parseJsonObject(raw);
+  if (error) return { errors: [`Response is not a JSON object: ${error}`] };
+  return validateSynthesis(data, taxonomy);
+}
+
+/**
+ * Follow-up message asking the model to fix its previous answer
+ */
+export function buildRepairMessage(errors: string[]): string {
+  return [
+    `Your JSON did not match the required schema. Fix these errors:`,
+    ``,
+    ...formatErrors(errors).map((e) => `- ${e}`),
+    ``,
+    `Return the complete corrected JSON document only — same structure, no markdown wrapping, no commentary.`,
+  ].join('\n');
 }
 
 /**
@@ -195,20 +521,23 @@ function buildSynthesisSystemPrompt(config: QuorumUXConfig): string {
 }
 
 /**
- * Build user message with all analyses
+ * Build user message with all analyses, or with one persona's analyses in
+ * the map step of map-reduce synthesis
  */
 function buildSynthesisUserMessage(
-  screenshotAnalyses: ScreenshotAnalysis[],
-  videoAnalyses: VideoAnalysis[],
-  personaSummaries: PersonaSummary[],
-  executiveSummary: string,
-  config: QuorumUXConfig
+  inputs: SynthesisInputs,
+  config: QuorumUXConfig,
+  quorum: QuorumRecord,
+  persona?: string
 ): string {
-  const successfulScreenshot = screenshotAnalyses.filter((a) => !a.error);
-  const successfulVideo = videoAnalyses.filter((a) => !a.error);
+  const { personaSummaries, executiveSummary } = inputs;
+  const successfulScreenshot = inputs.screenshotAnalyses.filter((a) => !a.error);
+  const successfulVideo = inputs.videoAnalyses.filter((a) => !a.error);
 
   const parts = [
-    `I have gathered comprehensive analysis data from multiple sources about ${config.name}. Please synthesize these into a coherent UX assessment.`,
+    persona
+      ? `I have gathered analysis data from multiple sources about ${config.name} for persona "${persona}". Please synthesize this persona's findings into a UX assessment; it will later be merged with the other personas.`
+      : `I have gathered comprehensive analysis data from multiple sources about ${config.name}. Please synthesize these into a coherent UX assessment.`,
     ``,
     `## Data Overview`,
     `- **Screenshot Analyses:** ${successfulScreenshot.length} analyses from ${new Set(successfulScreenshot.map((a) => a.model)).size} models`,
@@ -217,6 +546,18 @@ function buildSynthesisUserMessage(
     ``,
   ];
 
+  // Exact counts from structured Stage 2 findings, so the model doesn't have to tally prose
+  const counts = countFindings(successfulScreenshot);
+  if (counts.structuredAnalyses > 0) {
+    parts.push(
+      `## Finding Counts (exact, from structured screenshot findings)`,
+      `- **Structured analyses:** ${counts.structuredAnalyses}${counts.unstructuredAnalyses > 0 ? ` (${counts.unstructuredAnalyses} more as free text)` : ''}`,
+      `- **Findings:** ${counts.total} (${formatSeverityCounts(counts)})`,
+      `- **By category:** ${Object.entries(counts.byCategory).map(([c, n]) => `${c} ${n}`).join(', ') || 'none'}`,
+      ``
+    );
+  }
+
   // Add screenshot analyses grouped by persona then model
   if (successfulScreenshot.length > 0) {
     parts.push(`## Screenshot Analyses (${new Set(successfulScreenshot.map((a) => a.model)).size} models × ${new Set(successfulScreenshot.map((a) => a.persona)).size} personas)`, ``);
@@ -234,7 +575,7 @@ function buildSynthesisUserMessage(
       for (const analysis of analyses) {
         parts.push(
           `### ${persona} — ${analysis.model}`,
-          analysis.analysis,
+          analysis.structured ? formatStructuredAnalysis(analysis.structured) : analysis.analysis,
           ``,
           `---`,
           ``
@@ -281,6 +622,70 @@ function buildSynthesisUserMessage(
 
   // Add synthesis instructions with JSON schema
   parts.push(
+    ...buildSynthesisTask(config, quorum, {
+      screenshotAnalyses: successfulScreenshot.length,
+      videoAnalyses: successfulVideo.length,
+      testSummaries: personaSummaries.length,
+    })
+  );
+
+  return parts.join('\n');
+}
+
+/**
+ * Build the merge (reduce) message from per-persona syntheses
+ */
+function buildMergeUserMessage(
+  personaResults: Array<{ persona: string; synthesis: Synthesis }>,
+  inputs: SynthesisInputs,
+  config: QuorumUXConfig,
+  quorum: QuorumRecord
+): string {
+  const parts = [
+    `The analysis data for ${config.name} was too large for one pass, so each persona was synthesized separately. Please merge these ${personaResults.length} persona syntheses into one coherent UX assessment.`,
+    ``,
+    `## Merge Rules`,
+    `- Merge issues that describe the same problem in different personas: union their screenshotModels and affectedPersonas, keep the highest severity`,
+    `- Re-apply the consensus rule below to the merged evidence: an issue that was model-unique in two personas may now be consensus`,
+    `- Keep video-only issues and disagreements, merging duplicates`,
+    `- Keep every citation of merged issues; do not rewrite quotes`,
+    `- Score and assess the product as a whole, not as an average of the personas`,
+    ``,
+    `## Per-Persona Syntheses`,
+    ``,
+  ];
+
+  for (const { persona, synthesis } of personaResults) {
+    const { consensusIssues, videoOnlyIssues, modelUniqueIssues, disagreements, overallAssessment } = synthesis;
+    parts.push(
+      `### ${persona}`,
+      JSON.stringify({ consensusIssues, videoOnlyIssues, modelUniqueIssues, disagreements, overallAssessment }),
+      ``
+    );
+  }
+
+  if (inputs.executiveSummary) {
+    parts.push(`## Executive Summary`, inputs.executiveSummary, ``);
+  }
+
+  parts.push(
+    ...buildSynthesisTask(config, quorum, {
+      screenshotAnalyses: inputs.screenshotAnalyses.filter((a) => !a.error).length,
+      videoAnalyses: inputs.videoAnalyses.filter((a) => !a.error).length,
+      testSummaries: inputs.personaSummaries.length,
+    })
+  );
+
+  return parts.join('\n');
+}
+
+/**
+ * Synthesis instructions with the JSON schema and classification rules
+ */
+function buildSynthesisTask(config: QuorumUXConfig, quorum: QuorumRecord, sourceCounts: Synthesis['sourceCounts']): string[] {
+  const { severities, categories } = resolveTaxonomy(config.taxonomy);
+  const severity = severities.map((level) => level.name).join('|');
+  return [
     `---`,
     ``,
     `## Your Synthesis Task`,
@@ -288,18 +693,18 @@ function buildSynthesisUserMessage(
     `Produce a JSON document with this structure:`,
     ``,
     `{`,
-    `  "synthesisDate": "${new Date().toISOString().split('T')[0]}",`,
+    `  "synthesisDate": "${today()}",`,
     `  "projectName": "${config.name}",`,
     `  "sourceCounts": {`,
-    `    "screenshotAnalyses": ${successfulScreenshot.length},`,
-    `    "videoAnalyses": ${successfulVideo.length},`,
-    `    "testSummaries": ${personaSummaries.length}`,
+    `    "screenshotAnalyses": ${sourceCounts.screenshotAnalyses},`,
+    `    "videoAnalyses": ${sourceCounts.videoAnalyses},`,
+    `    "testSummaries": ${sourceCounts.testSummaries}`,
     `  },`,
     `  "consensusIssues": [`,
     `    {`,
     `      "title": "Issue title",`,
-    `      "severity": "P0|P1|P2",`,
-    `      "category": "visual|functional|copy|accessibility|performance|interaction|layout",`,
+    `      "severity": "${severity}",`,
+    `      "category": "${categories.join('|')}",`,
     `      "source": "app|test-infra",`,
     `      "description": "Detailed description",`,
     `      "evidence": {`,
@@ -310,29 +715,38 @@ function buildSynthesisUserMessage(
     `      },`,
     `      "temporalInsight": "Video observation or null",`,
     `      "recommendation": "Actionable recommendation",`,
-    `      "effort": "low|medium|high"`,
+    `      "effort": "low|medium|high",`,
+    `      "citations": [`,
+    `        { "persona": "persona1", "model": "claude", "quote": "Verbatim phrase from the analysis", "tile": 3, "timestamp": null }`,
+    `      ]`,
     `    }`,
     `  ],`,
     `  "videoOnlyIssues": [`,
     `    {`,
     `      "title": "Issue title",`,
-    `      "severity": "P0|P1|P2",`,
+    `      "severity": "${severity}",`,
     `      "source": "app|test-infra",`,
     `      "description": "Description",`,
     `      "timestamp": "MM:SS",`,
     `      "persona": "persona",`,
-    `      "recommendation": "Recommendation"`,
+    `      "recommendation": "Recommendation",`,
+    `      "citations": [`,
+    `        { "persona": "persona1", "model": "video", "quote": "Verbatim phrase from the analysis", "tile": null, "timestamp": "00:42" }`,
+    `      ]`,
     `    }`,
     `  ],`,
     `  "modelUniqueIssues": [`,
     `    {`,
     `      "title": "Issue title",`,
     `      "reportedBy": "claude|gemini|gpt4o",`,
-    `      "severity": "P0|P1|P2",`,
+    `      "severity": "${severity}",`,
     `      "source": "app|test-infra",`,
     `      "description": "Description",`,
     `      "recommendation": "Recommendation",`,
-    `      "confidence": "low|medium|high"`,
+    `      "confidence": "low|medium|high",`,
+    `      "citations": [`,
+    `        { "persona": "persona1", "model": "claude", "quote": "Verbatim phrase from the analysis", "tile": 3, "timestamp": null }`,
+    `      ]`,
     `    }`,
     `  ],`,
     `  "disagreements": [`,
@@ -352,11 +766,11 @@ function buildSynthesisUserMessage(
     `}`,
     ``,
     `Rules:`,
-    `1. **Consensus Issues** = 2+ screenshot models flagged OR (screenshot + video confirmation)`,
+    `1. **Consensus Issues** = ${quorum.rule}`,
     `2. **Video-Only Issues** = Temporal problems ONLY caught by video (hesitation, timing, loading)`,
-    `3. **Model-Unique Issues** = Only 1 screenshot model flagged, not confirmed by video`,
+    `3. **Model-Unique Issues** = Flagged by screenshot models but short of the consensus rule above`,
     `4. **Disagreements** = Models actively contradict each other`,
-    `5. Prioritize P0 > P1 > P2 (P0 = ship blocker, P1 = first week, P2 = polish)`,
+    `5. Prioritize ${severities.map((level) => level.name).join(' > ')} (${severities.map((level) => `${level.name} = ${level.description}`).join(', ')})`,
     `6. When video confirms screenshot finding, explicitly note the temporal insight`,
     `7. **Source classification**: For each issue, classify as "app" or "test-infra":`,
     `   - "test-infra" = problems in test automation, not the product:`,
@@ -371,7 +785,9 @@ function buildSynthesisUserMessage(
     `   - Good: "[Modal] Overlay blocks navigation after Quick Assessment"`,
     `   - Good: "[Login] First-login redirect exceeds 6 seconds"`,
     `   - Bad: "Login performance exceeds acceptable thresholds" (too vague, no component bracket)`,
-  );
-
-  return parts.join('\n');
+    `9. **Citations**: For each issue, cite every analysis that supports it:`,
+    `   - "persona" and "model" as they appear in the analysis headings ("video" for video analyses)`,
+    `   - "quote": a short verbatim excerpt (under ~20 words) copied exactly from that analysis — quotes are checked against the raw analyses`,
+    `   - "tile": the screenshot tile number the finding refers to, or null; "timestamp": MM:SS for video findings, or null`,
+  ];
 }
@@ -39,8 +39,70 @@ export interface QuorumUXConfig {
 
   /** Optional: persona archetype IDs selected for this project */
   personas?: string[];
+
+  /** Optional: retry policy for model API calls */
+  retry?: RetryConfig;
+
+  /** Optional: concurrency limits for Stage 2 + 2b API calls */
+  concurrency?: ConcurrencyConfig;
+
+  /** Optional: hard spend cap per run in USD; the pipeline stops before exceeding it */
+  maxCostUSD?: number;
+
+  /** Optional: what counts as consensus between models (default: 2+ agreeing models) */
+  quorum?: QuorumConfig;
+
+  /**
+   * Optional: Stage 3 strategy (default: "auto").
+   * "map-reduce" synthesizes each persona separately, then merges the results;
+   * "auto" picks it when the single prompt would not fit the synthesis model's context.
+   */
+  synthesisMode?: SynthesisMode;
+
+  /** Optional: weights for the computed UX score (defaults in src/utils/scoring.ts) */
+  scoring?: ScoringConfig;
+
+  /** Optional: accepted issues to suppress (merged with quorumux.ignore.json) */
+  knownIssues?: KnownIssue[];
+
+  /** Optional: severity scale and issue categories (default: P0-P2 and the built-in categories) */
+  taxonomy?: TaxonomyConfig;
+
+  /** Optional: rules for `quorumux gate` (defaults in src/commands/gate.ts) */
+  gate?: GateConfig;
+
+  /** Optional: how issues are matched across runs (compare, gate, trend, baseline diff) */
+  matching?: MatchingConfig;
+}
+
+/** An issue severity: a level name from the project's severity scale (default "P0" | "P1" | "P2") */
+export type Severity = string;
+
+/** One level of a severity scale */
+export interface SeverityLevel {
+  /** Name used in issue titles and reports, e.g. "P0" or "Sev1" */
+  name: string;
+  /** What the level means; quoted to the synthesis model */
+  description: string;
+  /** Points an issue at this level deducts from the computed score at full evidence */
+  weight: number;
+}
+
+export interface TaxonomyConfig {
+  /** Severity levels, most severe first */
+  severities?: SeverityLevel[];
+  /** Allowed consensus issue categories */
+  categories?: string[];
+}
+
+/** A taxonomy with defaults filled in, as recorded in synthesis.json */
+export interface Taxonomy {
+  severities: SeverityLevel[];
+  categories: string[];
 }
 
+export type SynthesisMode = 'auto' | 'single' | 'map-reduce';
+
 export interface ModelConfig {
   /** Models used for screenshot analysis (Stage 2) */
   screenshot: ModelSpec[];
@@ -53,7 +115,10 @@ export interface ModelConfig {
 }
 
 export interface ModelSpec {
-  /** OpenRouter model ID (e.g., "anthropic/claude-sonnet-4.6") */
+  /**
+   * Model ID. An OpenRouter ID (e.g., "anthropic/claude-sonnet-4.6") by default,
+   * or the provider's native ID when `provider` is set (e.g., "claude-sonnet-4-6").
+   */
   id: string;
 
   /** Short name for display and JSON keys (e.g., "claude", "gemini") */
@@ -61,8 +126,30 @@ export interface ModelSpec {
 
   /** Optional: max tokens for response */
   maxTokens?: number;
+
+  /** Optional: API backend used for this model (default: "openrouter") */
+  provider?: ModelProviderName;
+
+  /** Optional: API base URL. Required for "openai-compatible" (e.g., "http://localhost:11434/v1") */
+  baseUrl?: string;
+
+  /** Optional: environment variable holding the API key (overrides the provider default) */
+  apiKeyEnv?: string;
+
+  /** Optional: context window in tokens (overrides the built-in capabilities table) */
+  contextWindow?: number;
 }
 
+/**
+ * Supported model API backends.
+ * - openrouter: OpenRouter chat completions (default)
+ * - anthropic: Anthropic Messages API (ANTHROPIC_API_KEY)
+ * - openai: OpenAI chat completions (OPENAI_API_KEY)
+ * - gemini: Google Gemini generateContent API (GEMINI_API_KEY)
+ * - openai-compatible: Any OpenAI-style server such as vLLM, Ollama, or LM Studio
+ */
+export type ModelProviderName = 'openrouter' | 'anthropic' | 'openai' | 'gemini' | 'openai-compatible';
+
 export interface VideoConfig {
   /** Max video file size in MB before skipping (default: 20) */
   maxSizeMB?: number;
@@ -71,6 +158,120 @@ export interface VideoConfig {
   frameRate?: number;
 }
 
+export interface RetryConfig {
+  /** Max retries per call after the first attempt (default: 3, 0 disables retries) */
+  maxRetries?: number;
+
+  /** Base delay for exponential backoff in ms (default: 1000) */
+  baseDelayMs?: number;
+
+  /** Max delay between attempts in ms, also caps Retry-After (default: 60000) */
+  maxDelayMs?: number;
+}
+
+export interface ConcurrencyConfig {
+  /** Max in-flight API calls across Stage 2 and 2b combined (default: 8) */
+  global?: number;
+
+  /** Max in-flight API calls per model (default: 3) */
+  perModel?: number;
+}
+
+export type QuorumMode = 'min-models' | 'majority' | 'unanimous' | 'weighted';
+
+export interface QuorumConfig {
+  /**
+   * How agreement is counted (default: "min-models"):
+   * - "min-models": at least `minModels` votes
+   * - "majority": more than half of the voters
+   * - "unanimous": every voter
+   * - "weighted": summed trust `weights` of the voters reach `minWeight`
+   */
+  mode?: QuorumMode;
+
+  /** Votes required in "min-models" mode (default: 2) */
+  minModels?: number;
+
+  /** Trust weight per screenshot model, keyed by model id or name (default: 1 each; "video" sets the video vote's weight) */
+  weights?: Record<string, number>;
+
+  /** Total weight required in "weighted" mode (required for that mode) */
+  minWeight?: number;
+
+  /** Whether video confirmation counts as a vote (default: true) */
+  videoCountsAsVote?: boolean;
+
+  /** Successful screenshot models a persona needs to be included in synthesis (default: 1) */
+  minModelsPerPersona?: number;
+}
+
+export interface ScoringConfig {
+  /** Points deducted per issue at full evidence, by severity name (default: the taxonomy's weights) */
+  severityWeights?: Record<string, number>;
+
+  /** Evidence multiplier by issue type (default: consensus 1, videoOnly 0.7, modelUnique 0.4) */
+  evidenceWeights?: Partial<Record<'consensus' | 'videoOnly' | 'modelUnique', number>>;
+
+  /**
+   * How much the affected-persona ratio scales a deduction, 0-1 (default: 0.5).
+   * At 0.5, an issue seen by one of four personas deducts 62.5% of its weight.
+   */
+  personaWeight?: number;
+
+  /** Points deducted at a 100% fail or friction step rate in the test summaries (default: fail 30, friction 10) */
+  testResultWeights?: Partial<Record<'fail' | 'friction', number>>;
+
+  /** Weight of test-infra issues in the adjusted score, 0-1 (default: 0.25) */
+  testInfraDiscount?: number;
+}
+
+/** Quality gate rules; each one that is set is checked */
+export interface GateConfig {
+  /** Fail when the run has new (unsuppressed) issues at these severities, e.g. ["P0"] */
+  failOnNewSeverities?: Severity[];
+
+  /** Fail when the score drops by more than this many points from the baseline */
+  maxScoreDrop?: number;
+
+  /** Fail when an issue present in both runs got more severe */
+  failOnRegressions?: boolean;
+
+  /** Fail when the adjusted score (the score if there is none) is below this */
+  minAdjustedScore?: number;
+
+  /** Fail when the synthesis rates the run's launch readiness as one of these */
+  failOnReadiness?: Array<OverallAssessment['launchReadiness']>;
+}
+
+/** Cross-run issue matching settings */
+export interface MatchingConfig {
+  /**
+   * Extra synonyms, word → replacement, applied to titles and descriptions
+   * on top of the built-ins, e.g. { paywall: 'upgrade', cta: 'button' }
+   */
+  synonyms?: Record<string, string>;
+}
+
+/** An accepted ("won't fix") issue, matched by stable ID or title pattern */
+export interface KnownIssue {
+  /** Stable issue ID (QUX-xxxxxxxx) */
+  id?: string;
+  /** Case-insensitive regular expression tested against issue titles */
+  pattern?: string;
+  /** Why the issue is accepted */
+  reason: string;
+  /** Last day the suppression applies (YYYY-MM-DD); omit for no expiry */
+  expires?: string;
+}
+
+/** Why an issue was suppressed */
+export interface IssueSuppression {
+  reason: string;
+  expires?: string;
+  /** The known-issue entry that matched: the ID or the pattern */
+  matchedBy: string;
+}
+
 // ─── Artifacts & Directory Structure ─────────────────────────────────────────
 
 /**
@@ -88,7 +289,9 @@ export interface VideoConfig {
  *     ├── all-analyses-raw.json                   (generated by Stage 2)
  *     ├── all-video-analyses-raw.json             (generated by Stage 2b)
  *     ├── synthesis.json                          (generated by Stage 3)
+ *     ├── synthesis-raw.txt                       (generated by Stage 3)
  *     ├── ux-analysis-report.md                   (generated by Stage 4)
+ *     ├── ux-analysis-report.html                 (generated by Stage 4)
  *     └── github-issues.md                        (generated by Stage 4)
  */
 
@@ -158,6 +361,40 @@ export interface ScreenshotAnalysis {
     completion: number;
     total: number;
   };
+  /** Retries needed for this call (0 = first attempt succeeded) */
+  retries?: number;
+  /** Total ms spent waiting between retries */
+  retryWaitMs?: number;
+  /** Validated JSON findings parsed from `analysis` */
+  structured?: StructuredScreenshotAnalysis;
+  /** Why `analysis` could not be parsed into `structured` */
+  structuredError?: string;
+}
+
+export type FindingSeverity = 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+/** One issue reported by a screenshot model (Stage 2 JSON schema) */
+export interface ScreenshotFinding {
+  severity: FindingSeverity;
+  category: string;
+  /** Where in the flow / which screen */
+  location: string;
+  /** 1-based grid tile (left-to-right, top-to-bottom), or null if not tied to one tile */
+  tileIndex: number | null;
+  description: string;
+  recommendation: string;
+}
+
+export interface StructuredScreenshotAnalysis {
+  findings: ScreenshotFinding[];
+  /** Overall UX score, 1-10 */
+  uxScore: number;
+  frictionPoints: string[];
+  strengths: string[];
+  wouldReturn: {
+    verdict: 'yes' | 'no' | 'maybe';
+    reasoning: string;
+  };
 }
 
 export interface VideoAnalysis {
@@ -169,6 +406,10 @@ export interface VideoAnalysis {
   videoSizeMB: number;
   analysis: string;
   error?: string;
+  /** Retries needed for this call (0 = first attempt succeeded) */
+  retries?: number;
+  /** Total ms spent waiting between retries */
+  retryWaitMs?: number;
 }
 
 // ─── Synthesis Output (Stage 3) ──────────────────────────────────────────────
@@ -186,12 +427,123 @@ export interface Synthesis {
   modelUniqueIssues: ModelUniqueIssue[];
   disagreements: Disagreement[];
   overallAssessment: OverallAssessment;
+  /** Local check of consensus claims against the raw Stage 2/2b findings */
+  consensusCheck?: ConsensusCheckSummary;
+  /** Quorum policy the synthesis was classified under */
+  quorum?: QuorumRecord;
+  /** Local check of issue citations against the raw analyses */
+  citationCheck?: {
+    total: number;
+    verified: number;
+  };
+  /** How the computed UX score was derived (absent in syntheses that predate it) */
+  scoreBreakdown?: ScoreBreakdown;
+  /** Per-persona sub-scores and evidence, written by Stage 3 */
+  personaScorecards?: PersonaScorecard[];
+  /** Critical path items dropped because they named a suppressed issue */
+  suppressedCriticalPath?: string[];
+  /** Severity scale and categories the synthesis was produced under (P0-P2 when absent) */
+  taxonomy?: Taxonomy;
+  /** Set when Stage 3 synthesized per persona and merged the results */
+  mapReduce?: {
+    personas: string[];
+    /**
+     * "prompt-size" when chosen automatically because the single prompt was
+     * too large, "configured" when `synthesisMode: 'map-reduce'` forced it
+     * (absent in older runs)
+     */
+    reason?: 'prompt-size' | 'configured';
+    /** Estimated tokens of the single-call prompt */
+    estimatedPromptTokens: number;
+    /** Prompt budget from the synthesis model's context window */
+    promptLimitTokens: number;
+  };
+}
+
+/** One line of the computed score: what was deducted and why */
+export interface ScoreComponent {
+  label: string;
+  count: number;
+  points: number;
+}
+
+/** Deterministic UX score with its inputs, written by Stage 3 */
+export interface ScoreBreakdown {
+  /** 100 minus all deductions, clamped to 0-100 */
+  score: number;
+  /** Score with test-infra issues discounted (absent when there are none) */
+  adjustedScore?: number;
+  /** Personas the affected-persona ratio is computed against */
+  personaCount: number;
+  /** Step counts summed over the test summaries */
+  testResults: { pass: number; friction: number; fail: number };
+  components: ScoreComponent[];
+}
+
+/** One persona's view of the run: sub-score, model scores, test results and issues */
+export interface PersonaScorecard {
+  persona: string;
+  /** Computed score over this persona's issues and test results */
+  score: number;
+  /** Stage 2 score (1-10) per screenshot model; null when the response wasn't structured */
+  modelScores: Array<{ model: string; score: number | null }>;
+  /** Overall temporal UX score (1-10) from the video analyses, averaged; null if none parsed */
+  videoScore: number | null;
+  /** From the persona's test summary, when there is one */
+  testResults?: { pass: number; friction: number; fail: number; totalSteps: number };
+  flowScores?: Record<string, number>;
+  topFrictionPoint?: string;
+  retentionAssessment?: string;
+  /** Issues that name this persona */
+  issues: Array<{ id?: string; title: string; severity: Severity; type: ReportJSONIssue['type'] }>;
+}
+
+/** The quorum policy applied to one synthesis, with defaults filled in */
+export interface QuorumRecord {
+  mode: QuorumMode;
+  /** Votes (or weight, in "weighted" mode) an issue needs to be consensus */
+  required: number;
+  /** Screenshot models with at least one successful analysis */
+  voters: string[];
+  /** Trust weights per voter ("weighted" mode only) */
+  weights?: Record<string, number>;
+  videoCountsAsVote: boolean;
+  minModelsPerPersona: number;
+  /** Personas left out of synthesis for having too few successful models */
+  excludedPersonas: string[];
+  /** The rule as given to the synthesis model */
+  rule: string;
+}
+
+export interface ConsensusCheckSummary {
+  /** Findings extracted from the raw analyses */
+  findings: number;
+  /** Clusters of similar findings */
+  clusters: number;
+  verified: number;
+  partial: number;
+  /** Consensus issues moved to modelUniqueIssues for lack of support */
+  demoted: number;
+}
+
+/** How a consensus issue compares with the locally clustered raw findings */
+export interface ConsensusVerification {
+  /** verified: all claims supported; partial: enough support, but some claimed models had no matching finding */
+  status: 'verified' | 'partial';
+  /** Screenshot models with a matching raw finding */
+  supportingModels: string[];
+  /** Claimed `evidence.screenshotModels` with no matching raw finding */
+  unsupportedClaims: string[];
+  /** Personas with a matching raw finding */
+  supportingPersonas: string[];
+  /** A video analysis describes the issue */
+  videoSupported: boolean;
 }
 
 export interface ConsensusIssue {
   id: string;
   title: string;
-  severity: 'P0' | 'P1' | 'P2';
+  severity: Severity;
   category: string;
   description: string;
   evidence: {
@@ -207,30 +559,66 @@ export interface ConsensusIssue {
   source?: 'app' | 'test-infra';
   /** Ordinal display counter (replaces model-generated sequential IDs) */
   index?: number;
+  /** Set when the consensus claim was checked against raw findings */
+  verification?: ConsensusVerification;
+  citations?: IssueCitation[];
+  /** "suppressed" when the issue matches a known-issue entry */
+  status?: 'suppressed';
+  suppression?: IssueSuppression;
 }
 
 export interface VideoOnlyIssue {
   id: string;
   title: string;
-  severity: 'P0' | 'P1' | 'P2';
+  severity: Severity;
   description: string;
   timestamp: string;
   persona: string;
   recommendation: string;
   source?: 'app' | 'test-infra';
   index?: number;
+  citations?: IssueCitation[];
+  /** "suppressed" when the issue matches a known-issue entry */
+  status?: 'suppressed';
+  suppression?: IssueSuppression;
 }
 
 export interface ModelUniqueIssue {
   id: string;
   title: string;
   reportedBy: string;
-  severity: 'P0' | 'P1' | 'P2';
+  severity: Severity;
   description: string;
   recommendation: string;
   confidence: 'low' | 'medium' | 'high';
   source?: 'app' | 'test-infra';
   index?: number;
+  /** Set when the synthesis model called this consensus but raw findings didn't support it */
+  demotedFrom?: {
+    claimedModels: string[];
+    supportingModels: string[];
+  };
+  citations?: IssueCitation[];
+  /** "suppressed" when the issue matches a known-issue entry */
+  status?: 'suppressed';
+  suppression?: IssueSuppression;
+}
+
+/** Where an issue was reported: one persona × model analysis, quoted */
+export interface IssueCitation {
+  persona: string;
+  /** Screenshot model name, or the video model */
+  model: string;
+  /** Short verbatim quote from the raw analysis */
+  quote: string;
+  /** 1-based screenshot grid tile the quote refers to */
+  tile?: number | null;
+  /** MM:SS in the persona's video */
+  timestamp?: string | null;
+  /** Screenshot file for `tile`, relative to the run directory (set by the citation check) */
+  screenshot?: string;
+  /** Whether the quote was found in the cited analysis (set by the citation check) */
+  verified?: boolean;
 }
 
 export interface Disagreement {
@@ -240,7 +628,10 @@ export interface Disagreement {
 }
 
 export interface OverallAssessment {
+  /** Computed score (see scoreBreakdown); the synthesis model's own score in older runs */
   uxScore: number;
+  /** The synthesis model's own score, kept when uxScore is computed */
+  analystScore?: number;
   launchReadiness: 'ready' | 'ready-with-caveats' | 'not-ready';
   topStrengths: string[];
   criticalPath: string[];
@@ -273,7 +664,7 @@ export interface ReportJSONIssue {
   type: 'consensus' | 'video-only' | 'model-unique';
   id: string;
   title: string;
-  severity: 'P0' | 'P1' | 'P2';
+  severity: Severity;
   description: string;
   recommendation: string;
   /** Only present for consensus issues */
@@ -281,14 +672,19 @@ export interface ReportJSONIssue {
   effort?: 'low' | 'medium' | 'high';
   evidence?: ConsensusIssue['evidence'];
   temporalInsight?: string | null;
+  verification?: ConsensusVerification;
   /** Only present for video-only issues */
   timestamp?: string;
   persona?: string;
   /** Only present for model-unique issues */
   reportedBy?: string;
   confidence?: 'low' | 'medium' | 'high';
+  demotedFrom?: ModelUniqueIssue['demotedFrom'];
+  citations?: IssueCitation[];
   /** Issue source classification */
   source?: 'app' | 'test-infra';
+  status?: 'suppressed';
+  suppression?: IssueSuppression;
   /** Ordinal display counter */
   index?: number;
 }
@@ -298,6 +694,10 @@ export interface ReportJSON {
   generatedAt: string;
   projectName: string;
   score: number;
+  /** The synthesis model's own score, when `score` was computed */
+  analystScore?: number;
+  scoreBreakdown?: ScoreBreakdown;
+  personaScorecards?: PersonaScorecard[];
   /** Adjusted score with test-infra issues discounted (undefined if no test-infra issues) */
   adjustedScore?: number;
   launchReadiness: 'ready' | 'ready-with-caveats' | 'not-ready';
@@ -307,10 +707,190 @@ export interface ReportJSON {
   personas: string[];
   topStrengths: string[];
   criticalPath: string[];
+  quorum?: QuorumRecord;
+  consensusCheck?: ConsensusCheckSummary;
+  citationCheck?: Synthesis['citationCheck'];
+  /** Exact counts from structured Stage 2 findings (absent if no analysis was structured) */
+  screenshotFindings?: {
+    total: number;
+    bySeverity: Record<FindingSeverity, number>;
+    byCategory: Record<string, number>;
+    structuredAnalyses: number;
+    unstructuredAnalyses: number;
+  };
+}
+
+// ─── Pipeline State (reports/pipeline-state.json) ────────────────────────────
+
+export interface PipelineState {
+  version: number;
+  updatedAt: string;
+  status: 'running' | 'stopped' | 'complete';
+  /** Why the run stopped early */
+  stopReason?: string;
+  /** First stage that did not finish (resume point) */
+  resumeStage: number;
+  budget?: {
+    maxCostUSD: number;
+    spentUSD: number;
+  };
+  /** Units with a successful result on disk */
+  completed: {
+    /** `persona:modelId` keys from all-analyses-raw.json */
+    screenshots: string[];
+    /** `persona/video` keys from all-video-analyses-raw.json */
+    videos: string[];
+    synthesis: boolean;
+  };
+}
+
+// ─── Issue Registry ({artifactsDir}/issues-db.json) ─────────────────────────
+
+/** One issue as it appeared in a registered run */
+export interface IssueSighting {
+  id: string;
+  title: string;
+  severity: Severity;
+  type: 'consensus' | 'video-only' | 'model-unique';
+  suppressed?: boolean;
+  /** Registry ID the issue is tracked under when the previous run reported it under another ID */
+  recordId?: string;
+}
+
+/** A run recorded in the registry, with the issues it reported */
+export interface RegisteredRun {
+  runId: string;
+  /** synthesisDate of the run (YYYY-MM-DD) */
+  date: string;
+  issues: IssueSighting[];
+}
+
+/** An issue's history across every registered run */
+export interface IssueRecord {
+  id: string;
+  /** Title and type as last reported */
+  title: string;
+  type: IssueSighting['type'];
+  /** Current severity (last entry of severityHistory) */
+  severity: Severity;
+  status: 'open' | 'resolved' | 'suppressed';
+  firstSeen: string;
+  lastSeen: string;
+  /** Number of registered runs that reported the issue */
+  occurrences: number;
+  /** The severity in the first run, then each change */
+  severityHistory: Array<{ runId: string; severity: Severity }>;
+  /** Run where the issue stopped being reported (set while resolved) */
+  resolvedIn?: string;
+  /** Start of the current unresolved streak (first seen, or the latest reopen) */
+  openSince?: string;
+  /** Runs where a resolved issue came back, and the run it had been resolved in */
+  reopened: Array<{ runId: string; resolvedIn: string }>;
+  /** Later IDs the issue was reported under after a rewording, oldest first */
+  aliases?: string[];
+}
+
+export interface IssueDatabase {
+  version: number;
+  updatedAt: string;
+  /** Registered runs, oldest first */
+  runs: RegisteredRun[];
+  /** Derived from `runs`, oldest first */
+  issues: IssueRecord[];
+}
+
+// ─── Programmatic API (runPipeline) ─────────────────────────────────────────
+
+export interface StageCost {
+  stage: string;
+  costUSD: number;
+  /** Billed API calls */
+  calls: number;
+  /** Calls answered from the response cache or a cassette */
+  cachedCalls: number;
+  elapsedMs?: number;
+}
+
+export interface CostBreakdown {
+  totalUSD: number;
+  /** What cache hits would have cost */
+  savedUSD: number;
+  tokens: {
+    prompt: number;
+    completion: number;
+  };
+  stages: StageCost[];
+}
+
+export interface ReportPaths {
+  markdown: string;
+  githubIssues: string;
+  json: string;
+  /** Standalone HTML report with embedded screenshots */
+  html: string;
+}
+
+export interface PipelineResult {
+  /** "stopped" when the budget cap ended the run early */
+  status: 'complete' | 'stopped';
+  stopReason?: string;
+  runDir: string;
+  /** Stages selected for this run */
+  stages: PipelineStage[];
+  /** Synthesis on disk after the run (null if none exists) */
+  synthesis: Synthesis | null;
+  /** Report files, when Stage 4 ran */
+  reports?: ReportPaths;
+  cost: CostBreakdown;
+  elapsedMs: number;
+  /** Path to reports/pipeline-state.json */
+  statePath: string;
+}
+
+export interface StageStartEvent {
+  stage: PipelineStage;
+}
+
+export interface StageEndEvent {
+  stage: PipelineStage;
+  elapsedMs: number;
+}
+
+export interface CallCompleteEvent {
+  stage: PipelineStage;
+  model: string;
+  modelId: string;
+  /** Persona analyzed (Stages 2 and 2b) */
+  persona?: string;
+  /** Video file analyzed (Stage 2b) */
+  videoPath?: string;
+  cached: boolean;
+  usage?: { prompt: number; completion: number; total: number };
+  /** Billed cost of the call ($0 when cached) */
+  costUSD: number;
+  retries?: number;
+  /** Set when the call failed after retries */
+  error?: string;
+}
+
+export type IssueFoundEvent =
+  | { kind: 'consensus'; issue: ConsensusIssue }
+  | { kind: 'video-only'; issue: VideoOnlyIssue }
+  | { kind: 'model-unique'; issue: ModelUniqueIssue };
+
+/** Events emitted by runPipeline, keyed by name with their listener arguments */
+export interface PipelineEventMap {
+  'stage:start': [StageStartEvent];
+  'stage:end': [StageEndEvent];
+  'call:complete': [CallCompleteEvent];
+  'issue:found': [IssueFoundEvent];
 }
 
 // ─── CLI Options ─────────────────────────────────────────────────────────────
 
+/** Pipeline stage identifiers; Stage 2b (video) runs alongside Stage 2 */
+export type PipelineStage = '1' | '2' | '2b' | '3' | '4';
+
 export interface PipelineOptions {
   /** Path to quorumux.config.ts */
   config: string;
@@ -321,8 +901,8 @@ export interface PipelineOptions {
   /** Stage to start from (1-4, default: 1) */
   startStage?: number;
 
-  /** Only run specific stages */
-  stages?: number[];
+  /** Only run these stages (overrides startStage and skipVideo) */
+  stages?: PipelineStage[];
 
   /** Skip video analysis */
   skipVideo?: boolean;
@@ -335,4 +915,22 @@ export interface PipelineOptions {
 
   /** Override output directory for reports (default: {runDir}/reports/) */
   outputDir?: string;
+
+  /** Bypass the response cache entirely */
+  noCache?: boolean;
+
+  /** Ignore cached responses but write fresh ones */
+  refreshCache?: boolean;
+
+  /** Record every model request/response to {runDir}/cassette.json */
+  record?: boolean;
+
+  /** Replay model responses from this cassette file (no network, no API key) */
+  replay?: string;
+
+  /** Hard spend cap in USD (overrides config.maxCostUSD) */
+  budget?: number;
+
+  /** Resume from reports/pipeline-state.json, skipping finished units */
+  resume?: boolean;
 }
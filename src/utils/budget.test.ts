@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Budget, BudgetExceededError, estimatePromptTokens, projectCallCost, settleWithinBudget } from './budget.js';
+import type { ChatRequest } from '../models/provider.js';
+
+// Opus pricing: $15 in / $75 out per 1M tokens
+const opus = { id: 'anthropic/claude-opus-4.5', name: 'Opus' };
+
+function textRequest(chars: number, maxTokens: number): ChatRequest {
+  return { messages: [{ role: 'user', content: 'x'.repeat(chars) }], maxTokens };
+}
+
+describe('estimatePromptTokens', () => {
+  it('counts ~4 characters per token of text', () => {
+    expect(estimatePromptTokens(textRequest(4000, 100))).toBe(1000);
+  });
+
+  it('adds a flat allowance per image and video', () => {
+    const request: ChatRequest = {
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'abcd' },
+            { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,AAAA' } },
+            { type: 'image_url', image_url: { url: 'data:video/webm;base64,AAAA' } },
+          ],
+        },
+      ],
+    };
+    expect(estimatePromptTokens(request)).toBe(1 + 1600 + 10000);
+  });
+});
+
+describe('projectCallCost', () => {
+  it('assumes the full maxTokens of output', () => {
+    // 1000 in × $15/M + 8000 out × $75/M
+    expect(projectCallCost(opus, textRequest(4000, 8000))).toBeCloseTo(0.615, 6);
+  });
+});
+
+describe('Budget', () => {
+  it('allows calls that fit and counts in-flight reservations', () => {
+    const budget = new Budget(1);
+    budget.reserve(opus, textRequest(4000, 8000)); // ~$0.615 pending
+    expect(() => budget.reserve(opus, textRequest(4000, 8000))).toThrow(BudgetExceededError);
+  });
+
+  it('settles reservations to actual spend', () => {
+    const budget = new Budget(1);
+    const reserved = budget.reserve(opus, textRequest(4000, 8000));
+    budget.settle(reserved, opus.id, { prompt: 1000, completion: 1000 });
+    expect(budget.spentUSD).toBeCloseTo(0.09, 6);
+    // Actual spend was low, so another worst-case call fits
+    expect(() => budget.reserve(opus, textRequest(4000, 8000))).not.toThrow();
+  });
+
+  it('refuses every call once the cap has been hit', () => {
+    const budget = new Budget(1);
+    expect(() => budget.reserve(opus, textRequest(4000, 20000))).toThrow(BudgetExceededError);
+    expect(budget.isExceeded).toBe(true);
+    expect(() => budget.reserve(opus, textRequest(4, 1))).toThrow(BudgetExceededError);
+  });
+
+  it('reports the cap and projection in the error', () => {
+    const budget = new Budget(0.5);
+    try {
+      budget.reserve(opus, textRequest(4000, 8000));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(BudgetExceededError);
+      expect((err as BudgetExceededError).maxCostUSD).toBe(0.5);
+      expect((err as Error).message).toContain('Budget of $0.50 reached: Opus call projected at ~$0.6150');
+    }
+  });
+});
+
+describe('settleWithinBudget', () => {
+  it('keeps completed results and returns the budget stop', async () => {
+    const stop = new BudgetExceededError(1, 1, 0.5);
+    const { results, budgetError } = await settleWithinBudget([
+      Promise.resolve('a'),
+      Promise.reject(stop),
+      Promise.resolve('c'),
+    ]);
+    expect(results).toEqual(['a', 'c']);
+    expect(budgetError).toBe(stop);
+  });
+
+  it('rethrows other failures', async () => {
+    await expect(settleWithinBudget([Promise.resolve(1), Promise.reject(new Error('boom'))])).rejects.toThrow('boom');
+  });
+});
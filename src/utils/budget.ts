@@ -0,0 +1,134 @@
+/**
+ * QuorumUX — Hard Budget Cap
+ *
+ * Projects the cost of each billed model call from getPricing before it is
+ * sent, assuming the full `maxTokens` of output. A call whose projection would
+ * push spend (settled + in-flight) over the cap is refused with
+ * BudgetExceededError, and every call after it is refused too, so the
+ * pipeline stops instead of overspending.
+ */
+
+import type { ModelSpec } from '../types.js';
+import type { ChatRequest, ContentPart } from '../models/provider.js';
+import { tokenCost } from './costs.js';
+
+/** Rough prompt tokens for one attached image (screenshot grid) */
+const IMAGE_TOKENS = 1600;
+
+/** Rough prompt tokens for one attached video */
+const VIDEO_TOKENS = 10000;
+
+/** Output tokens assumed when a request sets no maxTokens */
+const DEFAULT_COMPLETION_TOKENS = 4000;
+
+/**
+ * Raised when a model call would exceed the configured budget.
+ * Pipeline stages keep their completed results and rethrow it.
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly maxCostUSD: number,
+    public readonly spentUSD: number,
+    public readonly projectedUSD: number,
+    modelName?: string
+  ) {
+    super(
+      modelName
+        ? `Budget of $${maxCostUSD.toFixed(2)} reached: ${modelName} call projected at ~$${projectedUSD.toFixed(4)} ` +
+            `with $${spentUSD.toFixed(4)} already committed`
+        : `Budget of $${maxCostUSD.toFixed(2)} reached with $${spentUSD.toFixed(4)} committed`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Estimate prompt tokens for a request: ~4 characters per text token plus a
+ * flat allowance per attached image or video.
+ */
+export function estimatePromptTokens(request: ChatRequest): number {
+  let tokens = 0;
+  for (const message of request.messages) {
+    const parts: ContentPart[] = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : message.content;
+    for (const part of parts) {
+      if (part.type === 'text') {
+        tokens += Math.ceil(part.text.length / 4);
+      } else {
+        tokens += part.image_url.url.startsWith('data:video/') ? VIDEO_TOKENS : IMAGE_TOKENS;
+      }
+    }
+  }
+  return tokens;
+}
+
+/** Worst-case cost of a request: estimated prompt plus the full output allowance */
+export function projectCallCost(spec: ModelSpec, request: ChatRequest): number {
+  return tokenCost(spec.id, estimatePromptTokens(request), request.maxTokens ?? DEFAULT_COMPLETION_TOKENS);
+}
+
+export class Budget {
+  private spent = 0;
+  private pending = 0;
+  private exceeded = false;
+
+  constructor(public readonly maxCostUSD: number) {}
+
+  /**
+   * Reserve the projected cost of a call. Returns the reserved amount, to be
+   * passed to settle() once the call finishes.
+   *
+   * @throws BudgetExceededError if the call would go over the cap, or the cap was already hit
+   */
+  reserve(spec: ModelSpec, request: ChatRequest): number {
+    const projected = projectCallCost(spec, request);
+    if (this.exceeded || this.spent + this.pending + projected > this.maxCostUSD) {
+      this.exceeded = true;
+      throw new BudgetExceededError(this.maxCostUSD, this.spent + this.pending, projected, spec.name);
+    }
+    this.pending += projected;
+    return projected;
+  }
+
+  /** Release a reservation and add the call's actual cost (none if it failed) */
+  settle(reserved: number, modelId: string, usage?: { prompt: number; completion: number }): void {
+    this.pending = Math.max(0, this.pending - reserved);
+    if (usage) this.spent += tokenCost(modelId, usage.prompt, usage.completion);
+  }
+
+  /** Actual spend settled so far */
+  get spentUSD(): number {
+    return this.spent;
+  }
+
+  /** Whether a call has been refused */
+  get isExceeded(): boolean {
+    return this.exceeded;
+  }
+}
+
+/**
+ * Await queued stage calls, keeping every completed result when the budget
+ * stops the run. Other rejections are rethrown; a budget stop is returned so
+ * the stage can save its partial output before rethrowing it.
+ */
+export async function settleWithinBudget<T>(
+  promises: Array<Promise<T>>
+): Promise<{ results: T[]; budgetError?: BudgetExceededError }> {
+  const settled = await Promise.allSettled(promises);
+  const results: T[] = [];
+  let budgetError: BudgetExceededError | undefined;
+
+  for (const outcome of settled) {
+    if (outcome.status === 'fulfilled') {
+      results.push(outcome.value);
+    } else if (outcome.reason instanceof BudgetExceededError) {
+      budgetError ??= outcome.reason;
+    } else {
+      throw outcome.reason;
+    }
+  }
+
+  return { results, budgetError };
+}
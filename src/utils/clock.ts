@@ -0,0 +1,24 @@
+/**
+ * QuorumUX — Pipeline Clock
+ *
+ * Single source of "now" for dates that end up in prompts and reports.
+ * Replay mode pins it to the cassette's recording time so prompts (and thus
+ * request keys) and report timestamps reproduce exactly.
+ */
+
+let fixedNow: Date | null = null;
+
+/** Pin the clock to a fixed date, or pass null to follow the system clock */
+export function setClock(date: Date | null): void {
+  fixedNow = date;
+}
+
+/** Current pipeline time */
+export function now(): Date {
+  return fixedNow ? new Date(fixedNow.getTime()) : new Date();
+}
+
+/** Current pipeline date as YYYY-MM-DD */
+export function today(): string {
+  return now().toISOString().split('T')[0];
+}
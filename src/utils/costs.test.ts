@@ -63,6 +63,18 @@ describe('CostTracker', () => {
     expect(tracker.totalCost()).toBe(0);
   });
 
+  it('cache hits cost $0 and count as savings', () => {
+    const tracker = new CostTracker();
+    const usage = { prompt: 1_000_000, completion: 1_000_000, total: 2_000_000 };
+    tracker.record('Stage 2', 'anthropic/claude-sonnet-4.6', usage);
+    tracker.record('Stage 2', 'anthropic/claude-sonnet-4.6', usage, true);
+    expect(tracker.totalCost()).toBe(18);
+    expect(tracker.savedCost()).toBe(18);
+    const joined = tracker.formatSummary().join('\n');
+    expect(joined).toContain('1 API call, 1 cached');
+    expect(joined).toContain('saved ~$18.0000');
+  });
+
   it('formatSummary returns empty array when no records', () => {
     const tracker = new CostTracker();
     expect(tracker.formatSummary()).toEqual([]);
@@ -104,6 +116,24 @@ describe('CostTracker.estimateDryRun', () => {
     expect(joined).toContain('Stage 3');
   });
 
+  it('limits the estimate to the selected stages', () => {
+    const include = { screenshot: false, synthesis: false };
+    const joined = CostTracker.estimateDryRun(screenshotModels, videoModel, synthesisModel, 3, 2, false, include).join('\n');
+    expect(joined).toContain('Stage 2b');
+    expect(joined).not.toContain('Stage 2 —');
+    expect(joined).not.toContain('Stage 3');
+    expect(joined).toContain('Total: 2 API calls');
+  });
+
+  it('prices map-reduce synthesis as a call per persona plus the merge', () => {
+    const include = { screenshot: false, synthesis: true, synthesisCalls: 4 };
+    const joined = CostTracker.estimateDryRun(screenshotModels, videoModel, synthesisModel, 3, 2, true, include).join('\n');
+    expect(joined).toContain('4 API calls (map-reduce: 3 personas + merge)');
+    expect(joined).toContain('Total: 4 API calls');
+    expect(CostTracker.estimateDryRunTotal(screenshotModels, videoModel, synthesisModel, 3, 2, true, include))
+      .toBeGreaterThan(CostTracker.estimateSynthesis(synthesisModel));
+  });
+
   it('skipVideo produces "skipped" line', () => {
     const lines = CostTracker.estimateDryRun(screenshotModels, videoModel, synthesisModel, 3, 2, true);
     const joined = lines.join('\n');
@@ -1,10 +1,13 @@
 /**
  * QuorumUX — Cost Tracking & Estimation
  *
- * Tracks actual token usage from OpenRouter responses, calculates costs
- * per stage, and provides dry-run estimates.
+ * Tracks actual token usage from model responses, calculates costs
+ * per stage, and provides dry-run estimates. Cache hits cost $0 and are
+ * tallied separately as savings.
  */
 
+import type { CostBreakdown, StageCost } from '../types.js';
+
 // ─── Pricing ─────────────────────────────────────────────────────────────────
 
 export interface ModelPricing {
@@ -34,7 +37,8 @@ export function getPricing(modelId: string): ModelPricing {
   return { input: 5, output: 15 };
 }
 
-function tokenCost(modelId: string, prompt: number, completion: number): number {
+/** Cost in USD of a call with the given token counts */
+export function tokenCost(modelId: string, prompt: number, completion: number): number {
   const pricing = getPricing(modelId);
   return (prompt * pricing.input + completion * pricing.output) / 1_000_000;
 }
@@ -48,6 +52,14 @@ const ESTIMATES = {
   synthesis:  { input: 50000, output: 6000 },
 };
 
+/** Which stages a dry-run estimate covers */
+export interface DryRunInclude {
+  screenshot: boolean;
+  synthesis: boolean;
+  /** Stage 3 calls: 1, or one per persona plus the merge for map-reduce (default 1) */
+  synthesisCalls?: number;
+}
+
 // ─── Cost Tracker ────────────────────────────────────────────────────────────
 
 interface UsageRecord {
@@ -55,6 +67,8 @@ interface UsageRecord {
   modelId: string;
   prompt: number;
   completion: number;
+  /** Served from the response cache — counted as savings, not spend */
+  cached: boolean;
 }
 
 interface StageTiming {
@@ -66,17 +80,28 @@ export class CostTracker {
   private records: UsageRecord[] = [];
   private timings = new Map<string, StageTiming>();
 
-  /** Record actual token usage from an API call */
-  record(stage: string, modelId: string, usage?: { prompt: number; completion: number; total: number }): void {
+  /** Record actual token usage from an API call (or a cache hit, at $0) */
+  record(
+    stage: string,
+    modelId: string,
+    usage?: { prompt: number; completion: number; total: number },
+    cached = false
+  ): void {
     if (!usage) return;
     this.records.push({
       stage,
       modelId,
       prompt: usage.prompt,
       completion: usage.completion,
+      cached,
     });
   }
 
+  /** Records that were billed (not served from cache) */
+  private billed(): UsageRecord[] {
+    return this.records.filter((r) => !r.cached);
+  }
+
   /** Mark stage start for timing */
   stageStart(stage: string): void {
     this.timings.set(stage, { start: Date.now() });
@@ -88,88 +113,159 @@ export class CostTracker {
     if (timing) timing.end = Date.now();
   }
 
-  /** Get elapsed time string for a stage */
-  private stageElapsed(stage: string): string {
+  /** Elapsed milliseconds for a finished stage */
+  private stageElapsedMs(stage: string): number | undefined {
     const timing = this.timings.get(stage);
-    if (!timing || !timing.end) return '';
-    const seconds = (timing.end - timing.start) / 1000;
-    if (seconds < 60) return `${seconds.toFixed(1)}s`;
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}m ${secs.toFixed(0)}s`;
+    if (!timing || !timing.end) return undefined;
+    return timing.end - timing.start;
   }
 
   /** Calculate cost for a specific stage */
   private stageCost(stage: string): number {
-    return this.records
+    return this.billed()
       .filter((r) => r.stage === stage)
       .reduce((sum, r) => sum + tokenCost(r.modelId, r.prompt, r.completion), 0);
   }
 
   /** Calculate total cost across all stages */
   totalCost(): number {
-    return this.records.reduce((sum, r) => sum + tokenCost(r.modelId, r.prompt, r.completion), 0);
+    return this.billed().reduce((sum, r) => sum + tokenCost(r.modelId, r.prompt, r.completion), 0);
+  }
+
+  /** Cost avoided by cache hits (what those calls would have cost) */
+  savedCost(): number {
+    return this.records
+      .filter((r) => r.cached)
+      .reduce((sum, r) => sum + tokenCost(r.modelId, r.prompt, r.completion), 0);
   }
 
-  /** Total tokens across all stages */
+  /** Total billed tokens across all stages */
   private totalTokens(): { prompt: number; completion: number } {
-    return this.records.reduce(
+    return this.billed().reduce(
       (acc, r) => ({ prompt: acc.prompt + r.prompt, completion: acc.completion + r.completion }),
       { prompt: 0, completion: 0 }
     );
   }
 
+  /** Structured cost breakdown, per stage in order of first call */
+  breakdown(): CostBreakdown {
+    const stages = [...new Set(this.records.map((r) => r.stage))].map((stage): StageCost => {
+      const stageRecords = this.records.filter((r) => r.stage === stage);
+      const calls = stageRecords.filter((r) => !r.cached).length;
+      return {
+        stage,
+        costUSD: this.stageCost(stage),
+        calls,
+        cachedCalls: stageRecords.length - calls,
+        elapsedMs: this.stageElapsedMs(stage),
+      };
+    });
+
+    return {
+      totalUSD: this.totalCost(),
+      savedUSD: this.savedCost(),
+      tokens: this.totalTokens(),
+      stages,
+    };
+  }
+
   /** Format cost summary lines for the completion box */
   formatSummary(): string[] {
     if (this.records.length === 0) return [];
+    return CostTracker.formatBreakdown(this.breakdown());
+  }
+
+  /** Format a cost breakdown as summary-box lines */
+  static formatBreakdown(breakdown: CostBreakdown): string[] {
+    if (breakdown.stages.length === 0) return [];
 
     const lines: string[] = ['', 'Cost Breakdown:'];
-    const stages = [...new Set(this.records.map((r) => r.stage))];
-
-    for (const stage of stages) {
-      const cost = this.stageCost(stage);
-      const elapsed = this.stageElapsed(stage);
-      const calls = this.records.filter((r) => r.stage === stage).length;
-      const timeStr = elapsed ? ` (${elapsed})` : '';
-      lines.push(`  ${stage}: $${cost.toFixed(4)} (${calls} API call${calls !== 1 ? 's' : ''})${timeStr}`);
+
+    for (const { stage, costUSD, calls, cachedCalls, elapsedMs } of breakdown.stages) {
+      const timeStr = elapsedMs !== undefined ? ` (${fmtElapsed(elapsedMs)})` : '';
+      const hitStr = cachedCalls > 0 ? `, ${cachedCalls} cached` : '';
+      lines.push(`  ${stage}: $${costUSD.toFixed(4)} (${calls} API call${calls !== 1 ? 's' : ''}${hitStr})${timeStr}`);
     }
 
-    const totals = this.totalTokens();
-    const total = this.totalCost();
+    const { tokens } = breakdown;
     lines.push('');
-    lines.push(`Total: $${total.toFixed(4)} (${fmtTokens(totals.prompt)} in / ${fmtTokens(totals.completion)} out)`);
+    lines.push(`Total: $${breakdown.totalUSD.toFixed(4)} (${fmtTokens(tokens.prompt)} in / ${fmtTokens(tokens.completion)} out)`);
+
+    const hits = breakdown.stages.reduce((sum, s) => sum + s.cachedCalls, 0);
+    if (hits > 0) {
+      lines.push(`Cache: ${hits} hit${hits !== 1 ? 's' : ''} — saved ~$${breakdown.savedUSD.toFixed(4)}`);
+    }
 
     return lines;
   }
 
   // ─── Dry-run estimation ──────────────────────────────────────────────────
 
-  /** Estimate cost for a dry run without making API calls */
+  /** Estimated total cost of the selected Stages 2, 2b and 3, matching estimateDryRun */
+  static estimateDryRunTotal(
+    screenshotModels: Array<{ id: string }>,
+    videoModel: { id: string },
+    synthesisModel: { id: string },
+    gridCount: number,
+    videoCount: number,
+    skipVideo: boolean,
+    include: DryRunInclude = { screenshot: true, synthesis: true }
+  ): number {
+    const ssCost = !include.screenshot ? 0 : screenshotModels.reduce(
+      (sum, m) => sum + tokenCost(m.id, ESTIMATES.screenshot.input, ESTIMATES.screenshot.output) * gridCount,
+      0
+    );
+    const vidCost = skipVideo ? 0 : tokenCost(videoModel.id, ESTIMATES.video.input, ESTIMATES.video.output) * videoCount;
+    const synCost = include.synthesis ? CostTracker.estimateSynthesis(synthesisModel, include.synthesisCalls) : 0;
+    return ssCost + vidCost + synCost;
+  }
+
+  /**
+   * Estimated cost of Stage 3. With map-reduce (`calls` > 1) the map calls
+   * share the usual input between them and the merge call reads their outputs.
+   */
+  static estimateSynthesis(synthesisModel: { id: string }, calls = 1): number {
+    const { input, output } = ESTIMATES.synthesis;
+    return tokenCost(synthesisModel.id, input + (calls - 1) * output, calls * output);
+  }
+
+  /** Expected tokens of the Stage 2/2b analyses that Stage 3 reads */
+  static estimateAnalysisTokens(screenshotCalls: number, videoCount: number): number {
+    return screenshotCalls * ESTIMATES.screenshot.output + videoCount * ESTIMATES.video.output;
+  }
+
+  /**
+   * Estimate cost for a dry run without making API calls.
+   * `include` limits the estimate to the selected Stage 2 / Stage 3.
+   */
   static estimateDryRun(
     screenshotModels: Array<{ id: string; name: string }>,
     videoModel: { id: string; name: string },
     synthesisModel: { id: string; name: string },
     gridCount: number,
     videoCount: number,
-    skipVideo: boolean
+    skipVideo: boolean,
+    include: DryRunInclude = { screenshot: true, synthesis: true }
   ): string[] {
     const lines: string[] = [];
 
     // Screenshot analysis
-    const ssCallCount = gridCount * screenshotModels.length;
+    const ssCallCount = include.screenshot ? gridCount * screenshotModels.length : 0;
     let ssCost = 0;
-    for (const model of screenshotModels) {
-      const cost = tokenCost(model.id, ESTIMATES.screenshot.input, ESTIMATES.screenshot.output) * gridCount;
-      ssCost += cost;
-    }
-    lines.push(`Stage 2 — Screenshot Analysis`);
-    lines.push(`  ${gridCount} grids x ${screenshotModels.length} models = ${ssCallCount} API calls`);
-    for (const m of screenshotModels) {
-      const pricing = getPricing(m.id);
-      lines.push(`    ${m.name} (${m.id}) — $${pricing.input}/$${pricing.output} per 1M tok`);
+    if (include.screenshot) {
+      for (const model of screenshotModels) {
+        const cost = tokenCost(model.id, ESTIMATES.screenshot.input, ESTIMATES.screenshot.output) * gridCount;
+        ssCost += cost;
+      }
+      lines.push(`Stage 2 — Screenshot Analysis`);
+      lines.push(`  ${gridCount} grids x ${screenshotModels.length} models = ${ssCallCount} API calls`);
+      for (const m of screenshotModels) {
+        const pricing = getPricing(m.id);
+        lines.push(`    ${m.name} (${m.id}) — $${pricing.input}/$${pricing.output} per 1M tok`);
+      }
+      lines.push(`  Estimated cost: ~$${ssCost.toFixed(4)}`);
+      lines.push('');
     }
-    lines.push(`  Estimated cost: ~$${ssCost.toFixed(4)}`);
-    lines.push('');
 
     // Video analysis
     let vidCost = 0;
@@ -187,16 +283,20 @@ export class CostTracker {
     }
 
     // Synthesis
-    const synCost = tokenCost(synthesisModel.id, ESTIMATES.synthesis.input, ESTIMATES.synthesis.output);
-    lines.push(`Stage 3 — Synthesis`);
-    lines.push(`  1 API call`);
-    const sp = getPricing(synthesisModel.id);
-    lines.push(`    ${synthesisModel.name} (${synthesisModel.id}) — $${sp.input}/$${sp.output} per 1M tok`);
-    lines.push(`  Estimated cost: ~$${synCost.toFixed(4)}`);
-    lines.push('');
+    let synCost = 0;
+    const synCalls = include.synthesis ? include.synthesisCalls ?? 1 : 0;
+    if (include.synthesis) {
+      synCost = CostTracker.estimateSynthesis(synthesisModel, synCalls);
+      lines.push(`Stage 3 — Synthesis`);
+      lines.push(synthesisCallsLine(synCalls));
+      const sp = getPricing(synthesisModel.id);
+      lines.push(`    ${synthesisModel.name} (${synthesisModel.id}) — $${sp.input}/$${sp.output} per 1M tok`);
+      lines.push(`  Estimated cost: ~$${synCost.toFixed(4)}`);
+      lines.push('');
+    }
 
     // Total
-    const totalCalls = ssCallCount + (skipVideo ? 0 : videoCount) + 1;
+    const totalCalls = ssCallCount + (skipVideo ? 0 : videoCount) + synCalls;
     const totalCost = ssCost + vidCost + synCost;
     lines.push(`Total: ${totalCalls} API call${totalCalls !== 1 ? 's' : ''} — estimated ~$${totalCost.toFixed(4)}`);
 
@@ -204,6 +304,19 @@ export class CostTracker {
   }
 }
 
+/** "1 API call", or the map-reduce breakdown */
+export function synthesisCallsLine(calls: number): string {
+  return calls === 1 ? '  1 API call' : `  ${calls} API calls (map-reduce: ${calls - 1} personas + merge)`;
+}
+
+function fmtElapsed(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}m ${secs.toFixed(0)}s`;
+}
+
 function fmtTokens(n: number): string {
   if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
   if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
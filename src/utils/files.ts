@@ -7,17 +7,22 @@ import * as path from 'path';
 import type { RunArtifacts } from '../types.js';
 
 /**
- * Find the most recent run-* directory in the artifacts dir.
+ * All run-* directories in the artifacts dir, oldest first.
  */
-export function findLatestRun(artifactsDir: string): string | undefined {
-  if (!fs.existsSync(artifactsDir)) return undefined;
+export function listRunDirs(artifactsDir: string): string[] {
+  if (!fs.existsSync(artifactsDir)) return [];
 
-  const runs = fs.readdirSync(artifactsDir)
+  return fs.readdirSync(artifactsDir)
     .filter(d => d.startsWith('run-') && fs.statSync(path.join(artifactsDir, d)).isDirectory())
     .sort()
-    .reverse();
+    .map(d => path.join(artifactsDir, d));
+}
 
-  return runs.length > 0 ? path.join(artifactsDir, runs[0]) : undefined;
+/**
+ * Find the most recent run-* directory in the artifacts dir.
+ */
+export function findLatestRun(artifactsDir: string): string | undefined {
+  return listRunDirs(artifactsDir).at(-1);
 }
 
 /**
@@ -0,0 +1,10 @@
+/**
+ * QuorumUX — HTML Helpers
+ *
+ * Shared by the standalone HTML pages (trend.html, ux-analysis-report.html).
+ */
+
+/** Escape text for HTML content and double-quoted attributes */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
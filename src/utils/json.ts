@@ -0,0 +1,33 @@
+/**
+ * QuorumUX — Model JSON Helpers
+ *
+ * Models wrap JSON answers in code fences or surround them with prose;
+ * these helpers get at the object itself.
+ */
+
+/**
+ * Pull the JSON object out of a model response: a fenced code block if
+ * present, otherwise the outermost braces.
+ */
+export function extractJsonObject(raw: string): string | null {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) return fenced[1].trim();
+
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  return start !== -1 && end > start ? raw.substring(start, end + 1) : null;
+}
+
+/**
+ * Extract and parse the JSON object in a model response, or explain why not
+ */
+export function parseJsonObject(raw: string): { data?: any; error?: string } {
+  const json = extractJsonObject(raw);
+  if (!json) return { error: 'no JSON object in response' };
+
+  try {
+    return { data: JSON.parse(json) };
+  } catch (err) {
+    return { error: `invalid JSON: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { Scheduler } from './scheduler.js';
+
+const modelA = { id: 'model/a', name: 'a' };
+const modelB = { id: 'model/b', name: 'b' };
+
+/** Task that records peak concurrency and resolves on the next macrotask */
+function tracked(counter: { active: number; peak: number }, value: number) {
+  return async () => {
+    counter.active++;
+    counter.peak = Math.max(counter.peak, counter.active);
+    await new Promise((r) => setTimeout(r, 1));
+    counter.active--;
+    return value;
+  };
+}
+
+describe('Scheduler', () => {
+  it('enforces the global limit', async () => {
+    const scheduler = new Scheduler({ global: 2, perModel: 10 });
+    const counter = { active: 0, peak: 0 };
+    await Promise.all([1, 2, 3, 4, 5].map((n) => scheduler.run(n % 2 ? modelA : modelB, tracked(counter, n))));
+    expect(counter.peak).toBe(2);
+  });
+
+  it('enforces the per-model limit', async () => {
+    const scheduler = new Scheduler({ global: 10, perModel: 1 });
+    const counterA = { active: 0, peak: 0 };
+    const counterB = { active: 0, peak: 0 };
+    await Promise.all([
+      scheduler.run(modelA, tracked(counterA, 1)),
+      scheduler.run(modelA, tracked(counterA, 2)),
+      scheduler.run(modelB, tracked(counterB, 3)),
+      scheduler.run(modelB, tracked(counterB, 4)),
+    ]);
+    expect(counterA.peak).toBe(1);
+    expect(counterB.peak).toBe(1);
+  });
+
+  it('lets other models run while one model is saturated', async () => {
+    const scheduler = new Scheduler({ global: 2, perModel: 1 });
+    const order: string[] = [];
+    const task = (label: string) => async () => {
+      order.push(`start ${label}`);
+      await new Promise((r) => setTimeout(r, 1));
+    };
+    await Promise.all([
+      scheduler.run(modelA, task('a1')),
+      scheduler.run(modelA, task('a2')),
+      scheduler.run(modelB, task('b1')),
+    ]);
+    expect(order.slice(0, 2)).toEqual(['start a1', 'start b1']);
+  });
+
+  it('returns results in submission order', async () => {
+    const scheduler = new Scheduler({ global: 3 });
+    const results = await Promise.all(
+      [30, 10, 20].map((ms) => scheduler.run(modelA, async () => {
+        await new Promise((r) => setTimeout(r, ms));
+        return ms;
+      }))
+    );
+    expect(results).toEqual([30, 10, 20]);
+  });
+
+  it('propagates task errors and frees the slot', async () => {
+    const scheduler = new Scheduler({ global: 1 });
+    await expect(scheduler.run(modelA, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(scheduler.run(modelA, async () => 'ok')).resolves.toBe('ok');
+    expect(scheduler.inFlight).toBe(0);
+  });
+});
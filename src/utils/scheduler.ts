@@ -0,0 +1,76 @@
+/**
+ * QuorumUX — Concurrency Scheduler
+ *
+ * Shared queue for model API calls across Stage 2 and 2b. Enforces a global
+ * limit on in-flight calls plus a per-model limit, starting queued tasks in
+ * FIFO order as soon as both limits allow.
+ */
+
+import type { ConcurrencyConfig, ModelSpec } from '../types.js';
+
+export const DEFAULT_CONCURRENCY: Required<ConcurrencyConfig> = {
+  global: 8,
+  perModel: 3,
+};
+
+interface QueuedTask {
+  lane: string;
+  start: () => void;
+}
+
+export class Scheduler {
+  private readonly global: number;
+  private readonly perModel: number;
+  private active = 0;
+  private activeByLane = new Map<string, number>();
+  private queue: QueuedTask[] = [];
+
+  constructor(config: ConcurrencyConfig = {}) {
+    this.global = Math.max(1, config.global ?? DEFAULT_CONCURRENCY.global);
+    this.perModel = Math.max(1, config.perModel ?? DEFAULT_CONCURRENCY.perModel);
+  }
+
+  /**
+   * Run `task` once a global slot and a slot for `model` are free.
+   * Resolves or rejects with the task's result.
+   */
+  run<T>(model: ModelSpec, task: () => Promise<T>): Promise<T> {
+    const lane = `${model.provider ?? 'openrouter'}:${model.id}`;
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        lane,
+        start: () => {
+          task().then(resolve, reject).finally(() => this.release(lane));
+        },
+      });
+      this.drain();
+    });
+  }
+
+  /** Number of calls currently in flight */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  private release(lane: string): void {
+    this.active--;
+    this.activeByLane.set(lane, (this.activeByLane.get(lane) ?? 1) - 1);
+    this.drain();
+  }
+
+  /** Start every queued task whose limits allow, preserving FIFO order per lane */
+  private drain(): void {
+    for (let i = 0; i < this.queue.length && this.active < this.global; ) {
+      const next = this.queue[i];
+      if ((this.activeByLane.get(next.lane) ?? 0) >= this.perModel) {
+        i++;
+        continue;
+      }
+      this.queue.splice(i, 1);
+      this.active++;
+      this.activeByLane.set(next.lane, (this.activeByLane.get(next.lane) ?? 0) + 1);
+      next.start();
+    }
+  }
+}
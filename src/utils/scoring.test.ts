@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeScore, calculateAdjustedScore } from './scoring.js';
-import type { Synthesis } from '../types.js';
+import { normalizeScore, calculateAdjustedScore, computeScore, resolveScoring, DEFAULT_SCORING } from './scoring.js';
+import type { ConsensusIssue, PersonaSummary, Synthesis } from '../types.js';
 
 function makeSynthesis(overrides: Partial<Synthesis> = {}): Synthesis {
   return {
@@ -120,3 +120,101 @@ describe('calculateAdjustedScore', () => {
     expect(adjusted).toBeGreaterThan(50);
   });
 });
+
+function consensus(severity: 'P0' | 'P1' | 'P2', affectedPersonas: string[], source: 'app' | 'test-infra' = 'app'): ConsensusIssue {
+  return {
+    id: `QUX-${severity}`, title: 'Issue', severity, category: 'Function',
+    description: '', recommendation: '', effort: 'low', source,
+    evidence: { screenshotModels: ['a', 'b'], videoConfirmed: false, testRunConfirmed: false, affectedPersonas },
+    temporalInsight: null,
+  };
+}
+
+function summary(pass: number, friction: number, fail: number): PersonaSummary {
+  return {
+    runId: 'r1', persona: 'P', personaId: 'p', timestamp: '', totalSteps: pass + friction + fail,
+    results: { pass, friction, fail }, issues: [], flowScores: {},
+    retentionAssessment: '', topFrictionPoint: '', topDelight: '',
+  };
+}
+
+describe('resolveScoring', () => {
+  it('merges partial config over the defaults', () => {
+    const weights = resolveScoring({ severityWeights: { P0: 20 }, personaWeight: 0 });
+    expect(weights.severityWeights).toEqual({ P0: 20, P1: 5, P2: 2 });
+    expect(weights.personaWeight).toBe(0);
+    expect(weights.evidenceWeights).toEqual(DEFAULT_SCORING.evidenceWeights);
+  });
+
+  it('takes severity weights from a custom taxonomy', () => {
+    const taxonomy = {
+      severities: [
+        { name: 'Sev1', description: 'outage', weight: 12 },
+        { name: 'Sev2', description: 'major', weight: 6 },
+      ],
+      categories: ['functional'],
+    };
+    const weights = resolveScoring({ severityWeights: { Sev2: 4 } }, taxonomy);
+    expect(weights.severityWeights).toEqual({ Sev1: 12, Sev2: 4 });
+  });
+});
+
+describe('computeScore', () => {
+  it('scores a synthesis with no issues or test results at 100', () => {
+    const breakdown = computeScore(makeSynthesis(), [], 2);
+    expect(breakdown).toEqual({ score: 100, personaCount: 2, testResults: { pass: 0, friction: 0, fail: 0 }, components: [] });
+  });
+
+  it('ignores the model score and is deterministic', () => {
+    const issues = { consensusIssues: [consensus('P0', ['p1', 'p2'])] };
+    const a = computeScore(makeSynthesis({ ...issues, overallAssessment: { ...makeSynthesis().overallAssessment, uxScore: 20 } }), [], 2);
+    const b = computeScore(makeSynthesis(issues), [], 2);
+    expect(a).toEqual(b);
+    expect(a.score).toBe(90);
+  });
+
+  it('scales deductions by evidence, confidence and affected-persona ratio', () => {
+    const breakdown = computeScore(
+      makeSynthesis({
+        consensusIssues: [consensus('P1', ['p1'])],
+        modelUniqueIssues: [
+          { title: 'Contrast', reportedBy: 'gpt', severity: 'P0', description: '', recommendation: '', confidence: 'low' },
+        ],
+      }),
+      [],
+      4
+    );
+
+    // P1 consensus: 5 x 1 x (0.5 + 0.5 x 1/4) = 3.125; P0 model-unique: 10 x 0.4 x 0.5 x 0.625 = 1.25
+    expect(breakdown.components).toEqual([
+      { label: 'P1 consensus', count: 1, points: 3.1 },
+      { label: 'P0 model-unique', count: 1, points: 1.3 },
+    ]);
+    expect(breakdown.score).toBe(96);
+  });
+
+  it('deducts fail and friction step rates from the test summaries', () => {
+    const breakdown = computeScore(makeSynthesis(), [summary(6, 2, 2), summary(10, 0, 0)], 2);
+    expect(breakdown.testResults).toEqual({ pass: 16, friction: 2, fail: 2 });
+    expect(breakdown.components).toEqual([
+      { label: 'fail steps', count: 2, points: 3 },
+      { label: 'friction steps', count: 2, points: 1 },
+    ]);
+    expect(breakdown.score).toBe(96);
+  });
+
+  it('reports an adjusted score only when test-infra issues exist', () => {
+    const synthesis = makeSynthesis({ consensusIssues: [consensus('P0', []), consensus('P0', [], 'test-infra')] });
+    const breakdown = computeScore(synthesis, [], 1, resolveScoring({ testInfraDiscount: 0.5 }));
+
+    expect(breakdown.score).toBe(80);
+    expect(breakdown.adjustedScore).toBe(85);
+    expect(calculateAdjustedScore({ ...synthesis, scoreBreakdown: breakdown })).toBe(85);
+    expect(computeScore(makeSynthesis({ consensusIssues: [consensus('P0', [])] }), [], 1).adjustedScore).toBeUndefined();
+  });
+
+  it('clamps heavy deductions at 0', () => {
+    const issues = Array.from({ length: 12 }, () => consensus('P0', []));
+    expect(computeScore(makeSynthesis({ consensusIssues: issues }), [summary(0, 0, 5)], 1).score).toBe(0);
+  });
+});
@@ -1,25 +1,187 @@
 /**
  * QuorumUX — Scoring Utilities
  *
- * Shared scoring functions used by report generation and run comparison.
+ * Shared scoring functions used by synthesis, report generation and run
+ * comparison. The UX score is computed from the issues and test results
+ * rather than taken from the synthesis model, so identical inputs always
+ * score the same.
  */
 
-import type { Synthesis } from '../types.js';
+import type {
+  ConsensusIssue,
+  ModelUniqueIssue,
+  PersonaSummary,
+  ScoreBreakdown,
+  ScoreComponent,
+  ScoringConfig,
+  Synthesis,
+  Taxonomy,
+  VideoOnlyIssue,
+} from '../types.js';
+import { DEFAULT_TAXONOMY } from '../config/taxonomy.js';
 
-/** Severity weights for score adjustment calculation */
-const SEVERITY_WEIGHT: Record<string, number> = { P0: 10, P1: 5, P2: 2 };
+/** Scoring weights with every default filled in */
+export interface ScoringWeights {
+  /** Points per severity name */
+  severityWeights: Record<string, number>;
+  evidenceWeights: Record<'consensus' | 'videoOnly' | 'modelUnique', number>;
+  personaWeight: number;
+  testResultWeights: Record<'fail' | 'friction', number>;
+  testInfraDiscount: number;
+}
+
+export const DEFAULT_SCORING: ScoringWeights = {
+  severityWeights: severityWeightsOf(DEFAULT_TAXONOMY),
+  evidenceWeights: { consensus: 1, videoOnly: 0.7, modelUnique: 0.4 },
+  personaWeight: 0.5,
+  testResultWeights: { fail: 30, friction: 10 },
+  testInfraDiscount: 0.25,
+};
+
+/** Model-unique deductions also scale with the synthesis model's confidence */
+const CONFIDENCE_FACTOR: Record<ModelUniqueIssue['confidence'], number> = { high: 1, medium: 0.75, low: 0.5 };
+
+/** Severity weights as defined by a taxonomy's levels */
+function severityWeightsOf(taxonomy: Taxonomy): Record<string, number> {
+  return Object.fromEntries(taxonomy.severities.map((level) => [level.name, level.weight]));
+}
+
+/**
+ * Merge a config's scoring block over the defaults. Severity weights start
+ * from the taxonomy's levels; `severityWeights` overrides them by name.
+ */
+export function resolveScoring(config: ScoringConfig = {}, taxonomy: Taxonomy = DEFAULT_TAXONOMY): ScoringWeights {
+  return {
+    severityWeights: { ...severityWeightsOf(taxonomy), ...config.severityWeights },
+    evidenceWeights: { ...DEFAULT_SCORING.evidenceWeights, ...config.evidenceWeights },
+    personaWeight: config.personaWeight ?? DEFAULT_SCORING.personaWeight,
+    testResultWeights: { ...DEFAULT_SCORING.testResultWeights, ...config.testResultWeights },
+    testInfraDiscount: config.testInfraDiscount ?? DEFAULT_SCORING.testInfraDiscount,
+  };
+}
+
+type ScoredIssue =
+  | { type: 'consensus'; issue: ConsensusIssue }
+  | { type: 'video-only'; issue: VideoOnlyIssue }
+  | { type: 'model-unique'; issue: ModelUniqueIssue };
+
+/** Personas an issue was seen in; model-unique issues only know theirs through citations */
+function affectedPersonaCount(scored: ScoredIssue): number {
+  switch (scored.type) {
+    case 'consensus':
+      return scored.issue.evidence.affectedPersonas.length;
+    case 'video-only':
+      return 1;
+    case 'model-unique':
+      return new Set(scored.issue.citations?.map((c) => c.persona)).size || 1;
+  }
+}
+
+/** Evidence multiplier for an issue */
+function evidenceFactor(scored: ScoredIssue, weights: ScoringWeights): number {
+  switch (scored.type) {
+    case 'consensus':
+      return weights.evidenceWeights.consensus;
+    case 'video-only':
+      return weights.evidenceWeights.videoOnly;
+    case 'model-unique':
+      return weights.evidenceWeights.modelUnique * CONFIDENCE_FACTOR[scored.issue.confidence];
+  }
+}
+
+/** Round to one decimal place */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Compute the UX score for a synthesis.
+ *
+ * Each issue deducts severity weight x evidence multiplier x persona factor,
+ * where the persona factor runs from (1 - personaWeight) for an issue seen
+ * by one persona to 1 for an issue seen by all of them (an empty
+ * affectedPersonas list counts as all). Fail and friction step rates from
+ * the test summaries deduct up to their configured weights. The adjusted
+ * score repeats the sum with test-infra issues at `testInfraDiscount`.
+ * Suppressed issues deduct nothing.
+ */
+export function computeScore(
+  synthesis: Synthesis,
+  summaries: PersonaSummary[],
+  personaCount: number,
+  weights: ScoringWeights = DEFAULT_SCORING
+): ScoreBreakdown {
+  const issues: ScoredIssue[] = [
+    ...synthesis.consensusIssues.map((issue) => ({ type: 'consensus' as const, issue })),
+    ...synthesis.videoOnlyIssues.map((issue) => ({ type: 'video-only' as const, issue })),
+    ...synthesis.modelUniqueIssues.map((issue) => ({ type: 'model-unique' as const, issue })),
+  ].filter((scored) => scored.issue.status !== 'suppressed');
+  const personas = Math.max(personaCount, 1);
 
-/** Discount factor applied to test-infra issues in adjusted score */
-const TEST_INFRA_DISCOUNT = 0.25;
+  const components = new Map<string, ScoreComponent>();
+  let deducted = 0;
+  let testInfraDeducted = 0;
+
+  for (const scored of issues) {
+    const affected = affectedPersonaCount(scored);
+    const ratio = affected === 0 ? 1 : Math.min(affected / personas, 1);
+    const personaFactor = 1 - weights.personaWeight + weights.personaWeight * ratio;
+    const points = (weights.severityWeights[scored.issue.severity] ?? 0) * evidenceFactor(scored, weights) * personaFactor;
+
+    deducted += points;
+    const testInfra = scored.issue.source === 'test-infra';
+    if (testInfra) testInfraDeducted += points;
+
+    const label = `${scored.issue.severity} ${scored.type}${testInfra ? ' (test-infra)' : ''}`;
+    const component = components.get(label) ?? { label, count: 0, points: 0 };
+    component.count++;
+    component.points += points;
+    components.set(label, component);
+  }
+
+  const testResults = { pass: 0, friction: 0, fail: 0 };
+  for (const summary of summaries) {
+    testResults.pass += summary.results.pass;
+    testResults.friction += summary.results.friction;
+    testResults.fail += summary.results.fail;
+  }
+  const steps = testResults.pass + testResults.friction + testResults.fail;
+  if (steps > 0) {
+    for (const kind of ['fail', 'friction'] as const) {
+      if (testResults[kind] === 0) continue;
+      const points = weights.testResultWeights[kind] * (testResults[kind] / steps);
+      deducted += points;
+      components.set(`${kind} steps`, { label: `${kind} steps`, count: testResults[kind], points });
+    }
+  }
+
+  const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+  const score = clamp(100 - deducted);
+  const adjustedScore = testInfraDeducted > 0
+    ? clamp(100 - deducted + testInfraDeducted * (1 - weights.testInfraDiscount))
+    : undefined;
+
+  return {
+    score,
+    ...(adjustedScore !== undefined ? { adjustedScore } : {}),
+    personaCount: personas,
+    testResults,
+    components: [...components.values()].map((c) => ({ ...c, points: round1(c.points) })),
+  };
+}
 
 /**
  * Calculate an adjusted UX score that discounts test-infra issues.
  *
  * Returns undefined if no test-infra issues exist (adjusted = raw).
- * Otherwise: reduces the severity weight of test-infra issues to 0.25x
- * and proportionally adjusts the points lost from the raw score.
+ * A computed score carries its own adjusted score in `scoreBreakdown`.
+ * For older syntheses scored by the model: reduces the severity weight of
+ * test-infra issues to `testInfraDiscount` and proportionally adjusts the
+ * points lost from the raw score.
  */
-export function calculateAdjustedScore(synthesis: Synthesis): number | undefined {
+export function calculateAdjustedScore(synthesis: Synthesis, weights: ScoringWeights = DEFAULT_SCORING): number | undefined {
+  if (synthesis.scoreBreakdown) return synthesis.scoreBreakdown.adjustedScore;
+
   const allIssues = [
     ...synthesis.consensusIssues,
     ...synthesis.videoOnlyIssues,
@@ -38,7 +200,7 @@ export function calculateAdjustedScore(synthesis: Synthesis): number | undefined
   let testInfraWeight = 0;
 
   for (const issue of allIssues) {
-    const w = SEVERITY_WEIGHT[issue.severity] || 0;
+    const w = weights.severityWeights[issue.severity] || 0;
     totalWeight += w;
     if (issue.source === 'test-infra') {
       testInfraWeight += w;
@@ -48,7 +210,7 @@ export function calculateAdjustedScore(synthesis: Synthesis): number | undefined
   if (totalWeight === 0) return rawScore;
 
   // Adjusted total = app weight at 1x + test-infra weight at discount
-  const adjustedTotal = (totalWeight - testInfraWeight) + testInfraWeight * TEST_INFRA_DISCOUNT;
+  const adjustedTotal = (totalWeight - testInfraWeight) + testInfraWeight * weights.testInfraDiscount;
   const adjustedPointsLost = pointsLost * (adjustedTotal / totalWeight);
 
   return Math.round(100 - adjustedPointsLost);